@@ -102,6 +102,13 @@ export default function LoanTabLayout() {
                     ),
                 }} 
             />
+            <Tabs.Screen 
+                name="refinance" 
+                options={{ 
+                    title: "Refinance",
+                    href: null,
+                }} 
+            />
         </Tabs>
     );
 }
@@ -14,6 +14,7 @@ export default function LoanTabLayoutWeb() {
             <Tabs.Screen name="overview" />
             <Tabs.Screen name="payments" />
             <Tabs.Screen name="schedule" />
+            <Tabs.Screen name="refinance" />
         </Tabs>
     );
 }
\ No newline at end of file
@@ -12,19 +12,23 @@ import { theme } from '../../../constants/theme';
 // Import custom reusable components
 import InputField from "../../../components/InputField";
 import TermSelector from "../../../components/TermSelector";
+import OptionSelector from "../../../components/OptionSelector";
 import DatePicker from "../../../components/DatePicker";
 import PaymentSummary from "../../../components/PaymentSummary";
+import ScheduleWarnings from "../../../components/ScheduleWarnings";
+import CreditLineSummary from "../../../components/CreditLineSummary";
+import CreditCardPayoffComparison from "../../../components/CreditCardPayoffComparison";
 import DualLineChart from "../../../components/DualLineChart";
 import { EarlyPayment, isValidEarlyPayment } from "../../../components/EarlyPaymentList";
 import { RateAdjustment } from "../../../components/RateAdjustmentList";
 import { AutoSaveIndicator, AutoSaveHandle } from "../../../components/AutoSaveIndicator";
 import EditModal from "../../../components/EditModal";
 // Import calculation utilities
-import { calculatePayment, generatePaymentSchedule, calculateSavings, convertTermToMonths } from "../../../utils/loanCalculations";
+import { calculatePayment, generatePaymentSchedule, generatePaymentScheduleWithDiagnostics, describeScheduleDiagnostic, calculateSavings, getScheduleTotals, convertTermToMonths, convertTermToPayments, getPaymentDate, getPaymentFrequencyLabel, PaymentFrequency, DayCountConvention, DAY_COUNT_CONVENTIONS, getDayCountConventionLabel, CompoundingFrequency, COMPOUNDING_FREQUENCIES, getCompoundingFrequencyLabel, AmortizationType, AMORTIZATION_TYPES, InterestMethod, INTEREST_METHODS, getAmortizationTypeLabel, getInterestMethodLabel, getGraduatedPaymentLabel, getPaymentRange, generateArmRateAdjustments, calculateApr, getDiscountedTotals, getLoanStatus, discountCashFlows, ArmConfig, LoanFees, EscrowConfig, PaymentDeferral, GraduatedPaymentConfig, ValueAdjustment, CreditLineConfig, getCreditLinePhasesLabel, getCreditLineStatus, CreditCardConfig, getCreditCardMinimumLabel, MAX_CREDIT_CARD_APR, PrepaymentPolicy, getPrepaymentPolicyLabel } from "../../../utils/loanCalculations";
 // Import notification utilities
 import { schedulePaymentReminders, cancelLoanNotifications, scheduleNextPaymentReminder } from "../../../utils/notificationUtils";
-import { getNotificationPreferences, getCurrencyPreference, Currency } from "../../../utils/storage";
-import { formatCurrency } from "../../../utils/currencyUtils";
+import { getNotificationPreferences, getCurrencyPreference, getValueAdjustmentPreferences, Currency } from "../../../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../../../utils/currencyUtils";
 // Import achievement tracking
 import { incrementProgress } from "../../../utils/achievementUtils";
 // Import PDF utilities - only on native platforms
@@ -44,12 +48,29 @@ export default function LoanOverviewScreen() {
     const [interestRate, setInterestRate] = useState("");
     const [term, setTerm] = useState("");
     const [termUnit, setTermUnit] = useState<"months" | "years">("months"); // Can be months or years
+    const [paymentFrequency, setPaymentFrequency] = useState<PaymentFrequency>("monthly");
+    const [interestOnlyMonths, setInterestOnlyMonths] = useState(""); // Optional interest-only period
+    const [amortizationYears, setAmortizationYears] = useState(""); // Optional amortization period for balloon loans
+    const [dayCountConvention, setDayCountConvention] = useState<DayCountConvention>("periodic");
+    const [compoundingFrequency, setCompoundingFrequency] = useState<CompoundingFrequency>("payment");
+    const [amortizationType, setAmortizationType] = useState<AmortizationType>("annuity");
+    const [interestMethod, setInterestMethod] = useState<InterestMethod>("simple");
     const [date, setDate] = useState(new Date());
     const [showDatePicker, setShowDatePicker] = useState(false);
     const [earlyPayments, setEarlyPayments] = useState<EarlyPayment[]>([]); // List of additional payments
     const [rateAdjustments, setRateAdjustments] = useState<RateAdjustment[]>([]); // List of rate changes
+    const [arm, setArm] = useState<ArmConfig | undefined>(undefined); // Adjustable-rate terms that generate rate changes
+    const [fees, setFees] = useState<LoanFees | undefined>(undefined); // Fees and points, used for the APR
+    const [graduated, setGraduated] = useState<GraduatedPaymentConfig | undefined>(undefined); // Stepped payments
+    const [creditLine, setCreditLine] = useState<CreditLineConfig | undefined>(undefined); // Revolving credit line (HELOC)
+    const [creditCard, setCreditCard] = useState<CreditCardConfig | undefined>(undefined); // Revolving credit card
+    const [prepaymentPolicy, setPrepaymentPolicy] = useState<PrepaymentPolicy | undefined>(undefined); // Allowance and penalties on early payments
+    const [escrow, setEscrow] = useState<EscrowConfig | undefined>(undefined); // Taxes, insurance and PMI shown with each payment
+    const [deferrals, setDeferrals] = useState<PaymentDeferral[]>([]); // Payment pauses
+    const [refinancedInto, setRefinancedInto] = useState<string | undefined>(undefined); // Loan that replaced this one
     const autoSaveRef = useRef<AutoSaveHandle>(null);
     const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [valueAdjustment, setValueAdjustment] = useState<ValueAdjustment>({}); // Inflation and discount rates for real totals
     const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
     const [isDuplicating, setIsDuplicating] = useState(false);
     const [isLoading, setIsLoading] = useState(true); // Loading state for initial data fetch
@@ -62,6 +83,13 @@ export default function LoanOverviewScreen() {
         interestRate: string;
         term: string;
         termUnit: "months" | "years";
+        paymentFrequency: PaymentFrequency;
+        interestOnlyMonths: string;
+        amortizationYears: string;
+        dayCountConvention: DayCountConvention;
+        compoundingFrequency: CompoundingFrequency;
+        amortizationType: AmortizationType;
+        interestMethod: InterestMethod;
         date: Date;
     } | null>(null);
     const [showDraftDatePicker, setShowDraftDatePicker] = useState(false);
@@ -141,12 +169,13 @@ export default function LoanOverviewScreen() {
                     autoSaveRef.current.forceSave();
                 }
             };
-        }, [loanId, loanName, loanAmount, interestRate, term, termUnit, date])
+        }, [loanId, loanName, loanAmount, interestRate, term, termUnit, paymentFrequency, interestOnlyMonths, amortizationYears, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, date])
     );
 
     const loadCurrency = async () => {
         const curr = await getCurrencyPreference();
         setCurrency(curr);
+        setValueAdjustment(await getValueAdjustmentPreferences());
     };
 
     const loadAdjustments = async () => {
@@ -164,10 +193,28 @@ export default function LoanOverviewScreen() {
                 if (loan) {
                     setEarlyPayments(loan.earlyPayments || []);
                     setRateAdjustments(loan.rateAdjustments || []);
+                    setArm(loan.arm);
+                    setFees(loan.fees);
+                    setGraduated(loan.graduated);
+                    setCreditLine(loan.creditLine);
+                    setCreditCard(loan.creditCard);
+                    setPrepaymentPolicy(loan.prepaymentPolicy);
+                    setEscrow(loan.escrow);
+                    setDeferrals(loan.deferrals || []);
+                    setRefinancedInto(loan.refinancedInto);
                 } else {
                     // Loan not found - clear adjustments
                     setEarlyPayments([]);
                     setRateAdjustments([]);
+                    setArm(undefined);
+                    setFees(undefined);
+                    setGraduated(undefined);
+                    setCreditLine(undefined);
+                    setCreditCard(undefined);
+                    setPrepaymentPolicy(undefined);
+                    setEscrow(undefined);
+                    setDeferrals([]);
+                    setRefinancedInto(undefined);
                 }
             }
         } catch (error) {
@@ -191,6 +238,13 @@ export default function LoanOverviewScreen() {
                     setInterestRate(loan.interestRate.toString());
                     setTerm(loan.term.toString());
                     setTermUnit(loan.termUnit);
+                    setPaymentFrequency(loan.paymentFrequency || 'monthly');
+                    setInterestOnlyMonths(loan.interestOnlyMonths ? loan.interestOnlyMonths.toString() : "");
+                    setAmortizationYears(loan.amortizationMonths ? (loan.amortizationMonths / 12).toString() : "");
+                    setDayCountConvention(loan.dayCountConvention || 'periodic');
+                    setCompoundingFrequency(loan.compoundingFrequency || 'payment');
+                    setAmortizationType(loan.amortizationType || 'annuity');
+                    setInterestMethod(loan.interestMethod || 'simple');
                     if (loan.startDate) {
                         // Parse date in local time to avoid timezone shifts
                         const [year, month, day] = loan.startDate.split('-').map(Number);
@@ -203,6 +257,15 @@ export default function LoanOverviewScreen() {
                     }
                     setEarlyPayments(loan.earlyPayments || []);
                     setRateAdjustments(loan.rateAdjustments || []);
+                    setArm(loan.arm);
+                    setFees(loan.fees);
+                    setGraduated(loan.graduated);
+                    setCreditLine(loan.creditLine);
+                    setCreditCard(loan.creditCard);
+                    setPrepaymentPolicy(loan.prepaymentPolicy);
+                    setEscrow(loan.escrow);
+                    setDeferrals(loan.deferrals || []);
+                    setRefinancedInto(loan.refinancedInto);
                 }
             }
         } catch (error) {
@@ -250,19 +313,45 @@ export default function LoanOverviewScreen() {
         const termValue = parseFloat(term);
         const termInMonths = convertTermToMonths(termValue, termUnit);
         
-        const { monthlyPayment } = calculatePayment({ principal, annualRate, termInMonths });
-        const schedule = generatePaymentSchedule({ 
+        const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+        const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+        const minorUnits = getCurrencyMinorUnits(currency);
+        
+        let { monthlyPayment, totalPayment } = calculatePayment({ principal, annualRate, termInMonths, paymentFrequency, interestOnlyMonths: interestOnlyPeriod, amortizationMonths: amortizationPeriod, compoundingFrequency, amortizationType, interestMethod, graduated, fees });
+        const scheduleParams = { 
             principal, 
             annualRate, 
             termInMonths, 
             startDate: date, 
+            paymentFrequency,
+            interestOnlyMonths: interestOnlyPeriod,
+            amortizationMonths: amortizationPeriod,
+            dayCountConvention,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
+            graduated,
+            creditLine,
+            creditCard,
+            prepaymentPolicy,
+            arm,
+            fees,
+            deferrals,
             earlyPayments,
-            rateAdjustments: getRateAdjustmentsForCalc()
-        });
+            rateAdjustments: getRateAdjustmentsForCalc(),
+            minorUnits
+        };
+        const schedule = generatePaymentSchedule(scheduleParams);
+        if (creditLine) {
+            monthlyPayment = schedule.find(payment => !payment.isInterestOnly)?.payment ?? 0;
+        } else if (creditCard) {
+            // A card's minimum falls with its balance, so keep the first one
+            monthlyPayment = schedule[0]?.payment ?? 0;
+        }
         // Calculate actual total based on payment schedule (includes early payments)
         const actualTotal = schedule.length > 0 
-            ? schedule.reduce((sum, payment) => sum + payment.payment, 0)
-            : monthlyPayment * (termUnit === "years" ? parseFloat(term) * 12 : parseFloat(term));
+            ? getScheduleTotals(schedule, minorUnits).totalPayment
+            : totalPayment;
 
         try {
             // Get existing loans from storage
@@ -275,23 +364,15 @@ export default function LoanOverviewScreen() {
                 // Get existing loan to preserve fields we don't manage here
                 const existingLoan = loans[loanIndex];
                 
-                // Calculate current month and get current payment amount from schedule
-                const monthsElapsed = Math.max(0, Math.floor((new Date().getTime() - new Date(date).getTime()) / (1000 * 60 * 60 * 24 * 30.44)));
-                const currentMonthlyPayment = schedule.length === 0 || monthsElapsed >= schedule.length
-                    ? monthlyPayment
-                    : schedule[monthsElapsed]?.payment || monthlyPayment;
-                const remainingBalance = schedule.length === 0 || monthsElapsed === 0
-                    ? parseFloat(loanAmount)
-                    : monthsElapsed >= schedule.length
-                        ? 0
-                        : Math.max(0, schedule[monthsElapsed]?.balance || 0);
+                // Current payment and balance as of today, from the payment schedule
+                const status = getLoanStatus(scheduleParams, new Date(), schedule);
+                const currentMonthlyPayment = creditLine || creditCard ? status.currentPayment : status.currentPayment || monthlyPayment;
+                const remainingBalance = status.balance;
                 
                 // Calculate freedom date (when loan will be paid off)
-                const freedomDate = schedule.length > 0 ? (() => {
-                    const finalDate = new Date(date);
-                    finalDate.setMonth(finalDate.getMonth() + schedule.length - 1);
-                    return finalDate.toISOString();
-                })() : null;
+                const freedomDate = schedule.length > 0
+                    ? getPaymentDate(date, schedule.length - 1, paymentFrequency).toISOString()
+                    : null;
                 
                 // Create updated loan object, preserving rateAdjustments and other fields
                 const updatedLoan = {
@@ -300,8 +381,15 @@ export default function LoanOverviewScreen() {
                     name: loanName,
                     amount: parseFloat(loanAmount),
                     interestRate: parseFloat(interestRate),
-                    term: parseFloat(term),
-                    termUnit,
+                    term: creditCard ? schedule.length : parseFloat(term), // A card's term follows its payoff
+                    termUnit: creditCard ? 'months' : termUnit,
+                    paymentFrequency,
+                    interestOnlyMonths: interestOnlyPeriod,
+                    amortizationMonths: amortizationPeriod,
+                    dayCountConvention,
+                    compoundingFrequency,
+                    amortizationType,
+                    interestMethod,
                     startDate: getStartDate(),
                     monthlyPayment,
                     totalPayment: actualTotal,
@@ -331,7 +419,8 @@ export default function LoanOverviewScreen() {
                         loanName,
                         paymentSchedule,
                         getStartDate(),
-                        notificationPrefs.reminderDays
+                        notificationPrefs.reminderDays,
+                        paymentFrequency
                     );
                 }
                 
@@ -365,38 +454,12 @@ export default function LoanOverviewScreen() {
             // Filter out invalid early payments before generating PDF
             const validEarlyPayments = earlyPayments.filter(isValidEarlyPayment);
             
-            // Calculate current payment (same as shown in UI)
-            const currentMonthlyPayment = paymentSchedule.length > 0 && monthsElapsed < paymentSchedule.length 
-                ? (paymentSchedule[monthsElapsed]?.payment || monthlyPayment) 
-                : monthlyPayment;
-            
-            // Calculate original totals (without early payments or rate adjustments)
-            const originalTotalPayment = monthlyPayment * termInMonths;
-            const originalTotalInterest = originalTotalPayment - parseFloat(loanAmount || '0');
+            // Current payment and rate (same as shown in UI)
+            const currentMonthlyPayment = creditLine || creditCard ? loanStatus.currentPayment : loanStatus.currentPayment || monthlyPayment;
+            const currentInterestRate = loanStatus.currentRate;
             
-            // Calculate current interest rate (considering rate adjustments)
-            let currentInterestRate = parseFloat(interestRate || '0');
-            if (rateAdjustments.length > 0) {
-                // Find the most recent rate adjustment that has occurred
-                const sortedAdjustments = [...rateAdjustments]
-                    .map(adj => {
-                        let month = parseInt(adj.month);
-                        if (adj.date) {
-                            const [adjYear, adjMonth, adjDay] = adj.date.split('-').map(Number);
-                            const adjDate = new Date(adjYear, adjMonth - 1, adjDay);
-                            const monthsDiff = (adjDate.getFullYear() - date.getFullYear()) * 12 + 
-                                             (adjDate.getMonth() - date.getMonth());
-                            month = monthsDiff + 1;
-                        }
-                        return { month, newRate: parseFloat(adj.newRate) };
-                    })
-                    .filter(adj => adj.month <= monthsElapsed + 1)
-                    .sort((a, b) => b.month - a.month);
-                
-                if (sortedAdjustments.length > 0) {
-                    currentInterestRate = sortedAdjustments[0].newRate;
-                }
-            }
+            // Calculate original totals (without early payments) so they reconcile with the interest saved
+            const { totalPayment: originalTotalPayment, totalInterest: originalTotalInterest } = getScheduleTotals(originalSchedule, minorUnits);
             
             // Prepare loan data for pdf-lib
             const loanData = {
@@ -406,15 +469,35 @@ export default function LoanOverviewScreen() {
                 interestRate: parseFloat(interestRate || '0'),
                 currentInterestRate,
                 termInMonths,
+                paymentFrequency,
+                interestOnlyMonths: interestOnlyPeriod,
+                amortizationMonths: amortizationPeriod,
+                dayCountConvention,
+                compoundingFrequency,
+                amortizationType,
+                interestMethod,
+                graduated,
+                creditLine,
+                creditCard,
+                prepaymentPolicy,
+                apr: apr?.apr,
+                upfrontFees: apr?.upfrontFees,
+                financedFees: apr?.financedFees,
+                totalFees: apr?.totalFees,
+                balloonPayment: scheduledBalloonPayment,
                 monthlyPayment: currentMonthlyPayment, // Use current payment that reflects rate adjustments
                 totalPayment: actualTotalPayment,
                 interestSaved,
                 periodDecrease,
-                currentBalance: remainingPrincipal,
-                currentPaymentNumber: monthsElapsed + 1,
-                totalPayments: paymentSchedule.length || termInMonths,
+                currentBalance: loanStatus.balance,
+                currentPaymentNumber: loanStatus.paymentsMade + 1,
+                totalPayments: paymentSchedule.length || convertTermToPayments(termInMonths, paymentFrequency),
                 originalTotalPayment,
                 originalTotalInterest,
+                realTotals: discountedTotals.real ? { inflationRate: valueAdjustment.inflationRate!, ...discountedTotals.real } : undefined,
+                presentValueTotals: discountedTotals.presentValue ? { discountRate: valueAdjustment.discountRate!, ...discountedTotals.presentValue } : undefined,
+                realInterestSaved: realInterestSaved ?? undefined,
+                warnings: scheduleDiagnostics.map(diagnostic => describeScheduleDiagnostic(diagnostic, amount => formatCurrency(amount, currency))),
                 earlyPayments: validEarlyPayments.map(ep => ({
                     name: ep.name,
                     type: ep.type,
@@ -422,19 +505,32 @@ export default function LoanOverviewScreen() {
                     month: ep.month,
                     frequency: ep.frequency
                 })),
-                rateAdjustments: rateAdjustments.map(ra => ({
-                    month: ra.month,
-                    newRate: ra.newRate
-                })),
+                rateAdjustments: [
+                    ...rateAdjustments.map(ra => ({
+                        month: ra.month,
+                        newRate: ra.newRate
+                    })),
+                    ...armRateAdjustments.map(ra => ({
+                        month: ra.month.toString(),
+                        newRate: ra.newRate.toString(),
+                        isGenerated: true
+                    }))
+                ].sort((a, b) => parseInt(a.month) - parseInt(b.month)),
                 payments: paymentSchedule.map((payment, index) => {
-                    const paymentDate = new Date(date);
-                    paymentDate.setMonth(paymentDate.getMonth() + index);
+                    const paymentDate = getPaymentDate(date, index, paymentFrequency);
                     return {
                         number: index + 1,
                         principal: payment.principal,
                         interest: payment.interest,
                         balance: payment.balance,
-                        date: paymentDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+                        isInterestOnly: payment.isInterestOnly,
+                        isBalloon: payment.isBalloon,
+                        escrow: payment.escrow,
+                        pmi: payment.pmi,
+                        // Several payments share a month at shorter frequencies, so include the day
+                        date: paymentFrequency === 'monthly'
+                            ? paymentDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+                            : paymentDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
                     };
                 })
             };
@@ -540,7 +636,8 @@ export default function LoanOverviewScreen() {
                     duplicatedLoan.name,
                     paymentSchedule,
                     getStartDate(),
-                    notificationPrefs.reminderDays
+                    notificationPrefs.reminderDays,
+                    paymentFrequency
                 );
                 
                 // Update the loan with notification IDs
@@ -591,6 +688,13 @@ export default function LoanOverviewScreen() {
             interestRate,
             term,
             termUnit,
+            paymentFrequency,
+            interestOnlyMonths,
+            amortizationYears,
+            dayCountConvention,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
             date
         });
         setIsEditModalOpen(true);
@@ -608,9 +712,15 @@ export default function LoanOverviewScreen() {
             draftData.interestRate.trim() !== '' && 
             !isNaN(parseFloat(draftData.interestRate)) && 
             parseFloat(draftData.interestRate) >= 0 &&
-            draftData.term.trim() !== '' && 
+            (!creditCard || parseFloat(draftData.interestRate) <= MAX_CREDIT_CARD_APR) &&
+            (!!creditCard || (draftData.term.trim() !== '' && 
             !isNaN(parseFloat(draftData.term)) && 
-            parseFloat(draftData.term) > 0;
+            parseFloat(draftData.term) > 0)) &&
+            (draftData.interestOnlyMonths.trim() === '' || 
+                (parseInt(draftData.interestOnlyMonths) >= 0 && 
+                 parseInt(draftData.interestOnlyMonths) < convertTermToMonths(parseFloat(draftData.term), draftData.termUnit))) &&
+            (draftData.amortizationYears.trim() === '' || 
+                parseFloat(draftData.amortizationYears) * 12 > convertTermToMonths(parseFloat(draftData.term), draftData.termUnit));
 
         if (isDraftValid) {
             // Apply draft changes to actual state
@@ -619,6 +729,13 @@ export default function LoanOverviewScreen() {
             setInterestRate(draftData.interestRate);
             setTerm(draftData.term);
             setTermUnit(draftData.termUnit);
+            setPaymentFrequency(draftData.paymentFrequency);
+            setInterestOnlyMonths(draftData.interestOnlyMonths);
+            setAmortizationYears(draftData.amortizationYears);
+            setDayCountConvention(draftData.dayCountConvention);
+            setCompoundingFrequency(draftData.compoundingFrequency);
+            setAmortizationType(draftData.amortizationType);
+            setInterestMethod(draftData.interestMethod);
             setDate(draftData.date);
             
             setIsEditModalOpen(false);
@@ -655,12 +772,15 @@ export default function LoanOverviewScreen() {
 
     const termValue = parseFloat(term);
     const termInMonths = convertTermToMonths(termValue, termUnit);
+    const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+    const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+    const minorUnits = getCurrencyMinorUnits(currency);
     const dateTimestamp = date.getTime(); // Use timestamp for memoization
     
     // Memoize expensive calculations to prevent recalculating on every render
-    const { monthlyPayment, totalPayment } = useMemo(() => 
-        calculatePayment({ principal, annualRate, termInMonths }),
-        [principal, annualRate, termInMonths]
+    const { monthlyPayment: levelPayment } = useMemo(() => 
+        calculatePayment({ principal, annualRate, termInMonths, paymentFrequency, interestOnlyMonths: interestOnlyPeriod, amortizationMonths: amortizationPeriod, compoundingFrequency, amortizationType, interestMethod, graduated, fees }),
+        [principal, annualRate, termInMonths, paymentFrequency, interestOnlyPeriod, amortizationPeriod, compoundingFrequency, amortizationType, interestMethod, graduated, fees]
     );
     
     // Memoize rate adjustments conversion
@@ -669,33 +789,111 @@ export default function LoanOverviewScreen() {
         [rateAdjustments]
     );
     
+    // Rate changes derived from the ARM terms (already applied by the schedule, listed for display)
+    const armRateAdjustments = useMemo(() => 
+        arm ? generateArmRateAdjustments(arm, annualRate, termInMonths, date) : [],
+        [arm, annualRate, termInMonths, dateTimestamp]
+    );
+    
     // Generate payment schedules (with and without early payments) - memoized
-    const paymentSchedule = useMemo(() => generatePaymentSchedule({ 
+    const { schedule: paymentSchedule, diagnostics: scheduleDiagnostics } = useMemo(() => generatePaymentScheduleWithDiagnostics({ 
         principal, 
         annualRate, 
         termInMonths, 
         startDate: date, 
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        creditLine,
+        creditCard,
+        prepaymentPolicy,
+        arm,
+        fees,
+        deferrals,
+        escrow,
         earlyPayments,
-        rateAdjustments: rateAdjustmentsForCalc
-    }), [principal, annualRate, termInMonths, dateTimestamp, earlyPayments, rateAdjustmentsForCalc]);
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, creditLine, creditCard, prepaymentPolicy, arm, fees, deferrals, escrow, earlyPayments, rateAdjustmentsForCalc, minorUnits]);
     
+    // A credit line's payment follows its draws, so use the first payment of the repayment period;
+    // a card's minimum falls with its balance, so use the first one
+    const monthlyPayment = creditLine
+        ? paymentSchedule.find(payment => !payment.isInterestOnly)?.payment ?? 0
+        : creditCard ? paymentSchedule[0]?.payment ?? 0 : levelPayment;
+    const drawnAmount = paymentSchedule.reduce((sum, payment) => sum + payment.draw, 0);
+
     const originalSchedule = useMemo(() => generatePaymentSchedule({ 
         principal, 
         annualRate, 
         termInMonths, 
         startDate: date,
-        rateAdjustments: rateAdjustmentsForCalc
-    }), [principal, annualRate, termInMonths, dateTimestamp, rateAdjustmentsForCalc]);
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        creditLine,
+        creditCard,
+        arm,
+        fees,
+        deferrals,
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, creditLine, creditCard, arm, fees, deferrals, rateAdjustmentsForCalc, minorUnits]);
     
     // Calculate savings using centralized utility - memoized
-    const { actualTotalPayment, totalInterest, interestSaved, periodDecrease } = useMemo(() => calculateSavings({
+    const { actualTotalPayment, totalInterest, interestSaved, periodDecrease, balloonReduction, paymentReduction, prepaymentPenalties, balloonPayment: scheduledBalloonPayment } = useMemo(() => calculateSavings({
         principal,
         annualRate,
         termInMonths,
         startDate: date,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        creditLine,
+        creditCard,
+        prepaymentPolicy,
+        arm,
+        fees,
+        deferrals,
         earlyPayments,
-        rateAdjustments: rateAdjustmentsForCalc
-    }), [principal, annualRate, termInMonths, dateTimestamp, earlyPayments, rateAdjustmentsForCalc]);
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, creditLine, creditCard, prepaymentPolicy, arm, fees, deferrals, earlyPayments, rateAdjustmentsForCalc, minorUnits]);
+
+    // APR including fees and points, from the contractual schedule
+    const apr = useMemo(() => fees ? calculateApr({
+        principal,
+        annualRate,
+        termInMonths,
+        startDate: date,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        arm,
+        fees,
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }) : null, [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, arm, fees, rateAdjustmentsForCalc, minorUnits]);
 
     // Extract and memoize chart data
     const balanceComparisonData = useMemo(() => {
@@ -718,17 +916,42 @@ export default function LoanOverviewScreen() {
         [paymentSchedule]
     );
 
-    // Calculate remaining principal - memoized
-    const { monthsElapsed, remainingPrincipal } = useMemo(() => {
-        const elapsed = Math.max(0, Math.floor((Date.now() - dateTimestamp) / (1000 * 60 * 60 * 24 * 30.44)));
-        const remaining = paymentSchedule.length === 0 || elapsed === 0
-            ? principal
-            : elapsed >= paymentSchedule.length
-                ? 0
-                : Math.max(0, paymentSchedule[elapsed]?.balance || 0);
-        
-        return { monthsElapsed: elapsed, remainingPrincipal: remaining };
-    }, [dateTimestamp, paymentSchedule, principal]);
+    // Totals in today's money, when an inflation or discount rate is set
+    const discountedTotals = useMemo(() => getDiscountedTotals(paymentSchedule, valueAdjustment, paymentFrequency, minorUnits), [paymentSchedule, valueAdjustment, paymentFrequency, minorUnits]);
+    const originalDiscountedTotals = useMemo(() => getDiscountedTotals(originalSchedule, valueAdjustment, paymentFrequency, minorUnits), [originalSchedule, valueAdjustment, paymentFrequency, minorUnits]);
+    const realInterestSaved = discountedTotals.real && originalDiscountedTotals.real
+        ? originalDiscountedTotals.real.totalInterest - discountedTotals.real.totalInterest
+        : null;
+
+    // Principal and interest per payment in today's money, for the chart toggle
+    const realPrincipalInterestData = useMemo(() => {
+        if (!valueAdjustment.inflationRate) return undefined;
+        const principalValues = discountCashFlows(paymentSchedule.map(p => p.principal), valueAdjustment.inflationRate, paymentFrequency);
+        const interestValues = discountCashFlows(paymentSchedule.map(p => p.interest), valueAdjustment.inflationRate, paymentFrequency);
+        return principalValues.map((value, index) => ({ principal: value, interest: interestValues[index] }));
+    }, [paymentSchedule, valueAdjustment, paymentFrequency]);
+
+    // Where the loan stands today - memoized
+    const loanStatus = useMemo(() => getLoanStatus(
+        { principal, annualRate, termInMonths, startDate: date, paymentFrequency, arm, fees, creditLine, creditCard, rateAdjustments: rateAdjustmentsForCalc, minorUnits },
+        new Date(),
+        paymentSchedule
+    ), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, arm, fees, creditLine, creditCard, rateAdjustmentsForCalc, minorUnits, paymentSchedule]);
+
+    // Balance and available credit on a credit line, including draws since the last payment
+    const creditLineStatus = useMemo(() => getCreditLineStatus(
+        { principal, annualRate, termInMonths, startDate: date, creditLine, minorUnits },
+        new Date(),
+        paymentSchedule
+    ), [principal, annualRate, termInMonths, dateTimestamp, creditLine, minorUnits, paymentSchedule]);
+
+    // Current card with its charges and early payments, for the payoff comparison
+    const creditCardParams = useMemo(() => creditCard
+        ? { principal, annualRate, termInMonths, startDate: date, creditCard, earlyPayments, rateAdjustments: rateAdjustmentsForCalc, minorUnits }
+        : null,
+        [principal, annualRate, termInMonths, dateTimestamp, creditCard, earlyPayments, rateAdjustmentsForCalc, minorUnits]
+    );
+    const paymentsElapsed = loanStatus.paymentsMade;
 
     // Dismiss keyboard when tapping outside
     return <KeyboardAvoidingView 
@@ -799,20 +1022,116 @@ export default function LoanOverviewScreen() {
                 </View>
 
                 <View style={styles.detailRow}>
-                    <Text style={styles.detailLabel}>💵 Loan Amount</Text>
+                    <Text style={styles.detailLabel}>{creditLine ? '💵 Credit Limit' : creditCard ? '💳 Card Balance' : '💵 Loan Amount'}</Text>
                     <Text style={styles.detailValue}>{formatCurrency(parseFloat(loanAmount) || 0, currency)}</Text>
                 </View>
 
                 <View style={styles.detailRow}>
-                    <Text style={styles.detailLabel}>📈 Interest Rate</Text>
+                    <Text style={styles.detailLabel}>{creditCard ? '📈 APR' : '📈 Interest Rate'}</Text>
                     <Text style={styles.detailValue}>{interestRate}%</Text>
                 </View>
 
                 <View style={styles.detailRow}>
-                    <Text style={styles.detailLabel}>⏱️ Term</Text>
-                    <Text style={styles.detailValue}>{term} {termUnit}</Text>
+                    <Text style={styles.detailLabel}>{creditCard ? '⏱️ Payoff Time' : '⏱️ Term'}</Text>
+                    <Text style={styles.detailValue}>{creditCard ? formatPeriod(paymentSchedule.length) : `${term} ${termUnit}`}</Text>
                 </View>
 
+                <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>🔁 Payment Frequency</Text>
+                    <Text style={styles.detailValue}>{getPaymentFrequencyLabel(paymentFrequency)}</Text>
+                </View>
+
+                {interestOnlyPeriod > 0 && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>⏳ Interest-Only Period</Text>
+                        <Text style={styles.detailValue}>{interestOnlyPeriod} month{interestOnlyPeriod !== 1 ? 's' : ''}</Text>
+                    </View>
+                )}
+
+                {amortizationPeriod > 0 && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🎈 Balloon Amortization</Text>
+                        <Text style={styles.detailValue}>{amortizationYears} years</Text>
+                    </View>
+                )}
+
+                {dayCountConvention !== 'periodic' && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🧮 Interest Calculation</Text>
+                        <Text style={styles.detailValue}>{getDayCountConventionLabel(dayCountConvention)}</Text>
+                    </View>
+                )}
+
+                {compoundingFrequency !== 'payment' && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🔁 Compounding</Text>
+                        <Text style={styles.detailValue}>{getCompoundingFrequencyLabel(compoundingFrequency)}</Text>
+                    </View>
+                )}
+
+                {amortizationType === 'linear' && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>📉 Amortization</Text>
+                        <Text style={styles.detailValue}>{getAmortizationTypeLabel(amortizationType)}</Text>
+                    </View>
+                )}
+
+                {interestMethod !== 'simple' && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>💳 Interest Method</Text>
+                        <Text style={styles.detailValue}>{getInterestMethodLabel(interestMethod)}</Text>
+                    </View>
+                )}
+
+                {creditLine && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🏦 Draw Period</Text>
+                        <Text style={styles.detailValue}>{getCreditLinePhasesLabel(creditLine, termInMonths)}</Text>
+                    </View>
+                )}
+
+                {creditCard && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>💳 Minimum Payment</Text>
+                        <Text style={styles.detailValue}>{getCreditCardMinimumLabel(creditCard, amount => formatCurrency(amount, currency))}</Text>
+                    </View>
+                )}
+
+                {creditCard?.fixedPayment ? (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🎯 Fixed Payment</Text>
+                        <Text style={styles.detailValue}>{formatCurrency(creditCard.fixedPayment, currency)}</Text>
+                    </View>
+                ) : null}
+
+                {prepaymentPolicy && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🔒 Prepayment</Text>
+                        <Text style={styles.detailValue}>{getPrepaymentPolicyLabel(prepaymentPolicy, amount => formatCurrency(amount, currency))}</Text>
+                    </View>
+                )}
+
+                {graduated && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>📈 Graduated Payments</Text>
+                        <Text style={styles.detailValue}>{getGraduatedPaymentLabel(graduated)}</Text>
+                    </View>
+                )}
+
+                {apr && apr.upfrontFees > 0 && (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🧾 Upfront Fees</Text>
+                        <Text style={styles.detailValue}>{formatCurrency(apr.upfrontFees, currency)}{apr.financedFees > 0 ? ' (financed)' : ''}</Text>
+                    </View>
+                )}
+
+                {fees?.monthlyFee ? (
+                    <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>🧾 Monthly Fee</Text>
+                        <Text style={styles.detailValue}>{formatCurrency(fees.monthlyFee, currency)}</Text>
+                    </View>
+                ) : null}
+
                 <View style={styles.detailRow}>
                     <Text style={styles.detailLabel}>📅 Starting Date</Text>
                     <Text style={styles.detailValue}>{formatDateDisplay()}</Text>
@@ -820,15 +1139,36 @@ export default function LoanOverviewScreen() {
             </View>
 
             {/* Show payment summary if calculation is complete */}
+            {creditLineStatus && <CreditLineSummary status={creditLineStatus} />}
+            {creditCardParams && <CreditCardPayoffComparison scheduleParams={creditCardParams} />}
+            <ScheduleWarnings diagnostics={scheduleDiagnostics} />
+
             {monthlyPayment > 0 && (
                 <PaymentSummary
-                    monthlyPayment={paymentSchedule.length > 0 && monthsElapsed < paymentSchedule.length ? (paymentSchedule[monthsElapsed]?.payment || monthlyPayment) : monthlyPayment}
+                    monthlyPayment={creditLine || creditCard ? loanStatus.currentPayment : loanStatus.currentPayment || monthlyPayment}
                     totalPayment={actualTotalPayment}
-                    loanAmount={loanAmount}
-                    remainingBalance={remainingPrincipal}
+                    loanAmount={creditLine ? drawnAmount.toString() : creditCard ? (principal + drawnAmount).toString() : loanAmount}
+                    remainingBalance={loanStatus.balance}
+                    paymentFrequency={paymentFrequency}
+                    interestOnlyPayment={paymentSchedule[0]?.isInterestOnly ? paymentSchedule[0].payment : undefined}
+                    balloonPayment={paymentSchedule.find(payment => payment.isBalloon)?.payment}
+                    paymentRange={amortizationType === 'linear' || graduated ? getPaymentRange(paymentSchedule, minorUnits) : null}
+                    apr={apr}
+                    escrowPayment={paymentSchedule[Math.min(paymentsElapsed, paymentSchedule.length - 1)]?.escrow}
+                    pmiPayment={paymentSchedule[Math.min(paymentsElapsed, paymentSchedule.length - 1)]?.pmi}
+                    discountedTotals={discountedTotals}
+                    valueAdjustment={valueAdjustment}
                 />
             )}
 
+            {/* Refinance - compare a new rate and term, or follow the loan that replaced this one */}
+            <TouchableOpacity
+                style={styles.refinanceButton}
+                onPress={() => router.push(refinancedInto ? `/(tabs)/${refinancedInto}/overview` : `/(tabs)/${loanId}/refinance`)}
+            >
+                <Text style={styles.refinanceButtonText}>{refinancedInto ? '🔄 Refinanced - View New Loan' : '🔄 Compare Refinancing'}</Text>
+            </TouchableOpacity>
+
             {/* Show charts and savings if schedule is generated */}
             {paymentSchedule.length > 0 && (
                 <>
@@ -844,6 +1184,30 @@ export default function LoanOverviewScreen() {
                                     <Text style={styles.savingsLabel}>💰 Money Saved:</Text>
                                     <Text style={styles.savingsValue}>{formatCurrency(interestSaved, currency)}</Text>
                                 </View>
+                                {prepaymentPenalties > 0 && (
+                                    <View style={styles.savingsRow}>
+                                        <Text style={styles.savingsLabel}>🔒 Prepayment Penalties:</Text>
+                                        <Text style={styles.savingsValue}>{formatCurrency(prepaymentPenalties, currency)}</Text>
+                                    </View>
+                                )}
+                                {realInterestSaved !== null && (
+                                    <View style={styles.savingsRow}>
+                                        <Text style={styles.savingsLabel}>🛒 In Today's Money:</Text>
+                                        <Text style={styles.savingsValue}>{formatCurrency(realInterestSaved, currency)}</Text>
+                                    </View>
+                                )}
+                                {paymentReduction > 0 && (
+                                    <View style={styles.savingsRow}>
+                                        <Text style={styles.savingsLabel}>📉 Payment Lowered:</Text>
+                                        <Text style={styles.savingsValue}>{formatCurrency(paymentReduction, currency)}</Text>
+                                    </View>
+                                )}
+                                {balloonReduction > 0 && (
+                                    <View style={styles.savingsRow}>
+                                        <Text style={styles.savingsLabel}>🎈 Balloon Reduced:</Text>
+                                        <Text style={styles.savingsValue}>{formatCurrency(balloonReduction, currency)}</Text>
+                                    </View>
+                                )}
                                 <View style={styles.savingsRow}>
                                     <Text style={styles.savingsLabel}>⚡ Time Saved:</Text>
                                     <Text style={styles.savingsValue}>
@@ -859,8 +1223,7 @@ export default function LoanOverviewScreen() {
                                         {(() => {
                                             const lastPayment = paymentSchedule[paymentSchedule.length - 1];
                                             if (!lastPayment) return 'N/A';
-                                            const finalDate = new Date(date);
-                                            finalDate.setMonth(finalDate.getMonth() + paymentSchedule.length - 1);
+                                            const finalDate = getPaymentDate(date, paymentSchedule.length - 1, paymentFrequency);
                                             const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
                                             return `${monthNames[finalDate.getMonth()]} ${finalDate.getFullYear()}`;
                                         })()}
@@ -899,12 +1262,12 @@ export default function LoanOverviewScreen() {
                     </View>
 
                     {/* Rate Adjustment Indicators */}
-                    {rateAdjustments.length > 0 && (
+                    {(rateAdjustments.length > 0 || armRateAdjustments.length > 0) && (
                         <View style={styles.rateAdjustmentContainer}>
                             <Text style={styles.sectionTitle}>💡 Interest Rate Changes</Text>
                             <View style={styles.rateInfoNote}>
                                 <Text style={styles.rateInfoText}>
-                                     Your payment amount changes {rateAdjustments.length} time{rateAdjustments.length !== 1 ? 's' : ''} during this loan.
+                                     Your payment amount changes {rateAdjustments.length + armRateAdjustments.length} time{rateAdjustments.length + armRateAdjustments.length !== 1 ? 's' : ''} during this loan.
                                 </Text>
                             </View>
                             {rateAdjustments.map((adj, index) => {
@@ -939,6 +1302,25 @@ export default function LoanOverviewScreen() {
                                     </View>
                                 );
                             })}
+                            {armRateAdjustments.map(adj => {
+                                const adjustmentDate = new Date(date);
+                                adjustmentDate.setMonth(adjustmentDate.getMonth() + adj.month - 1);
+                                const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+                                const dateString = `${monthNames[adjustmentDate.getMonth()]} ${adjustmentDate.getFullYear()}`;
+                                
+                                return (
+                                    <View key={`arm-${adj.month}`} style={[styles.rateAdjustmentCard, styles.generatedRateAdjustmentCard]}>
+                                        <View style={styles.rateAdjustmentHeader}>
+                                            <View>
+                                                <Text style={styles.rateAdjustmentName}>ARM reset (index + margin)</Text>
+                                                <Text style={styles.rateAdjustmentMonth}>Payment #{adj.month}</Text>
+                                                <Text style={styles.rateAdjustmentDate}>{dateString}</Text>
+                                            </View>
+                                            <Text style={styles.rateAdjustmentRate}>{adj.newRate}% APR</Text>
+                                        </View>
+                                    </View>
+                                );
+                            })}
                             <TouchableOpacity 
                                 style={styles.manageRatesButton}
                                 onPress={() => router.push(`/(tabs)/${loanId}/payments`)}
@@ -962,6 +1344,7 @@ export default function LoanOverviewScreen() {
                     <DualLineChart
                         title="💵 Where Your Money Goes"
                         data={principalInterestData}
+                        adjustedData={realPrincipalInterestData && { label: "Today's Money", data: realPrincipalInterestData }}
                         earlyPayments={[]} // Show all points
                     />
 
@@ -1005,7 +1388,7 @@ export default function LoanOverviewScreen() {
                         {/* Loan amount input */}
                         <View style={(draftData.loanAmount.trim() === '' || isNaN(parseFloat(draftData.loanAmount)) || parseFloat(draftData.loanAmount) <= 0) ? styles.fieldError : null}>
                             <InputField
-                                label="💵 Loan Amount"
+                                label={creditLine ? "💵 Credit Limit" : creditCard ? "💳 Card Balance" : "💵 Loan Amount"}
                                 value={draftData.loanAmount}
                                 onChangeText={(val) => setDraftData({ ...draftData, loanAmount: val })}
                                 placeholder="Enter loan amount"
@@ -1017,7 +1400,7 @@ export default function LoanOverviewScreen() {
                         {/* Interest rate input */}
                         <View style={(draftData.interestRate.trim() === '' || isNaN(parseFloat(draftData.interestRate)) || parseFloat(draftData.interestRate) < 0) ? styles.fieldError : null}>
                             <InputField
-                                label="📈 Interest Rate (%)"
+                                label={creditCard ? "📈 APR (%)" : "📈 Interest Rate (%)"}
                                 value={draftData.interestRate}
                                 onChangeText={(val) => setDraftData({ ...draftData, interestRate: val })}
                                 placeholder="Enter interest rate"
@@ -1025,15 +1408,75 @@ export default function LoanOverviewScreen() {
                             />
                         </View>
 
-                        {/* Term input with months/years toggle */}
-                        <View style={(draftData.term.trim() === '' || isNaN(parseFloat(draftData.term)) || parseFloat(draftData.term) <= 0) ? styles.fieldError : null}>
-                            <TermSelector
-                                term={draftData.term}
-                                onTermChange={(val) => setDraftData({ ...draftData, term: val })}
-                                termUnit={draftData.termUnit}
-                                onTermUnitChange={(val) => setDraftData({ ...draftData, termUnit: val })}
+                        {/* Term input with months/years toggle; a credit card has no term */}
+                        {!creditCard && (
+                            <View style={(draftData.term.trim() === '' || isNaN(parseFloat(draftData.term)) || parseFloat(draftData.term) <= 0) ? styles.fieldError : null}>
+                                <TermSelector
+                                    term={draftData.term}
+                                    onTermChange={(val) => setDraftData({ ...draftData, term: val })}
+                                    termUnit={draftData.termUnit}
+                                    onTermUnitChange={(val) => setDraftData({ ...draftData, termUnit: val })}
+                                    paymentFrequency={draftData.paymentFrequency}
+                                    onPaymentFrequencyChange={creditLine ? undefined : (val) => setDraftData({ ...draftData, paymentFrequency: val })}
+                                />
+                            </View>
+                        )}
+
+                        {!creditCard && (
+                            <OptionSelector
+                                label="🧮 Interest Calculation"
+                                options={DAY_COUNT_CONVENTIONS}
+                                value={draftData.dayCountConvention}
+                                onChange={(val) => setDraftData({ ...draftData, dayCountConvention: val })}
                             />
-                        </View>
+                        )}
+
+                        {!creditLine && !creditCard && (
+                            <>
+                                {/* Optional interest-only period input */}
+                                <View style={(draftData.interestOnlyMonths.trim() !== '' && (isNaN(parseInt(draftData.interestOnlyMonths)) || parseInt(draftData.interestOnlyMonths) < 0)) ? styles.fieldError : null}>
+                                    <InputField
+                                        label="⏳ Interest-Only Period (months)"
+                                        value={draftData.interestOnlyMonths}
+                                        onChangeText={(val) => setDraftData({ ...draftData, interestOnlyMonths: val })}
+                                        placeholder="Optional, e.g. 12"
+                                        keyboardType="numeric"
+                                    />
+                                </View>
+
+                                {/* Optional amortization period for balloon loans */}
+                                <View style={(draftData.amortizationYears.trim() !== '' && !(parseFloat(draftData.amortizationYears) * 12 > convertTermToMonths(parseFloat(draftData.term), draftData.termUnit))) ? styles.fieldError : null}>
+                                    <InputField
+                                        label="🎈 Balloon Amortization Period (years)"
+                                        value={draftData.amortizationYears}
+                                        onChangeText={(val) => setDraftData({ ...draftData, amortizationYears: val })}
+                                        placeholder="Optional, e.g. 30"
+                                        keyboardType="numeric"
+                                    />
+                                </View>
+
+                                <OptionSelector
+                                    label="🔁 Compounding"
+                                    options={COMPOUNDING_FREQUENCIES}
+                                    value={draftData.compoundingFrequency}
+                                    onChange={(val) => setDraftData({ ...draftData, compoundingFrequency: val })}
+                                />
+
+                                <OptionSelector
+                                    label="📉 Amortization"
+                                    options={AMORTIZATION_TYPES}
+                                    value={draftData.amortizationType}
+                                    onChange={(val) => setDraftData({ ...draftData, amortizationType: val })}
+                                />
+
+                                <OptionSelector
+                                    label="💳 Interest Method"
+                                    options={INTEREST_METHODS}
+                                    value={draftData.interestMethod}
+                                    onChange={(val) => setDraftData({ ...draftData, interestMethod: val })}
+                                />
+                            </>
+                        )}
 
                         {/* Start date picker */}
                         <View>
@@ -1125,6 +1568,22 @@ const styles = StyleSheet.create({
     exportButtonDisabled: {
         opacity: 0.5,
     },
+    // Refinance button (below the payment summary)
+    refinanceButton: {
+        backgroundColor: Platform.OS === 'android' ? 'transparent' : theme.colors.surfaceGlass,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: "center",
+        marginBottom: theme.spacing.xl,
+        borderWidth: Platform.OS === 'android' ? 0 : 1,
+        borderColor: theme.colors.glassBorderBlue,
+        ...Platform.OS === 'android' ? {} : theme.shadows.glass,
+    },
+    refinanceButtonText: {
+        color: theme.colors.primary,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
     loadingContainer: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -1367,6 +1826,10 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: 'rgba(255, 255, 255, 0.1)',
     },
+    generatedRateAdjustmentCard: {
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+    },
     rateAdjustmentHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
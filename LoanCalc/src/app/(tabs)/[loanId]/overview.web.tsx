@@ -6,17 +6,22 @@ import { router, useGlobalSearchParams, useFocusEffect, Link } from 'expo-router
 import { theme } from '../../../constants/theme';
 import InputField from "../../../components/InputField";
 import TermSelector from "../../../components/TermSelector.web";
+import OptionSelector from "../../../components/OptionSelector";
 import PaymentSummary from "../../../components/PaymentSummary";
+import ScheduleWarnings from "../../../components/ScheduleWarnings";
+import CreditLineSummary from "../../../components/CreditLineSummary";
+import CreditCardPayoffComparison from "../../../components/CreditCardPayoffComparison";
 import DualLineChart from "../../../components/DualLineChart";
 import { EarlyPayment, isValidEarlyPayment } from "../../../components/EarlyPaymentList";
 import { RateAdjustment } from "../../../components/RateAdjustmentList";
 import { AutoSaveIndicator, AutoSaveHandle } from "../../../components/AutoSaveIndicator";
 import EditModal from "../../../components/EditModal";
-import { calculatePayment, generatePaymentSchedule, calculateSavings, convertTermToMonths } from "../../../utils/loanCalculations";
+import { calculatePayment, generatePaymentSchedule, generatePaymentScheduleWithDiagnostics, calculateSavings, getScheduleTotals, convertTermToMonths, getPaymentDate, getPaymentFrequencyLabel, PaymentFrequency, DayCountConvention, DAY_COUNT_CONVENTIONS, getDayCountConventionLabel, CompoundingFrequency, COMPOUNDING_FREQUENCIES, getCompoundingFrequencyLabel, AmortizationType, AMORTIZATION_TYPES, InterestMethod, INTEREST_METHODS, getAmortizationTypeLabel, getInterestMethodLabel, getGraduatedPaymentLabel, getPaymentRange, generateArmRateAdjustments, calculateApr, getDiscountedTotals, getLoanStatus, discountCashFlows, ArmConfig, LoanFees, EscrowConfig, PaymentDeferral, GraduatedPaymentConfig, ValueAdjustment, CreditLineConfig, getCreditLinePhasesLabel, getCreditLineStatus, CreditCardConfig, getCreditCardMinimumLabel, MAX_CREDIT_CARD_APR, PrepaymentPolicy, getPrepaymentPolicyLabel } from "../../../utils/loanCalculations";
 import { schedulePaymentReminders, cancelLoanNotifications, scheduleNextPaymentReminder } from "../../../utils/notificationUtils";
-import { getNotificationPreferences, getCurrencyPreference, Currency } from "../../../utils/storage";
-import { formatCurrency } from "../../../utils/currencyUtils";
+import { getNotificationPreferences, getCurrencyPreference, getValueAdjustmentPreferences, Currency } from "../../../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../../../utils/currencyUtils";
 import { incrementProgress } from "../../../utils/achievementUtils";
+import { formatPeriod } from "../../../utils/reportUtils";
 import { useKeyboardShortcuts } from "../../../hooks/useKeyboardShortcuts.web";
 import { ThemeProvider, useTheme } from "../../../contexts/ThemeContext.web";
 import MobileAppPromotion from "../../../components/MobileAppPromotion.web";
@@ -30,12 +35,29 @@ function LoanOverviewScreenWebContent() {
     const [interestRate, setInterestRate] = useState("");
     const [term, setTerm] = useState("");
     const [termUnit, setTermUnit] = useState<"months" | "years">("months");
+    const [paymentFrequency, setPaymentFrequency] = useState<PaymentFrequency>("monthly");
+    const [interestOnlyMonths, setInterestOnlyMonths] = useState(""); // Optional interest-only period
+    const [amortizationYears, setAmortizationYears] = useState(""); // Optional amortization period for balloon loans
+    const [dayCountConvention, setDayCountConvention] = useState<DayCountConvention>("periodic");
+    const [compoundingFrequency, setCompoundingFrequency] = useState<CompoundingFrequency>("payment");
+    const [amortizationType, setAmortizationType] = useState<AmortizationType>("annuity");
+    const [interestMethod, setInterestMethod] = useState<InterestMethod>("simple");
     const [date, setDate] = useState(new Date());
     const dateRef = useRef(new Date());
     const [earlyPayments, setEarlyPayments] = useState<EarlyPayment[]>([]);
     const [rateAdjustments, setRateAdjustments] = useState<RateAdjustment[]>([]);
+    const [arm, setArm] = useState<ArmConfig | undefined>(undefined);
+    const [fees, setFees] = useState<LoanFees | undefined>(undefined); // Fees and points, used for the APR
+    const [graduated, setGraduated] = useState<GraduatedPaymentConfig | undefined>(undefined); // Stepped payments
+    const [creditLine, setCreditLine] = useState<CreditLineConfig | undefined>(undefined); // Revolving credit line (HELOC)
+    const [creditCard, setCreditCard] = useState<CreditCardConfig | undefined>(undefined); // Revolving credit card
+    const [prepaymentPolicy, setPrepaymentPolicy] = useState<PrepaymentPolicy | undefined>(undefined); // Allowance and penalties on early payments
+    const [escrow, setEscrow] = useState<EscrowConfig | undefined>(undefined); // Taxes, insurance and PMI shown with each payment
+    const [deferrals, setDeferrals] = useState<PaymentDeferral[]>([]); // Payment pauses
+    const [refinancedInto, setRefinancedInto] = useState<string | undefined>(undefined); // Loan that replaced this one
     const autoSaveRef = useRef<AutoSaveHandle>(null);
     const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [valueAdjustment, setValueAdjustment] = useState<ValueAdjustment>({}); // Inflation and discount rates for real totals
     const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
     const [isDuplicating, setIsDuplicating] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
@@ -59,6 +81,13 @@ function LoanOverviewScreenWebContent() {
         interestRate: string;
         term: string;
         termUnit: "months" | "years";
+        paymentFrequency: PaymentFrequency;
+        interestOnlyMonths: string;
+        amortizationYears: string;
+        dayCountConvention: DayCountConvention;
+        compoundingFrequency: CompoundingFrequency;
+        amortizationType: AmortizationType;
+        interestMethod: InterestMethod;
         date: Date;
     } | null>(null);
     const [showDraftDatePicker, setShowDraftDatePicker] = useState(false);
@@ -213,12 +242,13 @@ function LoanOverviewScreenWebContent() {
                     autoSaveRef.current.forceSave();
                 }
             };
-        }, [loanId, loanName, loanAmount, interestRate, term, termUnit, date])
+        }, [loanId, loanName, loanAmount, interestRate, term, termUnit, paymentFrequency, interestOnlyMonths, amortizationYears, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, date])
     );
 
     const loadCurrency = async () => {
         const curr = await getCurrencyPreference();
         setCurrency(curr);
+        setValueAdjustment(await getValueAdjustmentPreferences());
     };
 
     const loadAdjustments = async () => {
@@ -236,9 +266,27 @@ function LoanOverviewScreenWebContent() {
                 if (loan) {
                     setEarlyPayments(loan.earlyPayments || []);
                     setRateAdjustments(loan.rateAdjustments || []);
+                    setArm(loan.arm);
+                    setFees(loan.fees);
+                    setGraduated(loan.graduated);
+                    setCreditLine(loan.creditLine);
+                    setCreditCard(loan.creditCard);
+                    setPrepaymentPolicy(loan.prepaymentPolicy);
+                    setEscrow(loan.escrow);
+                    setDeferrals(loan.deferrals || []);
+                    setRefinancedInto(loan.refinancedInto);
                 } else {
                     setEarlyPayments([]);
                     setRateAdjustments([]);
+                    setArm(undefined);
+                    setFees(undefined);
+                    setGraduated(undefined);
+                    setCreditLine(undefined);
+                    setCreditCard(undefined);
+                    setPrepaymentPolicy(undefined);
+                    setEscrow(undefined);
+                    setDeferrals([]);
+                    setRefinancedInto(undefined);
                 }
             }
         } catch (error) {
@@ -258,6 +306,13 @@ function LoanOverviewScreenWebContent() {
                     setInterestRate(loan.interestRate.toString());
                     setTerm(loan.term.toString());
                     setTermUnit(loan.termUnit);
+                    setPaymentFrequency(loan.paymentFrequency || 'monthly');
+                    setInterestOnlyMonths(loan.interestOnlyMonths ? loan.interestOnlyMonths.toString() : "");
+                    setAmortizationYears(loan.amortizationMonths ? (loan.amortizationMonths / 12).toString() : "");
+                    setDayCountConvention(loan.dayCountConvention || 'periodic');
+                    setCompoundingFrequency(loan.compoundingFrequency || 'payment');
+                    setAmortizationType(loan.amortizationType || 'annuity');
+                    setInterestMethod(loan.interestMethod || 'simple');
                     if (loan.startDate) {
                         const [year, month, day] = loan.startDate.split('-').map(Number);
                         const parsedDate = new Date(year, month - 1, day);
@@ -268,6 +323,15 @@ function LoanOverviewScreenWebContent() {
                     }
                     setEarlyPayments(loan.earlyPayments || []);
                     setRateAdjustments(loan.rateAdjustments || []);
+                    setArm(loan.arm);
+                    setFees(loan.fees);
+                    setGraduated(loan.graduated);
+                    setCreditLine(loan.creditLine);
+                    setCreditCard(loan.creditCard);
+                    setPrepaymentPolicy(loan.prepaymentPolicy);
+                    setEscrow(loan.escrow);
+                    setDeferrals(loan.deferrals || []);
+                    setRefinancedInto(loan.refinancedInto);
                 }
             }
         } catch (error) {
@@ -309,18 +373,44 @@ function LoanOverviewScreenWebContent() {
         const termValue = parseFloat(term);
         const termInMonths = convertTermToMonths(termValue, termUnit);
         
-        const { monthlyPayment } = calculatePayment({ principal, annualRate, termInMonths });
-        const schedule = generatePaymentSchedule({ 
+        const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+        const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+        const minorUnits = getCurrencyMinorUnits(currency);
+        
+        let { monthlyPayment, totalPayment } = calculatePayment({ principal, annualRate, termInMonths, paymentFrequency, interestOnlyMonths: interestOnlyPeriod, amortizationMonths: amortizationPeriod, compoundingFrequency, amortizationType, interestMethod, graduated, fees });
+        const scheduleParams = { 
             principal, 
             annualRate, 
             termInMonths, 
             startDate: dateRef.current, 
+            paymentFrequency,
+            interestOnlyMonths: interestOnlyPeriod,
+            amortizationMonths: amortizationPeriod,
+            dayCountConvention,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
+            graduated,
+            creditLine,
+            creditCard,
+            prepaymentPolicy,
+            arm,
+            fees,
+            deferrals,
             earlyPayments,
-            rateAdjustments: getRateAdjustmentsForCalc()
-        });
+            rateAdjustments: getRateAdjustmentsForCalc(),
+            minorUnits
+        };
+        const schedule = generatePaymentSchedule(scheduleParams);
+        if (creditLine) {
+            monthlyPayment = schedule.find(payment => !payment.isInterestOnly)?.payment ?? 0;
+        } else if (creditCard) {
+            // A card's minimum falls with its balance, so keep the first one
+            monthlyPayment = schedule[0]?.payment ?? 0;
+        }
         const actualTotal = schedule.length > 0 
-            ? schedule.reduce((sum, payment) => sum + payment.payment, 0)
-            : monthlyPayment * (termUnit === "years" ? parseFloat(term) * 12 : parseFloat(term));
+            ? getScheduleTotals(schedule, minorUnits).totalPayment
+            : totalPayment;
 
         try {
             const loansData = await AsyncStorage.getItem('loans');
@@ -330,21 +420,13 @@ function LoanOverviewScreenWebContent() {
             if (loanIndex !== -1) {
                 const existingLoan = loans[loanIndex];
                 
-                const monthsElapsed = Math.max(0, Math.floor((new Date().getTime() - new Date(dateRef.current).getTime()) / (1000 * 60 * 60 * 24 * 30.44)));
-                const currentMonthlyPayment = schedule.length === 0 || monthsElapsed >= schedule.length
-                    ? monthlyPayment
-                    : schedule[monthsElapsed]?.payment || monthlyPayment;
-                const remainingBalance = schedule.length === 0 || monthsElapsed === 0
-                    ? parseFloat(loanAmount)
-                    : monthsElapsed >= schedule.length
-                        ? 0
-                        : Math.max(0, schedule[monthsElapsed]?.balance || 0);
+                const status = getLoanStatus(scheduleParams, new Date(), schedule);
+                const currentMonthlyPayment = creditLine || creditCard ? status.currentPayment : status.currentPayment || monthlyPayment;
+                const remainingBalance = status.balance;
                 
-                const freedomDate = schedule.length > 0 ? (() => {
-                    const finalDate = new Date(dateRef.current);
-                    finalDate.setMonth(finalDate.getMonth() + schedule.length - 1);
-                    return finalDate.toISOString();
-                })() : null;
+                const freedomDate = schedule.length > 0
+                    ? getPaymentDate(dateRef.current, schedule.length - 1, paymentFrequency).toISOString()
+                    : null;
                 
                 const updatedLoan = {
                     ...existingLoan,
@@ -352,8 +434,15 @@ function LoanOverviewScreenWebContent() {
                     name: loanName,
                     amount: parseFloat(loanAmount),
                     interestRate: parseFloat(interestRate),
-                    term: parseFloat(term),
-                    termUnit,
+                    term: creditCard ? schedule.length : parseFloat(term), // A card's term follows its payoff
+                    termUnit: creditCard ? 'months' : termUnit,
+                    paymentFrequency,
+                    interestOnlyMonths: interestOnlyPeriod,
+                    amortizationMonths: amortizationPeriod,
+                    dayCountConvention,
+                    compoundingFrequency,
+                    amortizationType,
+                    interestMethod,
                     startDate: getStartDate(),
                     monthlyPayment,
                     totalPayment: actualTotal,
@@ -378,7 +467,8 @@ function LoanOverviewScreenWebContent() {
                         loanName,
                         paymentSchedule,
                         getStartDate(),
-                        notificationPrefs.reminderDays
+                        notificationPrefs.reminderDays,
+                        paymentFrequency
                     );
                 }
                 
@@ -443,7 +533,8 @@ function LoanOverviewScreenWebContent() {
                     duplicatedLoan.name,
                     paymentSchedule,
                     getStartDate(),
-                    notificationPrefs.reminderDays
+                    notificationPrefs.reminderDays,
+                    paymentFrequency
                 );
                 
                 duplicatedLoan.scheduledNotificationIds = scheduledIds;
@@ -474,6 +565,13 @@ function LoanOverviewScreenWebContent() {
             interestRate,
             term,
             termUnit,
+            paymentFrequency,
+            interestOnlyMonths,
+            amortizationYears,
+            dayCountConvention,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
             date: dateRef.current
         });
         setIsEditModalOpen(true);
@@ -490,9 +588,15 @@ function LoanOverviewScreenWebContent() {
             draftData.interestRate.trim() !== '' && 
             !isNaN(parseFloat(draftData.interestRate)) && 
             parseFloat(draftData.interestRate) >= 0 &&
-            draftData.term.trim() !== '' && 
+            (!creditCard || parseFloat(draftData.interestRate) <= MAX_CREDIT_CARD_APR) &&
+            (!!creditCard || (draftData.term.trim() !== '' && 
             !isNaN(parseFloat(draftData.term)) && 
-            parseFloat(draftData.term) > 0;
+            parseFloat(draftData.term) > 0)) &&
+            (draftData.interestOnlyMonths.trim() === '' || 
+                (parseInt(draftData.interestOnlyMonths) >= 0 && 
+                 parseInt(draftData.interestOnlyMonths) < convertTermToMonths(parseFloat(draftData.term), draftData.termUnit))) &&
+            (draftData.amortizationYears.trim() === '' || 
+                parseFloat(draftData.amortizationYears) * 12 > convertTermToMonths(parseFloat(draftData.term), draftData.termUnit));
 
         if (isDraftValid) {
             setLoanName(draftData.loanName);
@@ -500,6 +604,13 @@ function LoanOverviewScreenWebContent() {
             setInterestRate(draftData.interestRate);
             setTerm(draftData.term);
             setTermUnit(draftData.termUnit);
+            setPaymentFrequency(draftData.paymentFrequency);
+            setInterestOnlyMonths(draftData.interestOnlyMonths);
+            setAmortizationYears(draftData.amortizationYears);
+            setDayCountConvention(draftData.dayCountConvention);
+            setCompoundingFrequency(draftData.compoundingFrequency);
+            setAmortizationType(draftData.amortizationType);
+            setInterestMethod(draftData.interestMethod);
             setDate(draftData.date);
             dateRef.current = draftData.date;
             
@@ -537,11 +648,14 @@ function LoanOverviewScreenWebContent() {
     const annualRate = parseFloat(interestRate);
     const termValue = parseFloat(term);
     const termInMonths = convertTermToMonths(termValue, termUnit);
+    const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+    const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+    const minorUnits = getCurrencyMinorUnits(currency);
     const dateTimestamp = dateRef.current.getTime();
     
-    const { monthlyPayment, totalPayment } = useMemo(() => 
-        calculatePayment({ principal, annualRate, termInMonths }),
-        [principal, annualRate, termInMonths]
+    const { monthlyPayment: levelPayment } = useMemo(() => 
+        calculatePayment({ principal, annualRate, termInMonths, paymentFrequency, interestOnlyMonths: interestOnlyPeriod, amortizationMonths: amortizationPeriod, compoundingFrequency, amortizationType, interestMethod, graduated, fees }),
+        [principal, annualRate, termInMonths, paymentFrequency, interestOnlyPeriod, amortizationPeriod, compoundingFrequency, amortizationType, interestMethod, graduated, fees]
     );
     
     const rateAdjustmentsForCalc = useMemo(() => 
@@ -549,31 +663,109 @@ function LoanOverviewScreenWebContent() {
         [rateAdjustments]
     );
     
-    const paymentSchedule = useMemo(() => generatePaymentSchedule({ 
+    // Rate changes derived from the ARM terms (already applied by the schedule, listed for display)
+    const armRateAdjustments = useMemo(() => 
+        arm ? generateArmRateAdjustments(arm, annualRate, termInMonths, dateRef.current) : [],
+        [arm, annualRate, termInMonths, dateTimestamp]
+    );
+    
+    const { schedule: paymentSchedule, diagnostics: scheduleDiagnostics } = useMemo(() => generatePaymentScheduleWithDiagnostics({ 
         principal, 
         annualRate, 
         termInMonths, 
         startDate: dateRef.current, 
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        creditLine,
+        creditCard,
+        prepaymentPolicy,
+        arm,
+        fees,
+        deferrals,
+        escrow,
         earlyPayments,
-        rateAdjustments: rateAdjustmentsForCalc
-    }), [principal, annualRate, termInMonths, dateTimestamp, earlyPayments, rateAdjustmentsForCalc]);
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, creditLine, creditCard, prepaymentPolicy, arm, fees, deferrals, escrow, earlyPayments, rateAdjustmentsForCalc, minorUnits]);
     
+    // A credit line's payment follows its draws, so use the first payment of the repayment period;
+    // a card's minimum falls with its balance, so use the first one
+    const monthlyPayment = creditLine
+        ? paymentSchedule.find(payment => !payment.isInterestOnly)?.payment ?? 0
+        : creditCard ? paymentSchedule[0]?.payment ?? 0 : levelPayment;
+    const drawnAmount = paymentSchedule.reduce((sum, payment) => sum + payment.draw, 0);
+
     const originalSchedule = useMemo(() => generatePaymentSchedule({ 
         principal, 
         annualRate, 
         termInMonths, 
         startDate: dateRef.current,
-        rateAdjustments: rateAdjustmentsForCalc
-    }), [principal, annualRate, termInMonths, dateTimestamp, rateAdjustmentsForCalc]);
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        creditLine,
+        creditCard,
+        arm,
+        fees,
+        deferrals,
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, creditLine, creditCard, arm, fees, deferrals, rateAdjustmentsForCalc, minorUnits]);
     
-    const { actualTotalPayment, totalInterest, interestSaved, periodDecrease } = useMemo(() => calculateSavings({
+    const { actualTotalPayment, totalInterest, interestSaved, periodDecrease, balloonReduction, paymentReduction, prepaymentPenalties } = useMemo(() => calculateSavings({
         principal,
         annualRate,
         termInMonths,
         startDate: dateRef.current,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        creditLine,
+        creditCard,
+        prepaymentPolicy,
+        arm,
+        fees,
+        deferrals,
         earlyPayments,
-        rateAdjustments: rateAdjustmentsForCalc
-    }), [principal, annualRate, termInMonths, dateTimestamp, earlyPayments, rateAdjustmentsForCalc]);
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, creditLine, creditCard, prepaymentPolicy, arm, fees, deferrals, earlyPayments, rateAdjustmentsForCalc, minorUnits]);
+
+    // APR including fees and points, from the contractual schedule
+    const apr = useMemo(() => fees ? calculateApr({
+        principal,
+        annualRate,
+        termInMonths,
+        startDate: dateRef.current,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        arm,
+        fees,
+        rateAdjustments: rateAdjustmentsForCalc,
+        minorUnits
+    }) : null, [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, interestOnlyPeriod, amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, arm, fees, rateAdjustmentsForCalc, minorUnits]);
 
     const balanceComparisonData = useMemo(() => {
         const originalBalanceData = originalSchedule.map(p => p.balance);
@@ -594,16 +786,43 @@ function LoanOverviewScreenWebContent() {
         [paymentSchedule]
     );
 
-    const { monthsElapsed, remainingPrincipal } = useMemo(() => {
-        const elapsed = Math.max(0, Math.floor((Date.now() - dateTimestamp) / (1000 * 60 * 60 * 24 * 30.44)));
-        const remaining = paymentSchedule.length === 0 || elapsed === 0
-            ? principal
-            : elapsed >= paymentSchedule.length
-                ? 0
-                : Math.max(0, paymentSchedule[elapsed]?.balance || 0);
-        
-        return { monthsElapsed: elapsed, remainingPrincipal: remaining };
-    }, [dateTimestamp, paymentSchedule, principal]);
+    // Totals in today's money, when an inflation or discount rate is set
+    const discountedTotals = useMemo(() => getDiscountedTotals(paymentSchedule, valueAdjustment, paymentFrequency, minorUnits), [paymentSchedule, valueAdjustment, paymentFrequency, minorUnits]);
+    const originalDiscountedTotals = useMemo(() => getDiscountedTotals(originalSchedule, valueAdjustment, paymentFrequency, minorUnits), [originalSchedule, valueAdjustment, paymentFrequency, minorUnits]);
+    const realInterestSaved = discountedTotals.real && originalDiscountedTotals.real
+        ? originalDiscountedTotals.real.totalInterest - discountedTotals.real.totalInterest
+        : null;
+
+    // Principal and interest per payment in today's money, for the chart toggle
+    const realPrincipalInterestData = useMemo(() => {
+        if (!valueAdjustment.inflationRate) return undefined;
+        const principalValues = discountCashFlows(paymentSchedule.map(p => p.principal), valueAdjustment.inflationRate, paymentFrequency);
+        const interestValues = discountCashFlows(paymentSchedule.map(p => p.interest), valueAdjustment.inflationRate, paymentFrequency);
+        return principalValues.map((value, index) => ({ principal: value, interest: interestValues[index] }));
+    }, [paymentSchedule, valueAdjustment, paymentFrequency]);
+
+    const loanStatus = useMemo(() => getLoanStatus(
+        { principal, annualRate, termInMonths, startDate: dateRef.current, paymentFrequency, arm, fees, creditLine, creditCard, rateAdjustments: rateAdjustmentsForCalc, minorUnits },
+        new Date(),
+        paymentSchedule
+    ), [principal, annualRate, termInMonths, dateTimestamp, paymentFrequency, arm, fees, creditLine, creditCard, rateAdjustmentsForCalc, minorUnits, paymentSchedule]);
+
+    // Balance and available credit on a credit line, including draws since the last payment
+    const creditLineStatus = useMemo(() => getCreditLineStatus(
+        { principal, annualRate, termInMonths, startDate: dateRef.current, creditLine, minorUnits },
+        new Date(),
+        paymentSchedule
+    ), [principal, annualRate, termInMonths, dateTimestamp, creditLine, minorUnits, paymentSchedule]);
+
+    // Current card with its charges and early payments, for the payoff comparison
+    const creditCardParams = useMemo(() => creditCard
+        ? { principal, annualRate, termInMonths, startDate: dateRef.current, creditCard, earlyPayments, rateAdjustments: rateAdjustmentsForCalc, minorUnits }
+        : null,
+        [principal, annualRate, termInMonths, dateTimestamp, creditCard, earlyPayments, rateAdjustmentsForCalc, minorUnits]
+    );
+    const paymentsElapsed = loanStatus.paymentsMade;
+    const remainingPrincipal = loanStatus.balance;
+    const currentPayment = creditLine || creditCard ? loanStatus.currentPayment : loanStatus.currentPayment || monthlyPayment;
 
     return (
         <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -687,14 +906,9 @@ function LoanOverviewScreenWebContent() {
                         <View style={styles.sidebarQuickView}>
                             <Text style={styles.quickViewLabel}>QUICK STATS</Text>
                             <View style={styles.quickViewItem}>
-                                <Text style={styles.quickViewKey}>Monthly</Text>
+                                <Text style={styles.quickViewKey}>{getPaymentFrequencyLabel(paymentFrequency)}</Text>
                                 <Text style={styles.quickViewValue}>
-                                    {formatCurrency(
-                                        paymentSchedule.length > 0 && monthsElapsed < paymentSchedule.length 
-                                            ? (paymentSchedule[monthsElapsed]?.payment || monthlyPayment) 
-                                            : monthlyPayment,
-                                        currency
-                                    )}
+                                    {formatCurrency(currentPayment, currency)}
                                 </Text>
                             </View>
                             <View style={styles.quickViewItem}>
@@ -803,6 +1017,13 @@ function LoanOverviewScreenWebContent() {
                             >
                                 <Text style={styles.exportButtonTopText}>Export Report (Mobile Only)</Text>
                             </TouchableOpacity>
+
+                            <TouchableOpacity 
+                                style={[styles.exportButtonTop, windowWidth < 768 && { flex: 0 }]} 
+                                onPress={() => router.push(refinancedInto ? `/(tabs)/${refinancedInto}/overview` : `/(tabs)/${loanId}/refinance`)}
+                            >
+                                <Text style={styles.exportButtonTopText}>{refinancedInto ? '🔄 Refinanced - View New Loan' : '🔄 Refinance'}</Text>
+                            </TouchableOpacity>
                         </View>
 
                         {/* Loan Details Card */}
@@ -820,20 +1041,116 @@ function LoanOverviewScreenWebContent() {
                             </View>
 
                             <View style={styles.detailRow}>
-                                <Text style={styles.detailLabel}>💵 Loan Amount</Text>
+                                <Text style={styles.detailLabel}>{creditLine ? '💵 Credit Limit' : creditCard ? '💳 Card Balance' : '💵 Loan Amount'}</Text>
                                 <Text style={styles.detailValue}>{formatCurrency(parseFloat(loanAmount) || 0, currency)}</Text>
                             </View>
 
                             <View style={styles.detailRow}>
-                                <Text style={styles.detailLabel}>📈 Interest Rate</Text>
+                                <Text style={styles.detailLabel}>{creditCard ? '📈 APR' : '📈 Interest Rate'}</Text>
                                 <Text style={styles.detailValue}>{interestRate}%</Text>
                             </View>
 
                             <View style={styles.detailRow}>
-                                <Text style={styles.detailLabel}>⏱️ Term</Text>
-                                <Text style={styles.detailValue}>{term} {termUnit}</Text>
+                                <Text style={styles.detailLabel}>{creditCard ? '⏱️ Payoff Time' : '⏱️ Term'}</Text>
+                                <Text style={styles.detailValue}>{creditCard ? formatPeriod(paymentSchedule.length) : `${term} ${termUnit}`}</Text>
                             </View>
 
+                            <View style={styles.detailRow}>
+                                <Text style={styles.detailLabel}>🔁 Payment Frequency</Text>
+                                <Text style={styles.detailValue}>{getPaymentFrequencyLabel(paymentFrequency)}</Text>
+                            </View>
+
+                            {interestOnlyPeriod > 0 && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>⏳ Interest-Only Period</Text>
+                                    <Text style={styles.detailValue}>{interestOnlyPeriod} month{interestOnlyPeriod !== 1 ? 's' : ''}</Text>
+                                </View>
+                            )}
+
+                            {amortizationPeriod > 0 && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🎈 Balloon Amortization</Text>
+                                    <Text style={styles.detailValue}>{amortizationYears} years</Text>
+                                </View>
+                            )}
+
+                            {dayCountConvention !== 'periodic' && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🧮 Interest Calculation</Text>
+                                    <Text style={styles.detailValue}>{getDayCountConventionLabel(dayCountConvention)}</Text>
+                                </View>
+                            )}
+
+                            {compoundingFrequency !== 'payment' && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🔁 Compounding</Text>
+                                    <Text style={styles.detailValue}>{getCompoundingFrequencyLabel(compoundingFrequency)}</Text>
+                                </View>
+                            )}
+
+                            {amortizationType === 'linear' && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>📉 Amortization</Text>
+                                    <Text style={styles.detailValue}>{getAmortizationTypeLabel(amortizationType)}</Text>
+                                </View>
+                            )}
+
+                            {interestMethod !== 'simple' && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>💳 Interest Method</Text>
+                                    <Text style={styles.detailValue}>{getInterestMethodLabel(interestMethod)}</Text>
+                                </View>
+                            )}
+
+                            {creditLine && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🏦 Draw Period</Text>
+                                    <Text style={styles.detailValue}>{getCreditLinePhasesLabel(creditLine, termInMonths)}</Text>
+                                </View>
+                            )}
+
+                            {creditCard && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>💳 Minimum Payment</Text>
+                                    <Text style={styles.detailValue}>{getCreditCardMinimumLabel(creditCard, amount => formatCurrency(amount, currency))}</Text>
+                                </View>
+                            )}
+
+                            {creditCard?.fixedPayment ? (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🎯 Fixed Payment</Text>
+                                    <Text style={styles.detailValue}>{formatCurrency(creditCard.fixedPayment, currency)}</Text>
+                                </View>
+                            ) : null}
+
+                            {prepaymentPolicy && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🔒 Prepayment</Text>
+                                    <Text style={styles.detailValue}>{getPrepaymentPolicyLabel(prepaymentPolicy, amount => formatCurrency(amount, currency))}</Text>
+                                </View>
+                            )}
+
+                            {graduated && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>📈 Graduated Payments</Text>
+                                    <Text style={styles.detailValue}>{getGraduatedPaymentLabel(graduated)}</Text>
+                                </View>
+                            )}
+
+                            {apr && apr.upfrontFees > 0 && (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🧾 Upfront Fees</Text>
+                                    <Text style={styles.detailValue}>{formatCurrency(apr.upfrontFees, currency)}{apr.financedFees > 0 ? ' (financed)' : ''}</Text>
+                                </View>
+                            )}
+
+                            {fees?.monthlyFee ? (
+                                <View style={styles.detailRow}>
+                                    <Text style={styles.detailLabel}>🧾 Monthly Fee</Text>
+                                    <Text style={styles.detailValue}>{formatCurrency(fees.monthlyFee, currency)}</Text>
+                                </View>
+                            ) : null}
+
                             <View style={styles.detailRow}>
                                 <Text style={styles.detailLabel}>📅 Starting Date</Text>
                                 <Text style={styles.detailValue}>{formatDateDisplay()}</Text>
@@ -841,12 +1158,25 @@ function LoanOverviewScreenWebContent() {
                         </View>
 
                         {/* Payment Summary */}
+                        {creditLineStatus && <CreditLineSummary status={creditLineStatus} />}
+                        {creditCardParams && <CreditCardPayoffComparison scheduleParams={creditCardParams} />}
+                        <ScheduleWarnings diagnostics={scheduleDiagnostics} />
+
                         {monthlyPayment > 0 && (
                             <PaymentSummary
-                                monthlyPayment={paymentSchedule.length > 0 && monthsElapsed < paymentSchedule.length ? (paymentSchedule[monthsElapsed]?.payment || monthlyPayment) : monthlyPayment}
+                                monthlyPayment={currentPayment}
                                 totalPayment={actualTotalPayment}
-                                loanAmount={loanAmount}
+                                loanAmount={creditLine ? drawnAmount.toString() : creditCard ? (principal + drawnAmount).toString() : loanAmount}
                                 remainingBalance={remainingPrincipal}
+                                paymentFrequency={paymentFrequency}
+                                interestOnlyPayment={paymentSchedule[0]?.isInterestOnly ? paymentSchedule[0].payment : undefined}
+                                balloonPayment={paymentSchedule.find(payment => payment.isBalloon)?.payment}
+                                paymentRange={amortizationType === 'linear' || graduated ? getPaymentRange(paymentSchedule, minorUnits) : null}
+                                apr={apr}
+                                escrowPayment={paymentSchedule[Math.min(paymentsElapsed, paymentSchedule.length - 1)]?.escrow}
+                                pmiPayment={paymentSchedule[Math.min(paymentsElapsed, paymentSchedule.length - 1)]?.pmi}
+                                discountedTotals={discountedTotals}
+                                valueAdjustment={valueAdjustment}
                             />
                         )}
 
@@ -864,6 +1194,30 @@ function LoanOverviewScreenWebContent() {
                                                 <Text style={styles.savingsLabel}>💰 Money Saved:</Text>
                                                 <Text style={styles.savingsValue}>{formatCurrency(interestSaved, currency)}</Text>
                                             </View>
+                                            {prepaymentPenalties > 0 && (
+                                                <View style={styles.savingsRow}>
+                                                    <Text style={styles.savingsLabel}>🔒 Prepayment Penalties:</Text>
+                                                    <Text style={styles.savingsValue}>{formatCurrency(prepaymentPenalties, currency)}</Text>
+                                                </View>
+                                            )}
+                                            {realInterestSaved !== null && (
+                                                <View style={styles.savingsRow}>
+                                                    <Text style={styles.savingsLabel}>🛒 In Today's Money:</Text>
+                                                    <Text style={styles.savingsValue}>{formatCurrency(realInterestSaved, currency)}</Text>
+                                                </View>
+                                            )}
+                                            {paymentReduction > 0 && (
+                                                <View style={styles.savingsRow}>
+                                                    <Text style={styles.savingsLabel}>📉 Payment Lowered:</Text>
+                                                    <Text style={styles.savingsValue}>{formatCurrency(paymentReduction, currency)}</Text>
+                                                </View>
+                                            )}
+                                            {balloonReduction > 0 && (
+                                                <View style={styles.savingsRow}>
+                                                    <Text style={styles.savingsLabel}>🎈 Balloon Reduced:</Text>
+                                                    <Text style={styles.savingsValue}>{formatCurrency(balloonReduction, currency)}</Text>
+                                                </View>
+                                            )}
                                             <View style={styles.savingsRow}>
                                                 <Text style={styles.savingsLabel}>⚡ Time Saved:</Text>
                                                 <Text style={styles.savingsValue}>
@@ -879,8 +1233,7 @@ function LoanOverviewScreenWebContent() {
                                                     {(() => {
                                                         const lastPayment = paymentSchedule[paymentSchedule.length - 1];
                                                         if (!lastPayment) return 'N/A';
-                                                        const finalDate = new Date(dateRef.current);
-                                                        finalDate.setMonth(finalDate.getMonth() + paymentSchedule.length - 1);
+                                                        const finalDate = getPaymentDate(dateRef.current, paymentSchedule.length - 1, paymentFrequency);
                                                         const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
                                                         return `${monthNames[finalDate.getMonth()]} ${finalDate.getFullYear()}`;
                                                     })()}
@@ -919,12 +1272,12 @@ function LoanOverviewScreenWebContent() {
                                 </View>
 
                                 {/* Rate Adjustments */}
-                                {rateAdjustments.length > 0 && (
+                                {(rateAdjustments.length > 0 || armRateAdjustments.length > 0) && (
                                     <View style={styles.rateAdjustmentContainer}>
                                         <Text style={styles.sectionTitle}>💡 Interest Rate Changes</Text>
                                         <View style={styles.rateInfoNote}>
                                             <Text style={styles.rateInfoText}>
-                                                Your payment amount changes {rateAdjustments.length} time{rateAdjustments.length !== 1 ? 's' : ''} during this loan.
+                                                Your payment amount changes {rateAdjustments.length + armRateAdjustments.length} time{rateAdjustments.length + armRateAdjustments.length !== 1 ? 's' : ''} during this loan.
                                             </Text>
                                         </View>
                                         {rateAdjustments.map((adj, index) => {
@@ -957,6 +1310,25 @@ function LoanOverviewScreenWebContent() {
                                                 </View>
                                             );
                                         })}
+                                        {armRateAdjustments.map(adj => {
+                                            const adjustmentDate = new Date(dateRef.current);
+                                            adjustmentDate.setMonth(adjustmentDate.getMonth() + adj.month - 1);
+                                            const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+                                            const dateString = `${monthNames[adjustmentDate.getMonth()]} ${adjustmentDate.getFullYear()}`;
+                                            
+                                            return (
+                                                <View key={`arm-${adj.month}`} style={[styles.rateAdjustmentCard, styles.generatedRateAdjustmentCard]}>
+                                                    <View style={styles.rateAdjustmentHeader}>
+                                                        <View>
+                                                            <Text style={styles.rateAdjustmentName}>ARM reset (index + margin)</Text>
+                                                            <Text style={styles.rateAdjustmentMonth}>Payment #{adj.month}</Text>
+                                                            <Text style={styles.rateAdjustmentDate}>{dateString}</Text>
+                                                        </View>
+                                                        <Text style={styles.rateAdjustmentRate}>{adj.newRate}% APR</Text>
+                                                    </View>
+                                                </View>
+                                            );
+                                        })}
                                         <TouchableOpacity 
                                             style={styles.manageRatesButton}
                                             onPress={() => router.push(`/(tabs)/${loanId}/payments`)}
@@ -983,6 +1355,7 @@ function LoanOverviewScreenWebContent() {
                                         <DualLineChart
                                             title="💵 Where Your Money Goes"
                                             data={principalInterestData}
+                                            adjustedData={realPrincipalInterestData && { label: "Today's Money", data: realPrincipalInterestData }}
                                             earlyPayments={[]}
                                         />
                                     </View>
@@ -1015,14 +1388,9 @@ function LoanOverviewScreenWebContent() {
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                             <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Current Payment</Text>
                             <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
-                                {formatCurrency(
-                                    paymentSchedule.length > 0 && monthsElapsed < paymentSchedule.length 
-                                        ? (paymentSchedule[monthsElapsed]?.payment || monthlyPayment) 
-                                        : monthlyPayment,
-                                    currency
-                                )}
+                                {formatCurrency(currentPayment, currency)}
                             </Text>
-                            <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>per month</Text>
+                            <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>{getPaymentFrequencyLabel(paymentFrequency).toLowerCase()}</Text>
                         </View>
 
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
@@ -1061,10 +1429,10 @@ function LoanOverviewScreenWebContent() {
                             <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                                 <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Payments Made</Text>
                                 <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
-                                    {monthsElapsed} / {paymentSchedule.length}
+                                    {paymentsElapsed} / {paymentSchedule.length}
                                 </Text>
                                 <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
-                                    {paymentSchedule.length - monthsElapsed} payments remaining
+                                    {paymentSchedule.length - paymentsElapsed} payments remaining
                                 </Text>
                             </View>
                         )}
@@ -1119,7 +1487,7 @@ function LoanOverviewScreenWebContent() {
 
                             <View style={(draftData.loanAmount.trim() === '' || isNaN(parseFloat(draftData.loanAmount)) || parseFloat(draftData.loanAmount) <= 0) ? styles.fieldError : null}>
                                 <InputField
-                                    label="💵 Loan Amount"
+                                    label={creditLine ? "💵 Credit Limit" : creditCard ? "💳 Card Balance" : "💵 Loan Amount"}
                                     value={draftData.loanAmount}
                                     onChangeText={(val) => setDraftData({ ...draftData, loanAmount: val })}
                                     placeholder="Enter loan amount"
@@ -1130,7 +1498,7 @@ function LoanOverviewScreenWebContent() {
 
                             <View style={(draftData.interestRate.trim() === '' || isNaN(parseFloat(draftData.interestRate)) || parseFloat(draftData.interestRate) < 0) ? styles.fieldError : null}>
                                 <InputField
-                                    label="📈 Interest Rate (%)"
+                                    label={creditCard ? "📈 APR (%)" : "📈 Interest Rate (%)"}
                                     value={draftData.interestRate}
                                     onChangeText={(val) => setDraftData({ ...draftData, interestRate: val })}
                                     placeholder="Enter interest rate"
@@ -1138,14 +1506,72 @@ function LoanOverviewScreenWebContent() {
                                 />
                             </View>
 
-                            <View style={(draftData.term.trim() === '' || isNaN(parseFloat(draftData.term)) || parseFloat(draftData.term) <= 0) ? styles.fieldError : null}>
-                                <TermSelector
-                                    term={draftData.term}
-                                    onTermChange={(val) => setDraftData({ ...draftData, term: val })}
-                                    termUnit={draftData.termUnit}
-                                    onTermUnitChange={(val) => setDraftData({ ...draftData, termUnit: val })}
+                            {!creditCard && (
+                                <View style={(draftData.term.trim() === '' || isNaN(parseFloat(draftData.term)) || parseFloat(draftData.term) <= 0) ? styles.fieldError : null}>
+                                    <TermSelector
+                                        term={draftData.term}
+                                        onTermChange={(val) => setDraftData({ ...draftData, term: val })}
+                                        termUnit={draftData.termUnit}
+                                        onTermUnitChange={(val) => setDraftData({ ...draftData, termUnit: val })}
+                                        paymentFrequency={draftData.paymentFrequency}
+                                        onPaymentFrequencyChange={creditLine ? undefined : (val) => setDraftData({ ...draftData, paymentFrequency: val })}
+                                    />
+                                </View>
+                            )}
+
+                            {!creditCard && (
+                                <OptionSelector
+                                    label="🧮 Interest Calculation"
+                                    options={DAY_COUNT_CONVENTIONS}
+                                    value={draftData.dayCountConvention}
+                                    onChange={(val) => setDraftData({ ...draftData, dayCountConvention: val })}
                                 />
-                            </View>
+                            )}
+
+                            {!creditLine && !creditCard && (
+                                <>
+                                    <View style={(draftData.interestOnlyMonths.trim() !== '' && (isNaN(parseInt(draftData.interestOnlyMonths)) || parseInt(draftData.interestOnlyMonths) < 0)) ? styles.fieldError : null}>
+                                        <InputField
+                                            label="⏳ Interest-Only Period (months)"
+                                            value={draftData.interestOnlyMonths}
+                                            onChangeText={(val) => setDraftData({ ...draftData, interestOnlyMonths: val })}
+                                            placeholder="Optional, e.g. 12"
+                                            keyboardType="numeric"
+                                        />
+                                    </View>
+
+                                    <View style={(draftData.amortizationYears.trim() !== '' && !(parseFloat(draftData.amortizationYears) * 12 > convertTermToMonths(parseFloat(draftData.term), draftData.termUnit))) ? styles.fieldError : null}>
+                                        <InputField
+                                            label="🎈 Balloon Amortization Period (years)"
+                                            value={draftData.amortizationYears}
+                                            onChangeText={(val) => setDraftData({ ...draftData, amortizationYears: val })}
+                                            placeholder="Optional, e.g. 30"
+                                            keyboardType="numeric"
+                                        />
+                                    </View>
+
+                                    <OptionSelector
+                                        label="🔁 Compounding"
+                                        options={COMPOUNDING_FREQUENCIES}
+                                        value={draftData.compoundingFrequency}
+                                        onChange={(val) => setDraftData({ ...draftData, compoundingFrequency: val })}
+                                    />
+
+                                    <OptionSelector
+                                        label="📉 Amortization"
+                                        options={AMORTIZATION_TYPES}
+                                        value={draftData.amortizationType}
+                                        onChange={(val) => setDraftData({ ...draftData, amortizationType: val })}
+                                    />
+
+                                    <OptionSelector
+                                        label="💳 Interest Method"
+                                        options={INTEREST_METHODS}
+                                        value={draftData.interestMethod}
+                                        onChange={(val) => setDraftData({ ...draftData, interestMethod: val })}
+                                    />
+                                </>
+                            )}
 
                             <View>
                                 <Text style={styles.dateLabel}>📅 Starting Date</Text>
@@ -1638,6 +2064,10 @@ const createStyles = (colors: any, mode: string) => StyleSheet.create({
         borderWidth: 1,
         borderColor: colors.border,
     },
+    generatedRateAdjustmentCard: {
+        borderStyle: 'dashed',
+        borderColor: colors.primary,
+    },
     rateAdjustmentHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -1,14 +1,27 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Text, View, StyleSheet, ScrollView, TouchableOpacity, Alert } from "react-native";
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useGlobalSearchParams, router, useFocusEffect } from 'expo-router';
 import { theme } from '../../../constants/theme';
 import EarlyPaymentList, { EarlyPayment, EarlyPaymentListRef } from "../../../components/EarlyPaymentList";
 import RateAdjustmentList, { RateAdjustment, RateAdjustmentListRef } from "../../../components/RateAdjustmentList";
+import ArmSettings from "../../../components/ArmSettings";
+import EscrowSettings from "../../../components/EscrowSettings";
+import PrepaymentPolicySettings from "../../../components/PrepaymentPolicySettings";
+import DeferralList from "../../../components/DeferralList";
+import CreditLineLedger from "../../../components/CreditLineLedger";
+import CreditLineSummary from "../../../components/CreditLineSummary";
+import CreditCardChargeList from "../../../components/CreditCardChargeList";
+import CreditCardPayoffComparison from "../../../components/CreditCardPayoffComparison";
+import ExtraPaymentSolver from "../../../components/ExtraPaymentSolver";
+import InvestVsPrepay from "../../../components/InvestVsPrepay";
+import EarlyPayoffNote from "../../../components/EarlyPayoffNote";
+import ScheduleWarnings from "../../../components/ScheduleWarnings";
 import { AutoSaveIndicator, AutoSaveHandle } from "../../../components/AutoSaveIndicator";
-import { calculatePayment, generatePaymentSchedule, PaymentDetail } from "../../../utils/loanCalculations";
+import { calculatePayment, generatePaymentSchedule, generatePaymentScheduleWithDiagnostics, PaymentDetail, convertPaymentsToMonths, getPaymentDate, getScheduleOptions, getLoanStatus, getCreditLineStatus, generateArmRateAdjustments, ArmConfig, EscrowConfig, PaymentDeferral, CreditLineConfig, CreditCardConfig, MAX_CREDIT_CARD_APR, PrepaymentPolicy, getPrepaymentAllowanceUsage, ScheduleOptions, PaymentScheduleParams } from "../../../utils/loanCalculations";
 import { incrementProgress, updateProgress } from "../../../utils/achievementUtils";
-import { Loan } from "../../../utils/storage";
+import { Loan, Currency, getCurrencyPreference } from "../../../utils/storage";
+import { getCurrencyMinorUnits } from "../../../utils/currencyUtils";
 
 export default function PaymentsScreen() {
     const params = useGlobalSearchParams();
@@ -18,12 +31,27 @@ export default function PaymentsScreen() {
     const autoSaveRef = useRef<AutoSaveHandle>(null);
     const earlyPaymentsRef = useRef<EarlyPayment[]>([]);
     const rateAdjustmentsRef = useRef<RateAdjustment[]>([]);
+    const armRef = useRef<ArmConfig | undefined>(undefined);
+    const escrowRef = useRef<EscrowConfig | undefined>(undefined);
+    const deferralsRef = useRef<PaymentDeferral[]>([]);
+    const creditLineRef = useRef<CreditLineConfig | undefined>(undefined);
+    const creditCardRef = useRef<CreditCardConfig | undefined>(undefined);
+    const prepaymentPolicyRef = useRef<PrepaymentPolicy | undefined>(undefined);
     
     const [earlyPayments, setEarlyPayments] = useState<EarlyPayment[]>([]);
     const [rateAdjustments, setRateAdjustments] = useState<RateAdjustment[]>([]);
+    const [arm, setArm] = useState<ArmConfig | undefined>(undefined); // Adjustable-rate terms
+    const [escrow, setEscrow] = useState<EscrowConfig | undefined>(undefined); // Taxes, insurance and PMI
+    const [deferrals, setDeferrals] = useState<PaymentDeferral[]>([]); // Payment pauses
+    const [creditLine, setCreditLine] = useState<CreditLineConfig | undefined>(undefined); // Draw ledger of a credit line
+    const [creditCard, setCreditCard] = useState<CreditCardConfig | undefined>(undefined); // Minimum payment terms and charges of a credit card
+    const [prepaymentPolicy, setPrepaymentPolicy] = useState<PrepaymentPolicy | undefined>(undefined); // Yearly allowance and penalties on early payments
+    const [annualRate, setAnnualRate] = useState(0);
     const [startDate, setStartDate] = useState(new Date());
     const [loanAmount, setLoanAmount] = useState("");
     const [loanTermInMonths, setLoanTermInMonths] = useState(0);
+    const [scheduleOptions, setScheduleOptions] = useState<ScheduleOptions>({}); // Frequency, interest-only and other loan structure
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }); // Sets the rounding of amounts
 
     // Load loan data when component mounts
     useEffect(() => {
@@ -36,8 +64,20 @@ export default function PaymentsScreen() {
             // Clear state when switching to different loan
             setEarlyPayments([]);
             setRateAdjustments([]);
+            setArm(undefined);
+            setEscrow(undefined);
+            setDeferrals([]);
+            setCreditLine(undefined);
+            setCreditCard(undefined);
+            setPrepaymentPolicy(undefined);
             earlyPaymentsRef.current = [];
             rateAdjustmentsRef.current = [];
+            armRef.current = undefined;
+            escrowRef.current = undefined;
+            deferralsRef.current = [];
+            creditLineRef.current = undefined;
+            creditCardRef.current = undefined;
+            prepaymentPolicyRef.current = undefined;
         };
     }, [loanId]);
 
@@ -47,10 +87,11 @@ export default function PaymentsScreen() {
             // Only reload loan metadata (startDate, amount, term) but NOT earlyPayments/rateAdjustments
             // to avoid overwriting user changes
             loadLoanMetadata();
+            getCurrencyPreference().then(setCurrency);
             
             // Save any pending changes when navigating away (without debounce)
             return () => {
-                if ((earlyPaymentsRef.current.length > 0 || rateAdjustmentsRef.current.length > 0) && autoSaveRef.current) {
+                if ((earlyPaymentsRef.current.length > 0 || rateAdjustmentsRef.current.length > 0 || armRef.current || escrowRef.current || deferralsRef.current.length > 0 || creditLineRef.current || creditCardRef.current || prepaymentPolicyRef.current) && autoSaveRef.current) {
                     autoSaveRef.current.forceSave();
                 }
             };
@@ -88,6 +129,10 @@ export default function PaymentsScreen() {
                     if (loan.amount != null) {
                         setLoanAmount(loan.amount.toString());
                     }
+                    if (typeof loan.interestRate === 'number') {
+                        setAnnualRate(loan.interestRate);
+                    }
+                    setScheduleOptions(getScheduleOptions(loan));
                     // Calculate term in months
                     const termValue = parseFloat(loan.term);
                     if (!isNaN(termValue)) {
@@ -118,10 +163,22 @@ export default function PaymentsScreen() {
                     
                     setEarlyPayments(loadedEarlyPayments);
                     setRateAdjustments(loadedRateAdjustments);
+                    setArm(loan.arm);
+                    setEscrow(loan.escrow);
+                    setDeferrals(loan.deferrals || []);
+                    setCreditLine(loan.creditLine);
+                    setCreditCard(loan.creditCard);
+                    setPrepaymentPolicy(loan.prepaymentPolicy);
                     
                     // IMPORTANT: Update refs to match loaded state
                     earlyPaymentsRef.current = loadedEarlyPayments;
                     rateAdjustmentsRef.current = loadedRateAdjustments;
+                    armRef.current = loan.arm;
+                    escrowRef.current = loan.escrow;
+                    deferralsRef.current = loan.deferrals || [];
+                    creditLineRef.current = loan.creditLine;
+                    creditCardRef.current = loan.creditCard;
+                    prepaymentPolicyRef.current = loan.prepaymentPolicy;
                     
                     if (loan.startDate) {
                         // Parse date in local time to avoid timezone shifts
@@ -129,6 +186,8 @@ export default function PaymentsScreen() {
                         setStartDate(new Date(year, month - 1, day));
                     }
                     setLoanAmount(loan.amount.toString());
+                    setAnnualRate(loan.interestRate);
+                    setScheduleOptions(getScheduleOptions(loan));
                     // Calculate term in months
                     const termValue = parseFloat(loan.term);
                     const termInMonths = loan.termUnit === 'years' ? termValue * 12 : termValue;
@@ -155,6 +214,9 @@ export default function PaymentsScreen() {
                 const principal = existingLoan.amount;
                 const annualRate = existingLoan.interestRate;
                 const termInMonths = existingLoan.termUnit === 'years' ? existingLoan.term * 12 : existingLoan.term;
+                const scheduleOptions = { ...getScheduleOptions(existingLoan), arm: armRef.current, escrow: escrowRef.current, deferrals: deferralsRef.current, creditLine: creditLineRef.current, creditCard: creditCardRef.current, prepaymentPolicy: prepaymentPolicyRef.current };
+                const { paymentFrequency } = scheduleOptions;
+                const minorUnits = getCurrencyMinorUnits(await getCurrencyPreference());
                 
                 // Convert rate adjustments to calculation format
                 const rateAdjustmentsForCalc = rateAdjustmentsRef.current.map(adj => ({
@@ -166,47 +228,52 @@ export default function PaymentsScreen() {
                 // Parse date in local time to avoid timezone shifts
                 const [year, month, day] = existingLoan.startDate.split('-').map(Number);
                 const loanStartDate = new Date(year, month - 1, day);
-                const schedule = generatePaymentSchedule({
+                const scheduleParams = {
                     principal,
                     annualRate,
                     termInMonths,
                     startDate: loanStartDate,
+                    ...scheduleOptions,
                     earlyPayments: earlyPaymentsRef.current,
-                    rateAdjustments: rateAdjustmentsForCalc
-                });
-                
-                // Calculate current monthly payment from schedule
-                const monthsElapsed = Math.max(0, Math.floor((Date.now() - loanStartDate.getTime()) / (1000 * 60 * 60 * 24 * 30.44)));
-                const { monthlyPayment } = calculatePayment({ principal, annualRate, termInMonths });
-                const currentMonthlyPayment = schedule.length === 0 || monthsElapsed >= schedule.length
-                    ? monthlyPayment
-                    : schedule[monthsElapsed]?.payment || monthlyPayment;
+                    rateAdjustments: rateAdjustmentsForCalc,
+                    minorUnits
+                };
+                const schedule = generatePaymentSchedule(scheduleParams);
                 
-                // Calculate remaining balance from schedule
-                const remainingBalance = schedule.length === 0 || monthsElapsed === 0
-                    ? principal
-                    : monthsElapsed >= schedule.length
-                        ? 0
-                        : Math.max(0, schedule[monthsElapsed]?.balance || 0);
+                // Current payment and remaining balance as of today, from the schedule
+                const status = getLoanStatus(scheduleParams, new Date(), schedule);
+                const { monthlyPayment } = calculatePayment({ principal, annualRate, termInMonths, ...scheduleOptions });
+                // Nothing is due on an undrawn credit line or a paid-off card
+                const currentMonthlyPayment = scheduleOptions.creditLine || scheduleOptions.creditCard ? status.currentPayment : status.currentPayment || monthlyPayment;
+                const remainingBalance = status.balance;
                 
                 // Calculate freedom date
-                const freedomDate = schedule.length > 0 ? (() => {
-                    const finalDate = new Date(loanStartDate);
-                    finalDate.setMonth(finalDate.getMonth() + schedule.length - 1);
-                    return finalDate.toISOString();
-                })() : null;
+                const freedomDate = schedule.length > 0
+                    ? getPaymentDate(loanStartDate, schedule.length - 1, paymentFrequency).toISOString()
+                    : null;
                 
                 // Create a new loan object to avoid mutation issues
                 loans[loanIndex] = {
                     ...existingLoan,
                     earlyPayments: JSON.parse(JSON.stringify(earlyPaymentsRef.current)), // Deep clone
                     rateAdjustments: JSON.parse(JSON.stringify(rateAdjustmentsRef.current)), // Deep clone
+                    arm: armRef.current,
+                    escrow: escrowRef.current,
+                    deferrals: deferralsRef.current,
+                    creditLine: creditLineRef.current,
+                    creditCard: creditCardRef.current,
+                    prepaymentPolicy: prepaymentPolicyRef.current,
+                    // A card's term follows its payoff
+                    ...(creditCardRef.current && { term: schedule.length, termUnit: 'months' }),
                     currentMonthlyPayment,
                     remainingBalance,
                     freedomDate,
                 };
                 
                 await AsyncStorage.setItem('loans', JSON.stringify(loans));
+                if (creditCardRef.current) {
+                    setLoanTermInMonths(schedule.length);
+                }
                 
                 // Track achievements - always update counts
                 // Count total early payments across all loans (after saving)
@@ -240,14 +307,16 @@ export default function PaymentsScreen() {
                         annualRate,
                         termInMonths,
                         startDate: loanStartDate,
-                        rateAdjustments: rateAdjustmentsForCalc
+                        ...scheduleOptions,
+                        rateAdjustments: rateAdjustmentsForCalc,
+                        minorUnits
                     });
                     
                     // Compare to schedule with BOTH rate adjustments AND early payments
                     const interestWithOnlyRates = scheduleWithOnlyRates.reduce((sum: number, payment: PaymentDetail) => sum + payment.interest, 0);
                     const interestWithBoth = schedule.reduce((sum: number, payment: PaymentDetail) => sum + payment.interest, 0);
                     const interestSaved = Math.max(0, interestWithOnlyRates - interestWithBoth);
-                    const monthsSaved = Math.max(0, scheduleWithOnlyRates.length - schedule.length);
+                    const monthsSaved = Math.max(0, convertPaymentsToMonths(scheduleWithOnlyRates.length - schedule.length, paymentFrequency));
                     
                     await updateProgress('max_interest_saved', interestSaved);
                     await updateProgress('max_months_saved', monthsSaved);
@@ -271,6 +340,92 @@ export default function PaymentsScreen() {
         rateAdjustmentsRef.current = adjustments; // Keep ref in sync
     };
 
+    // Handle adjustable-rate term changes (saved right away, like a closed modal)
+    const handleArmChange = (newArm: ArmConfig | undefined) => {
+        setArm(newArm);
+        armRef.current = newArm; // Keep ref in sync
+        autoSaveRef.current?.forceSave();
+    };
+
+    // Handle escrow and PMI changes (saved right away, like a closed modal)
+    const handleEscrowChange = (newEscrow: EscrowConfig | undefined) => {
+        setEscrow(newEscrow);
+        escrowRef.current = newEscrow; // Keep ref in sync
+        autoSaveRef.current?.forceSave();
+    };
+
+    // Handle prepayment allowance and penalty changes (saved right away, like a closed modal)
+    const handlePrepaymentPolicyChange = (newPolicy: PrepaymentPolicy | undefined) => {
+        setPrepaymentPolicy(newPolicy);
+        prepaymentPolicyRef.current = newPolicy; // Keep ref in sync
+        autoSaveRef.current?.forceSave();
+    };
+
+    // Handle payment pause changes (saved right away, like a closed modal)
+    const handleDeferralsChange = (newDeferrals: PaymentDeferral[]) => {
+        setDeferrals(newDeferrals);
+        deferralsRef.current = newDeferrals; // Keep ref in sync
+        autoSaveRef.current?.forceSave();
+    };
+
+    // Handle credit line draws and repayments (saved right away, like a closed modal)
+    const handleCreditLineChange = (newCreditLine: CreditLineConfig) => {
+        setCreditLine(newCreditLine);
+        creditLineRef.current = newCreditLine; // Keep ref in sync
+        autoSaveRef.current?.forceSave();
+    };
+
+    // Handle credit card charges (saved right away, like a closed modal)
+    const handleCreditCardChange = (newCreditCard: CreditCardConfig) => {
+        setCreditCard(newCreditCard);
+        creditCardRef.current = newCreditCard; // Keep ref in sync
+        autoSaveRef.current?.forceSave();
+    };
+
+    // Rate changes derived from the ARM terms, shown alongside the manual ones
+    const generatedAdjustments = useMemo(() => 
+        arm ? generateArmRateAdjustments(arm, annualRate, loanTermInMonths, startDate) : [],
+        [arm, annualRate, loanTermInMonths, startDate]
+    );
+
+    // Current loan with its early payments and rate changes, for the extra payment solver and schedule warnings
+    const solverParams = useMemo<PaymentScheduleParams>(() => ({
+        principal: parseFloat(loanAmount) || 0,
+        annualRate,
+        termInMonths: loanTermInMonths,
+        startDate,
+        ...scheduleOptions,
+        arm,
+        deferrals,
+        creditLine,
+        creditCard,
+        prepaymentPolicy,
+        earlyPayments,
+        rateAdjustments: rateAdjustments.map(adj => ({
+            month: parseInt(adj.month),
+            newRate: parseFloat(adj.newRate)
+        })),
+        minorUnits: getCurrencyMinorUnits(currency),
+    }), [loanAmount, annualRate, loanTermInMonths, startDate, scheduleOptions, arm, deferrals, creditLine, creditCard, prepaymentPolicy, earlyPayments, rateAdjustments, currency]);
+
+    // Early payments of each loan year against the prepayment allowance
+    const prepaymentYears = useMemo(() => getPrepaymentAllowanceUsage(solverParams), [solverParams]);
+
+    // Balance, available credit and phase of a credit line
+    const creditLineStatus = useMemo(() => getCreditLineStatus(solverParams), [solverParams]);
+
+    // Problems the current adjustments cause, such as a balance that grows instead of shrinking
+    const scheduleDiagnostics = useMemo(() =>
+        generatePaymentScheduleWithDiagnostics(solverParams).diagnostics,
+        [solverParams]
+    );
+
+    // Add the solved extra payment as a recurring early payment and save right away
+    const handleAddSolvedPayment = (payment: EarlyPayment) => {
+        handleEarlyPaymentsChange([...earlyPaymentsRef.current, payment]);
+        autoSaveRef.current?.forceSave();
+    };
+
     // Trigger save when modal closes
     const handleModalClose = () => {
         autoSaveRef.current?.forceSave();
@@ -284,25 +439,84 @@ export default function PaymentsScreen() {
                 Adjust your loan with extra payments or interest rate changes to see their impact on your payoff timeline and total interest.
             </Text>
 
-            {/* Early Payments Section */}
-            <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Early Payments</Text>
-                <View style={styles.noteBox}>
-                    <Text style={styles.noteIcon}>ℹ️</Text>
-                    <Text style={styles.noteText}>
-                        Early payments reduce your loan term (pay off faster) while keeping your monthly payment the same.
-                    </Text>
+            <ScheduleWarnings diagnostics={scheduleDiagnostics} />
+
+            {/* Draws & Repayments Section for a credit line, Charges Section for a credit card */}
+            {creditLine && creditLineStatus ? (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Draws & Repayments</Text>
+                    <View style={styles.noteBox}>
+                        <Text style={styles.noteIcon}>ℹ️</Text>
+                        <Text style={styles.noteText}>
+                            Record each draw and repayment on the credit line. Interest accrues daily on the balance; after the draw period the balance is repaid over the rest of the term.
+                        </Text>
+                    </View>
+
+                    <CreditLineSummary status={creditLineStatus} />
+
+                    <CreditLineLedger
+                        creditLine={creditLine}
+                        onCreditLineChange={handleCreditLineChange}
+                        drawPeriodEnd={creditLineStatus.drawPeriodEnd}
+                    />
+                </View>
+            ) : creditCard ? (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Charges</Text>
+                    <View style={styles.noteBox}>
+                        <Text style={styles.noteIcon}>ℹ️</Text>
+                        <Text style={styles.noteText}>
+                            Add new purchases on the card. Each charge is added to the next statement and raises the minimum payment, pushing back the payoff date.
+                        </Text>
+                    </View>
+
+                    <CreditCardChargeList
+                        creditCard={creditCard}
+                        onCreditCardChange={handleCreditCardChange}
+                    />
+
+                    <CreditCardPayoffComparison scheduleParams={solverParams} />
                 </View>
+            ) : null}
+
+            {/* Early Payments Section, except on a credit line */}
+            {!creditLine && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Early Payments</Text>
+                    <View style={styles.noteBox}>
+                        <Text style={styles.noteIcon}>ℹ️</Text>
+                        <Text style={styles.noteText}>
+                            Early payments reduce your loan term (pay off faster) while keeping your monthly payment the same, or can be set to lower your payment and keep the term.
+                        </Text>
+                    </View>
                 
-                <EarlyPaymentList
-                    ref={earlyPaymentListRef}
-                    payments={earlyPayments}
-                    onPaymentsChange={handleEarlyPaymentsChange}
-                    onModalClose={handleModalClose}
-                    loanStartDate={startDate}
-                    loanTermInMonths={loanTermInMonths}
-                />
-            </View>
+                    <EarlyPaymentList
+                        ref={earlyPaymentListRef}
+                        payments={earlyPayments}
+                        onPaymentsChange={handleEarlyPaymentsChange}
+                        onModalClose={handleModalClose}
+                        loanStartDate={startDate}
+                        loanTermInMonths={loanTermInMonths}
+                        prepaymentYears={prepaymentYears}
+                    />
+
+                    {!creditCard && (
+                        <>
+                            <PrepaymentPolicySettings policy={prepaymentPolicy} onPolicyChange={handlePrepaymentPolicyChange} />
+
+                            <ExtraPaymentSolver
+                                scheduleParams={solverParams}
+                                currency={currency}
+                                onAddPayment={handleAddSolvedPayment}
+                            />
+
+                            <EarlyPayoffNote scheduleParams={solverParams} />
+
+                            <InvestVsPrepay scheduleParams={solverParams} />
+                        </>
+                    )}
+                </View>
+            )}
 
             {/* Rate Adjustments Section */}
             <View style={styles.section}>
@@ -310,10 +524,12 @@ export default function PaymentsScreen() {
                 <View style={styles.noteBox}>
                     <Text style={styles.noteIcon}>ℹ️</Text>
                     <Text style={styles.noteText}>
-                        Rate changes adjust your monthly payment while keeping the same payoff timeline.
+                        Rate changes adjust your monthly payment while keeping the same payoff timeline. For an adjustable-rate loan, set up its ARM terms to generate the resets.
                     </Text>
                 </View>
                 
+                {!creditCard && <ArmSettings arm={arm} onArmChange={handleArmChange} />}
+
                 <RateAdjustmentList
                     ref={rateAdjustmentListRef}
                     adjustments={rateAdjustments}
@@ -321,9 +537,46 @@ export default function PaymentsScreen() {
                     onModalClose={handleModalClose}
                     loanStartDate={startDate}
                     loanTermInMonths={loanTermInMonths}
+                    generatedAdjustments={generatedAdjustments}
+                    maxRate={creditCard ? MAX_CREDIT_CARD_APR : undefined}
                 />
             </View>
 
+            {/* Payment Pauses Section */}
+            {!creditLine && !creditCard && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Payment Pauses</Text>
+                    <View style={styles.noteBox}>
+                        <Text style={styles.noteIcon}>ℹ️</Text>
+                        <Text style={styles.noteText}>
+                            Model a payment holiday, deferral or forbearance. The schedule shows the skipped payments and what the pause costs.
+                        </Text>
+                    </View>
+
+                    <DeferralList
+                        deferrals={deferrals}
+                        onDeferralsChange={handleDeferralsChange}
+                        loanStartDate={startDate}
+                        loanTermInMonths={loanTermInMonths}
+                    />
+                </View>
+            )}
+
+            {/* Escrow Section */}
+            {!creditLine && !creditCard && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Escrow & PMI</Text>
+                    <View style={styles.noteBox}>
+                        <Text style={styles.noteIcon}>ℹ️</Text>
+                        <Text style={styles.noteText}>
+                            Property tax, insurance, HOA dues and PMI are collected with your payment but don't reduce your balance. PMI stops automatically once you reach the loan-to-value ratio.
+                        </Text>
+                    </View>
+
+                    <EscrowSettings escrow={escrow} onEscrowChange={handleEscrowChange} />
+                </View>
+            )}
+
             {/* Info box */}
             <View style={styles.infoBox}>
                 <Text style={styles.infoIcon}>💡</Text>
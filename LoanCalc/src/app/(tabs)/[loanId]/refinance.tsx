@@ -0,0 +1,407 @@
+import { useState, useCallback, useMemo } from "react";
+import { Text, View, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, Keyboard, ScrollView, KeyboardAvoidingView, Platform } from "react-native";
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useGlobalSearchParams, router, useFocusEffect } from 'expo-router';
+import { theme } from '../../../constants/theme';
+import InputField from "../../../components/InputField";
+import TermSelector from "../../../components/TermSelector";
+import OptionSelector from "../../../components/OptionSelector";
+import DualLineChart from "../../../components/DualLineChart";
+import { calculateRefinance, generatePaymentSchedule, getScheduleTotals, getScheduleOptions, getRefinancedScheduleOptions, getPaymentDate, convertTermToMonths, convertTermToPayments, getPaymentFrequencyLabel, PaymentScheduleParams } from "../../../utils/loanCalculations";
+import { getAllLoans, saveAllLoans, getCurrencyPreference, getNotificationPreferences, Currency, Loan } from "../../../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../../../utils/currencyUtils";
+import { cancelLoanNotifications, scheduleNextPaymentReminder } from "../../../utils/notificationUtils";
+import { incrementProgress } from "../../../utils/achievementUtils";
+
+type ClosingCostOption = 'upfront' | 'rollIn';
+
+const CLOSING_COST_OPTIONS: { value: ClosingCostOption; label: string }[] = [
+    { value: 'upfront', label: 'Pay Upfront' },
+    { value: 'rollIn', label: 'Add to Loan' },
+];
+
+// Format a date as YYYY-MM-DD in local time, the way loans store their start date
+const toDateString = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export default function RefinanceScreen() {
+    const insets = useSafeAreaInsets();
+    const params = useGlobalSearchParams();
+    const loanId = params.loanId as string;
+    const [loan, setLoan] = useState<Loan | null>(null);
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState("");
+
+    // New loan inputs
+    const [newRate, setNewRate] = useState("");
+    const [term, setTerm] = useState("");
+    const [termUnit, setTermUnit] = useState<"months" | "years">("years");
+    const [closingCosts, setClosingCosts] = useState("");
+    const [closingCostOption, setClosingCostOption] = useState<ClosingCostOption>('upfront');
+
+    useFocusEffect(
+        useCallback(() => {
+            getCurrencyPreference().then(setCurrency);
+            getAllLoans().then(loans => setLoan(loans.find(l => l.id === loanId) || null));
+        }, [loanId])
+    );
+
+    const minorUnits = getCurrencyMinorUnits(currency);
+
+    // Current loan with its early payments and rate changes
+    const currentLoan = useMemo<PaymentScheduleParams | null>(() => {
+        if (!loan) return null;
+        const [year, month, day] = loan.startDate.split('-').map(Number);
+        return {
+            principal: loan.amount,
+            annualRate: loan.interestRate,
+            termInMonths: convertTermToMonths(loan.term, loan.termUnit),
+            startDate: new Date(year, month - 1, day),
+            ...getScheduleOptions(loan),
+            earlyPayments: loan.earlyPayments || [],
+            rateAdjustments: (loan.rateAdjustments || []).map(adj => ({
+                month: parseInt(adj.month),
+                newRate: parseFloat(adj.newRate)
+            })),
+            minorUnits,
+        };
+    }, [loan, minorUnits]);
+
+    const rate = parseFloat(newRate);
+    const newTermInMonths = convertTermToMonths(parseFloat(term), termUnit);
+    const costs = parseFloat(closingCosts) || 0;
+    const isValidInput = rate >= 0 && newTermInMonths > 0 && costs >= 0;
+
+    const analysis = useMemo(() => currentLoan && isValidInput
+        ? calculateRefinance(currentLoan, {
+            newRate: rate,
+            newTermInMonths,
+            closingCosts: costs,
+            rollInClosingCosts: closingCostOption === 'rollIn',
+        })
+        : null,
+        [currentLoan, isValidInput, rate, newTermInMonths, costs, closingCostOption]
+    );
+
+    const paymentFrequency = currentLoan?.paymentFrequency || 'monthly';
+    const breakEvenDate = analysis?.breakEvenMonth
+        ? getPaymentDate(analysis.newStartDate, convertTermToPayments(analysis.breakEvenMonth - 1, paymentFrequency), paymentFrequency)
+        : null;
+
+    // Create the new loan from the refinance and mark the current one as refinanced
+    const createRefinancedLoan = async () => {
+        if (!loan || !analysis || isCreating) return;
+        setIsCreating(true);
+        setError("");
+
+        try {
+            const loans = await getAllLoans();
+            const loanIndex = loans.findIndex(l => l.id === loan.id);
+            if (loanIndex === -1) {
+                throw new Error('Current loan not found');
+            }
+
+            const newId = Date.now().toString();
+            const startDate = toDateString(analysis.newStartDate);
+            // Same terms as the analysis, so the saved loan matches the payment shown
+            const scheduleOptions = getRefinancedScheduleOptions(loan);
+            const schedule = generatePaymentSchedule({
+                principal: analysis.newPrincipal,
+                annualRate: rate,
+                termInMonths: newTermInMonths,
+                startDate: analysis.newStartDate,
+                ...scheduleOptions,
+                minorUnits,
+            });
+
+            const newLoan: Loan = {
+                id: newId,
+                name: `${loan.name || 'Loan'} (Refinanced)`,
+                amount: analysis.newPrincipal,
+                interestRate: rate,
+                term: parseFloat(term),
+                termUnit,
+                ...scheduleOptions, // Same property, so taxes and insurance carry over
+                startDate,
+                monthlyPayment: analysis.newPayment,
+                totalPayment: getScheduleTotals(schedule, minorUnits).totalPayment,
+                createdAt: new Date().toISOString(),
+                earlyPayments: [],
+                rateAdjustments: [],
+                refinancedFrom: loan.id,
+            };
+
+            // Reminders move from the old loan to the new one
+            await cancelLoanNotifications(loan.scheduledNotificationIds || []);
+            const notificationPrefs = await getNotificationPreferences();
+            if (notificationPrefs.enabled) {
+                newLoan.scheduledNotificationIds = await scheduleNextPaymentReminder(
+                    newId,
+                    newLoan.name,
+                    schedule,
+                    startDate,
+                    notificationPrefs.reminderDays,
+                    paymentFrequency
+                );
+            }
+
+            loans[loanIndex] = {
+                ...loans[loanIndex],
+                refinancedInto: newId,
+                scheduledNotificationIds: [],
+            };
+            loans.push(newLoan);
+            if (!await saveAllLoans(loans)) {
+                throw new Error('Failed to save loans');
+            }
+
+            await incrementProgress('loans_created');
+            router.push(`/(tabs)/${newId}/overview`);
+        } catch (error) {
+            console.error('Error refinancing loan:', error);
+            setError("Failed to create the new loan. Please try again.");
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return <KeyboardAvoidingView
+        style={styles.wrapper}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        keyboardVerticalOffset={100}
+    >
+        <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+            <ScrollView
+                style={styles.container}
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 20) + 80 }}
+            >
+        <Text style={styles.title}>
+            Refinance {loan?.name || 'Loan'}
+        </Text>
+
+        {loan?.refinancedInto && (
+            <View style={styles.notice}>
+                <Text style={styles.noticeText}>This loan has already been refinanced.</Text>
+                <TouchableOpacity onPress={() => router.push(`/(tabs)/${loan.refinancedInto}/overview`)}>
+                    <Text style={styles.noticeLink}>View the new loan →</Text>
+                </TouchableOpacity>
+            </View>
+        )}
+
+        <InputField
+            label="New Interest Rate (%)"
+            value={newRate}
+            onChangeText={setNewRate}
+            placeholder="Enter new interest rate"
+            keyboardType="decimal-pad"
+        />
+
+        <TermSelector
+            term={term}
+            termUnit={termUnit}
+            onTermChange={setTerm}
+            onTermUnitChange={setTermUnit}
+        />
+
+        <InputField
+            label="Closing Costs"
+            value={closingCosts}
+            onChangeText={setClosingCosts}
+            placeholder="Fees and costs of refinancing"
+            keyboardType="numeric"
+            formatNumber={true}
+        />
+
+        <OptionSelector
+            label="Closing Costs Paid"
+            options={CLOSING_COST_OPTIONS}
+            value={closingCostOption}
+            onChange={setClosingCostOption}
+        />
+
+        {analysis && (
+            <View style={styles.resultCard}>
+                <Text style={styles.resultLabel}>{analysis.lifetimeCostDifference <= 0 ? 'Lifetime Savings' : 'Lifetime Extra Cost'}</Text>
+                <Text style={[styles.resultValue, analysis.lifetimeCostDifference > 0 && styles.costValue]}>
+                    {formatCurrency(Math.abs(analysis.lifetimeCostDifference), currency, 0)}
+                </Text>
+
+                <View style={styles.resultRow}>
+                    <Text style={styles.resultRowLabel}>Balance Refinanced</Text>
+                    <Text style={styles.resultRowValue}>{formatCurrency(analysis.currentBalance, currency)}</Text>
+                </View>
+                {analysis.prepaymentPenalty > 0 && (
+                    <View style={styles.resultRow}>
+                        <Text style={styles.resultRowLabel}>Prepayment Penalty</Text>
+                        <Text style={styles.resultRowValue}>{formatCurrency(analysis.prepaymentPenalty, currency)}</Text>
+                    </View>
+                )}
+                <View style={styles.resultRow}>
+                    <Text style={styles.resultRowLabel}>{getPaymentFrequencyLabel(paymentFrequency)} Payment</Text>
+                    <Text style={styles.resultRowValue}>
+                        {formatCurrency(analysis.currentPayment, currency)} → {formatCurrency(analysis.newPayment, currency)}
+                    </Text>
+                </View>
+                <View style={styles.resultRow}>
+                    <Text style={styles.resultRowLabel}>Remaining Interest</Text>
+                    <Text style={styles.resultRowValue}>
+                        {formatCurrency(analysis.remainingInterest, currency, 0)} → {formatCurrency(analysis.newInterest, currency, 0)}
+                    </Text>
+                </View>
+                <View style={styles.resultRow}>
+                    <Text style={styles.resultRowLabel}>Interest Difference</Text>
+                    <Text style={styles.resultRowValue}>
+                        {analysis.interestDifference > 0 ? '+' : '−'}{formatCurrency(Math.abs(analysis.interestDifference), currency, 0)}
+                    </Text>
+                </View>
+                <View style={styles.resultRow}>
+                    <Text style={styles.resultRowLabel}>Break-Even</Text>
+                    <Text style={styles.resultRowValue}>
+                        {analysis.breakEvenMonth && breakEvenDate
+                            ? `${analysis.breakEvenMonth} month${analysis.breakEvenMonth !== 1 ? 's' : ''} (${breakEvenDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })})`
+                            : 'Never'}
+                    </Text>
+                </View>
+            </View>
+        )}
+
+        {analysis && analysis.cumulativeCost.length > 1 && (
+            <DualLineChart
+                title="📈 Cumulative Cost (Interest + Closing Costs)"
+                data={analysis.cumulativeCost.map(point => ({ principal: point.current, interest: point.refinanced }))}
+                legendLabels={{ principal: "Keep Current Loan", interest: "Refinance" }}
+                colors={{ principal: theme.colors.warning, interest: theme.colors.primary }}
+                yAxisFormatter={(value: number) => formatCurrency(value / 1000, currency, 0) + 'k'}
+            />
+        )}
+
+        {currentLoan && isValidInput && !analysis && (
+            <View style={styles.errorIndicator}>
+                <Text style={styles.errorText}>⚠️ This loan has no balance left to refinance</Text>
+            </View>
+        )}
+
+        {error !== "" && (
+            <View style={styles.errorIndicator}>
+                <Text style={styles.errorText}>⚠️ {error}</Text>
+            </View>
+        )}
+
+        {analysis && !loan?.refinancedInto && (
+            <TouchableOpacity
+                style={[styles.createButton, isCreating && styles.createButtonDisabled]}
+                onPress={createRefinancedLoan}
+                disabled={isCreating}
+                activeOpacity={0.8}
+            >
+                <Text style={styles.createButtonText}>{isCreating ? 'Creating...' : 'Refinance Into New Loan'}</Text>
+            </TouchableOpacity>
+        )}
+            </ScrollView>
+        </TouchableWithoutFeedback>
+    </KeyboardAvoidingView>;
+}
+
+const styles = StyleSheet.create({
+    wrapper: {
+        flex: 1,
+        backgroundColor: theme.colors.surface,
+    },
+    container: {
+        flex: 1,
+        padding: theme.spacing.xl,
+    },
+    title: {
+        fontSize: theme.fontSize.huge,
+        fontWeight: theme.fontWeight.bold,
+        marginBottom: theme.spacing.xxl,
+        color: theme.colors.textPrimary,
+    },
+    notice: {
+        backgroundColor: '#fff3cd',
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.warning,
+    },
+    noticeText: {
+        fontSize: theme.fontSize.sm,
+        color: '#856404',
+    },
+    noticeLink: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.primary,
+        marginTop: theme.spacing.xs,
+    },
+    resultCard: {
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.lg,
+        padding: theme.spacing.xl,
+        marginTop: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+        ...theme.shadows.md,
+    },
+    resultLabel: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textSecondary,
+    },
+    resultValue: {
+        fontSize: theme.fontSize.huge,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.success,
+        marginBottom: theme.spacing.lg,
+    },
+    costValue: {
+        color: theme.colors.error,
+    },
+    resultRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: theme.spacing.sm,
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.gray100,
+    },
+    resultRowLabel: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    resultRowValue: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    errorIndicator: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: theme.spacing.sm,
+        minHeight: 30,
+    },
+    errorText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    createButton: {
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.lg,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: "center",
+        marginTop: theme.spacing.xl,
+        marginBottom: theme.spacing.xl,
+        ...theme.shadows.md,
+    },
+    createButtonDisabled: {
+        opacity: 0.6,
+    },
+    createButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.lg,
+        fontWeight: theme.fontWeight.semibold,
+    },
+});
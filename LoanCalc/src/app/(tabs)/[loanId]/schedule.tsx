@@ -8,11 +8,17 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useGlobalSearchParams, useFocusEffect } from 'expo-router';
 // Import custom components
 import PaymentDetailCard from "../../../components/PaymentDetailCard";
+import DeferralCostSummary from "../../../components/DeferralCostSummary";
+import DiscountedTotalsSummary from "../../../components/DiscountedTotalsSummary";
+import ScheduleWarnings from "../../../components/ScheduleWarnings";
+import PaymentStepsSummary from "../../../components/PaymentStepsSummary";
 import { EarlyPayment } from "../../../components/EarlyPaymentList";
 import { RateAdjustment } from "../../../components/RateAdjustmentList";
 import { theme } from '../../../constants/theme';
 // Import calculation utilities
-import { calculatePayment, generatePaymentSchedule, convertTermToMonths } from "../../../utils/loanCalculations";
+import { calculatePayment, generatePaymentScheduleWithDiagnostics, calculateDeferralCost, getDiscountedTotals, convertTermToMonths, getPaymentsMade, getPaymentSteps, getPaymentRange, getScheduleOptions, ScheduleOptions, ValueAdjustment } from "../../../utils/loanCalculations";
+import { getCurrencyPreference, getValueAdjustmentPreferences, Currency } from "../../../utils/storage";
+import { getCurrencyMinorUnits } from "../../../utils/currencyUtils";
 // Import achievement tracking
 import { updateProgress } from "../../../utils/achievementUtils";
 
@@ -27,10 +33,13 @@ export default function LoanScheduleScreen() {
     const [interestRate, setInterestRate] = useState("");
     const [term, setTerm] = useState("");
     const [termUnit, setTermUnit] = useState<"months" | "years">("months");
+    const [scheduleOptions, setScheduleOptions] = useState<ScheduleOptions>({});
     const [startDate, setStartDate] = useState("");
     const [earlyPayments, setEarlyPayments] = useState<EarlyPayment[]>([]); // Additional payments
     const [rateAdjustments, setRateAdjustments] = useState<RateAdjustment[]>([]); // Interest rate changes
     const [showAllPayments, setShowAllPayments] = useState(false); // Toggle for expanding payment list
+    const [valueAdjustment, setValueAdjustment] = useState<ValueAdjustment>({}); // Inflation and discount rates for real totals
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }); // Sets the rounding of amounts
 
     // Load loan data when component mounts or loanId changes
     useEffect(() => {
@@ -45,6 +54,8 @@ export default function LoanScheduleScreen() {
             if (loanId) {
                 loadLoan(loanId);
             }
+            loadCurrency();
+            getValueAdjustmentPreferences().then(setValueAdjustment);
             // Reset to collapsed view when returning to this tab
             setShowAllPayments(false);
             
@@ -53,6 +64,12 @@ export default function LoanScheduleScreen() {
         }, [loanId])
     );
 
+    // Load the display currency, which sets how amounts are rounded
+    const loadCurrency = async () => {
+        const curr = await getCurrencyPreference();
+        setCurrency(curr);
+    };
+
     // Load loan details from AsyncStorage
     const loadLoan = async (id: string) => {
         try {
@@ -68,6 +85,7 @@ export default function LoanScheduleScreen() {
                     setInterestRate(loan.interestRate.toString());
                     setTerm(loan.term.toString());
                     setTermUnit(loan.termUnit);
+                    setScheduleOptions(getScheduleOptions(loan));
                     setStartDate(loan.startDate);
                     setEarlyPayments(loan.earlyPayments || []);
                     setRateAdjustments(loan.rateAdjustments || []);
@@ -96,18 +114,41 @@ export default function LoanScheduleScreen() {
     const [year, month, day] = startDate ? startDate.split('-').map(Number) : [0, 0, 0];
     const startDateObj = year && month && day ? new Date(year, month - 1, day) : new Date();
     
-    const paymentSchedule = generatePaymentSchedule({ 
+    const minorUnits = getCurrencyMinorUnits(currency);
+    const { schedule: paymentSchedule, diagnostics } = generatePaymentScheduleWithDiagnostics({ 
         principal, 
         annualRate, 
         termInMonths, 
         startDate: startDateObj,
+        ...scheduleOptions,
         earlyPayments,
-        rateAdjustments: getRateAdjustmentsForCalc()
+        rateAdjustments: getRateAdjustmentsForCalc(),
+        minorUnits
     });
+
+    // Cost of payment pauses compared with the same loan without them
+    const deferralCost = scheduleOptions.deferrals && scheduleOptions.deferrals.length > 0
+        ? calculateDeferralCost({
+            principal,
+            annualRate,
+            termInMonths,
+            startDate: startDateObj,
+            ...scheduleOptions,
+            earlyPayments,
+            rateAdjustments: getRateAdjustmentsForCalc(),
+            minorUnits
+        })
+        : null;
+
+    // Totals in today's money, when an inflation or discount rate is set
+    const discountedTotals = getDiscountedTotals(paymentSchedule, valueAdjustment, scheduleOptions.paymentFrequency, minorUnits);
     
-    // Calculate current payment number based on months elapsed
-    const monthsElapsed = Math.max(0, Math.floor((new Date().getTime() - startDateObj.getTime()) / (1000 * 60 * 60 * 24 * 30.44)));
-    const currentPaymentIndex = Math.min(monthsElapsed, paymentSchedule.length - 1);
+    // Points where a graduated plan steps the payment up
+    const paymentSteps = getPaymentSteps(paymentSchedule, minorUnits);
+
+    // Payments already due by today, counted by calendar from the first payment date
+    const paymentsElapsed = getPaymentsMade(startDateObj, paymentSchedule.length, new Date(), scheduleOptions.paymentFrequency);
+    const currentPaymentIndex = Math.min(paymentsElapsed, paymentSchedule.length - 1);
     
     // Show first 5, current payment (if not already shown), and last 5 payments when collapsed
     const displayedPayments = showAllPayments || paymentSchedule.length <= 10
@@ -120,7 +161,7 @@ export default function LoanScheduleScreen() {
             const isInFirstFive = currentPaymentIndex < 5;
             const isInLastFive = currentPaymentIndex >= paymentSchedule.length - 5;
             
-            if (isInFirstFive || isInLastFive || monthsElapsed === 0) {
+            if (isInFirstFive || isInLastFive || paymentsElapsed === 0) {
                 return [...firstFive, ...lastFive];
             }
             
@@ -130,6 +171,11 @@ export default function LoanScheduleScreen() {
 
     return (
         <ScrollView style={styles.container}>
+            <ScheduleWarnings diagnostics={diagnostics} />
+            {deferralCost && <DeferralCostSummary cost={deferralCost} />}
+            {paymentSteps.length > 0 && <PaymentStepsSummary steps={paymentSteps} firstPayment={getPaymentRange(paymentSchedule, minorUnits)?.firstPayment ?? 0} />}
+            <DiscountedTotalsSummary totals={discountedTotals} adjustment={valueAdjustment} />
+
             {/* Show payment schedule or empty message */}
             {paymentSchedule.length > 0 ? (
                 <View style={styles.paymentDetailsContainer}>
@@ -143,6 +189,15 @@ export default function LoanScheduleScreen() {
                                 principal={payment.principal}
                                 interest={payment.interest}
                                 balance={payment.balance}
+                                isInterestOnly={payment.isInterestOnly}
+                                isBalloon={payment.isBalloon}
+                                escrow={payment.escrow}
+                                pmi={payment.pmi}
+                                isDeferred={payment.isDeferred}
+                                deferredInterest={payment.deferredInterest}
+                                isPaymentStep={payment.isPaymentStep}
+                                draw={payment.draw}
+                                isCharge={!!scheduleOptions.creditCard}
                                 isCurrentPayment={payment.paymentNumber === currentPaymentIndex + 1}
                             />
                             {/* Show separator (...) between sections */}
@@ -161,7 +216,7 @@ export default function LoanScheduleScreen() {
                                         </View>
                                     )}
                                     {/* Between first and last when no current payment shown */}
-                                    {index === 4 && paymentSchedule.length > 10 && (currentPaymentIndex < 5 || currentPaymentIndex >= paymentSchedule.length - 5 || monthsElapsed === 0) && (
+                                    {index === 4 && paymentSchedule.length > 10 && (currentPaymentIndex < 5 || currentPaymentIndex >= paymentSchedule.length - 5 || paymentsElapsed === 0) && (
                                         <View style={styles.separator}>
                                             <Text style={styles.separatorText}>⋮</Text>
                                         </View>
@@ -4,13 +4,16 @@ import { Text, View, StyleSheet, TouchableOpacity, ScrollView, Image as RNImage
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useGlobalSearchParams, useFocusEffect, Link } from 'expo-router';
 import PaymentDetailCard from "../../../components/PaymentDetailCard";
+import DeferralCostSummary from "../../../components/DeferralCostSummary";
+import ScheduleWarnings from "../../../components/ScheduleWarnings";
+import PaymentStepsSummary from "../../../components/PaymentStepsSummary";
 import { EarlyPayment } from "../../../components/EarlyPaymentList";
 import { RateAdjustment } from "../../../components/RateAdjustmentList";
 import { theme } from '../../../constants/theme';
-import { calculatePayment, generatePaymentSchedule, convertTermToMonths } from "../../../utils/loanCalculations";
+import { calculatePayment, generatePaymentScheduleWithDiagnostics, calculateDeferralCost, getScheduleTotals, getDiscountedTotals, convertTermToMonths, getPaymentsMade, getPaymentSteps, getPaymentRange, getScheduleOptions, ScheduleOptions, ValueAdjustment } from "../../../utils/loanCalculations";
 import { updateProgress } from "../../../utils/achievementUtils";
-import { getCurrencyPreference, Currency } from "../../../utils/storage";
-import { formatCurrency } from "../../../utils/currencyUtils";
+import { getCurrencyPreference, getValueAdjustmentPreferences, Currency } from "../../../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../../../utils/currencyUtils";
 import { useKeyboardShortcuts } from "../../../hooks/useKeyboardShortcuts.web";
 import { ThemeProvider, useTheme } from "../../../contexts/ThemeContext.web";
 import MobileAppPromotion from "../../../components/MobileAppPromotion.web";
@@ -24,11 +27,13 @@ function LoanScheduleScreenWebContent() {
     const [interestRate, setInterestRate] = useState("");
     const [term, setTerm] = useState("");
     const [termUnit, setTermUnit] = useState<"months" | "years">("months");
+    const [scheduleOptions, setScheduleOptions] = useState<ScheduleOptions>({});
     const [startDate, setStartDate] = useState("");
     const [earlyPayments, setEarlyPayments] = useState<EarlyPayment[]>([]);
     const [rateAdjustments, setRateAdjustments] = useState<RateAdjustment[]>([]);
     const [showAllPayments, setShowAllPayments] = useState(false);
     const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [valueAdjustment, setValueAdjustment] = useState<ValueAdjustment>({});
     const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 1200);
     const [sidebarWidth, setSidebarWidth] = useState(260);
     const [isResizingSidebar, setIsResizingSidebar] = useState(false);
@@ -131,6 +136,7 @@ function LoanScheduleScreenWebContent() {
                 loadLoan(loanId);
             }
             loadCurrency();
+            getValueAdjustmentPreferences().then(setValueAdjustment);
             // Reset to collapsed view when returning to this tab
             setShowAllPayments(false);
             
@@ -157,6 +163,7 @@ function LoanScheduleScreenWebContent() {
                     setInterestRate(loan.interestRate.toString());
                     setTerm(loan.term.toString());
                     setTermUnit(loan.termUnit);
+                    setScheduleOptions(getScheduleOptions(loan));
                     setStartDate(loan.startDate);
                     setEarlyPayments(loan.earlyPayments || []);
                     setRateAdjustments(loan.rateAdjustments || []);
@@ -185,18 +192,35 @@ function LoanScheduleScreenWebContent() {
     const [year, month, day] = startDate ? startDate.split('-').map(Number) : [0, 0, 0];
     const startDateObj = year && month && day ? new Date(year, month - 1, day) : new Date();
     
-    const paymentSchedule = generatePaymentSchedule({ 
+    const minorUnits = getCurrencyMinorUnits(currency);
+    const { schedule: paymentSchedule, diagnostics } = generatePaymentScheduleWithDiagnostics({ 
         principal, 
         annualRate, 
         termInMonths, 
         startDate: startDateObj,
+        ...scheduleOptions,
         earlyPayments,
-        rateAdjustments: getRateAdjustmentsForCalc()
+        rateAdjustments: getRateAdjustmentsForCalc(),
+        minorUnits
     });
+
+    // Cost of payment pauses compared with the same loan without them
+    const deferralCost = scheduleOptions.deferrals && scheduleOptions.deferrals.length > 0
+        ? calculateDeferralCost({
+            principal,
+            annualRate,
+            termInMonths,
+            startDate: startDateObj,
+            ...scheduleOptions,
+            earlyPayments,
+            rateAdjustments: getRateAdjustmentsForCalc(),
+            minorUnits
+        })
+        : null;
     
-    // Calculate current payment number based on months elapsed
-    const monthsElapsed = Math.max(0, Math.floor((new Date().getTime() - startDateObj.getTime()) / (1000 * 60 * 60 * 24 * 30.44)));
-    const currentPaymentIndex = Math.min(monthsElapsed, paymentSchedule.length - 1);
+    // Payments already due by today, counted by calendar from the first payment date
+    const paymentsElapsed = getPaymentsMade(startDateObj, paymentSchedule.length, new Date(), scheduleOptions.paymentFrequency);
+    const currentPaymentIndex = Math.min(paymentsElapsed, paymentSchedule.length - 1);
     
     // Show first 5, current payment (if not already shown), and last 5 payments when collapsed
     const displayedPayments = showAllPayments || paymentSchedule.length <= 10
@@ -209,7 +233,7 @@ function LoanScheduleScreenWebContent() {
             const isInFirstFive = currentPaymentIndex < 5;
             const isInLastFive = currentPaymentIndex >= paymentSchedule.length - 5;
             
-            if (isInFirstFive || isInLastFive || monthsElapsed === 0) {
+            if (isInFirstFive || isInLastFive || paymentsElapsed === 0) {
                 return [...firstFive, ...lastFive];
             }
             
@@ -218,11 +242,17 @@ function LoanScheduleScreenWebContent() {
         })();
 
     // Calculate schedule summary for insights
-    const totalPayments = paymentSchedule.reduce((sum, p) => sum + p.payment, 0);
-    const totalPrincipal = paymentSchedule.reduce((sum, p) => sum + p.principal, 0);
-    const totalInterest = paymentSchedule.reduce((sum, p) => sum + p.interest, 0);
-    const paymentsRemaining = Math.max(0, paymentSchedule.length - monthsElapsed);
-    const progressPercentage = paymentSchedule.length > 0 ? Math.min(100, Math.round((monthsElapsed / paymentSchedule.length) * 100)) : 0;
+    // Totals are exact to the cent, so principal paid matches the loan amount
+    const { totalPayment: totalPayments, totalPrincipal, totalInterest, totalEscrow, totalPmi } = getScheduleTotals(paymentSchedule, minorUnits);
+    // Same totals in today's money, when an inflation or discount rate is set
+    const discountedTotals = getDiscountedTotals(paymentSchedule, valueAdjustment, scheduleOptions.paymentFrequency, minorUnits);
+    // Points where a graduated plan steps the payment up
+    const paymentSteps = getPaymentSteps(paymentSchedule, minorUnits);
+
+    // PMI stops with the first payment that no longer carries it
+    const pmiEndPayment = totalPmi > 0 ? paymentSchedule.find((payment, index) => index > 0 && payment.pmi === 0 && paymentSchedule[index - 1].pmi > 0) : undefined;
+    const paymentsRemaining = Math.max(0, paymentSchedule.length - paymentsElapsed);
+    const progressPercentage = paymentSchedule.length > 0 ? Math.min(100, Math.round((paymentsElapsed / paymentSchedule.length) * 100)) : 0;
 
     return (
         <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -373,6 +403,10 @@ function LoanScheduleScreenWebContent() {
                     </View>
                 </View>
 
+                <ScheduleWarnings diagnostics={diagnostics} />
+                {deferralCost && <DeferralCostSummary cost={deferralCost} />}
+                {paymentSteps.length > 0 && <PaymentStepsSummary steps={paymentSteps} firstPayment={getPaymentRange(paymentSchedule, minorUnits)?.firstPayment ?? 0} />}
+
                 {/* Show payment schedule or empty message */}
                 {paymentSchedule.length > 0 ? (
                     <View style={styles.paymentDetailsContainer}>
@@ -386,6 +420,15 @@ function LoanScheduleScreenWebContent() {
                                     principal={payment.principal}
                                     interest={payment.interest}
                                     balance={payment.balance}
+                                    isInterestOnly={payment.isInterestOnly}
+                                    isBalloon={payment.isBalloon}
+                                    escrow={payment.escrow}
+                                    pmi={payment.pmi}
+                                    isDeferred={payment.isDeferred}
+                                    deferredInterest={payment.deferredInterest}
+                                    isPaymentStep={payment.isPaymentStep}
+                                    draw={payment.draw}
+                                    isCharge={!!scheduleOptions.creditCard}
                                     isCurrentPayment={payment.paymentNumber === currentPaymentIndex + 1}
                                 />
                                 {/* Show separator (...) between sections */}
@@ -404,7 +447,7 @@ function LoanScheduleScreenWebContent() {
                                             </View>
                                         )}
                                         {/* Between first and last when no current payment shown */}
-                                        {index === 4 && paymentSchedule.length > 10 && (currentPaymentIndex < 5 || currentPaymentIndex >= paymentSchedule.length - 5 || monthsElapsed === 0) && (
+                                        {index === 4 && paymentSchedule.length > 10 && (currentPaymentIndex < 5 || currentPaymentIndex >= paymentSchedule.length - 5 || paymentsElapsed === 0) && (
                                             <View style={styles.separator}>
                                                 <Text style={styles.separatorText}>⋮</Text>
                                             </View>
@@ -463,17 +506,17 @@ function LoanScheduleScreenWebContent() {
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                             <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Total Payments</Text>
                             <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
-                                {formatCurrency(totalPayments, currency, 0)}
+                                {formatCurrency(totalPayments, currency, minorUnits)}
                             </Text>
                             <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
-                                over {paymentSchedule.length} months
+                                over {paymentSchedule.length} payments
                             </Text>
                         </View>
 
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                             <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Principal Paid</Text>
                             <Text style={[styles.insightValue, { color: colors.success }]}>
-                                {formatCurrency(totalPrincipal, currency, 0)}
+                                {formatCurrency(totalPrincipal, currency, minorUnits)}
                             </Text>
                             <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
                                 actual loan amount
@@ -483,13 +526,51 @@ function LoanScheduleScreenWebContent() {
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                             <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Interest Paid</Text>
                             <Text style={[styles.insightValue, { color: '#e67e22' }]}>
-                                {formatCurrency(totalInterest, currency, 0)}
+                                {formatCurrency(totalInterest, currency, minorUnits)}
                             </Text>
                             <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
                                 {principal > 0 ? `${((totalInterest / principal) * 100).toFixed(1)}% of principal` : ''}
                             </Text>
                         </View>
 
+                        {discountedTotals.real && (
+                            <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
+                                <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>In Today's Money</Text>
+                                <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
+                                    {formatCurrency(discountedTotals.real.totalPayment, currency, minorUnits)}
+                                </Text>
+                                <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
+                                    {formatCurrency(discountedTotals.real.totalInterest, currency, minorUnits)} interest at {valueAdjustment.inflationRate}% inflation
+                                </Text>
+                            </View>
+                        )}
+
+                        {discountedTotals.presentValue && (
+                            <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
+                                <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Present Value</Text>
+                                <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
+                                    {formatCurrency(discountedTotals.presentValue.totalPayment, currency, minorUnits)}
+                                </Text>
+                                <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
+                                    {formatCurrency(discountedTotals.presentValue.totalInterest, currency, minorUnits)} interest at a {valueAdjustment.discountRate}% discount rate
+                                </Text>
+                            </View>
+                        )}
+
+                        {(totalEscrow > 0 || totalPmi > 0) && (
+                            <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
+                                <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Escrow & PMI</Text>
+                                <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
+                                    {formatCurrency(totalEscrow + totalPmi, currency, minorUnits)}
+                                </Text>
+                                <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
+                                    {totalPmi > 0
+                                        ? `includes ${formatCurrency(totalPmi, currency, minorUnits)} PMI${pmiEndPayment ? `, ending ${pmiEndPayment.date}` : ''}`
+                                        : 'taxes, insurance and HOA'}
+                                </Text>
+                            </View>
+                        )}
+
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                             <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Progress</Text>
                             <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
@@ -499,7 +580,7 @@ function LoanScheduleScreenWebContent() {
                                 <View style={[styles.progressFill, { width: `${progressPercentage}%`, backgroundColor: colors.primary }]} />
                             </View>
                             <Text style={[styles.insightSubtext, { color: colors.textTertiary }]}>
-                                {monthsElapsed} of {paymentSchedule.length} payments made
+                                {paymentsElapsed} of {paymentSchedule.length} payments made
                             </Text>
                         </View>
 
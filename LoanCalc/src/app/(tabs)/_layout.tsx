@@ -79,6 +79,62 @@ export default function TabLayout() {
                     href: null
                 }} 
             />
+            <Tabs.Screen 
+                name="affordability" 
+                options={{ 
+                    title: "Affordability",
+                    tabBarLabel: "Afford",
+                    tabBarIcon: ({ color }) => (
+                        <TabIcon icon="🏠" color={color} />
+                    ),
+                    headerLeft: () => (
+                        <TouchableOpacity
+                            onPress={() => router.push('/(tabs)')}
+                            style={{ 
+                                marginLeft: 16,
+                                padding: 8,
+                                borderRadius: 8,
+                            }}
+                        >
+                            <Text style={{ 
+                                color: theme.colors.textPrimary, 
+                                fontSize: 24,
+                                fontWeight: theme.fontWeight.bold,
+                            }}>←</Text>
+                        </TouchableOpacity>
+                    ),
+                    tabBarStyle: { display: 'none' },
+                    href: null
+                }} 
+            />
+            <Tabs.Screen 
+                name="payoffPlanner" 
+                options={{ 
+                    title: "Payoff Planner",
+                    tabBarLabel: "Payoff",
+                    tabBarIcon: ({ color }) => (
+                        <TabIcon icon="🎯" color={color} />
+                    ),
+                    headerLeft: () => (
+                        <TouchableOpacity
+                            onPress={() => router.push('/(tabs)')}
+                            style={{ 
+                                marginLeft: 16,
+                                padding: 8,
+                                borderRadius: 8,
+                            }}
+                        >
+                            <Text style={{ 
+                                color: theme.colors.textPrimary, 
+                                fontSize: 24,
+                                fontWeight: theme.fontWeight.bold,
+                            }}>←</Text>
+                        </TouchableOpacity>
+                    ),
+                    tabBarStyle: { display: 'none' },
+                    href: null
+                }} 
+            />
             <Tabs.Screen 
                 name="addExtraPayment" 
                 options={{ 
@@ -153,6 +209,15 @@ export default function TabLayout() {
                     tabBarStyle: { display: 'none' }
                 }} 
             />
+            <Tabs.Screen 
+                name="inflationSettings" 
+                options={{ 
+                    title: "Inflation",
+                    href: null,
+                    headerShown: false,
+                    tabBarStyle: { display: 'none' }
+                }} 
+            />
         </Tabs>
     );
 }
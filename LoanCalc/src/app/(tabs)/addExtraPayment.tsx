@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { Text, View, StyleSheet, ScrollView, TouchableOpacity } from "react-native";
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -6,7 +6,8 @@ import { useFocusEffect, router } from 'expo-router';
 import { theme } from '../../constants/theme';
 
 import { getCurrencyPreference, Currency } from "../../utils/storage";
-import { formatCurrency } from "../../utils/currencyUtils";
+import { formatCurrency, getCurrencyMinorUnits } from "../../utils/currencyUtils";
+import { getLoanStatus, getLoanScheduleParams, ArmConfig } from "../../utils/loanCalculations";
 
 type Loan = {
     id: string;
@@ -21,6 +22,7 @@ type Loan = {
     createdAt: string;
     earlyPayments?: EarlyPayment[];
     rateAdjustments?: Array<{ month: string; newRate: string }>;
+    arm?: ArmConfig;
     remainingBalance?: number;
 };
 
@@ -59,63 +61,11 @@ export default function AddExtraPaymentScreen() {
         }
     };
 
-    // Function to get current interest rate considering rate adjustments
-    const getCurrentInterestRate = (loan: Loan): number => {
-        if (!loan.rateAdjustments || loan.rateAdjustments.length === 0) {
-            return loan.interestRate;
-        }
-
-        // Calculate months elapsed since loan start
-        // Parse date in local time to avoid timezone shifts
-        const [year, month, day] = loan.startDate.split('-').map(Number);
-        const startDate = new Date(year, month - 1, day);
-        const currentDate = new Date();
-        const monthsElapsed = Math.max(0,
-            (currentDate.getFullYear() - startDate.getFullYear()) * 12 +
-            (currentDate.getMonth() - startDate.getMonth())
-        ) + 1; // +1 because first payment is month 1
-
-        // Find the most recent rate adjustment that has occurred
-        let currentRate = loan.interestRate;
-        for (const adjustment of loan.rateAdjustments) {
-            const adjustmentMonth = parseInt(adjustment.month);
-            if (!isNaN(adjustmentMonth) && adjustmentMonth <= monthsElapsed) {
-                const newRate = parseFloat(adjustment.newRate);
-                if (!isNaN(newRate)) {
-                    currentRate = newRate;
-                }
-            }
-        }
-
-        return currentRate;
-    };
-
-    // Calculate remaining principal for a loan
-    const calculateRemainingPrincipal = (loan: Loan): number => {
-        // Parse date in local time to avoid timezone shifts
-        const [year, month, day] = loan.startDate.split('-').map(Number);
-        const startDate = new Date(year, month - 1, day);
-        const currentDate = new Date();
-        const monthsPassed = Math.max(0, 
-            (currentDate.getFullYear() - startDate.getFullYear()) * 12 + 
-            (currentDate.getMonth() - startDate.getMonth())
-        );
-        
-        const termInMonths = loan.termUnit === 'years' ? loan.term * 12 : loan.term;
-        const paymentsMade = Math.min(monthsPassed, termInMonths);
-        
-        if (paymentsMade >= termInMonths || loan.interestRate === 0) {
-            return Math.max(0, loan.amount - (loan.monthlyPayment * paymentsMade));
-        }
-        
-        const monthlyRate = loan.interestRate / 100 / 12;
-        const totalPayments = termInMonths;
-        const remaining = loan.amount * 
-            (Math.pow(1 + monthlyRate, totalPayments) - Math.pow(1 + monthlyRate, paymentsMade)) /
-            (Math.pow(1 + monthlyRate, totalPayments) - 1);
-        
-        return Math.max(0, remaining);
-    };
+    // Where each loan stands today, from its schedule
+    const minorUnits = getCurrencyMinorUnits(currency);
+    const loanStatuses = useMemo(() => new Map(loans.map(loan => [loan.id, getLoanStatus(getLoanScheduleParams(loan, minorUnits))])), [loans, minorUnits]);
+    const getCurrentInterestRate = (loan: Loan): number => loanStatuses.get(loan.id)?.currentRate ?? loan.interestRate;
+    const getRemainingBalance = (loan: Loan): number => loanStatuses.get(loan.id)?.balance ?? loan.amount;
 
     useFocusEffect(
         useCallback(() => {
@@ -194,8 +144,8 @@ export default function AddExtraPaymentScreen() {
                             style={styles.strategyCard}
                             onPress={() => {
                                 const smallestBalanceLoan = loans.reduce((smallest, current) => {
-                                    const smallestRemaining = smallest.remainingBalance ?? calculateRemainingPrincipal(smallest);
-                                    const currentRemaining = current.remainingBalance ?? calculateRemainingPrincipal(current);
+                                    const smallestRemaining = getRemainingBalance(smallest);
+                                    const currentRemaining = getRemainingBalance(current);
                                     return currentRemaining < smallestRemaining ? current : smallest;
                                 });
                                 selectLoan(smallestBalanceLoan.id);
@@ -210,11 +160,11 @@ export default function AddExtraPaymentScreen() {
                             </Text>
                             {(() => {
                                 const smallestBalanceLoan = loans.reduce((smallest, current) => {
-                                    const smallestRemaining = smallest.remainingBalance ?? calculateRemainingPrincipal(smallest);
-                                    const currentRemaining = current.remainingBalance ?? calculateRemainingPrincipal(current);
+                                    const smallestRemaining = getRemainingBalance(smallest);
+                                    const currentRemaining = getRemainingBalance(current);
                                     return currentRemaining < smallestRemaining ? current : smallest;
                                 });
-                                const remainingBalance = smallestBalanceLoan.remainingBalance ?? calculateRemainingPrincipal(smallestBalanceLoan);
+                                const remainingBalance = getRemainingBalance(smallestBalanceLoan);
                                 return (
                                     <View style={styles.strategyRecommendation}>
                                         <Text style={styles.strategyRecommendText}>Recommended loan:</Text>
@@ -0,0 +1,284 @@
+import { useState, useCallback } from "react";
+import { Text, View, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, Keyboard, ScrollView, KeyboardAvoidingView, Platform } from "react-native";
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { theme } from '../../constants/theme';
+import InputField from "../../components/InputField";
+import TermSelector from "../../components/TermSelector";
+import { calculateMaxPrincipal, convertTermToMonths, getPaymentFrequencyLabel, PaymentFrequency } from "../../utils/loanCalculations";
+import { getCurrencyPreference, Currency } from "../../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../../utils/currencyUtils";
+
+export default function AffordabilityScreen() {
+    const insets = useSafeAreaInsets();
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    // Form input states
+    const [monthlyBudget, setMonthlyBudget] = useState("");
+    const [interestRate, setInterestRate] = useState("");
+    const [term, setTerm] = useState("");
+    const [termUnit, setTermUnit] = useState<"months" | "years">("years");
+    const [paymentFrequency, setPaymentFrequency] = useState<PaymentFrequency>("monthly");
+    const [downPayment, setDownPayment] = useState(""); // Optional
+    const [monthlyIncome, setMonthlyIncome] = useState(""); // Optional, for the debt-to-income limit
+    const [otherMonthlyDebts, setOtherMonthlyDebts] = useState("");
+    const [maxDebtToIncome, setMaxDebtToIncome] = useState("");
+
+    useFocusEffect(
+        useCallback(() => {
+            getCurrencyPreference().then(setCurrency);
+        }, [])
+    );
+
+    const budget = parseFloat(monthlyBudget);
+    const annualRate = parseFloat(interestRate);
+    const termInMonths = convertTermToMonths(parseFloat(term), termUnit);
+    const isValidInput = budget > 0 && annualRate >= 0 && termInMonths > 0;
+
+    const result = calculateMaxPrincipal({
+        monthlyBudget: budget,
+        annualRate,
+        termInMonths,
+        paymentFrequency,
+        downPayment: parseFloat(downPayment) || 0,
+        monthlyIncome: parseFloat(monthlyIncome) || 0,
+        otherMonthlyDebts: parseFloat(otherMonthlyDebts) || 0,
+        maxDebtToIncome: parseFloat(maxDebtToIncome) || undefined,
+        minorUnits: getCurrencyMinorUnits(currency),
+    });
+
+    // Open the create loan form with the largest loan filled in
+    const createLoanFromResult = () => {
+        router.push({
+            pathname: '/(tabs)/createLoan',
+            params: {
+                amount: Math.floor(result.maxPrincipal).toString(),
+                interestRate,
+                term,
+                termUnit,
+                paymentFrequency,
+            },
+        });
+    };
+
+    return <KeyboardAvoidingView
+        style={styles.wrapper}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        keyboardVerticalOffset={100}
+    >
+        <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+            <ScrollView
+                style={styles.container}
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 20) + 80 }}
+            >
+        <Text style={styles.title}>
+            How much can you borrow?
+        </Text>
+
+        <InputField
+            label="Monthly Payment Budget"
+            value={monthlyBudget}
+            onChangeText={setMonthlyBudget}
+            placeholder="Most you want to pay each month"
+            keyboardType="numeric"
+            formatNumber={true}
+        />
+
+        <InputField
+            label="Interest Rate (%)"
+            value={interestRate}
+            onChangeText={setInterestRate}
+            placeholder="Enter interest rate"
+            keyboardType="decimal-pad"
+        />
+
+        <TermSelector
+            term={term}
+            termUnit={termUnit}
+            onTermChange={setTerm}
+            onTermUnitChange={setTermUnit}
+            paymentFrequency={paymentFrequency}
+            onPaymentFrequencyChange={setPaymentFrequency}
+        />
+
+        <InputField
+            label="Down Payment"
+            value={downPayment}
+            onChangeText={setDownPayment}
+            placeholder="Optional"
+            keyboardType="numeric"
+            formatNumber={true}
+        />
+
+        {/* Optional debt-to-income limit */}
+        <Text style={styles.sectionTitle}>Debt-to-Income Limit</Text>
+        <Text style={styles.sectionHint}>Optional. Lenders often cap total debt payments at 36–43% of gross income.</Text>
+
+        <InputField
+            label="Gross Monthly Income"
+            value={monthlyIncome}
+            onChangeText={setMonthlyIncome}
+            placeholder="Optional"
+            keyboardType="numeric"
+            formatNumber={true}
+        />
+
+        <InputField
+            label="Other Monthly Debt Payments"
+            value={otherMonthlyDebts}
+            onChangeText={setOtherMonthlyDebts}
+            placeholder="Car, student loans, cards..."
+            keyboardType="numeric"
+            formatNumber={true}
+        />
+
+        <InputField
+            label="Maximum Debt-to-Income (%)"
+            value={maxDebtToIncome}
+            onChangeText={setMaxDebtToIncome}
+            placeholder="e.g., 36"
+            keyboardType="decimal-pad"
+        />
+
+        {isValidInput && result.maxPrincipal > 0 && (
+            <View style={styles.resultCard}>
+                <Text style={styles.resultLabel}>Maximum Loan</Text>
+                <Text style={styles.resultValue}>{formatCurrency(result.maxPrincipal, currency, 0)}</Text>
+
+                <View style={styles.resultRow}>
+                    <Text style={styles.resultRowLabel}>Maximum Price</Text>
+                    <Text style={styles.resultRowValue}>{formatCurrency(result.maxPrice, currency, 0)}</Text>
+                </View>
+                <View style={styles.resultRow}>
+                    <Text style={styles.resultRowLabel}>{getPaymentFrequencyLabel(paymentFrequency)} Payment</Text>
+                    <Text style={styles.resultRowValue}>{formatCurrency(result.payment, currency)}</Text>
+                </View>
+                {result.debtToIncome !== null && (
+                    <View style={styles.resultRow}>
+                        <Text style={styles.resultRowLabel}>Debt-to-Income</Text>
+                        <Text style={styles.resultRowValue}>{result.debtToIncome.toFixed(1)}%</Text>
+                    </View>
+                )}
+
+                {result.limitedBy === 'debtToIncome' && (
+                    <Text style={styles.limitNote}>
+                        Limited by your debt-to-income ratio: you can afford {formatCurrency(result.monthlyPayment, currency)} per month, below your budget.
+                    </Text>
+                )}
+            </View>
+        )}
+
+        {isValidInput && result.maxPrincipal <= 0 && (
+            <View style={styles.errorIndicator}>
+                <Text style={styles.errorText}>⚠️ Your other debts already use up your debt-to-income limit</Text>
+            </View>
+        )}
+
+        {isValidInput && result.maxPrincipal > 0 && (
+            <TouchableOpacity
+                style={styles.createButton}
+                onPress={createLoanFromResult}
+                activeOpacity={0.8}
+            >
+                <Text style={styles.createButtonText}>Create Loan From This</Text>
+            </TouchableOpacity>
+        )}
+            </ScrollView>
+        </TouchableWithoutFeedback>
+    </KeyboardAvoidingView>;
+}
+
+const styles = StyleSheet.create({
+    wrapper: {
+        flex: 1,
+        backgroundColor: theme.colors.surface,
+    },
+    container: {
+        flex: 1,
+        padding: theme.spacing.xl,
+    },
+    title: {
+        fontSize: theme.fontSize.huge,
+        fontWeight: theme.fontWeight.bold,
+        marginBottom: theme.spacing.xxl,
+        color: theme.colors.textPrimary,
+    },
+    sectionTitle: {
+        fontSize: theme.fontSize.lg,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+        marginTop: theme.spacing.md,
+        marginBottom: theme.spacing.xs,
+    },
+    sectionHint: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.lg,
+    },
+    resultCard: {
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.lg,
+        padding: theme.spacing.xl,
+        marginTop: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+        ...theme.shadows.md,
+    },
+    resultLabel: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textSecondary,
+    },
+    resultValue: {
+        fontSize: theme.fontSize.huge,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.primary,
+        marginBottom: theme.spacing.lg,
+    },
+    resultRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: theme.spacing.sm,
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.gray100,
+    },
+    resultRowLabel: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    resultRowValue: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    limitNote: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.warning,
+        marginTop: theme.spacing.md,
+    },
+    errorIndicator: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: theme.spacing.sm,
+        minHeight: 30,
+    },
+    errorText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    createButton: {
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.lg,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: "center",
+        marginTop: theme.spacing.xl,
+        marginBottom: theme.spacing.xl,
+        ...theme.shadows.md,
+    },
+    createButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.lg,
+        fontWeight: theme.fontWeight.semibold,
+    },
+});
@@ -3,18 +3,21 @@ import { useState, useRef, useCallback } from "react";
 import { Text, View, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, Keyboard, ScrollView, KeyboardAvoidingView, Platform } from "react-native";
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { router, useFocusEffect } from 'expo-router';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { theme } from '../../constants/theme';
 // Import custom reusable components
 import InputField from "../../components/InputField";
 import TermSelector from "../../components/TermSelector";
+import OptionSelector from "../../components/OptionSelector";
 import DatePicker from "../../components/DatePicker";
 import PaymentSummary from "../../components/PaymentSummary";
+import CreditCardPayoffComparison from "../../components/CreditCardPayoffComparison";
 import LineChart from "../../components/LineChart";
 import DualLineChart from "../../components/DualLineChart";
 import { AutoSaveIndicator, AutoSaveHandle } from "../../components/AutoSaveIndicator";
 // Import calculation utilities
-import { calculatePayment, generatePaymentSchedule, convertTermToMonths } from "../../utils/loanCalculations";
+import { calculatePayment, generatePaymentSchedule, getScheduleTotals, convertTermToMonths, getPaymentDate, convertTermToPayments, calculateApr, getFinancedPrincipal, PaymentFrequency, PAYMENT_FREQUENCIES, DayCountConvention, DAY_COUNT_CONVENTIONS, CompoundingFrequency, COMPOUNDING_FREQUENCIES, AmortizationType, AMORTIZATION_TYPES, InterestMethod, INTEREST_METHODS, GraduatedPaymentConfig, getPaymentRange, LoanFees, LoanKind, LOAN_KINDS, CreditLineConfig, CreditCardConfig, MAX_CREDIT_CARD_APR } from "../../utils/loanCalculations";
+import { formatDateForStorage } from "../../utils/dateUtils";
 // Import notification utilities
 import { schedulePaymentReminders, scheduleNextPaymentReminder } from "../../utils/notificationUtils";
 import { getNotificationPreferences } from "../../utils/storage";
@@ -28,10 +31,30 @@ export default function CreateLoanScreen() {
     
     // Form input states
     const [loanName, setLoanName] = useState("");
+    const [loanKind, setLoanKind] = useState<LoanKind>("term");
     const [loanAmount, setLoanAmount] = useState("");
     const [interestRate, setInterestRate] = useState("");
     const [term, setTerm] = useState("");
     const [termUnit, setTermUnit] = useState<"months" | "years">("years"); // Can be months or years
+    const [paymentFrequency, setPaymentFrequency] = useState<PaymentFrequency>("monthly");
+    const [interestOnlyMonths, setInterestOnlyMonths] = useState(""); // Optional interest-only period
+    const [amortizationYears, setAmortizationYears] = useState(""); // Optional amortization period for balloon loans
+    const [stepPercent, setStepPercent] = useState(""); // Optional graduated payment increase
+    const [stepYears, setStepYears] = useState(""); // Years between graduated payment increases
+    const [dayCountConvention, setDayCountConvention] = useState<DayCountConvention>("periodic");
+    const [compoundingFrequency, setCompoundingFrequency] = useState<CompoundingFrequency>("payment");
+    const [amortizationType, setAmortizationType] = useState<AmortizationType>("annuity");
+    const [interestMethod, setInterestMethod] = useState<InterestMethod>("simple");
+    const [upfrontFees, setUpfrontFees] = useState(""); // Optional origination fee and closing costs
+    const [discountPoints, setDiscountPoints] = useState(""); // Optional points, as % of the loan amount
+    const [feesFinanced, setFeesFinanced] = useState<"cash" | "financed">("cash");
+    const [monthlyFee, setMonthlyFee] = useState(""); // Optional recurring fee
+    const [drawYears, setDrawYears] = useState(""); // Credit line draw period
+    const [openingDraw, setOpeningDraw] = useState(""); // Optional amount drawn when the line opens
+    const [minimumPercent, setMinimumPercent] = useState(""); // Credit card minimum payment, as % of the balance
+    const [minimumBasis, setMinimumBasis] = useState<"interest" | "balance">("interest"); // Whether the month's interest is added to the minimum
+    const [minimumFloor, setMinimumFloor] = useState(""); // Smallest credit card minimum payment
+    const [fixedPayment, setFixedPayment] = useState(""); // Optional monthly payment of a card payoff plan
     const [date, setDate] = useState(new Date());
     const dateRef = useRef(new Date()); // Track current date immediately
     const [showDatePicker, setShowDatePicker] = useState(false);
@@ -40,6 +63,11 @@ export default function CreateLoanScreen() {
     const autoSaveRef = useRef<AutoSaveHandle>(null);
     const hasNavigatedAway = useRef(false); // Track if user has left the screen
 
+    // Pre-fill from the affordability calculator ("create loan from this")
+    const prefill = useLocalSearchParams<{ amount?: string; interestRate?: string; term?: string; termUnit?: string; paymentFrequency?: string }>();
+    const prefillKey = prefill.amount ? [prefill.amount, prefill.interestRate, prefill.term, prefill.termUnit, prefill.paymentFrequency].join('|') : null;
+    const appliedPrefillKey = useRef<string | null>(null); // Apply each pre-fill once so later visits keep user edits
+
     // Clear form when user returns to page after creating a loan
     useFocusEffect(
         useCallback(() => {
@@ -47,10 +75,30 @@ export default function CreateLoanScreen() {
             if (hasNavigatedAway.current && createdLoanId.current) {
                 // Clear all form fields
                 setLoanName('');
+                setLoanKind('term');
                 setLoanAmount('');
                 setInterestRate('');
                 setTerm('');
                 setTermUnit('years'); // Reset to default
+                setPaymentFrequency('monthly');
+                setInterestOnlyMonths('');
+                setAmortizationYears('');
+                setStepPercent('');
+                setStepYears('');
+                setDayCountConvention('periodic');
+                setCompoundingFrequency('payment');
+                setAmortizationType('annuity');
+                setInterestMethod('simple');
+                setUpfrontFees('');
+                setDiscountPoints('');
+                setFeesFinanced('cash');
+                setMonthlyFee('');
+                setDrawYears('');
+                setOpeningDraw('');
+                setMinimumPercent('');
+                setMinimumBasis('interest');
+                setMinimumFloor('');
+                setFixedPayment('');
                 const newDate = new Date();
                 setDate(newDate);
                 dateRef.current = newDate; // Also reset the ref
@@ -58,6 +106,17 @@ export default function CreateLoanScreen() {
                 createdLoanId.current = null;
                 hasNavigatedAway.current = false;
             }
+
+            // Fill in the loan suggested by the affordability calculator
+            if (prefillKey && prefillKey !== appliedPrefillKey.current) {
+                appliedPrefillKey.current = prefillKey;
+                setLoanAmount(prefill.amount ?? '');
+                setInterestRate(prefill.interestRate ?? '');
+                setTerm(prefill.term ?? '');
+                setTermUnit(prefill.termUnit === 'months' ? 'months' : 'years');
+                const frequency = PAYMENT_FREQUENCIES.find(f => f.value === prefill.paymentFrequency);
+                setPaymentFrequency(frequency ? frequency.value : 'monthly');
+            }
             
             // Return cleanup that sets the flag when leaving
             return () => {
@@ -65,7 +124,7 @@ export default function CreateLoanScreen() {
                     hasNavigatedAway.current = true;
                 }
             };
-        }, [])
+        }, [prefillKey])
     );
 
     // Validation helper
@@ -81,9 +140,15 @@ export default function CreateLoanScreen() {
                interestRate.trim() !== '' && 
                !isNaN(annualRate) && 
                annualRate >= 0 &&
-               term.trim() !== '' && 
+               (loanKind === 'creditCard' || (term.trim() !== '' && 
                !isNaN(termValue) && 
-               termValue > 0;
+               termValue > 0)) &&
+               isValidInterestOnly() &&
+               isValidAmortization() &&
+               isValidGraduated() &&
+               isValidFees() &&
+               isValidCreditLine() &&
+               isValidCreditCard();
     };
 
     // Individual field validation for highlighting
@@ -94,12 +159,102 @@ export default function CreateLoanScreen() {
     };
     const isValidRate = () => {
         const rate = parseFloat(interestRate);
-        return interestRate.trim() !== '' && !isNaN(rate) && rate >= 0;
+        return interestRate.trim() !== '' && !isNaN(rate) && rate >= 0 && (loanKind !== 'creditCard' || rate <= MAX_CREDIT_CARD_APR);
     };
     const isValidTerm = () => {
         const termValue = parseFloat(term);
         return term.trim() !== '' && !isNaN(termValue) && termValue > 0;
     };
+    const isValidInterestOnly = () => {
+        if (interestOnlyMonths.trim() === '') return true;
+        const months = parseInt(interestOnlyMonths);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        return !isNaN(months) && months >= 0 && (isNaN(termMonths) || months < termMonths);
+    };
+    const isValidAmortization = () => {
+        if (amortizationYears.trim() === '') return true;
+        const years = parseFloat(amortizationYears);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        return !isNaN(years) && years > 0 && (isNaN(termMonths) || years * 12 > termMonths);
+    };
+    const isValidGraduated = () => {
+        if (stepPercent.trim() === '' && stepYears.trim() === '') return true;
+        const percent = parseFloat(stepPercent);
+        const years = parseFloat(stepYears);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        return !isNaN(percent) && percent > 0 && !isNaN(years) && years > 0 && (isNaN(termMonths) || years * 12 < termMonths);
+    };
+
+    const isValidCreditLine = () => {
+        if (loanKind !== 'creditLine') return true;
+        const years = parseFloat(drawYears);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        const draw = openingDraw.trim() === '' ? 0 : parseFloat(openingDraw);
+        const limit = parseFloat(loanAmount);
+        return !isNaN(years) && years > 0 && (isNaN(termMonths) || years * 12 < termMonths) &&
+               !isNaN(draw) && draw >= 0 && (isNaN(limit) || draw <= limit);
+    };
+
+    const isValidCreditCard = () => {
+        if (loanKind !== 'creditCard') return true;
+        const rate = parseFloat(interestRate);
+        const percent = parseFloat(minimumPercent);
+        const floor = minimumFloor.trim() === '' ? 0 : parseFloat(minimumFloor);
+        const payment = fixedPayment.trim() === '' ? 0 : parseFloat(fixedPayment);
+        return (isNaN(rate) || rate <= MAX_CREDIT_CARD_APR) &&
+               !isNaN(percent) && percent > 0 && percent <= 100 &&
+               !isNaN(floor) && floor >= 0 &&
+               !isNaN(payment) && payment >= 0;
+    };
+
+    const isValidFees = () => [upfrontFees, discountPoints, monthlyFee].every(value => {
+        if (value.trim() === '') return true;
+        const amount = parseFloat(value);
+        return !isNaN(amount) && amount >= 0;
+    });
+
+    // Fees and points, or undefined when the loan has none
+    const getLoanFees = (): LoanFees | undefined => {
+        const fees: LoanFees = {
+            upfrontFees: parseFloat(upfrontFees) || 0,
+            discountPoints: parseFloat(discountPoints) || 0,
+            financed: feesFinanced === 'financed',
+            monthlyFee: parseFloat(monthlyFee) || 0,
+        };
+        return fees.upfrontFees || fees.discountPoints || fees.monthlyFee ? fees : undefined;
+    };
+
+    // Graduated payment steps, or undefined for a level payment
+    const getGraduatedConfig = (): GraduatedPaymentConfig | undefined => {
+        const percent = parseFloat(stepPercent);
+        const years = parseFloat(stepYears);
+        return percent > 0 && years > 0 ? { stepMonths: Math.round(years * 12), stepPercent: percent } : undefined;
+    };
+
+    // Credit line draw period and opening draw, or undefined for a term loan
+    const getCreditLineConfig = (): CreditLineConfig | undefined => {
+        if (loanKind !== 'creditLine') return undefined;
+        const draw = parseFloat(openingDraw) || 0;
+        return {
+            drawMonths: Math.round((parseFloat(drawYears) || 0) * 12),
+            transactions: draw > 0
+                ? [{ id: 'opening-draw', type: 'draw', date: formatDateForStorage(getPaymentDate(dateRef.current, -1)), amount: draw }]
+                : [],
+        };
+    };
+
+    // Credit card minimum payment formula and payoff plan, or undefined for other loans
+    const getCreditCardConfig = (): CreditCardConfig | undefined => {
+        if (loanKind !== 'creditCard') return undefined;
+        const payment = parseFloat(fixedPayment) || 0;
+        return {
+            minimumPercent: parseFloat(minimumPercent) || 0,
+            minimumIncludesInterest: minimumBasis === 'interest',
+            minimumFloor: parseFloat(minimumFloor) || 0,
+            fixedPayment: payment > 0 ? payment : undefined,
+            charges: [],
+        };
+    };
 
     // Trigger auto-save
     const triggerAutoSave = () => {
@@ -129,6 +284,86 @@ export default function CreateLoanScreen() {
         triggerAutoSave();
     };
 
+    const handleInterestOnlyMonthsChange = (value: string) => {
+        setInterestOnlyMonths(value);
+        triggerAutoSave();
+    };
+
+    const handleAmortizationYearsChange = (value: string) => {
+        setAmortizationYears(value);
+        triggerAutoSave();
+    };
+
+    const handleStepPercentChange = (value: string) => {
+        setStepPercent(value);
+        triggerAutoSave();
+    };
+
+    const handleStepYearsChange = (value: string) => {
+        setStepYears(value);
+        triggerAutoSave();
+    };
+
+    const handleUpfrontFeesChange = (value: string) => {
+        setUpfrontFees(value);
+        triggerAutoSave();
+    };
+
+    const handleDiscountPointsChange = (value: string) => {
+        setDiscountPoints(value);
+        triggerAutoSave();
+    };
+
+    const handleMonthlyFeeChange = (value: string) => {
+        setMonthlyFee(value);
+        triggerAutoSave();
+    };
+
+    // Credit lines and cards pay monthly and have none of the term loan options
+    const handleLoanKindChange = (kind: LoanKind) => {
+        setLoanKind(kind);
+        if (kind !== 'term') {
+            setPaymentFrequency('monthly');
+            setInterestOnlyMonths('');
+            setAmortizationYears('');
+            setStepPercent('');
+            setStepYears('');
+            setCompoundingFrequency('payment');
+            setAmortizationType('annuity');
+            setInterestMethod('simple');
+            setUpfrontFees('');
+            setDiscountPoints('');
+            setFeesFinanced('cash');
+            setMonthlyFee('');
+        }
+        triggerAutoSave();
+    };
+
+    const handleDrawYearsChange = (value: string) => {
+        setDrawYears(value);
+        triggerAutoSave();
+    };
+
+    const handleOpeningDrawChange = (value: string) => {
+        setOpeningDraw(value);
+        triggerAutoSave();
+    };
+
+    const handleMinimumPercentChange = (value: string) => {
+        setMinimumPercent(value);
+        triggerAutoSave();
+    };
+
+    const handleMinimumFloorChange = (value: string) => {
+        setMinimumFloor(value);
+        triggerAutoSave();
+    };
+
+    const handleFixedPaymentChange = (value: string) => {
+        setFixedPayment(value);
+        triggerAutoSave();
+    };
+
     // Handle date selection from date picker
     const onDateChange = (event: any, selectedDate?: Date) => {
         if (selectedDate) {
@@ -170,11 +405,25 @@ export default function CreateLoanScreen() {
     const annualRate = parseFloat(interestRate);
     const termValue = parseFloat(term);
     const termInMonths = convertTermToMonths(termValue, termUnit);
+    const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+    const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+    const fees = getLoanFees();
+    const graduated = getGraduatedConfig();
+    const creditLine = getCreditLineConfig();
+    const creditCard = getCreditCardConfig();
     
-    const { monthlyPayment, totalPayment } = calculatePayment({ 
+    const { monthlyPayment: levelPayment } = calculatePayment({ 
         principal, 
         annualRate, 
-        termInMonths 
+        termInMonths,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        fees
     });
     
     // Generate full payment schedule
@@ -182,9 +431,34 @@ export default function CreateLoanScreen() {
         principal, 
         annualRate, 
         termInMonths, 
-        startDate: date 
+        startDate: date,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        fees,
+        creditLine,
+        creditCard
     });
 
+    // A credit line's payment follows its draws, so use the first payment of the repayment period;
+    // a card's minimum falls with its balance, so use the first one
+    const monthlyPayment = creditLine
+        ? paymentSchedule.find(payment => !payment.isInterestOnly)?.payment ?? 0
+        : creditCard ? paymentSchedule[0]?.payment ?? 0 : levelPayment;
+    const borrowed = creditLine ? parseFloat(openingDraw) || 0 : principal;
+
+    // APR reflects fees and points on top of the interest rate
+    const apr = fees ? calculateApr({ principal, annualRate, termInMonths, startDate: date, paymentFrequency, interestOnlyMonths: interestOnlyPeriod, amortizationMonths: amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, fees }) : null;
+
+    // Totals come from the cent-rounded schedule so they reconcile with the loan amount
+    const { totalPayment } = getScheduleTotals(paymentSchedule);
+    const balloonPayment = paymentSchedule.find(payment => payment.isBalloon)?.payment ?? 0;
+
     // Auto-save loan to device storage
     const saveLoan = async () => {
         if (!isValidLoanData()) {
@@ -195,12 +469,26 @@ export default function CreateLoanScreen() {
         const annualRate = parseFloat(interestRate);
         const termValue = parseFloat(term);
         const termInMonths = convertTermToMonths(termValue, termUnit);
+        const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+        const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+        const fees = getLoanFees();
+        const graduated = getGraduatedConfig();
+        const creditLine = getCreditLineConfig();
+        const creditCard = getCreditCardConfig();
 
         // Recalculate payment amounts with current values
-        const { monthlyPayment, totalPayment } = calculatePayment({ 
+        const { monthlyPayment: levelPayment } = calculatePayment({ 
             principal, 
             annualRate, 
-            termInMonths 
+            termInMonths,
+            paymentFrequency,
+            interestOnlyMonths: interestOnlyPeriod,
+            amortizationMonths: amortizationPeriod,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
+            graduated,
+            fees
         });
         
         // Generate payment schedule with current values
@@ -208,8 +496,23 @@ export default function CreateLoanScreen() {
             principal, 
             annualRate, 
             termInMonths, 
-            startDate: dateRef.current 
+            startDate: dateRef.current,
+            paymentFrequency,
+            interestOnlyMonths: interestOnlyPeriod,
+            amortizationMonths: amortizationPeriod,
+            dayCountConvention,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
+            graduated,
+            fees,
+            creditLine,
+            creditCard
         });
+        const monthlyPayment = creditLine
+            ? paymentSchedule.find(payment => !payment.isInterestOnly)?.payment ?? 0
+            : creditCard ? paymentSchedule[0]?.payment ?? 0 : levelPayment;
+        const { totalPayment } = getScheduleTotals(paymentSchedule);
 
         try {
             // Get existing loans from storage
@@ -223,15 +526,15 @@ export default function CreateLoanScreen() {
             const existingLoanIndex = loans.findIndex((l: any) => l.id === loanId);
             
             // Calculate current monthly payment and remaining balance from schedule
-            const currentMonthlyPayment = monthlyPayment; // For new loans, current payment is the standard monthly payment
-            const remainingBalance = principal; // For new loans, remaining balance is the full principal
+            const currentMonthlyPayment = creditLine ? paymentSchedule[0]?.payment ?? 0 : monthlyPayment; // For new loans, current payment is the standard monthly payment
+            const remainingBalance = creditLine ? parseFloat(openingDraw) || 0 : getFinancedPrincipal(principal, fees); // For new loans, remaining balance is the full principal (plus financed fees), or the opening draw on a credit line
             
-            // Calculate freedom date (when loan will be paid off)
-            const freedomDate = (() => {
-                const finalDate = new Date(dateRef.current);
-                finalDate.setMonth(finalDate.getMonth() + termInMonths - 1);
-                return finalDate.toISOString();
-            })();
+            // Calculate freedom date (when loan will be paid off, or the last payment of a card's schedule)
+            const freedomDate = getPaymentDate(
+                dateRef.current,
+                (creditCard ? paymentSchedule.length : convertTermToPayments(termInMonths, paymentFrequency)) - 1,
+                paymentFrequency
+            ).toISOString();
             
             // Create/update loan object with all details
             const loanData = {
@@ -239,13 +542,25 @@ export default function CreateLoanScreen() {
                 name: loanName,
                 amount: principal,
                 interestRate: annualRate,
-                term: termValue,
-                termUnit,
+                term: creditCard ? paymentSchedule.length : termValue,
+                termUnit: creditCard ? 'months' : termUnit,
+                paymentFrequency,
+                interestOnlyMonths: interestOnlyPeriod,
+                amortizationMonths: amortizationPeriod,
+                dayCountConvention,
+                compoundingFrequency,
+                amortizationType,
+                interestMethod,
+                graduated,
+                fees,
+                creditLine,
+                creditCard,
                 startDate: getStartDate(),
                 monthlyPayment,
                 totalPayment,
                 earlyPayments: existingLoanIndex !== -1 ? loans[existingLoanIndex].earlyPayments || [] : [],
                 rateAdjustments: existingLoanIndex !== -1 ? loans[existingLoanIndex].rateAdjustments || [] : [],
+                arm: existingLoanIndex !== -1 ? loans[existingLoanIndex].arm : undefined,
                 createdAt: existingLoanIndex !== -1 ? loans[existingLoanIndex].createdAt : new Date().toISOString(),
                 currentMonthlyPayment,
                 remainingBalance,
@@ -263,7 +578,8 @@ export default function CreateLoanScreen() {
                     loanName,
                     paymentSchedule,
                     getStartDate(),
-                    notificationPrefs.reminderDays
+                    notificationPrefs.reminderDays,
+                    paymentFrequency
                 );
             }
             
@@ -328,10 +644,19 @@ export default function CreateLoanScreen() {
             />
         </View>
         
+        {/* Term loan or revolving credit line */}
+        <OptionSelector
+            label="🏦 Loan Type"
+            options={LOAN_KINDS}
+            value={loanKind}
+            onChange={handleLoanKindChange}
+            helperText="A credit line (such as a HELOC) lets you draw up to a limit; payments are interest-only during the draw period. A credit card has no fixed term and pays a minimum each month"
+        />
+
         {/* Loan amount input */}
         <View style={!isValidAmount() && loanAmount !== '' ? styles.fieldError : undefined}>
             <InputField
-                label="Loan Amount"
+                label={loanKind === 'creditLine' ? "Credit Limit" : loanKind === 'creditCard' ? "Card Balance" : "Loan Amount"}
                 value={loanAmount}
                 onChangeText={handleLoanAmountChange}
                 placeholder="Enter loan amount"
@@ -343,7 +668,7 @@ export default function CreateLoanScreen() {
         {/* Interest rate input */}
         <View style={!isValidRate() && interestRate !== '' ? styles.fieldError : undefined}>
             <InputField
-                label="Interest Rate (%)"
+                label={loanKind === 'creditCard' ? "APR (%)" : "Interest Rate (%)"}
                 value={interestRate}
                 onChangeText={handleInterestRateChange}
                 placeholder="Enter interest rate"
@@ -351,18 +676,225 @@ export default function CreateLoanScreen() {
             />
         </View>
 
-        {/* Term input with months/years toggle */}
-        <View style={!isValidTerm() && term !== '' ? styles.fieldError : undefined}>
-            <TermSelector
-            term={term}
-            termUnit={termUnit}
-            onTermChange={handleTermChange}
-            onTermUnitChange={(unit) => {
-                setTermUnit(unit);
+        {/* Term input with months/years toggle; a credit card has no term */}
+        {loanKind !== 'creditCard' && (
+            <View style={!isValidTerm() && term !== '' ? styles.fieldError : undefined}>
+                <TermSelector
+                term={term}
+                termUnit={termUnit}
+                onTermChange={handleTermChange}
+                onTermUnitChange={(unit) => {
+                    setTermUnit(unit);
+                    triggerAutoSave();
+                }}
+                paymentFrequency={paymentFrequency}
+                onPaymentFrequencyChange={loanKind === 'term' ? (frequency) => {
+                    setPaymentFrequency(frequency);
+                    triggerAutoSave();
+                } : undefined}
+            />
+            </View>
+        )}
+
+        {/* Credit line draw period and opening draw */}
+        {loanKind === 'creditLine' && (
+            <View style={!isValidCreditLine() ? styles.fieldError : undefined}>
+                <InputField
+                    label="Draw Period (years)"
+                    value={drawYears}
+                    onChangeText={handleDrawYearsChange}
+                    placeholder="e.g. 10"
+                    keyboardType="decimal-pad"
+                />
+                <InputField
+                    label="Opening Draw"
+                    value={openingDraw}
+                    onChangeText={handleOpeningDrawChange}
+                    placeholder="Optional, e.g. 20000"
+                    keyboardType="numeric"
+                    formatNumber={true}
+                />
+            </View>
+        )}
+
+        {/* Credit card minimum payment formula and payoff plan */}
+        {loanKind === 'creditCard' && (
+            <View style={!isValidCreditCard() ? styles.fieldError : undefined}>
+                <InputField
+                    label="Minimum Payment (% of balance)"
+                    value={minimumPercent}
+                    onChangeText={handleMinimumPercentChange}
+                    placeholder="e.g. 1"
+                    keyboardType="decimal-pad"
+                />
+                <OptionSelector
+                    label="Minimum Payment Formula"
+                    options={[
+                        { value: 'interest', label: '% + Interest' },
+                        { value: 'balance', label: '% of Balance' },
+                    ]}
+                    value={minimumBasis}
+                    onChange={(value) => {
+                        setMinimumBasis(value);
+                        triggerAutoSave();
+                    }}
+                    helperText="Most cards charge a percentage of the balance plus the month's interest; others a larger percentage that includes it"
+                />
+                <InputField
+                    label="Minimum Payment Floor"
+                    value={minimumFloor}
+                    onChangeText={handleMinimumFloorChange}
+                    placeholder="Optional, e.g. 25"
+                    keyboardType="numeric"
+                    formatNumber={true}
+                />
+                <InputField
+                    label="Fixed Monthly Payment"
+                    value={fixedPayment}
+                    onChangeText={handleFixedPaymentChange}
+                    placeholder="Optional, e.g. 300"
+                    keyboardType="numeric"
+                    formatNumber={true}
+                />
+            </View>
+        )}
+
+        {loanKind === 'term' && (
+            <>
+                {/* Optional interest-only period input */}
+                <View style={!isValidInterestOnly() ? styles.fieldError : undefined}>
+                    <InputField
+                        label="Interest-Only Period (months)"
+                        value={interestOnlyMonths}
+                        onChangeText={handleInterestOnlyMonthsChange}
+                        placeholder="Optional, e.g. 12"
+                        keyboardType="numeric"
+                    />
+                </View>
+
+                {/* Optional amortization period for balloon loans */}
+                <View style={!isValidAmortization() ? styles.fieldError : undefined}>
+                    <InputField
+                        label="Balloon Amortization Period (years)"
+                        value={amortizationYears}
+                        onChangeText={handleAmortizationYearsChange}
+                        placeholder="Optional, e.g. 30"
+                        keyboardType="numeric"
+                    />
+                </View>
+
+                {/* Optional graduated payments that step up every few years */}
+                <View style={!isValidGraduated() ? styles.fieldError : undefined}>
+                    <InputField
+                        label="Graduated Payment Step (%)"
+                        value={stepPercent}
+                        onChangeText={handleStepPercentChange}
+                        placeholder="Optional, e.g. 7"
+                        keyboardType="decimal-pad"
+                    />
+                    <InputField
+                        label="Step Every (years)"
+                        value={stepYears}
+                        onChangeText={handleStepYearsChange}
+                        placeholder="Optional, e.g. 2"
+                        keyboardType="decimal-pad"
+                    />
+                </View>
+            </>
+        )}
+
+        {/* Day-count convention used to accrue interest */}
+        <OptionSelector
+            label="🧮 Interest Calculation"
+            options={DAY_COUNT_CONVENTIONS}
+            value={dayCountConvention}
+            onChange={(convention) => {
+                setDayCountConvention(convention);
                 triggerAutoSave();
             }}
+            helperText="Match your lender's statement: Actual/365, Actual/360 and 30/360 accrue interest by day"
         />
-        </View>
+
+        {loanKind === 'term' && (
+            <>
+                {/* How often the rate compounds */}
+                <OptionSelector
+                    label="🔁 Compounding"
+                    options={COMPOUNDING_FREQUENCIES}
+                    value={compoundingFrequency}
+                    onChange={(frequency) => {
+                        setCompoundingFrequency(frequency);
+                        triggerAutoSave();
+                    }}
+                    helperText="Canadian fixed mortgages compound semi-annually; some lenders compound daily"
+                />
+
+                {/* Level payments or equal principal each period */}
+                <OptionSelector
+                    label="📉 Amortization"
+                    options={AMORTIZATION_TYPES}
+                    value={amortizationType}
+                    onChange={(type) => {
+                        setAmortizationType(type);
+                        triggerAutoSave();
+                    }}
+                    helperText="Equal principal repays the same amount each period, so payments start higher and fall"
+                />
+
+                {/* Simple interest or precomputed add-on / Rule of 78 interest */}
+                <OptionSelector
+                    label="💳 Interest Method"
+                    options={INTEREST_METHODS}
+                    value={interestMethod}
+                    onChange={(method) => {
+                        setInterestMethod(method);
+                        triggerAutoSave();
+                    }}
+                    helperText="Add-on and Rule of 78 loans charge interest on the full amount up front, so paying early only rebates part of it"
+                />
+
+                {/* Optional fees and points, used for the APR */}
+                <View style={!isValidFees() ? styles.fieldError : undefined}>
+                    <InputField
+                        label="Upfront Fees & Closing Costs"
+                        value={upfrontFees}
+                        onChangeText={handleUpfrontFeesChange}
+                        placeholder="Optional, e.g. 3500"
+                        keyboardType="decimal-pad"
+                    />
+                    <InputField
+                        label="Discount Points (%)"
+                        value={discountPoints}
+                        onChangeText={handleDiscountPointsChange}
+                        placeholder="Optional, e.g. 1"
+                        keyboardType="decimal-pad"
+                    />
+                    <InputField
+                        label="Monthly Fee"
+                        value={monthlyFee}
+                        onChangeText={handleMonthlyFeeChange}
+                        placeholder="Optional, e.g. 10"
+                        keyboardType="decimal-pad"
+                    />
+                </View>
+
+                {(parseFloat(upfrontFees) > 0 || parseFloat(discountPoints) > 0) && (
+                    <OptionSelector
+                        label="🧾 Upfront Fees Paid"
+                        options={[
+                            { value: 'cash', label: 'In Cash' },
+                            { value: 'financed', label: 'Added to Loan' },
+                        ]}
+                        value={feesFinanced}
+                        onChange={(value) => {
+                            setFeesFinanced(value);
+                            triggerAutoSave();
+                        }}
+                        helperText="Financed fees are added to the balance and accrue interest"
+                    />
+                )}
+            </>
+        )}
 
         {/* Start date picker */}
         <View>
@@ -388,10 +920,31 @@ export default function CreateLoanScreen() {
             <PaymentSummary
                 monthlyPayment={monthlyPayment}
                 totalPayment={totalPayment}
-                loanAmount={loanAmount}
+                loanAmount={creditLine ? openingDraw : loanAmount}
+                paymentFrequency={paymentFrequency}
+                interestOnlyPayment={paymentSchedule[0]?.isInterestOnly ? paymentSchedule[0].payment : undefined}
+                balloonPayment={balloonPayment > 0 ? balloonPayment : undefined}
+                paymentRange={amortizationType === 'linear' || graduated ? getPaymentRange(paymentSchedule) : null}
+                apr={apr}
             />
         )}
 
+        {creditLine && (
+            <Text style={styles.creditLineHint}>
+                Record draws and repayments on the loan's Payments tab once it is saved; each one updates the payments due.
+            </Text>
+        )}
+
+        {/* Minimum payments only compared with the fixed payment */}
+        {creditCard && principal > 0 && (
+            <>
+                <Text style={styles.creditLineHint}>
+                    Add new charges on the loan's Payments tab once it is saved; each one is added to the next statement.
+                </Text>
+                <CreditCardPayoffComparison scheduleParams={{ principal, annualRate, termInMonths, startDate: date, creditCard }} />
+            </>
+        )}
+
         {/* Chart showing how principal balance decreases over time */}
         {paymentSchedule.length > 0 && (
             <LineChart
@@ -402,6 +955,19 @@ export default function CreateLoanScreen() {
             />
         )}
 
+        {/* Chart showing the payment stepping up on a graduated plan */}
+        {graduated && paymentSchedule.length > 0 && (
+            <LineChart
+                title="Payment Over Time"
+                data={paymentSchedule.map(p => ({ value: p.payment }))}
+                color={theme.colors.primary}
+                markers={paymentSchedule.filter(p => p.isPaymentStep).map(p => p.paymentNumber - 1)}
+                yAxisFormatter={(v) => formatCurrency(v, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0)}
+                showLegend
+                legendItems={[{ color: theme.colors.warning, label: 'Payment step' }]}
+            />
+        )}
+
         {/* Chart showing principal vs interest payments each month */}
         {paymentSchedule.length > 0 && (
             <DualLineChart
@@ -483,6 +1049,11 @@ const styles = StyleSheet.create({
         fontSize: theme.fontSize.lg,
         fontWeight: theme.fontWeight.semibold,
     },
+    creditLineHint: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.md,
+    },
     dateLabel: {
         fontSize: theme.fontSize.sm,
         fontWeight: theme.fontWeight.semibold,
@@ -2,15 +2,18 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Text, View, StyleSheet, TouchableOpacity, ScrollView, Dimensions, Animated, Image as RNImage } from "react-native";
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { router, useFocusEffect, Link } from 'expo-router';
+import { router, useFocusEffect, useLocalSearchParams, Link } from 'expo-router';
 import { theme } from '../../constants/theme';
 import InputField from "../../components/InputField";
 import TermSelector from "../../components/TermSelector";
+import OptionSelector from "../../components/OptionSelector";
 import PaymentSummary from "../../components/PaymentSummary";
+import CreditCardPayoffComparison from "../../components/CreditCardPayoffComparison";
 import LineChart from "../../components/LineChart";
 import DualLineChart from "../../components/DualLineChart";
 import { AutoSaveIndicator, AutoSaveHandle } from "../../components/AutoSaveIndicator";
-import { calculatePayment, generatePaymentSchedule, convertTermToMonths } from "../../utils/loanCalculations";
+import { calculatePayment, generatePaymentSchedule, getScheduleTotals, convertTermToMonths, getPaymentDate, convertTermToPayments, getPaymentFrequencyLabel, calculateApr, getFinancedPrincipal, PaymentFrequency, PAYMENT_FREQUENCIES, DayCountConvention, DAY_COUNT_CONVENTIONS, CompoundingFrequency, COMPOUNDING_FREQUENCIES, AmortizationType, AMORTIZATION_TYPES, InterestMethod, INTEREST_METHODS, GraduatedPaymentConfig, getPaymentRange, LoanFees, LoanKind, LOAN_KINDS, CreditLineConfig, CreditCardConfig, MAX_CREDIT_CARD_APR } from "../../utils/loanCalculations";
+import { formatDateForStorage } from "../../utils/dateUtils";
 import { scheduleNextPaymentReminder } from "../../utils/notificationUtils";
 import { getNotificationPreferences } from "../../utils/storage";
 import { formatCurrency } from "../../utils/currencyUtils";
@@ -20,16 +23,40 @@ import { ThemeProvider, useTheme } from "../../contexts/ThemeContext.web";
 
 function CreateLoanScreenWebContent() {
     const [loanName, setLoanName] = useState("");
+    const [loanKind, setLoanKind] = useState<LoanKind>("term");
     const [loanAmount, setLoanAmount] = useState("");
     const [interestRate, setInterestRate] = useState("");
     const [term, setTerm] = useState("");
     const [termUnit, setTermUnit] = useState<"months" | "years">("years");
+    const [paymentFrequency, setPaymentFrequency] = useState<PaymentFrequency>("monthly");
+    const [interestOnlyMonths, setInterestOnlyMonths] = useState(""); // Optional interest-only period
+    const [amortizationYears, setAmortizationYears] = useState(""); // Optional amortization period for balloon loans
+    const [stepPercent, setStepPercent] = useState(""); // Optional graduated payment increase
+    const [stepYears, setStepYears] = useState(""); // Years between graduated payment increases
+    const [dayCountConvention, setDayCountConvention] = useState<DayCountConvention>("periodic");
+    const [compoundingFrequency, setCompoundingFrequency] = useState<CompoundingFrequency>("payment");
+    const [amortizationType, setAmortizationType] = useState<AmortizationType>("annuity");
+    const [interestMethod, setInterestMethod] = useState<InterestMethod>("simple");
+    const [upfrontFees, setUpfrontFees] = useState(""); // Optional origination fee and closing costs
+    const [discountPoints, setDiscountPoints] = useState(""); // Optional points, as % of the loan amount
+    const [feesFinanced, setFeesFinanced] = useState<"cash" | "financed">("cash");
+    const [monthlyFee, setMonthlyFee] = useState(""); // Optional recurring fee
+    const [drawYears, setDrawYears] = useState(""); // Credit line draw period
+    const [openingDraw, setOpeningDraw] = useState(""); // Optional amount drawn when the line opens
+    const [minimumPercent, setMinimumPercent] = useState(""); // Credit card minimum payment, as % of the balance
+    const [minimumBasis, setMinimumBasis] = useState<"interest" | "balance">("interest"); // Whether the month's interest is added to the minimum
+    const [minimumFloor, setMinimumFloor] = useState(""); // Smallest credit card minimum payment
+    const [fixedPayment, setFixedPayment] = useState(""); // Optional monthly payment of a card payoff plan
     const [date, setDate] = useState(new Date());
     const dateRef = useRef(new Date());
     const [showViewDetailsButton, setShowViewDetailsButton] = useState(false);
     const createdLoanId = useRef<string | null>(null);
     const autoSaveRef = useRef<AutoSaveHandle>(null);
     const hasNavigatedAway = useRef(false);
+    // Pre-fill from the affordability calculator ("create loan from this")
+    const prefill = useLocalSearchParams<{ amount?: string; interestRate?: string; term?: string; termUnit?: string; paymentFrequency?: string }>();
+    const prefillKey = prefill.amount ? [prefill.amount, prefill.interestRate, prefill.term, prefill.termUnit, prefill.paymentFrequency].join('|') : null;
+    const appliedPrefillKey = useRef<string | null>(null); // Apply each pre-fill once so later visits keep user edits
     const [activeStep, setActiveStep] = useState(1);
     const [showInsights, setShowInsights] = useState(true);
     const [windowWidth, setWindowWidth] = useState(Dimensions.get('window').width);
@@ -126,10 +153,30 @@ function CreateLoanScreenWebContent() {
         useCallback(() => {
             if (hasNavigatedAway.current && createdLoanId.current) {
                 setLoanName('');
+                setLoanKind('term');
                 setLoanAmount('');
                 setInterestRate('');
                 setTerm('');
                 setTermUnit('years');
+                setPaymentFrequency('monthly');
+                setInterestOnlyMonths('');
+                setAmortizationYears('');
+                setStepPercent('');
+                setStepYears('');
+                setDayCountConvention('periodic');
+                setCompoundingFrequency('payment');
+                setAmortizationType('annuity');
+                setInterestMethod('simple');
+                setUpfrontFees('');
+                setDiscountPoints('');
+                setFeesFinanced('cash');
+                setMonthlyFee('');
+                setDrawYears('');
+                setOpeningDraw('');
+                setMinimumPercent('');
+                setMinimumBasis('interest');
+                setMinimumFloor('');
+                setFixedPayment('');
                 const newDate = new Date();
                 setDate(newDate);
                 dateRef.current = newDate;
@@ -138,13 +185,24 @@ function CreateLoanScreenWebContent() {
                 hasNavigatedAway.current = false;
                 setActiveStep(1);
             }
+
+            // Fill in the loan suggested by the affordability calculator
+            if (prefillKey && prefillKey !== appliedPrefillKey.current) {
+                appliedPrefillKey.current = prefillKey;
+                setLoanAmount(prefill.amount ?? '');
+                setInterestRate(prefill.interestRate ?? '');
+                setTerm(prefill.term ?? '');
+                setTermUnit(prefill.termUnit === 'months' ? 'months' : 'years');
+                const frequency = PAYMENT_FREQUENCIES.find(f => f.value === prefill.paymentFrequency);
+                setPaymentFrequency(frequency ? frequency.value : 'monthly');
+            }
             
             return () => {
                 if (createdLoanId.current) {
                     hasNavigatedAway.current = true;
                 }
             };
-        }, [])
+        }, [prefillKey])
     );
 
     // Handle date change from HTML date input
@@ -171,9 +229,15 @@ function CreateLoanScreenWebContent() {
                interestRate.trim() !== '' && 
                !isNaN(annualRate) && 
                annualRate >= 0 &&
-               term.trim() !== '' && 
+               (loanKind === 'creditCard' || (term.trim() !== '' && 
                !isNaN(termValue) && 
-               termValue > 0;
+               termValue > 0)) &&
+               isValidInterestOnly() &&
+               isValidAmortization() &&
+               isValidGraduated() &&
+               isValidFees() &&
+               isValidCreditLine() &&
+               isValidCreditCard();
     };
 
     const isValidName = () => loanName.trim() !== '';
@@ -183,12 +247,102 @@ function CreateLoanScreenWebContent() {
     };
     const isValidRate = () => {
         const rate = parseFloat(interestRate);
-        return interestRate.trim() !== '' && !isNaN(rate) && rate >= 0;
+        return interestRate.trim() !== '' && !isNaN(rate) && rate >= 0 && (loanKind !== 'creditCard' || rate <= MAX_CREDIT_CARD_APR);
     };
     const isValidTerm = () => {
         const termValue = parseFloat(term);
         return term.trim() !== '' && !isNaN(termValue) && termValue > 0;
     };
+    const isValidInterestOnly = () => {
+        if (interestOnlyMonths.trim() === '') return true;
+        const months = parseInt(interestOnlyMonths);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        return !isNaN(months) && months >= 0 && (isNaN(termMonths) || months < termMonths);
+    };
+    const isValidAmortization = () => {
+        if (amortizationYears.trim() === '') return true;
+        const years = parseFloat(amortizationYears);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        return !isNaN(years) && years > 0 && (isNaN(termMonths) || years * 12 > termMonths);
+    };
+    const isValidGraduated = () => {
+        if (stepPercent.trim() === '' && stepYears.trim() === '') return true;
+        const percent = parseFloat(stepPercent);
+        const years = parseFloat(stepYears);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        return !isNaN(percent) && percent > 0 && !isNaN(years) && years > 0 && (isNaN(termMonths) || years * 12 < termMonths);
+    };
+    const isValidFee = (value: string) => {
+        if (value.trim() === '') return true;
+        const amount = parseFloat(value);
+        return !isNaN(amount) && amount >= 0;
+    };
+    const isValidCreditLine = () => {
+        if (loanKind !== 'creditLine') return true;
+        const years = parseFloat(drawYears);
+        const termMonths = convertTermToMonths(parseFloat(term), termUnit);
+        const draw = openingDraw.trim() === '' ? 0 : parseFloat(openingDraw);
+        const limit = parseFloat(loanAmount);
+        return !isNaN(years) && years > 0 && (isNaN(termMonths) || years * 12 < termMonths) &&
+               !isNaN(draw) && draw >= 0 && (isNaN(limit) || draw <= limit);
+    };
+
+    const isValidCreditCard = () => {
+        if (loanKind !== 'creditCard') return true;
+        const rate = parseFloat(interestRate);
+        const percent = parseFloat(minimumPercent);
+        const floor = minimumFloor.trim() === '' ? 0 : parseFloat(minimumFloor);
+        const payment = fixedPayment.trim() === '' ? 0 : parseFloat(fixedPayment);
+        return (isNaN(rate) || rate <= MAX_CREDIT_CARD_APR) &&
+               !isNaN(percent) && percent > 0 && percent <= 100 &&
+               !isNaN(floor) && floor >= 0 &&
+               !isNaN(payment) && payment >= 0;
+    };
+
+    const isValidFees = () => [upfrontFees, discountPoints, monthlyFee].every(isValidFee);
+
+    // Fees and points, or undefined when the loan has none
+    const getLoanFees = (): LoanFees | undefined => {
+        const fees: LoanFees = {
+            upfrontFees: parseFloat(upfrontFees) || 0,
+            discountPoints: parseFloat(discountPoints) || 0,
+            financed: feesFinanced === 'financed',
+            monthlyFee: parseFloat(monthlyFee) || 0,
+        };
+        return fees.upfrontFees || fees.discountPoints || fees.monthlyFee ? fees : undefined;
+    };
+
+    // Graduated payment steps, or undefined for a level payment
+    const getGraduatedConfig = (): GraduatedPaymentConfig | undefined => {
+        const percent = parseFloat(stepPercent);
+        const years = parseFloat(stepYears);
+        return percent > 0 && years > 0 ? { stepMonths: Math.round(years * 12), stepPercent: percent } : undefined;
+    };
+
+    // Credit line draw period and opening draw, or undefined for a term loan
+    const getCreditLineConfig = (): CreditLineConfig | undefined => {
+        if (loanKind !== 'creditLine') return undefined;
+        const draw = parseFloat(openingDraw) || 0;
+        return {
+            drawMonths: Math.round((parseFloat(drawYears) || 0) * 12),
+            transactions: draw > 0
+                ? [{ id: 'opening-draw', type: 'draw', date: formatDateForStorage(getPaymentDate(dateRef.current, -1)), amount: draw }]
+                : [],
+        };
+    };
+
+    // Credit card minimum payment formula and payoff plan, or undefined for other loans
+    const getCreditCardConfig = (): CreditCardConfig | undefined => {
+        if (loanKind !== 'creditCard') return undefined;
+        const payment = parseFloat(fixedPayment) || 0;
+        return {
+            minimumPercent: parseFloat(minimumPercent) || 0,
+            minimumIncludesInterest: minimumBasis === 'interest',
+            minimumFloor: parseFloat(minimumFloor) || 0,
+            fixedPayment: payment > 0 ? payment : undefined,
+            charges: [],
+        };
+    };
 
     const triggerAutoSave = () => {
         if (isValidLoanData() && autoSaveRef.current) {
@@ -229,6 +383,86 @@ function CreateLoanScreenWebContent() {
         triggerAutoSave();
     };
 
+    const handleInterestOnlyMonthsChange = (value: string) => {
+        setInterestOnlyMonths(value);
+        triggerAutoSave();
+    };
+
+    const handleAmortizationYearsChange = (value: string) => {
+        setAmortizationYears(value);
+        triggerAutoSave();
+    };
+
+    const handleStepPercentChange = (value: string) => {
+        setStepPercent(value);
+        triggerAutoSave();
+    };
+
+    const handleStepYearsChange = (value: string) => {
+        setStepYears(value);
+        triggerAutoSave();
+    };
+
+    const handleUpfrontFeesChange = (value: string) => {
+        setUpfrontFees(value);
+        triggerAutoSave();
+    };
+
+    const handleDiscountPointsChange = (value: string) => {
+        setDiscountPoints(value);
+        triggerAutoSave();
+    };
+
+    const handleMonthlyFeeChange = (value: string) => {
+        setMonthlyFee(value);
+        triggerAutoSave();
+    };
+
+    // Credit lines and cards pay monthly and have none of the term loan options
+    const handleLoanKindChange = (kind: LoanKind) => {
+        setLoanKind(kind);
+        if (kind !== 'term') {
+            setPaymentFrequency('monthly');
+            setInterestOnlyMonths('');
+            setAmortizationYears('');
+            setStepPercent('');
+            setStepYears('');
+            setCompoundingFrequency('payment');
+            setAmortizationType('annuity');
+            setInterestMethod('simple');
+            setUpfrontFees('');
+            setDiscountPoints('');
+            setFeesFinanced('cash');
+            setMonthlyFee('');
+        }
+        triggerAutoSave();
+    };
+
+    const handleDrawYearsChange = (value: string) => {
+        setDrawYears(value);
+        triggerAutoSave();
+    };
+
+    const handleOpeningDrawChange = (value: string) => {
+        setOpeningDraw(value);
+        triggerAutoSave();
+    };
+
+    const handleMinimumPercentChange = (value: string) => {
+        setMinimumPercent(value);
+        triggerAutoSave();
+    };
+
+    const handleMinimumFloorChange = (value: string) => {
+        setMinimumFloor(value);
+        triggerAutoSave();
+    };
+
+    const handleFixedPaymentChange = (value: string) => {
+        setFixedPayment(value);
+        triggerAutoSave();
+    };
+
     const getStartDate = (): string => {
         const currentDate = dateRef.current;
         const year = currentDate.getFullYear();
@@ -241,20 +475,59 @@ function CreateLoanScreenWebContent() {
     const annualRate = parseFloat(interestRate);
     const termValue = parseFloat(term);
     const termInMonths = convertTermToMonths(termValue, termUnit);
+    const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+    const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+    const fees = getLoanFees();
+    const graduated = getGraduatedConfig();
+    const creditLine = getCreditLineConfig();
+    const creditCard = getCreditCardConfig();
     
-    const { monthlyPayment, totalPayment } = calculatePayment({ 
+    const { monthlyPayment: levelPayment } = calculatePayment({ 
         principal, 
         annualRate, 
-        termInMonths 
+        termInMonths,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        fees
     });
     
     const paymentSchedule = generatePaymentSchedule({ 
         principal, 
         annualRate, 
         termInMonths, 
-        startDate: date 
+        startDate: date,
+        paymentFrequency,
+        interestOnlyMonths: interestOnlyPeriod,
+        amortizationMonths: amortizationPeriod,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        fees,
+        creditLine,
+        creditCard
     });
 
+    // A credit line's payment follows its draws, so use the first payment of the repayment period;
+    // a card's minimum falls with its balance, so use the first one
+    const monthlyPayment = creditLine
+        ? paymentSchedule.find(payment => !payment.isInterestOnly)?.payment ?? 0
+        : creditCard ? paymentSchedule[0]?.payment ?? 0 : levelPayment;
+    const borrowed = creditLine ? parseFloat(openingDraw) || 0 : principal;
+
+    // APR reflects fees and points on top of the interest rate
+    const apr = fees ? calculateApr({ principal, annualRate, termInMonths, startDate: date, paymentFrequency, interestOnlyMonths: interestOnlyPeriod, amortizationMonths: amortizationPeriod, dayCountConvention, compoundingFrequency, amortizationType, interestMethod, graduated, fees }) : null;
+
+    // Totals come from the cent-rounded schedule so they reconcile with the loan amount
+    const { totalPayment } = getScheduleTotals(paymentSchedule);
+    const balloonPayment = paymentSchedule.find(payment => payment.isBalloon)?.payment ?? 0;
+
     const saveLoan = async () => {
         if (!isValidLoanData()) {
             return;
@@ -264,19 +537,48 @@ function CreateLoanScreenWebContent() {
         const annualRate = parseFloat(interestRate);
         const termValue = parseFloat(term);
         const termInMonths = convertTermToMonths(termValue, termUnit);
+        const interestOnlyPeriod = parseInt(interestOnlyMonths) || 0;
+        const amortizationPeriod = Math.round((parseFloat(amortizationYears) || 0) * 12);
+        const fees = getLoanFees();
+        const graduated = getGraduatedConfig();
+        const creditLine = getCreditLineConfig();
+        const creditCard = getCreditCardConfig();
 
-        const { monthlyPayment, totalPayment } = calculatePayment({ 
+        const { monthlyPayment: levelPayment } = calculatePayment({ 
             principal, 
             annualRate, 
-            termInMonths 
+            termInMonths,
+            paymentFrequency,
+            interestOnlyMonths: interestOnlyPeriod,
+            amortizationMonths: amortizationPeriod,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
+            graduated,
+            fees
         });
         
         const paymentSchedule = generatePaymentSchedule({ 
             principal, 
             annualRate, 
             termInMonths, 
-            startDate: dateRef.current 
+            startDate: dateRef.current,
+            paymentFrequency,
+            interestOnlyMonths: interestOnlyPeriod,
+            amortizationMonths: amortizationPeriod,
+            dayCountConvention,
+            compoundingFrequency,
+            amortizationType,
+            interestMethod,
+            graduated,
+            fees,
+            creditLine,
+            creditCard
         });
+        const monthlyPayment = creditLine
+            ? paymentSchedule.find(payment => !payment.isInterestOnly)?.payment ?? 0
+            : creditCard ? paymentSchedule[0]?.payment ?? 0 : levelPayment;
+        const { totalPayment } = getScheduleTotals(paymentSchedule);
 
         try {
             const existingLoans = await AsyncStorage.getItem('loans');
@@ -285,27 +587,39 @@ function CreateLoanScreenWebContent() {
             const loanId = createdLoanId.current || Date.now().toString();
             const existingLoanIndex = loans.findIndex((l: any) => l.id === loanId);
             
-            const currentMonthlyPayment = monthlyPayment;
-            const remainingBalance = principal;
+            const currentMonthlyPayment = creditLine ? paymentSchedule[0]?.payment ?? 0 : monthlyPayment;
+            const remainingBalance = creditLine ? parseFloat(openingDraw) || 0 : getFinancedPrincipal(principal, fees);
             
-            const freedomDate = (() => {
-                const finalDate = new Date(dateRef.current);
-                finalDate.setMonth(finalDate.getMonth() + termInMonths - 1);
-                return finalDate.toISOString();
-            })();
+            const freedomDate = getPaymentDate(
+                dateRef.current,
+                (creditCard ? paymentSchedule.length : convertTermToPayments(termInMonths, paymentFrequency)) - 1,
+                paymentFrequency
+            ).toISOString();
             
             const loanData = {
                 id: loanId,
                 name: loanName,
                 amount: principal,
                 interestRate: annualRate,
-                term: termValue,
-                termUnit,
+                term: creditCard ? paymentSchedule.length : termValue,
+                termUnit: creditCard ? 'months' : termUnit,
+                paymentFrequency,
+                interestOnlyMonths: interestOnlyPeriod,
+                amortizationMonths: amortizationPeriod,
+                dayCountConvention,
+                compoundingFrequency,
+                amortizationType,
+                interestMethod,
+                graduated,
+                fees,
+                creditLine,
+                creditCard,
                 startDate: getStartDate(),
                 monthlyPayment,
                 totalPayment,
                 earlyPayments: existingLoanIndex !== -1 ? loans[existingLoanIndex].earlyPayments || [] : [],
                 rateAdjustments: existingLoanIndex !== -1 ? loans[existingLoanIndex].rateAdjustments || [] : [],
+                arm: existingLoanIndex !== -1 ? loans[existingLoanIndex].arm : undefined,
                 createdAt: existingLoanIndex !== -1 ? loans[existingLoanIndex].createdAt : new Date().toISOString(),
                 currentMonthlyPayment,
                 remainingBalance,
@@ -321,7 +635,8 @@ function CreateLoanScreenWebContent() {
                     loanName,
                     paymentSchedule,
                     getStartDate(),
-                    notificationPrefs.reminderDays
+                    notificationPrefs.reminderDays,
+                    paymentFrequency
                 );
             }
             
@@ -401,7 +716,7 @@ function CreateLoanScreenWebContent() {
                         <View style={styles.sidebarQuickView}>
                             <Text style={styles.quickViewLabel}>QUICK PREVIEW</Text>
                             <View style={styles.quickViewItem}>
-                                <Text style={styles.quickViewKey}>Monthly</Text>
+                                <Text style={styles.quickViewKey}>{getPaymentFrequencyLabel(paymentFrequency)}</Text>
                                 <Text style={styles.quickViewValue}>{formatCurrency(monthlyPayment, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' })}</Text>
                             </View>
                             <View style={styles.quickViewItem}>
@@ -411,7 +726,7 @@ function CreateLoanScreenWebContent() {
                             <View style={styles.quickViewItem}>
                                 <Text style={styles.quickViewKey}>Interest</Text>
                                 <Text style={[styles.quickViewValue, { color: '#e67e22' }]}>
-                                    {formatCurrency(totalPayment - principal, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0)}
+                                    {formatCurrency(totalPayment - borrowed, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0)}
                                 </Text>
                             </View>
                         </View>
@@ -494,9 +809,19 @@ function CreateLoanScreenWebContent() {
                             />
                         </View>
 
+                        <View style={[styles.formField, styles.formFieldFull]}>
+                            <OptionSelector
+                                label="Loan Type"
+                                options={LOAN_KINDS}
+                                value={loanKind}
+                                onChange={handleLoanKindChange}
+                                helperText="A credit line (such as a HELOC) lets you draw up to a limit; payments are interest-only during the draw period. A credit card has no fixed term and pays a minimum each month"
+                            />
+                        </View>
+
                         <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
                             <InputField
-                                label="Loan Amount"
+                                label={loanKind === 'creditLine' ? "Credit Limit" : loanKind === 'creditCard' ? "Card Balance" : "Loan Amount"}
                                 value={loanAmount}
                                 onChangeText={handleLoanAmountChange}
                                 placeholder="Enter loan amount"
@@ -507,26 +832,280 @@ function CreateLoanScreenWebContent() {
 
                         <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
                             <InputField
-                                label="Interest Rate (%)"
+                                label={loanKind === 'creditCard' ? "APR (%)" : "Interest Rate (%)"}
                                 value={interestRate}
                                 onChangeText={handleInterestRateChange}
                                 placeholder="Enter interest rate"
                                 keyboardType="decimal-pad"
+                                error={loanKind === 'creditCard' && interestRate !== '' && !isValidRate()}
+                                errorMessage={`A card's APR can be up to ${MAX_CREDIT_CARD_APR}%`}
                             />
                         </View>
 
-                        <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
-                            <TermSelector
-                                term={term}
-                                termUnit={termUnit}
-                                onTermChange={handleTermChange}
-                                onTermUnitChange={(unit) => {
-                                    setTermUnit(unit);
+                        {loanKind !== 'creditCard' && (
+                            <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                <TermSelector
+                                    term={term}
+                                    termUnit={termUnit}
+                                    onTermChange={handleTermChange}
+                                    onTermUnitChange={(unit) => {
+                                        setTermUnit(unit);
+                                        triggerAutoSave();
+                                    }}
+                                    paymentFrequency={paymentFrequency}
+                                    onPaymentFrequencyChange={loanKind === 'term' ? (frequency) => {
+                                        setPaymentFrequency(frequency);
+                                        triggerAutoSave();
+                                    } : undefined}
+                                />
+                            </View>
+                        )}
+
+                        {loanKind === 'creditLine' && (
+                            <>
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Draw Period (years)"
+                                        value={drawYears}
+                                        onChangeText={handleDrawYearsChange}
+                                        placeholder="e.g. 10"
+                                        keyboardType="decimal-pad"
+                                        error={!isValidCreditLine()}
+                                        errorMessage="Must be shorter than the loan term"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Opening Draw"
+                                        value={openingDraw}
+                                        onChangeText={handleOpeningDrawChange}
+                                        placeholder="Optional, e.g. 20000"
+                                        keyboardType="numeric"
+                                        formatNumber={true}
+                                        error={!isValidCreditLine()}
+                                        errorMessage="Must be within the credit limit"
+                                    />
+                                </View>
+                            </>
+                        )}
+
+                        {loanKind === 'creditCard' && (
+                            <>
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Minimum Payment (% of balance)"
+                                        value={minimumPercent}
+                                        onChangeText={handleMinimumPercentChange}
+                                        placeholder="e.g. 1"
+                                        keyboardType="decimal-pad"
+                                        error={!isValidCreditCard()}
+                                        errorMessage="Enter a percentage up to 100; the floor and fixed payment can't be negative"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <OptionSelector
+                                        label="Minimum Payment Formula"
+                                        options={[
+                                            { value: 'interest', label: '% + Interest' },
+                                            { value: 'balance', label: '% of Balance' },
+                                        ]}
+                                        value={minimumBasis}
+                                        onChange={(value) => {
+                                            setMinimumBasis(value);
+                                            triggerAutoSave();
+                                        }}
+                                        helperText="Most cards charge a percentage of the balance plus the month's interest; others a larger percentage that includes it"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Minimum Payment Floor"
+                                        value={minimumFloor}
+                                        onChangeText={handleMinimumFloorChange}
+                                        placeholder="Optional, e.g. 25"
+                                        keyboardType="numeric"
+                                        formatNumber={true}
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Fixed Monthly Payment"
+                                        value={fixedPayment}
+                                        onChangeText={handleFixedPaymentChange}
+                                        placeholder="Optional, e.g. 300"
+                                        keyboardType="numeric"
+                                        formatNumber={true}
+                                    />
+                                </View>
+                            </>
+                        )}
+
+                        {loanKind === 'term' && (
+                            <>
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Interest-Only Period (months)"
+                                        value={interestOnlyMonths}
+                                        onChangeText={handleInterestOnlyMonthsChange}
+                                        placeholder="Optional, e.g. 12"
+                                        keyboardType="numeric"
+                                        error={!isValidInterestOnly()}
+                                        errorMessage="Must be shorter than the loan term"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Balloon Amortization Period (years)"
+                                        value={amortizationYears}
+                                        onChangeText={handleAmortizationYearsChange}
+                                        placeholder="Optional, e.g. 30"
+                                        keyboardType="numeric"
+                                        error={!isValidAmortization()}
+                                        errorMessage="Must be longer than the loan term"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Graduated Payment Step (%)"
+                                        value={stepPercent}
+                                        onChangeText={handleStepPercentChange}
+                                        placeholder="Optional, e.g. 7"
+                                        keyboardType="decimal-pad"
+                                        error={!isValidGraduated()}
+                                        errorMessage="Enter both the step and how often it applies"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Step Every (years)"
+                                        value={stepYears}
+                                        onChangeText={handleStepYearsChange}
+                                        placeholder="Optional, e.g. 2"
+                                        keyboardType="decimal-pad"
+                                        error={!isValidGraduated()}
+                                        errorMessage="Must be shorter than the loan term"
+                                    />
+                                </View>
+                            </>
+                        )}
+
+                        <View style={[styles.formField, styles.formFieldFull]}>
+                            <OptionSelector
+                                label="Interest Calculation"
+                                options={DAY_COUNT_CONVENTIONS}
+                                value={dayCountConvention}
+                                onChange={(convention) => {
+                                    setDayCountConvention(convention);
                                     triggerAutoSave();
                                 }}
+                                helperText="Match your lender's statement: Actual/365, Actual/360 and 30/360 accrue interest by day"
                             />
                         </View>
 
+                        {loanKind === 'term' && (
+                            <>
+                                <View style={[styles.formField, styles.formFieldFull]}>
+                                    <OptionSelector
+                                        label="Compounding"
+                                        options={COMPOUNDING_FREQUENCIES}
+                                        value={compoundingFrequency}
+                                        onChange={(frequency) => {
+                                            setCompoundingFrequency(frequency);
+                                            triggerAutoSave();
+                                        }}
+                                        helperText="Canadian fixed mortgages compound semi-annually; some lenders compound daily"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, styles.formFieldFull]}>
+                                    <OptionSelector
+                                        label="Amortization"
+                                        options={AMORTIZATION_TYPES}
+                                        value={amortizationType}
+                                        onChange={(type) => {
+                                            setAmortizationType(type);
+                                            triggerAutoSave();
+                                        }}
+                                        helperText="Equal principal repays the same amount each period, so payments start higher and fall"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, styles.formFieldFull]}>
+                                    <OptionSelector
+                                        label="Interest Method"
+                                        options={INTEREST_METHODS}
+                                        value={interestMethod}
+                                        onChange={(method) => {
+                                            setInterestMethod(method);
+                                            triggerAutoSave();
+                                        }}
+                                        helperText="Add-on and Rule of 78 loans charge interest on the full amount up front, so paying early only rebates part of it"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Upfront Fees & Closing Costs"
+                                        value={upfrontFees}
+                                        onChangeText={handleUpfrontFeesChange}
+                                        placeholder="Optional, e.g. 3500"
+                                        keyboardType="decimal-pad"
+                                        error={!isValidFee(upfrontFees)}
+                                        errorMessage="Must be zero or more"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Discount Points (%)"
+                                        value={discountPoints}
+                                        onChangeText={handleDiscountPointsChange}
+                                        placeholder="Optional, e.g. 1"
+                                        keyboardType="decimal-pad"
+                                        error={!isValidFee(discountPoints)}
+                                        errorMessage="Must be zero or more"
+                                    />
+                                </View>
+
+                                <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                    <InputField
+                                        label="Monthly Fee"
+                                        value={monthlyFee}
+                                        onChangeText={handleMonthlyFeeChange}
+                                        placeholder="Optional, e.g. 10"
+                                        keyboardType="decimal-pad"
+                                        error={!isValidFee(monthlyFee)}
+                                        errorMessage="Must be zero or more"
+                                    />
+                                </View>
+
+                                {(parseFloat(upfrontFees) > 0 || parseFloat(discountPoints) > 0) && (
+                                    <View style={[styles.formField, windowWidth < 1100 && styles.formFieldFull]}>
+                                        <OptionSelector
+                                            label="Upfront Fees Paid"
+                                            options={[
+                                                { value: 'cash', label: 'In Cash' },
+                                                { value: 'financed', label: 'Added to Loan' },
+                                            ]}
+                                            value={feesFinanced}
+                                            onChange={(value) => {
+                                                setFeesFinanced(value);
+                                                triggerAutoSave();
+                                            }}
+                                            helperText="Financed fees are added to the balance and accrue interest"
+                                        />
+                                    </View>
+                                )}
+                            </>
+                        )}
+
                         <View style={[styles.formField, styles.formFieldFull]}>
                             <Text style={styles.dateLabel}>Starting Date</Text>
                             <input
@@ -561,11 +1140,31 @@ function CreateLoanScreenWebContent() {
                         <PaymentSummary
                             monthlyPayment={monthlyPayment}
                             totalPayment={totalPayment}
-                            loanAmount={loanAmount}
+                            loanAmount={creditLine ? openingDraw : loanAmount}
+                            paymentFrequency={paymentFrequency}
+                            interestOnlyPayment={paymentSchedule[0]?.isInterestOnly ? paymentSchedule[0].payment : undefined}
+                            balloonPayment={balloonPayment > 0 ? balloonPayment : undefined}
+                            paymentRange={amortizationType === 'linear' || graduated ? getPaymentRange(paymentSchedule) : null}
+                            apr={apr}
                         />
                     </View>
                 )}
 
+                {creditLine && (
+                    <Text style={styles.creditLineHint}>
+                        Record draws and repayments on the loan's Payments tab once it is saved; each one updates the payments due.
+                    </Text>
+                )}
+
+                {creditCard && principal > 0 && (
+                    <>
+                        <Text style={styles.creditLineHint}>
+                            Add new charges on the loan's Payments tab once it is saved; each one is added to the next statement.
+                        </Text>
+                        <CreditCardPayoffComparison scheduleParams={{ principal, annualRate, termInMonths, startDate: date, creditCard }} />
+                    </>
+                )}
+
                 {/* Charts Section */}
                 {paymentSchedule.length > 0 && (
                     <View style={[styles.chartsSection, windowWidth < 1024 && { flexDirection: 'column' }]}>
@@ -578,6 +1177,21 @@ function CreateLoanScreenWebContent() {
                             />
                         </View>
 
+                        {graduated && (
+                            <View style={[styles.chartCard, windowWidth < 1024 && { minWidth: '100%' }]}>
+                                <LineChart
+                                    title="Payment Over Time"
+                                    data={paymentSchedule.map(p => ({ value: p.payment }))}
+                                    color={colors.primary}
+                                    markers={paymentSchedule.filter(p => p.isPaymentStep).map(p => p.paymentNumber - 1)}
+                                    markerColor={colors.warning}
+                                    yAxisFormatter={(v) => formatCurrency(v, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0)}
+                                    showLegend
+                                    legendItems={[{ color: colors.warning, label: 'Payment step' }]}
+                                />
+                            </View>
+                        )}
+
                         <View style={[styles.chartCard, windowWidth < 1024 && { minWidth: '100%' }]}>
                             <DualLineChart
                                 title="Principal & Interest Payments"
@@ -603,10 +1217,30 @@ function CreateLoanScreenWebContent() {
                             style={[styles.createAnotherButton, windowWidth < 768 && { flex: 0 }]}
                             onPress={() => {
                                 setLoanName('');
+                                setLoanKind('term');
                                 setLoanAmount('');
                                 setInterestRate('');
                                 setTerm('');
                                 setTermUnit('years');
+                                setPaymentFrequency('monthly');
+                                setInterestOnlyMonths('');
+                                setAmortizationYears('');
+                                setStepPercent('');
+                                setStepYears('');
+                                setDayCountConvention('periodic');
+                                setCompoundingFrequency('payment');
+                                setAmortizationType('annuity');
+                                setInterestMethod('simple');
+                                setUpfrontFees('');
+                                setDiscountPoints('');
+                                setFeesFinanced('cash');
+                                setMonthlyFee('');
+                                setDrawYears('');
+                                setOpeningDraw('');
+                                setMinimumPercent('');
+                                setMinimumBasis('interest');
+                                setMinimumFloor('');
+                                setFixedPayment('');
                                 const newDate = new Date();
                                 setDate(newDate);
                                 dateRef.current = newDate;
@@ -647,15 +1281,15 @@ function CreateLoanScreenWebContent() {
                         </View>
                     
                     <View style={styles.insightCard}>
-                        <Text style={styles.insightLabel}>Monthly Payment</Text>
+                        <Text style={styles.insightLabel}>{getPaymentFrequencyLabel(paymentFrequency)} Payment</Text>
                         <Text style={styles.insightValue}>{formatCurrency(monthlyPayment, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' })}</Text>
-                        <Text style={styles.insightSubtext}>per month</Text>
+                        <Text style={styles.insightSubtext}>per payment</Text>
                     </View>
 
                     <View style={styles.insightCard}>
                         <Text style={styles.insightLabel}>Total Interest</Text>
                         <Text style={[styles.insightValue, { color: '#e67e22' }]}>
-                            {formatCurrency(totalPayment - principal, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0)}
+                            {formatCurrency(totalPayment - borrowed, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0)}
                         </Text>
                         <Text style={styles.insightSubtext}>over {term} {termUnit}</Text>
                     </View>
@@ -671,7 +1305,7 @@ function CreateLoanScreenWebContent() {
                     <View style={styles.insightCard}>
                         <Text style={styles.insightLabel}>Interest Ratio</Text>
                         <Text style={styles.insightValue}>
-                            {principal > 0 ? (((totalPayment - principal) / principal) * 100).toFixed(1) : '0'}%
+                            {borrowed > 0 ? (((totalPayment - borrowed) / borrowed) * 100).toFixed(1) : '0'}%
                         </Text>
                         <Text style={styles.insightSubtext}>of principal amount</Text>
                     </View>
@@ -976,6 +1610,11 @@ const createStyles = (colors: any, mode: string) => StyleSheet.create({
     formFieldFull: {
         minWidth: '100%',
     },
+    creditLineHint: {
+        fontSize: 14,
+        color: colors.textSecondary,
+        marginBottom: 16,
+    },
     dateLabel: {
         fontSize: 14,
         fontWeight: '600',
@@ -9,10 +9,10 @@ import { theme } from '../../constants/theme';
 import PieChart from '../../components/PieChart';
 import OnboardingSlider from '../../components/OnboardingSlider';
 import { cancelLoanNotifications, checkAndScheduleNextPayments } from '../../utils/notificationUtils';
-import { getCurrencyPreference, Currency, getNotificationPreferences } from '../../utils/storage';
-import { formatCurrency } from '../../utils/currencyUtils';
+import { getCurrencyPreference, Currency, getNotificationPreferences, Loan } from '../../utils/storage';
+import { formatCurrency, getCurrencyMinorUnits } from '../../utils/currencyUtils';
 import { updateProgress } from '../../utils/achievementUtils';
-import { generatePaymentSchedule } from '../../utils/loanCalculations';
+import { generatePaymentSchedule, getLoanStatus, getCreditLineStatus, getLoanScheduleParams, convertPaymentToMonthly, convertTermToPayments, getPaymentFrequencyLabel, getFinancedPrincipal, getMonthlyEscrowPayment } from '../../utils/loanCalculations';
 import { smartPromptForReview } from '../../utils/ratingUtils';
 
 // Only import PDF generation on native platforms
@@ -20,32 +20,6 @@ const generateRobustLoanPDF = Platform.OS !== 'web'
   ? require('../../utils/pdfLibReportUtils').generateRobustLoanPDF 
   : null;
 
-// Define the structure of a Loan object
-type Loan = {
-    id: string;
-    name?: string;
-    amount: number;
-    interestRate: number;
-    term: number;
-    termUnit: 'months' | 'years';
-    startDate: string;
-    monthlyPayment: number;
-    totalPayment: number;
-    createdAt: string;
-    scheduledNotificationIds?: string[];
-    currentMonthlyPayment?: number;
-    remainingBalance?: number;
-    freedomDate?: string | null;
-    rateAdjustments?: Array<{ month: string; newRate: string }>;
-    earlyPayments?: Array<{ 
-        name?: string;
-        type: 'one-time' | 'recurring';
-        amount: number;
-        month: string;
-        frequency?: string;
-    }>;
-};
-
 export default function DashboardScreen() {
     const insets = useSafeAreaInsets();
     
@@ -188,24 +162,24 @@ export default function DashboardScreen() {
                                 // For portfolio summary, create comprehensive loan data
                                 const portfolioData = {
                                     loanId: 'portfolio-summary',
-                                    name: `Portfolio of ${loans.length} Loan${loans.length === 1 ? '' : 's'}`,
+                                    name: `Portfolio of ${activeLoans.length} Loan${activeLoans.length === 1 ? '' : 's'}`,
                                     amount: totalBorrowed,
                                     interestRate: 0, // Will be handled specially in header
                                     termInMonths: 0, // Will be handled specially in header
                                     monthlyPayment: totalMonthlyPayment,
                                     totalPayment: totalRemaining,
-                                    payments: loans.map((loan, index) => {
+                                    payments: activeLoans.map((loan, index) => {
                                         const termInMonths = loan.term * (loan.termUnit === 'years' ? 12 : 1);
-                                        const totalPayment = loan.monthlyPayment * termInMonths;
-                                        const totalInterest = totalPayment - loan.amount;
-                                        const remaining = loan.remainingBalance ?? calculateRemainingPrincipal(loan);
+                                        const totalPayment = loan.monthlyPayment * convertTermToPayments(termInMonths, loan.paymentFrequency);
+                                        const totalInterest = totalPayment - getAmountBorrowed(loan);
+                                        const remaining = getRemainingBalance(loan);
                                         const currentRate = getCurrentInterestRate(loan);
                                         
                                         return {
                                             number: index + 1,
-                                            principal: loan.amount, // Original loan amount
+                                            principal: getAmountBorrowed(loan), // Original loan amount (drawn amount on a credit line)
                                             interest: remaining, // Remaining balance
-                                            balance: loan.currentMonthlyPayment ?? loan.monthlyPayment, // Current monthly payment
+                                            balance: convertPaymentToMonthly(getCurrentPayment(loan), loan.paymentFrequency), // Current monthly payment
                                             date: loan.name || `Loan ${index + 1}`, // Loan name
                                             // Additional portfolio-specific fields
                                             loanName: loan.name || `Loan ${index + 1}`,
@@ -282,99 +256,47 @@ export default function DashboardScreen() {
         );
     };
 
-    // Calculate total loan statistics
-    const totalBorrowed = loans.reduce((sum, loan) => sum + loan.amount, 0);
-    const totalMonthlyPayment = loans.reduce((sum, loan) => sum + (loan.currentMonthlyPayment ?? loan.monthlyPayment), 0);
-    
-    // Function to get current interest rate considering rate adjustments
-    const getCurrentInterestRate = (loan: Loan): number => {
-        if (!loan.rateAdjustments || loan.rateAdjustments.length === 0) {
-            return loan.interestRate;
-        }
+    // Refinanced loans were paid off by their replacement, so they stay out of the totals
+    const activeLoans = useMemo(() => loans.filter(loan => !loan.refinancedInto), [loans]);
 
-        try {
-            // Calculate months elapsed since loan start
-            // Parse date in local time to avoid timezone shifts
-            if (!loan.startDate || typeof loan.startDate !== 'string') {
-                return loan.interestRate;
-            }
-            const parts = loan.startDate.split('-');
-            if (parts.length !== 3) {
-                return loan.interestRate;
-            }
-            const [year, month, day] = parts.map(Number);
-            if (isNaN(year) || isNaN(month) || isNaN(day)) {
-                return loan.interestRate;
-            }
-            const startDate = new Date(year, month - 1, day);
-            const currentDate = new Date();
-            const monthsElapsed = Math.max(0,
-                (currentDate.getFullYear() - startDate.getFullYear()) * 12 +
-                (currentDate.getMonth() - startDate.getMonth())
-            ) + 1; // +1 because first payment is month 1
-
-            // Find the most recent rate adjustment that has occurred
-            let currentRate = loan.interestRate;
-            for (const adjustment of loan.rateAdjustments) {
-                const adjustmentMonth = parseInt(adjustment.month);
-                if (!isNaN(adjustmentMonth) && adjustmentMonth <= monthsElapsed) {
-                    const newRate = parseFloat(adjustment.newRate);
-                    if (!isNaN(newRate)) {
-                        currentRate = newRate;
-                    }
-                }
-            }
-
-            return currentRate;
-        } catch (error) {
-            console.error('Error calculating current rate:', error);
-            return loan.interestRate;
-        }
+    // Each loan's schedule is generated once; its status, credit line status and amount borrowed come from it
+    const minorUnits = getCurrencyMinorUnits(currency);
+    const loanSchedules = useMemo(() => new Map(loans.map(loan => {
+        const params = getLoanScheduleParams(loan, minorUnits);
+        return [loan.id, { params, schedule: generatePaymentSchedule(params) }];
+    })), [loans, minorUnits]);
+    // Where each loan stands today, from its schedule
+    const loanStatuses = useMemo(() => new Map([...loanSchedules].map(([id, { params, schedule }]) => [id, getLoanStatus(params, new Date(), schedule)])), [loanSchedules]);
+    const getCurrentInterestRate = (loan: Loan): number => loanStatuses.get(loan.id)?.currentRate ?? loan.interestRate;
+    // Credit lines also count draws and repayments made since the last payment
+    const creditLineStatuses = useMemo(() => new Map([...loanSchedules].map(([id, { params, schedule }]) => [id, getCreditLineStatus(params, new Date(), schedule)])), [loanSchedules]);
+    const getRemainingBalance = (loan: Loan): number => creditLineStatuses.get(loan.id)?.balance ?? loanStatuses.get(loan.id)?.balance ?? loan.amount;
+    // A credit line has only borrowed what has been drawn on it; a card adds its charges to the balance
+    const amountsBorrowed = useMemo(() => new Map(loans.map((loan): [string, number] => {
+        const schedule = loanSchedules.get(loan.id)?.schedule;
+        if (!schedule || (!loan.creditLine && !loan.creditCard)) return [loan.id, loan.amount];
+        const drawn = schedule.reduce((sum, payment) => sum + payment.draw, 0);
+        return [loan.id, loan.creditCard ? loan.amount + drawn : drawn];
+    })), [loans, loanSchedules]);
+    const getAmountBorrowed = (loan: Loan): number => amountsBorrowed.get(loan.id) ?? loan.amount;
+    // Nothing is due once a loan is paid off; fall back to the saved payment if there is no schedule
+    const getCurrentPayment = (loan: Loan): number => {
+        const status = loanStatuses.get(loan.id);
+        return status?.isPaidOff ? 0 : status?.nextPayment ? status.currentPayment : loan.monthlyPayment;
     };
+
+    // Calculate total loan statistics
+    const totalBorrowed = activeLoans.reduce((sum, loan) => sum + getAmountBorrowed(loan), 0);
+    // Escrow and any PMI still being charged, as a monthly amount
+    const getMonthlyEscrow = (loan: Loan): number => loan.escrow
+        ? getMonthlyEscrowPayment(loan.escrow, getFinancedPrincipal(loan.amount, loan.fees), getRemainingBalance(loan), loan.paymentFrequency)
+        : 0;
+    const totalMonthlyEscrow = activeLoans.reduce((sum, loan) => sum + getMonthlyEscrow(loan), 0);
+    // Normalize each loan's periodic payment to a monthly amount so frequencies can be summed
+    const totalMonthlyPayment = activeLoans.reduce((sum, loan) => sum + convertPaymentToMonthly(getCurrentPayment(loan), loan.paymentFrequency), 0) + totalMonthlyEscrow;
     
-    // Calculate remaining principal for all loans
-    const calculateRemainingPrincipal = (loan: Loan): number => {
-        try {
-            // Parse date in local time to avoid timezone shifts
-            if (!loan.startDate || typeof loan.startDate !== 'string') {
-                return loan.amount;
-            }
-            const parts = loan.startDate.split('-');
-            if (parts.length !== 3) {
-                return loan.amount;
-            }
-            const [year, month, day] = parts.map(Number);
-            if (isNaN(year) || isNaN(month) || isNaN(day)) {
-                return loan.amount;
-            }
-            const startDate = new Date(year, month - 1, day);
-            const currentDate = new Date();
-            const monthsPassed = Math.max(0, 
-                (currentDate.getFullYear() - startDate.getFullYear()) * 12 + 
-                (currentDate.getMonth() - startDate.getMonth())
-            );
-            
-            const termInMonths = loan.termUnit === 'years' ? loan.term * 12 : loan.term;
-            const paymentsMade = Math.min(monthsPassed, termInMonths);
-            
-            if (paymentsMade >= termInMonths || loan.interestRate === 0) {
-                return Math.max(0, loan.amount - (loan.monthlyPayment * paymentsMade));
-            }
-            
-            const monthlyRate = loan.interestRate / 100 / 12;
-            const totalPayments = termInMonths;
-            const remaining = loan.amount * 
-                (Math.pow(1 + monthlyRate, totalPayments) - Math.pow(1 + monthlyRate, paymentsMade)) /
-                (Math.pow(1 + monthlyRate, totalPayments) - 1);
-            
-            return Math.max(0, remaining);
-        } catch (error) {
-            console.error('Error calculating remaining principal:', error);
-            return loan.amount;
-        }
-    };
     
-    const totalRemaining = loans.reduce((sum, loan) => sum + (loan.remainingBalance ?? calculateRemainingPrincipal(loan)), 0);
+    const totalRemaining = activeLoans.reduce((sum, loan) => sum + (getRemainingBalance(loan)), 0);
 
     // Generate colors for pie charts
     const pieColors = [
@@ -392,30 +314,37 @@ export default function DashboardScreen() {
 
     // Memoize pie chart data to prevent recalculating on every render
     const totalBorrowedData = useMemo(() => 
-        loans.map((loan, index) => ({
-            value: loan.amount,
+        activeLoans.map((loan, index) => ({
+            value: getAmountBorrowed(loan),
             color: pieColors[index % pieColors.length],
             label: loan.name || `Loan ${index + 1}`
         })),
-        [loans]
+        [activeLoans]
     );
 
     const remainingData = useMemo(() => 
-        loans.map((loan, index) => ({
-            value: loan.remainingBalance ?? calculateRemainingPrincipal(loan),
+        activeLoans.map((loan, index) => ({
+            value: getRemainingBalance(loan),
             color: pieColors[index % pieColors.length],
             label: loan.name || `Loan ${index + 1}`
         })),
-        [loans]
+        [activeLoans]
     );
 
-    const monthlyPaymentData = useMemo(() => 
-        loans.map((loan, index) => ({
-            value: loan.currentMonthlyPayment ?? loan.monthlyPayment,
+    // Principal and interest per loan, with escrow and PMI as their own slice
+    const monthlyPaymentData = useMemo(() => [
+        ...activeLoans.map((loan, index) => ({
+            value: convertPaymentToMonthly(getCurrentPayment(loan), loan.paymentFrequency),
             color: pieColors[index % pieColors.length],
             label: loan.name || `Loan ${index + 1}`
         })),
-        [loans]
+        ...(totalMonthlyEscrow > 0 ? [{
+            value: totalMonthlyEscrow,
+            color: theme.colors.gray400,
+            label: 'Escrow & PMI'
+        }] : []),
+    ],
+        [activeLoans, totalMonthlyEscrow]
     );
 
     return (
@@ -548,10 +477,11 @@ export default function DashboardScreen() {
                             <View style={styles.loanHeader}>
                                 <View style={styles.loanHeaderLeft}>
                                     {loan.name && <Text style={styles.loanName}>{loan.name}</Text>}
+                                    {loan.refinancedInto && <Text style={styles.refinancedBadge}>🔄 Refinanced</Text>}
                                     <Text style={styles.loanAmount}>{formatCurrency(loan.amount, currency, 0)}</Text>
                                     {!isExpanded && (
                                         <Text style={styles.loanSubtitle}>
-                                            {formatCurrency(loan.currentMonthlyPayment ?? loan.monthlyPayment, currency)}/month • {loan.term} {loan.termUnit}
+                                            {formatCurrency(getCurrentPayment(loan), currency)} {getPaymentFrequencyLabel(loan.paymentFrequency).toLowerCase()} • {loan.term} {loan.termUnit}
                                         </Text>
                                     )}
                                 </View>
@@ -591,8 +521,8 @@ export default function DashboardScreen() {
                                         
                                         {/* Current Monthly payment highlight */}
                                         <View style={styles.paymentHighlight}>
-                                            <Text style={styles.paymentLabel}>Current Monthly Payment</Text>
-                                            <Text style={styles.paymentValue}>{formatCurrency(loan.currentMonthlyPayment ?? loan.monthlyPayment, currency)}</Text>
+                                            <Text style={styles.paymentLabel}>Current {getPaymentFrequencyLabel(loan.paymentFrequency)} Payment</Text>
+                                            <Text style={styles.paymentValue}>{formatCurrency(getCurrentPayment(loan), currency)}</Text>
                                         </View>
                                         
                                         {/* Loan details section */}
@@ -611,8 +541,16 @@ export default function DashboardScreen() {
                                             )}
                                             <View style={styles.detailRow}>
                                                 <Text style={styles.detailLabel}>Remaining Balance</Text>
-                                                <Text style={[styles.detailValue, { color: theme.colors.primary }]}>{formatCurrency(loan.remainingBalance ?? calculateRemainingPrincipal(loan), currency, 0)}</Text>
+                                                <Text style={[styles.detailValue, { color: theme.colors.primary }]}>{formatCurrency(getRemainingBalance(loan), currency, 0)}</Text>
                                             </View>
+                                            {creditLineStatuses.get(loan.id) && (
+                                                <View style={styles.detailRow}>
+                                                    <Text style={styles.detailLabel}>Available Credit</Text>
+                                                    <Text style={[styles.detailValue, { color: theme.colors.success }]}>
+                                                        {formatCurrency(creditLineStatuses.get(loan.id)!.availableCredit, currency, 0)} ({creditLineStatuses.get(loan.id)!.utilization.toFixed(0)}% used)
+                                                    </Text>
+                                                </View>
+                                            )}
                                             <View style={styles.detailRow}>
                                                 <Text style={styles.detailLabel}>Total Payment</Text>
                                                 <Text style={styles.detailValue}>{formatCurrency(loan.totalPayment, currency, 0)}</Text>
@@ -638,6 +576,18 @@ export default function DashboardScreen() {
                     <Text style={styles.addButtonText}>+ Create New Loan</Text>
                 </TouchableOpacity>
             </Link>
+            <Link href="/(tabs)/affordability" asChild>
+                <TouchableOpacity style={styles.affordabilityButton} activeOpacity={0.7}>
+                    <Text style={styles.affordabilityButtonText}>🏠 How much can I borrow?</Text>
+                </TouchableOpacity>
+            </Link>
+            {loans.length > 0 && (
+                <Link href="/(tabs)/payoffPlanner" asChild>
+                    <TouchableOpacity style={styles.affordabilityButton} activeOpacity={0.7}>
+                        <Text style={styles.affordabilityButtonText}>🎯 Plan my debt payoff</Text>
+                    </TouchableOpacity>
+                </Link>
+            )}
         </View>
         
         <OnboardingSlider 
@@ -725,6 +675,19 @@ export default function DashboardScreen() {
                         </TouchableOpacity>
                     </Link>
                     
+                    <Link href="/(tabs)/inflationSettings" asChild>
+                        <TouchableOpacity 
+                            style={styles.menuItem}
+                            onPress={() => setShowSettings(false)}
+                        >
+                            <Text style={styles.menuIcon}>📉</Text>
+                            <View style={styles.menuTextContainer}>
+                                <Text style={styles.menuText}>Inflation</Text>
+                                <Text style={styles.menuSubtext}>Show totals in today's money</Text>
+                            </View>
+                        </TouchableOpacity>
+                    </Link>
+                    
                     <Link href="/(tabs)/about" asChild>
                         <TouchableOpacity 
                             style={styles.menuItem}
@@ -895,6 +858,16 @@ const styles = StyleSheet.create({
         fontSize: theme.fontSize.base,
         fontWeight: theme.fontWeight.semibold,
     },
+    // Secondary links to the affordability calculator and payoff planner
+    affordabilityButton: {
+        alignItems: "center",
+        paddingTop: theme.spacing.md,
+    },
+    affordabilityButtonText: {
+        color: theme.colors.primary,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
     // Empty state shown when no loans exist
     emptyState: {
         alignItems: "center",
@@ -995,6 +968,13 @@ const styles = StyleSheet.create({
         color: theme.colors.primary,
         marginBottom: theme.spacing.xs,
     },
+    // Marks a loan replaced by a refinance
+    refinancedBadge: {
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.xs,
+    },
     // Loan amount (large primary text)
     loanAmount: {
         fontSize: theme.fontSize.xxl,
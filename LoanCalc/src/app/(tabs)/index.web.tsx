@@ -1,12 +1,13 @@
 // WEB-SPECIFIC VERSION - Loan Comparison Dashboard
 import { Link, useFocusEffect, useRouter } from "expo-router";
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { Text, View, StyleSheet, ScrollView, TouchableOpacity, Alert, Animated, Image as RNImage } from "react-native";
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { theme } from '../../constants/theme';
 import { cancelLoanNotifications } from '../../utils/notificationUtils';
 import { getCurrencyPreference, Currency } from '../../utils/storage';
-import { formatCurrency } from '../../utils/currencyUtils';
+import { formatCurrency, getCurrencyMinorUnits } from '../../utils/currencyUtils';
+import { convertPaymentToMonthly, getPaymentFrequencyLabel, getFinancedPrincipal, getMonthlyEscrowPayment, generatePaymentSchedule, getLoanScheduleParams, getLoanStatus, getCreditLineStatus, PaymentFrequency, LoanFees, EscrowConfig, CreditLineConfig, CreditCardConfig } from '../../utils/loanCalculations';
 import EmptyState from '../../components/EmptyState.web';
 import { DashboardSkeleton } from '../../components/LoadingSkeleton.web';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts.web';
@@ -20,11 +21,18 @@ type Loan = {
     interestRate: number;
     term: number;
     termUnit: 'months' | 'years';
+    paymentFrequency?: PaymentFrequency;
     startDate: string;
     monthlyPayment: number;
     totalPayment: number;
     createdAt: string;
     scheduledNotificationIds?: string[];
+    remainingBalance?: number;
+    fees?: LoanFees;
+    escrow?: EscrowConfig;
+    creditLine?: CreditLineConfig;
+    creditCard?: CreditCardConfig;
+    refinancedInto?: string;
 };
 
 type ViewMode = 'comparison' | 'grid' | 'list';
@@ -135,7 +143,8 @@ function ComparisonDashboardContent() {
             if (storedLoans) {
                 const parsedLoans = JSON.parse(storedLoans);
                 setLoans(parsedLoans);
-                setSelectedLoans(new Set(parsedLoans.map((l: Loan) => l.id)));
+                // Refinanced loans were paid off by their replacement, so they start deselected
+                setSelectedLoans(new Set(parsedLoans.filter((l: Loan) => !l.refinancedInto).map((l: Loan) => l.id)));
             }
         } catch (error) {
             console.error('Failed to load loans:', error);
@@ -167,17 +176,46 @@ function ComparisonDashboardContent() {
     };
 
     const selectedLoanObjects = loans.filter(loan => selectedLoans.has(loan.id));
+
+    // Each loan's schedule is generated once; its status, credit line status and amount borrowed come from it
+    const minorUnits = getCurrencyMinorUnits(currency);
+    const loanSchedules = useMemo(() => new Map(loans.map(loan => {
+        const params = getLoanScheduleParams(loan, minorUnits);
+        return [loan.id, { params, schedule: generatePaymentSchedule(params) }];
+    })), [loans, minorUnits]);
+    // Where each loan stands today, from its schedule
+    const loanStatuses = useMemo(() => new Map([...loanSchedules].map(([id, { params, schedule }]) => [id, getLoanStatus(params, new Date(), schedule)])), [loanSchedules]);
+    const getCurrentInterestRate = (loan: Loan): number => loanStatuses.get(loan.id)?.currentRate ?? loan.interestRate;
+    // Credit lines also count draws and repayments made since the last payment
+    const creditLineStatuses = useMemo(() => new Map([...loanSchedules].map(([id, { params, schedule }]) => [id, getCreditLineStatus(params, new Date(), schedule)])), [loanSchedules]);
+    const getRemainingBalance = (loan: Loan): number => creditLineStatuses.get(loan.id)?.balance ?? loanStatuses.get(loan.id)?.balance ?? loan.amount;
+    // A credit line has only borrowed what has been drawn on it; a card adds its charges to the balance
+    const amountsBorrowed = useMemo(() => new Map(loans.map((loan): [string, number] => {
+        const schedule = loanSchedules.get(loan.id)?.schedule;
+        if (!schedule || (!loan.creditLine && !loan.creditCard)) return [loan.id, loan.amount];
+        const drawn = schedule.reduce((sum, payment) => sum + payment.draw, 0);
+        return [loan.id, loan.creditCard ? loan.amount + drawn : drawn];
+    })), [loans, loanSchedules]);
+    const getAmountBorrowed = (loan: Loan): number => amountsBorrowed.get(loan.id) ?? loan.amount;
+    // Nothing is due once a loan is paid off; fall back to the saved payment if there is no schedule
+    const getCurrentPayment = (loan: Loan): number => {
+        const status = loanStatuses.get(loan.id);
+        return status?.isPaidOff ? 0 : status?.nextPayment ? status.currentPayment : loan.monthlyPayment;
+    };
     
-    const totalBorrowed = selectedLoanObjects.reduce((sum, loan) => sum + loan.amount, 0);
-    const totalMonthlyPayment = selectedLoanObjects.reduce((sum, loan) => sum + loan.monthlyPayment, 0);
+    const totalBorrowed = selectedLoanObjects.reduce((sum, loan) => sum + getAmountBorrowed(loan), 0);
+    // Includes escrow and any PMI still being charged
+    const totalMonthlyPayment = selectedLoanObjects.reduce((sum, loan) => sum
+        + convertPaymentToMonthly(getCurrentPayment(loan), loan.paymentFrequency)
+        + getMonthlyEscrowPayment(loan.escrow, getFinancedPrincipal(loan.amount, loan.fees), getRemainingBalance(loan), loan.paymentFrequency), 0);
     const totalToPay = selectedLoanObjects.reduce((sum, loan) => sum + loan.totalPayment, 0);
     const totalInterest = totalToPay - totalBorrowed;
 
     const highestRateLoan = selectedLoanObjects.length > 0 
-        ? selectedLoanObjects.reduce((max, loan) => loan.interestRate > max.interestRate ? loan : max)
+        ? selectedLoanObjects.reduce((max, loan) => getCurrentInterestRate(loan) > getCurrentInterestRate(max) ? loan : max)
         : null;
     const lowestRateLoan = selectedLoanObjects.length > 0 
-        ? selectedLoanObjects.reduce((min, loan) => loan.interestRate < min.interestRate ? loan : min)
+        ? selectedLoanObjects.reduce((min, loan) => getCurrentInterestRate(loan) < getCurrentInterestRate(min) ? loan : min)
         : null;
 
     const deleteAllLoans = async () => {
@@ -280,7 +318,7 @@ function ComparisonDashboardContent() {
                                 onPress={() => router.push(`/${loan.id}/overview`)}
                             >
                                 <Text style={styles.loanItemName} numberOfLines={1}>
-                                    {loan.name || 'Unnamed Loan'}
+                                    {loan.refinancedInto ? '🔄 ' : ''}{loan.name || 'Unnamed Loan'}
                                 </Text>
                                 <Text style={styles.loanItemAmount}>
                                     {formatCurrency(loan.amount, currency, 0)}
@@ -318,6 +356,18 @@ function ComparisonDashboardContent() {
                             <Text style={styles.newLoanButtonText}>+ New Loan</Text>
                         </TouchableOpacity>
                     </Link>
+                    <Link href="/affordability" asChild>
+                        <TouchableOpacity style={styles.affordabilityButton}>
+                            <Text style={styles.affordabilityButtonText}>🏠 How Much Can I Borrow?</Text>
+                        </TouchableOpacity>
+                    </Link>
+                    {loans.length > 0 && (
+                        <Link href="/payoffPlanner" asChild>
+                            <TouchableOpacity style={styles.affordabilityButton}>
+                                <Text style={styles.affordabilityButtonText}>🎯 Plan My Debt Payoff</Text>
+                            </TouchableOpacity>
+                        </Link>
+                    )}
                     {loans.length > 0 && (
                         <TouchableOpacity style={styles.deleteAllButton} onPress={deleteAllLoans}>
                             <Text style={styles.deleteAllButtonText}>Delete All</Text>
@@ -402,7 +452,7 @@ function ComparisonDashboardContent() {
                                             <Text style={styles.tableHeaderText}>Term</Text>
                                         </View>
                                         <View style={[styles.tableCell, styles.tableHeaderCell, { flex: 1.2 }]}>
-                                            <Text style={styles.tableHeaderText}>Monthly</Text>
+                                            <Text style={styles.tableHeaderText}>Payment</Text>
                                         </View>
                                         <View style={[styles.tableCell, styles.tableHeaderCell, { flex: 1.3 }]}>
                                             <Text style={styles.tableHeaderText}>Interest</Text>
@@ -417,7 +467,7 @@ function ComparisonDashboardContent() {
 
                                     {loans.map((loan, index) => {
                                         const isSelected = selectedLoans.has(loan.id);
-                                        const loanInterest = loan.totalPayment - loan.amount;
+                                        const loanInterest = loan.totalPayment - getAmountBorrowed(loan);
                                         
                                         return (
                                             <View 
@@ -432,19 +482,19 @@ function ComparisonDashboardContent() {
                                                     style={[styles.tableCell, { flex: 2 }]}
                                                     onPress={() => router.push(`/${loan.id}/overview`)}
                                                 >
-                                                    <Text style={styles.loanNameCell}>{loan.name || 'Unnamed Loan'}</Text>
+                                                    <Text style={styles.loanNameCell}>{loan.refinancedInto ? '🔄 ' : ''}{loan.name || 'Unnamed Loan'}</Text>
                                                 </TouchableOpacity>
                                                 <View style={[styles.tableCell, { flex: 1.3 }]}>
                                                     <Text style={styles.tableCellText}>{formatCurrency(loan.amount, currency, 0)}</Text>
                                                 </View>
                                                 <View style={[styles.tableCell, { flex: 0.8 }]}>
-                                                    <Text style={styles.tableCellText}>{loan.interestRate}%</Text>
+                                                    <Text style={styles.tableCellText}>{getCurrentInterestRate(loan)}%</Text>
                                                 </View>
                                                 <View style={[styles.tableCell, { flex: 0.8 }]}>
                                                     <Text style={styles.tableCellText}>{loan.term} {loan.termUnit === 'years' ? 'yr' : 'mo'}</Text>
                                                 </View>
                                                 <View style={[styles.tableCell, { flex: 1.2 }]}>
-                                                    <Text style={styles.tableCellText}>{formatCurrency(loan.monthlyPayment, currency)}</Text>
+                                                    <Text style={styles.tableCellText}>{formatCurrency(getCurrentPayment(loan), currency)}</Text>
                                                 </View>
                                                 <View style={[styles.tableCell, { flex: 1.3 }]}>
                                                     <Text style={[styles.tableCellText, styles.interestText]}>{formatCurrency(loanInterest, currency, 0)}</Text>
@@ -473,7 +523,7 @@ function ComparisonDashboardContent() {
                                 <Text style={styles.sectionTitle}>All Loans</Text>
                                 <View style={styles.loansGrid}>
                                     {loans.map((loan) => {
-                                        const loanInterest = loan.totalPayment - loan.amount;
+                                        const loanInterest = loan.totalPayment - getAmountBorrowed(loan);
                                         const isSelected = selectedLoans.has(loan.id);
                                         
                                         return (
@@ -483,7 +533,7 @@ function ComparisonDashboardContent() {
                                                 onPress={() => router.push(`/${loan.id}/overview`)}
                                             >
                                                 <View style={styles.gridCardHeader}>
-                                                    <Text style={styles.gridCardName}>{loan.name || 'Unnamed Loan'}</Text>
+                                                    <Text style={styles.gridCardName}>{loan.refinancedInto ? '🔄 ' : ''}{loan.name || 'Unnamed Loan'}</Text>
                                                     <TouchableOpacity 
                                                         style={styles.gridCardCheckbox}
                                                         onPress={(e) => {
@@ -499,15 +549,23 @@ function ComparisonDashboardContent() {
                                                 <Text style={styles.gridCardAmount}>{formatCurrency(loan.amount, currency, 0)}</Text>
                                                 <View style={styles.gridCardRow}>
                                                     <Text style={styles.gridCardLabel}>Rate:</Text>
-                                                    <Text style={styles.gridCardValue}>{loan.interestRate}%</Text>
+                                                    <Text style={styles.gridCardValue}>{getCurrentInterestRate(loan)}%</Text>
                                                 </View>
                                                 <View style={styles.gridCardRow}>
                                                     <Text style={styles.gridCardLabel}>Term:</Text>
                                                     <Text style={styles.gridCardValue}>{loan.term} {loan.termUnit}</Text>
                                                 </View>
+                                                {creditLineStatuses.get(loan.id) && (
+                                                    <View style={styles.gridCardRow}>
+                                                        <Text style={styles.gridCardLabel}>Available:</Text>
+                                                        <Text style={styles.gridCardValue}>
+                                                            {formatCurrency(creditLineStatuses.get(loan.id)!.availableCredit, currency, 0)} ({creditLineStatuses.get(loan.id)!.utilization.toFixed(0)}% used)
+                                                        </Text>
+                                                    </View>
+                                                )}
                                                 <View style={styles.gridCardRow}>
-                                                    <Text style={styles.gridCardLabel}>Monthly:</Text>
-                                                    <Text style={styles.gridCardValue}>{formatCurrency(loan.monthlyPayment, currency)}</Text>
+                                                    <Text style={styles.gridCardLabel}>{getPaymentFrequencyLabel(loan.paymentFrequency)}:</Text>
+                                                    <Text style={styles.gridCardValue}>{formatCurrency(getCurrentPayment(loan), currency)}</Text>
                                                 </View>
                                                 <View style={styles.gridCardRow}>
                                                     <Text style={styles.gridCardLabel}>Interest:</Text>
@@ -552,7 +610,7 @@ function ComparisonDashboardContent() {
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                             <Text style={styles.insightBadge}>⚠️ Highest Rate</Text>
                             <Text style={[styles.insightLoanName, { color: colors.textPrimary }]}>{highestRateLoan.name || 'Unnamed'}</Text>
-                            <Text style={[styles.insightRate, { color: colors.primary }]}>{highestRateLoan.interestRate}%</Text>
+                            <Text style={[styles.insightRate, { color: colors.primary }]}>{getCurrentInterestRate(highestRateLoan)}%</Text>
                             <Text style={[styles.insightText, { color: colors.textSecondary }]}>
                                 Prioritize this loan for extra payments
                             </Text>
@@ -563,7 +621,7 @@ function ComparisonDashboardContent() {
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : 'white', borderColor: colors.border }]}>
                             <Text style={styles.insightBadgeGreen}>✅ Lowest Rate</Text>
                             <Text style={[styles.insightLoanName, { color: colors.textPrimary }]}>{lowestRateLoan.name || 'Unnamed'}</Text>
-                            <Text style={[styles.insightRate, { color: colors.primary }]}>{lowestRateLoan.interestRate}%</Text>
+                            <Text style={[styles.insightRate, { color: colors.primary }]}>{getCurrentInterestRate(lowestRateLoan)}%</Text>
                             <Text style={[styles.insightText, { color: colors.textSecondary }]}>
                                 Most favorable terms
                             </Text>
@@ -574,7 +632,7 @@ function ComparisonDashboardContent() {
                         <View style={[styles.insightCard, { backgroundColor: mode === 'dark' ? colors.backgroundSecondary : '#f8f9fa', borderColor: colors.border }]}>
                             <Text style={styles.insightBadge}>💰 Strategy</Text>
                             <Text style={[styles.insightText, { color: colors.textSecondary }]}>
-                                <Text style={{ fontWeight: '700' }}>Avalanche:</Text> Pay minimums on all, extra to highest rate ({highestRateLoan?.interestRate}%)
+                                <Text style={{ fontWeight: '700' }}>Avalanche:</Text> Pay minimums on all, extra to highest rate ({highestRateLoan && getCurrentInterestRate(highestRateLoan)}%)
                             </Text>
                             <View style={[styles.divider, { backgroundColor: colors.border }]} />
                             <Text style={[styles.insightText, { color: colors.textSecondary }]}>
@@ -587,7 +645,7 @@ function ComparisonDashboardContent() {
                         <Text style={[styles.insightLabel, { color: colors.textSecondary }]}>Avg Interest Rate</Text>
                         <Text style={[styles.insightValue, { color: colors.textPrimary }]}>
                             {selectedLoanObjects.length > 0 
-                                ? (selectedLoanObjects.reduce((sum, l) => sum + l.interestRate, 0) / selectedLoanObjects.length).toFixed(2)
+                                ? (selectedLoanObjects.reduce((sum, l) => sum + getCurrentInterestRate(l), 0) / selectedLoanObjects.length).toFixed(2)
                                 : '0.00'}%
                         </Text>
                     </View>
@@ -747,6 +805,18 @@ const createStyles = (colors: any, mode: string) => StyleSheet.create({
         fontSize: 14,
         fontWeight: '600',
     },
+    affordabilityButton: {
+        padding: 10,
+        borderRadius: 6,
+        alignItems: 'center',
+        borderWidth: 1,
+        borderColor: colors.primary,
+    },
+    affordabilityButtonText: {
+        color: colors.primary,
+        fontSize: 13,
+        fontWeight: '500',
+    },
     deleteAllButton: {
         padding: 10,
         borderRadius: 6,
@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { Text, View, StyleSheet, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform } from "react-native";
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { theme } from '../../constants/theme';
+import InputField from '../../components/InputField';
+import { getValueAdjustmentPreferences, saveValueAdjustmentPreferences } from '../../utils/storage';
+
+export default function InflationSettingsScreen() {
+    const insets = useSafeAreaInsets();
+    const [inflationRate, setInflationRate] = useState("");
+    const [discountRate, setDiscountRate] = useState("");
+
+    // Load rates on mount
+    useEffect(() => {
+        loadPreferences();
+    }, []);
+
+    const loadPreferences = async () => {
+        const prefs = await getValueAdjustmentPreferences();
+        setInflationRate(prefs.inflationRate ? prefs.inflationRate.toString() : "");
+        setDiscountRate(prefs.discountRate ? prefs.discountRate.toString() : "");
+    };
+
+    // Save as the user types; an empty or invalid rate turns that view off
+    const handleChange = async (inflation: string, discount: string) => {
+        setInflationRate(inflation);
+        setDiscountRate(discount);
+        await saveValueAdjustmentPreferences(parseFloat(inflation) || 0, parseFloat(discount) || 0);
+    };
+
+    return (
+        <KeyboardAvoidingView
+            behavior={Platform.OS === "ios" ? "padding" : "height"}
+            style={[styles.container, { paddingTop: insets.top }]}
+        >
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity
+                    onPress={() => router.back()}
+                    style={styles.backButton}
+                >
+                    <Text style={styles.backButtonText}>←</Text>
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>Inflation</Text>
+                <View style={styles.headerSpacer} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 20) + 80 }}
+                keyboardShouldPersistTaps="handled"
+            >
+                <Text style={styles.description}>
+                    A payment 20 years from now costs you less than one today. Set a rate to see loan totals in today's money next to the amounts you actually pay.
+                </Text>
+
+                <InputField
+                    label="Inflation Rate (%)"
+                    value={inflationRate}
+                    onChangeText={text => handleChange(text, discountRate)}
+                    placeholder="e.g., 3"
+                    keyboardType="decimal-pad"
+                />
+                <InputField
+                    label="Discount Rate (%)"
+                    value={discountRate}
+                    onChangeText={text => handleChange(inflationRate, text)}
+                    placeholder="e.g., 5"
+                    keyboardType="decimal-pad"
+                />
+
+                <View style={styles.infoBox}>
+                    <Text style={styles.infoIcon}>💡</Text>
+                    <Text style={styles.infoText}>
+                        Inflation gives real totals: what your payments are worth in today's prices. The discount rate gives present values: what they are worth if you could earn that rate elsewhere. Leave a rate empty to hide it.
+                    </Text>
+                </View>
+            </ScrollView>
+        </KeyboardAvoidingView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.surface,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: theme.spacing.md,
+        paddingBottom: theme.spacing.lg,
+        backgroundColor: theme.colors.background,
+        borderBottomWidth: 1,
+        borderBottomColor: theme.colors.gray200,
+    },
+    backButton: {
+        padding: theme.spacing.sm,
+    },
+    backButtonText: {
+        fontSize: 28,
+        color: theme.colors.textPrimary,
+        fontWeight: theme.fontWeight.bold,
+    },
+    headerTitle: {
+        fontSize: theme.fontSize.xl,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+    },
+    headerSpacer: {
+        width: 40,
+    },
+    content: {
+        flex: 1,
+        padding: theme.spacing.xl,
+    },
+    description: {
+        fontSize: theme.fontSize.base,
+        color: theme.colors.textSecondary,
+        lineHeight: 24,
+        marginBottom: theme.spacing.xl,
+    },
+    infoBox: {
+        flexDirection: 'row',
+        backgroundColor: theme.colors.background,
+        padding: theme.spacing.lg,
+        borderRadius: theme.borderRadius.lg,
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.info,
+        alignItems: 'flex-start',
+        marginTop: theme.spacing.md,
+        ...theme.shadows.glass,
+    },
+    infoIcon: {
+        fontSize: theme.fontSize.xl,
+        marginRight: theme.spacing.md,
+    },
+    infoText: {
+        flex: 1,
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+        lineHeight: 20,
+    },
+});
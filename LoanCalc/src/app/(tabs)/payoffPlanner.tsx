@@ -0,0 +1,399 @@
+import { useState, useCallback, useMemo } from "react";
+import { Text, View, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, Keyboard, ScrollView, KeyboardAvoidingView, Platform } from "react-native";
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from 'expo-router';
+import { theme } from '../../constants/theme';
+import InputField from "../../components/InputField";
+import OptionSelector from "../../components/OptionSelector";
+import PayoffTimeline from "../../components/PayoffTimeline";
+import { simulateDebtPayoff, getPayoffPlanEarlyPayments, generatePaymentSchedule, getLoanScheduleParams, getLoanStatus, getPaymentDate, convertPaymentToMonthly, PAYOFF_STRATEGIES, PAYOFF_PLAN_ID_PREFIX, PayoffDebt, PayoffPlan, PayoffStrategy, PaymentScheduleParams } from "../../utils/loanCalculations";
+import { getAllLoans, saveAllLoans, getCurrencyPreference, Currency, Loan } from "../../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../../utils/currencyUtils";
+
+type PlannedLoan = {
+    loan: Loan;
+    debt: PayoffDebt;
+    params: PaymentScheduleParams;
+    startMonth: number; // Loan month of the first month of the plan
+};
+
+/**
+ * Current balance, rate and regular payment of a loan, taken from its schedule
+ * Extra payments written by an earlier plan are left out so the plan starts fresh
+ */
+const getPlannedLoan = (loan: Loan, today: Date, minorUnits: number): PlannedLoan | null => {
+    const params = getLoanScheduleParams(loan, minorUnits);
+    params.earlyPayments = (params.earlyPayments || []).filter(ep => !ep.id?.startsWith(PAYOFF_PLAN_ID_PREFIX));
+    const status = getLoanStatus(params, today);
+    if (!status.nextPayment) return null; // Already paid off
+
+    return {
+        loan,
+        params,
+        startMonth: status.loanMonth,
+        debt: {
+            id: loan.id,
+            name: loan.name || 'Loan',
+            balance: status.balance,
+            annualRate: status.currentRate,
+            minimumPayment: convertPaymentToMonthly(status.currentPayment, params.paymentFrequency),
+        },
+    };
+};
+
+export default function PayoffPlannerScreen() {
+    const insets = useSafeAreaInsets();
+    const [loans, setLoans] = useState<Loan[]>([]);
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [monthlyBudget, setMonthlyBudget] = useState("");
+    const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+    const [customOrder, setCustomOrder] = useState<string[]>([]);
+    const [isApplying, setIsApplying] = useState(false);
+    const [message, setMessage] = useState("");
+
+    useFocusEffect(
+        useCallback(() => {
+            getCurrencyPreference().then(setCurrency);
+            getAllLoans().then(setLoans);
+            setMessage("");
+        }, [])
+    );
+
+    const minorUnits = getCurrencyMinorUnits(currency);
+
+    // Refinanced loans were paid off by their replacement
+    const plannedLoans = useMemo(() => {
+        const today = new Date();
+        return loans
+            .filter(loan => !loan.refinancedInto)
+            .map(loan => getPlannedLoan(loan, today, minorUnits))
+            .filter((planned): planned is PlannedLoan => planned !== null);
+    }, [loans, minorUnits]);
+    const debts = useMemo(() => plannedLoans.map(planned => planned.debt), [plannedLoans]);
+
+    // Custom order starts as the list order, with new loans added at the end
+    const order = useMemo(() => [
+        ...customOrder.filter(id => debts.some(debt => debt.id === id)),
+        ...debts.map(debt => debt.id).filter(id => !customOrder.includes(id)),
+    ], [customOrder, debts]);
+
+    const minimums = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+    const budget = parseFloat(monthlyBudget) || 0;
+
+    const plans = useMemo(() => {
+        const result = {} as Record<PayoffStrategy, PayoffPlan | null>;
+        PAYOFF_STRATEGIES.forEach(option => {
+            result[option.value] = simulateDebtPayoff(debts, budget, option.value, order, minorUnits);
+        });
+        return result;
+    }, [debts, budget, order, minorUnits]);
+    const minimumsOnly = useMemo(() => simulateDebtPayoff(debts, minimums, 'avalanche', [], minorUnits), [debts, minimums, minorUnits]);
+    const plan = plans[strategy];
+
+    const today = new Date();
+    const planStart = new Date(today.getFullYear(), today.getMonth(), 1);
+    const formatPlanMonth = (months: number) => new Date(planStart.getFullYear(), planStart.getMonth() + months - 1, 1)
+        .toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+    const moveDebt = (id: string, direction: -1 | 1) => {
+        const index = order.indexOf(id);
+        const target = index + direction;
+        if (target < 0 || target >= order.length) return;
+        const newOrder = [...order];
+        [newOrder[index], newOrder[target]] = [newOrder[target], newOrder[index]];
+        setCustomOrder(newOrder);
+    };
+
+    // Write the plan's extra payments to each loan, replacing those of an earlier plan
+    const applyPlan = async () => {
+        if (!plan || isApplying) return;
+        setIsApplying(true);
+        setMessage("");
+
+        try {
+            const storedLoans = await getAllLoans();
+            let updated = 0;
+            plannedLoans.forEach(planned => {
+                const result = plan.debts.find(debt => debt.id === planned.loan.id);
+                const loanIndex = storedLoans.findIndex(loan => loan.id === planned.loan.id);
+                if (!result || loanIndex === -1) return;
+
+                const planPayments = getPayoffPlanEarlyPayments(result, planned.startMonth, strategy, minorUnits);
+                const earlyPayments = [...(planned.params.earlyPayments || []), ...planPayments];
+                const schedule = generatePaymentSchedule({ ...planned.params, earlyPayments });
+                const status = getLoanStatus({ ...planned.params, earlyPayments }, new Date(), schedule);
+                storedLoans[loanIndex] = {
+                    ...storedLoans[loanIndex],
+                    earlyPayments,
+                    currentMonthlyPayment: status.currentPayment,
+                    remainingBalance: status.balance,
+                    freedomDate: schedule.length > 0
+                        ? getPaymentDate(planned.params.startDate, schedule.length - 1, planned.params.paymentFrequency).toISOString()
+                        : null,
+                };
+                if (planPayments.length > 0) updated++;
+            });
+
+            if (!await saveAllLoans(storedLoans)) {
+                throw new Error('Failed to save loans');
+            }
+            setLoans(storedLoans);
+            setMessage(`Extra payments added to ${updated} loan${updated !== 1 ? 's' : ''}`);
+        } catch (error) {
+            console.error('Error applying payoff plan:', error);
+            setMessage("Failed to save the extra payments. Please try again.");
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return <KeyboardAvoidingView
+        style={styles.wrapper}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        keyboardVerticalOffset={100}
+    >
+        <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+            <ScrollView
+                style={styles.container}
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom, 20) + 80 }}
+            >
+        <Text style={styles.title}>
+            Debt Payoff Planner
+        </Text>
+
+        {debts.length === 0 ? (
+            <Text style={styles.sectionHint}>Add a loan with a balance left to plan its payoff.</Text>
+        ) : (
+            <>
+        <InputField
+            label="Monthly Debt Budget"
+            value={monthlyBudget}
+            onChangeText={setMonthlyBudget}
+            placeholder={`At least ${formatCurrency(minimums, currency)}`}
+            keyboardType="numeric"
+            formatNumber={true}
+        />
+        <Text style={styles.sectionHint}>
+            Every loan gets its regular payment; the rest goes to one loan at a time, and each paid-off loan's payment rolls into the next. Extra payments you already have come on top.
+        </Text>
+
+        <OptionSelector
+            label="Strategy"
+            options={PAYOFF_STRATEGIES}
+            value={strategy}
+            onChange={setStrategy}
+            helperText={strategy === 'avalanche'
+                ? "Highest interest rate first - the least interest overall"
+                : strategy === 'snowball'
+                    ? "Smallest balance first - the quickest wins"
+                    : "Pay off loans in your own order"}
+        />
+
+        {strategy === 'custom' && (
+            <View style={styles.orderList}>
+                {order.map((id, index) => {
+                    const debt = debts.find(d => d.id === id)!;
+                    return (
+                        <View key={id} style={styles.orderRow}>
+                            <Text style={styles.orderName} numberOfLines={1}>{index + 1}. {debt.name}</Text>
+                            <TouchableOpacity style={styles.orderButton} onPress={() => moveDebt(id, -1)} disabled={index === 0}>
+                                <Text style={[styles.orderButtonText, index === 0 && styles.orderButtonDisabled]}>▲</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.orderButton} onPress={() => moveDebt(id, 1)} disabled={index === order.length - 1}>
+                                <Text style={[styles.orderButtonText, index === order.length - 1 && styles.orderButtonDisabled]}>▼</Text>
+                            </TouchableOpacity>
+                        </View>
+                    );
+                })}
+            </View>
+        )}
+
+        {budget > 0 && budget < minimums && (
+            <View style={styles.errorIndicator}>
+                <Text style={styles.errorText}>⚠️ The budget must cover the regular payments of {formatCurrency(minimums, currency)}</Text>
+            </View>
+        )}
+
+        {plan && (
+            <View style={styles.resultCard}>
+                <Text style={styles.resultLabel}>Debt-Free</Text>
+                <Text style={styles.resultValue}>{formatPlanMonth(plan.months)}</Text>
+
+                {PAYOFF_STRATEGIES.map(option => {
+                    const strategyPlan = plans[option.value];
+                    return strategyPlan && (
+                        <View key={option.value} style={styles.resultRow}>
+                            <Text style={[styles.resultRowLabel, option.value === strategy && styles.selectedLabel]}>{option.label}</Text>
+                            <Text style={styles.resultRowValue}>
+                                {formatPlanMonth(strategyPlan.months)} • {formatCurrency(strategyPlan.totalInterest, currency, 0)} interest
+                            </Text>
+                        </View>
+                    );
+                })}
+                {minimumsOnly && (
+                    <View style={styles.resultRow}>
+                        <Text style={styles.resultRowLabel}>Regular payments only</Text>
+                        <Text style={styles.resultRowValue}>
+                            {formatPlanMonth(minimumsOnly.months)} • {formatCurrency(minimumsOnly.totalInterest, currency, 0)} interest
+                        </Text>
+                    </View>
+                )}
+            </View>
+        )}
+
+        {plan && (
+            <PayoffTimeline
+                title="📅 Payoff Timeline"
+                plan={plan}
+                debts={debts}
+                startDate={planStart}
+            />
+        )}
+
+        {message !== "" && (
+            <Text style={styles.message}>{message}</Text>
+        )}
+
+        {plan && (
+            <TouchableOpacity
+                style={[styles.applyButton, isApplying && styles.applyButtonDisabled]}
+                onPress={applyPlan}
+                disabled={isApplying}
+                activeOpacity={0.8}
+            >
+                <Text style={styles.applyButtonText}>{isApplying ? 'Saving...' : 'Add Extra Payments to Loans'}</Text>
+            </TouchableOpacity>
+        )}
+            </>
+        )}
+            </ScrollView>
+        </TouchableWithoutFeedback>
+    </KeyboardAvoidingView>;
+}
+
+const styles = StyleSheet.create({
+    wrapper: {
+        flex: 1,
+        backgroundColor: theme.colors.surface,
+    },
+    container: {
+        flex: 1,
+        padding: theme.spacing.xl,
+    },
+    title: {
+        fontSize: theme.fontSize.huge,
+        fontWeight: theme.fontWeight.bold,
+        marginBottom: theme.spacing.xxl,
+        color: theme.colors.textPrimary,
+    },
+    sectionHint: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.lg,
+    },
+    orderList: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    orderRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: theme.spacing.xs,
+    },
+    orderName: {
+        flex: 1,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.medium,
+        color: theme.colors.textPrimary,
+    },
+    orderButton: {
+        paddingHorizontal: theme.spacing.md,
+        paddingVertical: theme.spacing.xs,
+    },
+    orderButtonText: {
+        fontSize: theme.fontSize.base,
+        color: theme.colors.primary,
+    },
+    orderButtonDisabled: {
+        color: theme.colors.gray300,
+    },
+    resultCard: {
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.lg,
+        padding: theme.spacing.xl,
+        marginTop: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+        ...theme.shadows.md,
+    },
+    resultLabel: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textSecondary,
+    },
+    resultValue: {
+        fontSize: theme.fontSize.huge,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.primary,
+        marginBottom: theme.spacing.lg,
+    },
+    resultRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: theme.spacing.sm,
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.gray100,
+    },
+    resultRowLabel: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    selectedLabel: {
+        color: theme.colors.primary,
+        fontWeight: theme.fontWeight.bold,
+    },
+    resultRowValue: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    errorIndicator: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: theme.spacing.sm,
+        minHeight: 30,
+    },
+    errorText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    message: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textSecondary,
+        textAlign: 'center',
+    },
+    applyButton: {
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.lg,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: "center",
+        marginTop: theme.spacing.xl,
+        marginBottom: theme.spacing.xl,
+        ...theme.shadows.md,
+    },
+    applyButtonDisabled: {
+        opacity: 0.6,
+    },
+    applyButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.lg,
+        fontWeight: theme.fontWeight.semibold,
+    },
+});
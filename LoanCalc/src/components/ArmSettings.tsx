@@ -0,0 +1,366 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useState } from "react";
+import InputField from "./InputField";
+import { theme } from "../constants/theme";
+import type { ArmConfig } from "../utils/loanCalculations";
+
+// Form state for the adjustable-rate terms (strings for form input)
+type ArmDraft = {
+    initialFixedMonths: string;
+    adjustmentIntervalMonths: string;
+    margin: string;
+    initialCap: string;
+    periodicCap: string;
+    lifetimeCap: string;
+    floor: string;
+    indexRates: { id: string; date: string; rate: string }[];
+};
+
+const EMPTY_DRAFT: ArmDraft = {
+    initialFixedMonths: "60",
+    adjustmentIntervalMonths: "12",
+    margin: "",
+    initialCap: "2",
+    periodicCap: "2",
+    lifetimeCap: "5",
+    floor: "",
+    indexRates: [],
+};
+
+const toDraft = (arm: ArmConfig): ArmDraft => ({
+    initialFixedMonths: arm.initialFixedMonths.toString(),
+    adjustmentIntervalMonths: arm.adjustmentIntervalMonths.toString(),
+    margin: arm.margin.toString(),
+    initialCap: arm.initialCap.toString(),
+    periodicCap: arm.periodicCap.toString(),
+    lifetimeCap: arm.lifetimeCap.toString(),
+    floor: arm.floor != null ? arm.floor.toString() : "",
+    indexRates: arm.indexRates.map((indexRate, index) => ({
+        id: `${index}`,
+        date: indexRate.date,
+        rate: indexRate.rate.toString(),
+    })),
+});
+
+// Convert the form to ARM terms, or undefined if any field is invalid
+const toArmConfig = (draft: ArmDraft): ArmConfig | undefined => {
+    const initialFixedMonths = parseInt(draft.initialFixedMonths);
+    const adjustmentIntervalMonths = parseInt(draft.adjustmentIntervalMonths);
+    const [margin, initialCap, periodicCap, lifetimeCap] = [draft.margin, draft.initialCap, draft.periodicCap, draft.lifetimeCap].map(parseFloat);
+    const floor = draft.floor ? parseFloat(draft.floor) : undefined;
+
+    if (isNaN(initialFixedMonths) || initialFixedMonths < 1) return undefined;
+    if (isNaN(adjustmentIntervalMonths) || adjustmentIntervalMonths < 1) return undefined;
+    if ([margin, initialCap, periodicCap, lifetimeCap].some(value => isNaN(value) || value < 0 || value > 30)) return undefined;
+    if (floor !== undefined && (isNaN(floor) || floor < 0 || floor > 30)) return undefined;
+
+    const indexRates = draft.indexRates.map(indexRate => ({ date: indexRate.date, rate: parseFloat(indexRate.rate) }));
+    if (indexRates.some(indexRate => !/^\d{4}-\d{2}-\d{2}$/.test(indexRate.date) || isNaN(indexRate.rate) || indexRate.rate < 0 || indexRate.rate > 30)) {
+        return undefined;
+    }
+
+    return { initialFixedMonths, adjustmentIntervalMonths, margin, initialCap, periodicCap, lifetimeCap, floor, indexRates };
+};
+
+type ArmSettingsProps = {
+    arm?: ArmConfig;
+    onArmChange: (arm: ArmConfig | undefined) => void;
+};
+
+export default function ArmSettings({ arm, onArmChange }: ArmSettingsProps) {
+    const [draft, setDraft] = useState<ArmDraft | null>(null);
+
+    const updateDraft = (field: Exclude<keyof ArmDraft, 'indexRates'>, value: string) => {
+        if (draft) {
+            setDraft({ ...draft, [field]: value });
+        }
+    };
+
+    const updateIndexRate = (id: string, field: 'date' | 'rate', value: string) => {
+        if (draft) {
+            setDraft({
+                ...draft,
+                indexRates: draft.indexRates.map(indexRate => indexRate.id === id ? { ...indexRate, [field]: value } : indexRate),
+            });
+        }
+    };
+
+    const addIndexRate = () => {
+        if (draft) {
+            setDraft({ ...draft, indexRates: [...draft.indexRates, { id: Date.now().toString(), date: "", rate: "" }] });
+        }
+    };
+
+    const removeIndexRate = (id: string) => {
+        if (draft) {
+            setDraft({ ...draft, indexRates: draft.indexRates.filter(indexRate => indexRate.id !== id) });
+        }
+    };
+
+    const saveDraft = () => {
+        const config = draft && toArmConfig(draft);
+        if (config) {
+            onArmChange(config);
+            setDraft(null);
+        }
+    };
+
+    const removeArm = () => {
+        onArmChange(undefined);
+        setDraft(null);
+    };
+
+    if (draft) {
+        const isValid = toArmConfig(draft) !== undefined;
+
+        return (
+            <View style={styles.container}>
+                {!isValid && (
+                    <View style={styles.validationWarning}>
+                        <Text style={styles.validationWarningText}>⚠️ Please complete all fields with valid values (rates: 0-30%, dates: YYYY-MM-DD)</Text>
+                    </View>
+                )}
+
+                <View style={styles.row}>
+                    <View style={styles.rowItem}>
+                        <InputField label="Fixed Period (months)" value={draft.initialFixedMonths} onChangeText={(value) => updateDraft("initialFixedMonths", value)} placeholder="e.g., 60" keyboardType="numeric" />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <InputField label="Adjusts Every (months)" value={draft.adjustmentIntervalMonths} onChangeText={(value) => updateDraft("adjustmentIntervalMonths", value)} placeholder="e.g., 12" keyboardType="numeric" />
+                    </View>
+                </View>
+                <View style={styles.row}>
+                    <View style={styles.rowItem}>
+                        <InputField label="Margin (%)" value={draft.margin} onChangeText={(value) => updateDraft("margin", value)} placeholder="e.g., 2.75" keyboardType="decimal-pad" />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <InputField label="Rate Floor (%)" value={draft.floor} onChangeText={(value) => updateDraft("floor", value)} placeholder="Defaults to margin" keyboardType="decimal-pad" />
+                    </View>
+                </View>
+                <View style={styles.row}>
+                    <View style={styles.rowItem}>
+                        <InputField label="First Cap (%)" value={draft.initialCap} onChangeText={(value) => updateDraft("initialCap", value)} placeholder="e.g., 2" keyboardType="decimal-pad" />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <InputField label="Periodic Cap (%)" value={draft.periodicCap} onChangeText={(value) => updateDraft("periodicCap", value)} placeholder="e.g., 2" keyboardType="decimal-pad" />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <InputField label="Lifetime Cap (%)" value={draft.lifetimeCap} onChangeText={(value) => updateDraft("lifetimeCap", value)} placeholder="e.g., 5" keyboardType="decimal-pad" />
+                    </View>
+                </View>
+                <Text style={styles.helperText}>
+                    Caps limit how far the rate can move up or down at each reset. The lifetime cap limits the rise above your starting rate.
+                </Text>
+
+                <View style={styles.indexHeader}>
+                    <Text style={styles.inputLabel}>Index Rates</Text>
+                    <TouchableOpacity style={styles.smallButton} onPress={addIndexRate}>
+                        <Text style={styles.smallButtonText}>+ Add Index Rate</Text>
+                    </TouchableOpacity>
+                </View>
+                {draft.indexRates.length === 0 && (
+                    <Text style={styles.helperText}>Add the published index rate (e.g. SOFR) and the date it took effect. Each reset uses the latest rate on or before the reset date.</Text>
+                )}
+                {draft.indexRates.map(indexRate => (
+                    <View key={indexRate.id} style={styles.row}>
+                        <View style={styles.rowItem}>
+                            <InputField label="Effective Date" value={indexRate.date} onChangeText={(value) => updateIndexRate(indexRate.id, "date", value)} placeholder="YYYY-MM-DD" />
+                        </View>
+                        <View style={styles.rowItem}>
+                            <InputField label="Index Rate (%)" value={indexRate.rate} onChangeText={(value) => updateIndexRate(indexRate.id, "rate", value)} placeholder="e.g., 4.3" keyboardType="decimal-pad" />
+                        </View>
+                        <TouchableOpacity style={styles.removeButton} onPress={() => removeIndexRate(indexRate.id)}>
+                            <Text style={styles.removeButtonText}>✕</Text>
+                        </TouchableOpacity>
+                    </View>
+                ))}
+
+                <View style={styles.footer}>
+                    <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+                        <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.doneButton, !isValid && styles.doneButtonDisabled]} onPress={saveDraft} disabled={!isValid}>
+                        <Text style={styles.doneButtonText}>Done</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        );
+    }
+
+    if (!arm) {
+        return (
+            <TouchableOpacity style={styles.emptyCard} onPress={() => setDraft(EMPTY_DRAFT)} activeOpacity={0.7}>
+                <Text style={styles.emptyText}>+ Set Up Adjustable Rate (ARM)</Text>
+            </TouchableOpacity>
+        );
+    }
+
+    return (
+        <View style={styles.summaryCard}>
+            <View style={styles.summaryText}>
+                <Text style={styles.summaryTitle}>Index + {arm.margin}% margin</Text>
+                <Text style={styles.summaryDetail}>
+                    Fixed {arm.initialFixedMonths} months, then adjusts every {arm.adjustmentIntervalMonths} months • Caps {arm.initialCap}/{arm.periodicCap}/{arm.lifetimeCap}
+                </Text>
+                <Text style={styles.summaryDetail}>
+                    {arm.indexRates.length} index rate{arm.indexRates.length !== 1 ? 's' : ''} entered
+                </Text>
+            </View>
+            <View style={styles.summaryActions}>
+                <TouchableOpacity style={styles.smallButton} onPress={() => setDraft(toDraft(arm))}>
+                    <Text style={styles.smallButtonText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.removeButton} onPress={removeArm}>
+                    <Text style={styles.removeButtonText}>✕</Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    validationWarning: {
+        backgroundColor: '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.warning,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+    },
+    validationWarningText: {
+        color: '#856404',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+    rowItem: {
+        flex: 1,
+    },
+    helperText: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.md,
+    },
+    indexHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: theme.spacing.sm,
+    },
+    inputLabel: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    smallButton: {
+        backgroundColor: theme.colors.primary,
+        paddingHorizontal: theme.spacing.md,
+        paddingVertical: theme.spacing.xs,
+        borderRadius: theme.borderRadius.sm,
+    },
+    smallButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    removeButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: '#ffebee',
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    removeButtonText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: theme.spacing.md,
+        marginTop: theme.spacing.md,
+    },
+    cancelButton: {
+        flex: 1,
+        backgroundColor: theme.colors.gray200,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        color: theme.colors.textPrimary,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    doneButton: {
+        flex: 1,
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    doneButtonDisabled: {
+        opacity: 0.5,
+    },
+    doneButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    emptyCard: {
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        alignItems: 'center',
+        marginBottom: theme.spacing.lg,
+    },
+    emptyText: {
+        color: theme.colors.primaryDark,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    summaryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: theme.colors.primaryGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.glassBorderPurple,
+    },
+    summaryText: {
+        flex: 1,
+    },
+    summaryTitle: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: 4,
+    },
+    summaryDetail: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: 2,
+    },
+    summaryActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+});
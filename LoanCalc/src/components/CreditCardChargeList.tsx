@@ -0,0 +1,212 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useState, useEffect } from "react";
+import InputField from "./InputField";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import { formatDateForStorage, formatDateForReport, parseDateFromStorage } from "../utils/dateUtils";
+import { CreditCardConfig, CreditCardCharge } from "../utils/loanCalculations";
+
+// Form state for a new charge (strings for form input)
+type ChargeDraft = {
+    date: string;
+    amount: string;
+};
+
+type CreditCardChargeListProps = {
+    creditCard: CreditCardConfig;
+    onCreditCardChange: (creditCard: CreditCardConfig) => void; // Each charge posts to the next statement after its date
+};
+
+export default function CreditCardChargeList({ creditCard, onCreditCardChange }: CreditCardChargeListProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [draft, setDraft] = useState<ChargeDraft | null>(null);
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const draftDate = draft && /^\d{4}-\d{2}-\d{2}$/.test(draft.date) ? parseDateFromStorage(draft.date) : null;
+    const amount = draft ? parseFloat(draft.amount) : NaN;
+    const isDateValid = !!draftDate && !isNaN(draftDate.getTime());
+    const isValid = isDateValid && amount > 0;
+
+    const saveDraft = () => {
+        if (!draft || !isValid) return;
+        const charge: CreditCardCharge = { id: Date.now().toString(), date: draft.date, amount };
+        const charges = [...creditCard.charges, charge].sort((a, b) => a.date.localeCompare(b.date));
+        onCreditCardChange({ ...creditCard, charges });
+        setDraft(null);
+    };
+
+    const removeCharge = (id: string) => {
+        onCreditCardChange({ ...creditCard, charges: creditCard.charges.filter(charge => charge.id !== id) });
+    };
+
+    return (
+        <View>
+            {creditCard.charges.map(charge => (
+                <View key={charge.id} style={styles.card}>
+                    <View style={styles.cardText}>
+                        <Text style={styles.cardTitle}>🛒 Charge of {formatCurrency(charge.amount, currency)}</Text>
+                        <Text style={styles.cardDetail}>{formatDateForReport(parseDateFromStorage(charge.date))}</Text>
+                    </View>
+                    <TouchableOpacity style={styles.removeButton} onPress={() => removeCharge(charge.id)}>
+                        <Text style={styles.removeButtonText}>✕</Text>
+                    </TouchableOpacity>
+                </View>
+            ))}
+
+            {draft ? (
+                <View style={styles.container}>
+                    {!isValid && (
+                        <View style={styles.validationWarning}>
+                            <Text style={styles.validationWarningText}>
+                                ⚠️ Enter a date as YYYY-MM-DD and an amount above 0
+                            </Text>
+                        </View>
+                    )}
+                    <View style={styles.row}>
+                        <View style={styles.rowItem}>
+                            <InputField label="Date" value={draft.date} onChangeText={(value) => setDraft({ ...draft, date: value })} placeholder="YYYY-MM-DD" />
+                        </View>
+                        <View style={styles.rowItem}>
+                            <InputField label="Amount" value={draft.amount} onChangeText={(value) => setDraft({ ...draft, amount: value })} placeholder="e.g., 250" keyboardType="decimal-pad" />
+                        </View>
+                    </View>
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+                            <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[styles.doneButton, !isValid && styles.doneButtonDisabled]} onPress={saveDraft} disabled={!isValid}>
+                            <Text style={styles.doneButtonText}>Done</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            ) : (
+                <TouchableOpacity
+                    style={styles.emptyCard}
+                    onPress={() => setDraft({ date: formatDateForStorage(new Date()), amount: "" })}
+                    activeOpacity={0.7}
+                >
+                    <Text style={styles.emptyText}>+ Add Charge</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    validationWarning: {
+        backgroundColor: '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.warning,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+    },
+    validationWarningText: {
+        color: '#856404',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+    rowItem: {
+        flex: 1,
+    },
+    removeButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: '#ffebee',
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    removeButtonText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: theme.spacing.md,
+        marginTop: theme.spacing.md,
+    },
+    cancelButton: {
+        flex: 1,
+        backgroundColor: theme.colors.gray200,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        color: theme.colors.textPrimary,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    doneButton: {
+        flex: 1,
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    doneButtonDisabled: {
+        opacity: 0.5,
+    },
+    doneButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    emptyCard: {
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        alignItems: 'center',
+        marginBottom: theme.spacing.lg,
+    },
+    emptyText: {
+        color: theme.colors.primaryDark,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    card: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: theme.colors.primaryGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.glassBorderPurple,
+    },
+    cardText: {
+        flex: 1,
+    },
+    cardTitle: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: 4,
+    },
+    cardDetail: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: 2,
+    },
+});
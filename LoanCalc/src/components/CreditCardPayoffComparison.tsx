@@ -0,0 +1,96 @@
+import { useState, useEffect, useMemo } from "react";
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import { formatPeriod } from "../utils/reportUtils";
+import { compareCreditCardPayoff, CreditCardPayoffPlan, PaymentScheduleParams } from "../utils/loanCalculations";
+
+type CreditCardPayoffComparisonProps = {
+    scheduleParams: PaymentScheduleParams; // Current card, including its charges and early payments
+};
+
+export default function CreditCardPayoffComparison({ scheduleParams }: CreditCardPayoffComparisonProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const comparison = useMemo(() => scheduleParams.principal > 0 ? compareCreditCardPayoff(scheduleParams) : null, [scheduleParams]);
+
+    if (!comparison) return null;
+
+    const renderPlan = (title: string, plan: CreditCardPayoffPlan) => (
+        <View style={styles.plan}>
+            <Text style={styles.planTitle}>{title}</Text>
+            <Text style={styles.planValue}>{plan.isPaidOff ? formatPeriod(plan.months) : 'Never'}</Text>
+            <Text style={styles.planDetail}>{formatCurrency(plan.totalInterest, currency)} interest</Text>
+            <Text style={styles.planDetail}>First payment {formatCurrency(plan.firstPayment, currency)}</Text>
+        </View>
+    );
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.title}>💳 Payoff Comparison</Text>
+            <View style={styles.plans}>
+                {renderPlan('Minimum Payments Only', comparison.minimumOnly)}
+                {comparison.fixedPayment && renderPlan('Fixed Payment', comparison.fixedPayment)}
+            </View>
+            <Text style={styles.hint}>
+                {!comparison.minimumOnly.isPaidOff
+                    ? 'The minimum payment doesn\'t cover the interest, so paying only the minimum never clears the balance.'
+                    : comparison.fixedPayment && comparison.interestSaved > 0
+                        ? `The fixed payment pays the card off ${formatPeriod(comparison.monthsSaved)} sooner and saves ${formatCurrency(comparison.interestSaved, currency)} in interest.`
+                        : 'The minimum shrinks with the balance, so paying only the minimum takes the longest and costs the most interest.'}
+            </Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    title: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.sm,
+    },
+    plans: {
+        flexDirection: "row",
+        gap: theme.spacing.md,
+        marginBottom: theme.spacing.sm,
+    },
+    plan: {
+        flex: 1,
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.sm,
+        padding: theme.spacing.md,
+    },
+    planTitle: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.xs,
+    },
+    planValue: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+        marginBottom: 2,
+    },
+    planDetail: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+    },
+    hint: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+    },
+});
@@ -0,0 +1,230 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useState, useEffect } from "react";
+import InputField from "./InputField";
+import OptionSelector from "./OptionSelector";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import { formatDateForStorage, formatDateForReport, parseDateFromStorage } from "../utils/dateUtils";
+import { CreditLineConfig, CreditLineTransaction } from "../utils/loanCalculations";
+
+const TYPE_OPTIONS: { value: CreditLineTransaction['type']; label: string }[] = [
+    { value: 'draw', label: 'Draw' },
+    { value: 'repayment', label: 'Repayment' },
+];
+
+// Form state for a new ledger entry (strings for form input)
+type TransactionDraft = {
+    type: CreditLineTransaction['type'];
+    date: string;
+    amount: string;
+};
+
+type CreditLineLedgerProps = {
+    creditLine: CreditLineConfig;
+    onCreditLineChange: (creditLine: CreditLineConfig) => void;
+    drawPeriodEnd: Date; // Draws after this date are not applied
+};
+
+export default function CreditLineLedger({ creditLine, onCreditLineChange, drawPeriodEnd }: CreditLineLedgerProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [draft, setDraft] = useState<TransactionDraft | null>(null);
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const draftDate = draft && /^\d{4}-\d{2}-\d{2}$/.test(draft.date) ? parseDateFromStorage(draft.date) : null;
+    const amount = draft ? parseFloat(draft.amount) : NaN;
+    const isDateValid = !!draftDate && !isNaN(draftDate.getTime());
+    const isValid = isDateValid && amount > 0;
+    const isLateDraw = draft?.type === 'draw' && isDateValid && draftDate! > drawPeriodEnd;
+
+    const saveDraft = () => {
+        if (!draft || !isValid) return;
+        const transaction: CreditLineTransaction = { id: Date.now().toString(), type: draft.type, date: draft.date, amount };
+        const transactions = [...creditLine.transactions, transaction].sort((a, b) => a.date.localeCompare(b.date));
+        onCreditLineChange({ ...creditLine, transactions });
+        setDraft(null);
+    };
+
+    const removeTransaction = (id: string) => {
+        onCreditLineChange({ ...creditLine, transactions: creditLine.transactions.filter(transaction => transaction.id !== id) });
+    };
+
+    return (
+        <View>
+            {creditLine.transactions.map(transaction => (
+                <View key={transaction.id} style={styles.card}>
+                    <View style={styles.cardText}>
+                        <Text style={styles.cardTitle}>
+                            {transaction.type === 'draw' ? '💳 Draw' : '↩️ Repayment'} of {formatCurrency(transaction.amount, currency)}
+                        </Text>
+                        <Text style={styles.cardDetail}>{formatDateForReport(parseDateFromStorage(transaction.date))}</Text>
+                    </View>
+                    <TouchableOpacity style={styles.removeButton} onPress={() => removeTransaction(transaction.id)}>
+                        <Text style={styles.removeButtonText}>✕</Text>
+                    </TouchableOpacity>
+                </View>
+            ))}
+
+            {draft ? (
+                <View style={styles.container}>
+                    {(!isValid || isLateDraw) && (
+                        <View style={styles.validationWarning}>
+                            <Text style={styles.validationWarningText}>
+                                ⚠️ {isLateDraw ? `The draw period ends ${formatDateForReport(drawPeriodEnd)}; later draws are not applied` : 'Enter a date as YYYY-MM-DD and an amount above 0'}
+                            </Text>
+                        </View>
+                    )}
+                    <OptionSelector
+                        label="Entry"
+                        options={TYPE_OPTIONS}
+                        value={draft.type}
+                        onChange={(type) => setDraft({ ...draft, type })}
+                        helperText="Draws add to the balance up to the credit limit; repayments lower it and the payment after the draw period"
+                    />
+                    <View style={styles.row}>
+                        <View style={styles.rowItem}>
+                            <InputField label="Date" value={draft.date} onChangeText={(value) => setDraft({ ...draft, date: value })} placeholder="YYYY-MM-DD" />
+                        </View>
+                        <View style={styles.rowItem}>
+                            <InputField label="Amount" value={draft.amount} onChangeText={(value) => setDraft({ ...draft, amount: value })} placeholder="e.g., 5000" keyboardType="decimal-pad" />
+                        </View>
+                    </View>
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+                            <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[styles.doneButton, !isValid && styles.doneButtonDisabled]} onPress={saveDraft} disabled={!isValid}>
+                            <Text style={styles.doneButtonText}>Done</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            ) : (
+                <TouchableOpacity
+                    style={styles.emptyCard}
+                    onPress={() => setDraft({ type: 'draw', date: formatDateForStorage(new Date()), amount: "" })}
+                    activeOpacity={0.7}
+                >
+                    <Text style={styles.emptyText}>+ Add Draw or Repayment</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    validationWarning: {
+        backgroundColor: '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.warning,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+    },
+    validationWarningText: {
+        color: '#856404',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+    rowItem: {
+        flex: 1,
+    },
+    removeButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: '#ffebee',
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    removeButtonText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: theme.spacing.md,
+        marginTop: theme.spacing.md,
+    },
+    cancelButton: {
+        flex: 1,
+        backgroundColor: theme.colors.gray200,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        color: theme.colors.textPrimary,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    doneButton: {
+        flex: 1,
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    doneButtonDisabled: {
+        opacity: 0.5,
+    },
+    doneButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    emptyCard: {
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        alignItems: 'center',
+        marginBottom: theme.spacing.lg,
+    },
+    emptyText: {
+        color: theme.colors.primaryDark,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    card: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: theme.colors.primaryGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.glassBorderPurple,
+    },
+    cardText: {
+        flex: 1,
+    },
+    cardTitle: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: 4,
+    },
+    cardDetail: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: 2,
+    },
+});
@@ -0,0 +1,100 @@
+import { useState, useEffect } from "react";
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import { formatDateForReport } from "../utils/dateUtils";
+import type { CreditLineStatus } from "../utils/loanCalculations";
+
+type CreditLineSummaryProps = {
+    status: CreditLineStatus;
+};
+
+export default function CreditLineSummary({ status }: CreditLineSummaryProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const utilization = Math.min(100, Math.max(0, status.utilization));
+
+    return (
+        <View style={styles.card}>
+            <Text style={styles.title}>💳 Credit Line</Text>
+            <View style={styles.bar}>
+                <View style={[styles.barFill, { width: `${utilization}%` }, utilization >= 80 && styles.barFillHigh]} />
+            </View>
+            <View style={styles.row}>
+                <Text style={styles.label}>Balance</Text>
+                <Text style={styles.value}>{formatCurrency(status.balance, currency)}</Text>
+            </View>
+            <View style={styles.row}>
+                <Text style={styles.label}>Available Credit</Text>
+                <Text style={[styles.value, styles.availableValue]}>{formatCurrency(status.availableCredit, currency)}</Text>
+            </View>
+            <View style={styles.row}>
+                <Text style={styles.label}>Utilization</Text>
+                <Text style={styles.value}>{status.utilization.toFixed(1)}% of {formatCurrency(status.creditLimit, currency, 0)}</Text>
+            </View>
+            <Text style={styles.hint}>
+                {status.isDrawPeriod
+                    ? `Draw period: interest-only payments until ${formatDateForReport(status.drawPeriodEnd)}, then the balance is repaid over the rest of the term.`
+                    : `Repayment period since ${formatDateForReport(status.drawPeriodEnd)}: no more draws, each payment repays principal.`}
+            </Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    title: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.sm,
+    },
+    bar: {
+        height: 8,
+        borderRadius: 4,
+        backgroundColor: theme.colors.gray100,
+        overflow: "hidden",
+        marginBottom: theme.spacing.sm,
+    },
+    barFill: {
+        height: "100%",
+        backgroundColor: theme.colors.primary,
+    },
+    barFillHigh: {
+        backgroundColor: theme.colors.warning,
+    },
+    row: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        paddingVertical: 4,
+    },
+    label: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    value: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    availableValue: {
+        color: theme.colors.success,
+    },
+    hint: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: theme.spacing.xs,
+    },
+});
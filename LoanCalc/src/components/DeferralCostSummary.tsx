@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import type { DeferralCost } from "../utils/loanCalculations";
+
+type DeferralCostSummaryProps = {
+    cost: DeferralCost;
+};
+
+export default function DeferralCostSummary({ cost }: DeferralCostSummaryProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const rows = [
+        { label: 'Capitalized interest', value: cost.capitalizedInterest },
+        { label: 'Interest due at payoff', value: cost.accruedInterest },
+        { label: 'Interest waived', value: cost.waivedInterest },
+    ].filter(row => row.value > 0);
+
+    return (
+        <View style={styles.card}>
+            <Text style={styles.title}>⏸️ {cost.deferredPayments} Paused Payment{cost.deferredPayments !== 1 ? 's' : ''}</Text>
+            <View style={styles.row}>
+                <Text style={styles.label}>Extra cost vs. no pause</Text>
+                <Text style={[styles.value, cost.extraCost > 0 ? styles.costValue : styles.savingValue]}>
+                    {cost.extraCost >= 0 ? '+' : '−'}{formatCurrency(Math.abs(cost.extraCost), currency)}
+                </Text>
+            </View>
+            <View style={styles.row}>
+                <Text style={styles.label}>Extra interest</Text>
+                <Text style={styles.value}>{formatCurrency(cost.extraInterest, currency)}</Text>
+            </View>
+            {rows.map(row => (
+                <View key={row.label} style={styles.row}>
+                    <Text style={styles.label}>{row.label}</Text>
+                    <Text style={styles.value}>{formatCurrency(row.value, currency)}</Text>
+                </View>
+            ))}
+            {cost.periodIncrease > 0 && (
+                <View style={styles.row}>
+                    <Text style={styles.label}>Payoff delayed</Text>
+                    <Text style={styles.value}>{cost.periodIncrease} month{cost.periodIncrease !== 1 ? 's' : ''}</Text>
+                </View>
+            )}
+            {cost.paymentIncrease !== 0 && (
+                <View style={styles.row}>
+                    <Text style={styles.label}>Payment afterwards</Text>
+                    <Text style={styles.value}>{cost.paymentIncrease > 0 ? '+' : '−'}{formatCurrency(Math.abs(cost.paymentIncrease), currency)}</Text>
+                </View>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: '#fff3cd',
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.warning,
+    },
+    title: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.bold,
+        color: '#856404',
+        marginBottom: theme.spacing.sm,
+    },
+    row: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        paddingVertical: 4,
+    },
+    label: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    value: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    costValue: {
+        color: theme.colors.error,
+    },
+    savingValue: {
+        color: theme.colors.success,
+    },
+});
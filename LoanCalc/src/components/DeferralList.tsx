@@ -0,0 +1,255 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useState } from "react";
+import InputField from "./InputField";
+import OptionSelector from "./OptionSelector";
+import { theme } from "../constants/theme";
+import { getPaymentDate, DeferralAdjustment, DeferralInterest, PaymentDeferral } from "../utils/loanCalculations";
+
+const INTEREST_OPTIONS: { value: DeferralInterest; label: string }[] = [
+    { value: 'capitalize', label: 'Capitalize' },
+    { value: 'accrue', label: 'Set Aside' },
+    { value: 'waive', label: 'Waive' },
+];
+
+const ADJUSTMENT_OPTIONS: { value: DeferralAdjustment; label: string }[] = [
+    { value: 'extendTerm', label: 'Extend Term' },
+    { value: 'increasePayment', label: 'Raise Payment' },
+];
+
+const INTEREST_DESCRIPTIONS: Record<DeferralInterest, string> = {
+    capitalize: 'interest added to balance',
+    accrue: 'interest due at payoff',
+    waive: 'interest waived',
+};
+
+// Form state for a new deferral (strings for form input)
+type DeferralDraft = {
+    startMonth: string;
+    months: string;
+    interest: DeferralInterest;
+    adjustment: DeferralAdjustment;
+};
+
+type DeferralListProps = {
+    deferrals: PaymentDeferral[];
+    onDeferralsChange: (deferrals: PaymentDeferral[]) => void;
+    loanStartDate: Date;
+    loanTermInMonths: number;
+};
+
+export default function DeferralList({ deferrals, onDeferralsChange, loanStartDate, loanTermInMonths }: DeferralListProps) {
+    const [draft, setDraft] = useState<DeferralDraft | null>(null);
+
+    const startMonth = draft ? parseInt(draft.startMonth) : NaN;
+    const months = draft ? parseInt(draft.months) : NaN;
+    const overlaps = deferrals.some(deferral => startMonth < deferral.startMonth + deferral.months && deferral.startMonth < startMonth + months);
+    const isValid = startMonth >= 1 && startMonth < loanTermInMonths && months >= 1 && months <= 60 && !overlaps;
+
+    const formatMonth = (month: number) =>
+        getPaymentDate(loanStartDate, month - 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+    const saveDraft = () => {
+        if (!draft || !isValid) return;
+        const newDeferrals = [...deferrals, { startMonth, months, interest: draft.interest, adjustment: draft.adjustment }]
+            .sort((a, b) => a.startMonth - b.startMonth);
+        onDeferralsChange(newDeferrals);
+        setDraft(null);
+    };
+
+    const removeDeferral = (index: number) => {
+        onDeferralsChange(deferrals.filter((_, i) => i !== index));
+    };
+
+    return (
+        <View>
+            {deferrals.map((deferral, index) => (
+                <View key={`${deferral.startMonth}-${index}`} style={styles.card}>
+                    <View style={styles.cardText}>
+                        <Text style={styles.cardTitle}>
+                            ⏸️ {deferral.months} month{deferral.months !== 1 ? 's' : ''} from {formatMonth(deferral.startMonth)}
+                        </Text>
+                        <Text style={styles.cardDetail}>
+                            Month {deferral.startMonth} • {INTEREST_DESCRIPTIONS[deferral.interest]} • {deferral.adjustment === 'extendTerm' ? 'term extended' : 'payment raised'}
+                        </Text>
+                    </View>
+                    <TouchableOpacity style={styles.removeButton} onPress={() => removeDeferral(index)}>
+                        <Text style={styles.removeButtonText}>✕</Text>
+                    </TouchableOpacity>
+                </View>
+            ))}
+
+            {draft ? (
+                <View style={styles.container}>
+                    {!isValid && (
+                        <View style={styles.validationWarning}>
+                            <Text style={styles.validationWarningText}>
+                                ⚠️ {overlaps ? 'This overlaps another deferral' : `Start in month 1-${Math.max(1, loanTermInMonths - 1)} and pause for 1-60 months`}
+                            </Text>
+                        </View>
+                    )}
+                    <View style={styles.row}>
+                        <View style={styles.rowItem}>
+                            <InputField label="Start Month" value={draft.startMonth} onChangeText={(value) => setDraft({ ...draft, startMonth: value })} placeholder="e.g., 13" keyboardType="numeric" />
+                        </View>
+                        <View style={styles.rowItem}>
+                            <InputField label="Months Paused" value={draft.months} onChangeText={(value) => setDraft({ ...draft, months: value })} placeholder="e.g., 3" keyboardType="numeric" />
+                        </View>
+                    </View>
+                    {startMonth >= 1 && (
+                        <Text style={styles.helperText}>First skipped payment: {formatMonth(startMonth)}</Text>
+                    )}
+                    <OptionSelector
+                        label="Interest While Paused"
+                        options={INTEREST_OPTIONS}
+                        value={draft.interest}
+                        onChange={(interest) => setDraft({ ...draft, interest })}
+                        helperText="Capitalized interest is added to the balance; set-aside interest is due when the loan is paid off"
+                    />
+                    <OptionSelector
+                        label="Afterwards"
+                        options={ADJUSTMENT_OPTIONS}
+                        value={draft.adjustment}
+                        onChange={(adjustment) => setDraft({ ...draft, adjustment })}
+                        helperText="Extend the term by the skipped payments, or keep the payoff date with a higher payment"
+                    />
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+                            <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[styles.doneButton, !isValid && styles.doneButtonDisabled]} onPress={saveDraft} disabled={!isValid}>
+                            <Text style={styles.doneButtonText}>Done</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            ) : (
+                <TouchableOpacity
+                    style={styles.emptyCard}
+                    onPress={() => setDraft({ startMonth: "", months: "3", interest: 'capitalize', adjustment: 'extendTerm' })}
+                    activeOpacity={0.7}
+                >
+                    <Text style={styles.emptyText}>+ Add Payment Pause</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    validationWarning: {
+        backgroundColor: '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.warning,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+    },
+    validationWarningText: {
+        color: '#856404',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+    rowItem: {
+        flex: 1,
+    },
+    helperText: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.md,
+    },
+    removeButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: '#ffebee',
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    removeButtonText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: theme.spacing.md,
+        marginTop: theme.spacing.md,
+    },
+    cancelButton: {
+        flex: 1,
+        backgroundColor: theme.colors.gray200,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        color: theme.colors.textPrimary,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    doneButton: {
+        flex: 1,
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    doneButtonDisabled: {
+        opacity: 0.5,
+    },
+    doneButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    emptyCard: {
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        alignItems: 'center',
+        marginBottom: theme.spacing.lg,
+    },
+    emptyText: {
+        color: theme.colors.primaryDark,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    card: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: theme.colors.primaryGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.glassBorderPurple,
+    },
+    cardText: {
+        flex: 1,
+    },
+    cardTitle: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: 4,
+    },
+    cardDetail: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: 2,
+    },
+});
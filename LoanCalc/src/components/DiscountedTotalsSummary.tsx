@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import type { DiscountedTotals, ValueAdjustment } from "../utils/loanCalculations";
+
+type DiscountedTotalsSummaryProps = {
+    totals: DiscountedTotals;
+    adjustment: ValueAdjustment;
+};
+
+export default function DiscountedTotalsSummary({ totals, adjustment }: DiscountedTotalsSummaryProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const columns = [
+        { label: 'Nominal', values: totals.nominal },
+        totals.real && { label: `Today's money (${adjustment.inflationRate}%)`, values: totals.real },
+        totals.presentValue && { label: `Present value (${adjustment.discountRate}%)`, values: totals.presentValue },
+    ].filter((column): column is { label: string; values: { totalPayment: number; totalInterest: number } } => !!column);
+
+    // Nothing to compare with until a rate is set
+    if (columns.length === 1) return null;
+
+    return (
+        <View style={styles.card}>
+            <Text style={styles.title}>🛒 What It Really Costs</Text>
+            <View style={styles.row}>
+                <Text style={[styles.label, styles.header]} />
+                {columns.map(column => (
+                    <Text key={column.label} style={[styles.value, styles.header]}>{column.label}</Text>
+                ))}
+            </View>
+            <View style={styles.row}>
+                <Text style={styles.label}>Total paid</Text>
+                {columns.map(column => (
+                    <Text key={column.label} style={styles.value}>{formatCurrency(column.values.totalPayment, currency, 0)}</Text>
+                ))}
+            </View>
+            <View style={styles.row}>
+                <Text style={styles.label}>Interest</Text>
+                {columns.map(column => (
+                    <Text key={column.label} style={[styles.value, styles.interestValue]}>{formatCurrency(column.values.totalInterest, currency, 0)}</Text>
+                ))}
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    title: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.sm,
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 4,
+    },
+    header: {
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+        color: theme.colors.textTertiary,
+    },
+    label: {
+        flex: 1,
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    value: {
+        flex: 1,
+        textAlign: "right",
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    interestValue: {
+        color: theme.colors.warning,
+    },
+});
@@ -1,4 +1,5 @@
-import { Text, View, StyleSheet } from "react-native";
+import { useState } from "react";
+import { Text, View, StyleSheet, TouchableOpacity } from "react-native";
 import { theme } from "../constants/theme";
 import { formatCurrency } from "../utils/currencyUtils";
 
@@ -17,16 +18,21 @@ type DualLineChartProps = {
     legendLabels?: { principal: string; interest: string };
     colors?: { principal: string; interest: string };
     yAxisFormatter?: (value: number) => string;
+    adjustedData?: { label: string; data: Array<{ principal: number; interest: number }> }; // Same points in today's money, shown with a toggle
 };
 
 export default function DualLineChart({ 
     title, 
-    data, 
+    data: nominalData, 
     earlyPayments = [],
     legendLabels = { principal: "Principal", interest: "Interest" },
     colors = { principal: theme.colors.success, interest: theme.colors.error },
-    yAxisFormatter = (v) => formatCurrency(v, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0)
+    yAxisFormatter = (v) => formatCurrency(v, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0),
+    adjustedData
 }: DualLineChartProps) {
+    const [showAdjusted, setShowAdjusted] = useState(false);
+    const data = showAdjusted && adjustedData ? adjustedData.data : nominalData;
+
     // Calculate maxValue excluding months with early payments to avoid scale distortion
     const calculatedMax = Math.max(...data.map((d, index) => {
         const currentMonth = index + 1;
@@ -52,6 +58,19 @@ export default function DualLineChart({
     return (
         <View style={styles.container}>
             <Text style={styles.title}>{title}</Text>
+            {adjustedData && (
+                <View style={styles.toggleRow}>
+                    {[{ label: 'Nominal', adjusted: false }, { label: adjustedData.label, adjusted: true }].map(option => (
+                        <TouchableOpacity
+                            key={option.label}
+                            style={[styles.toggleButton, showAdjusted === option.adjusted && styles.toggleButtonActive]}
+                            onPress={() => setShowAdjusted(option.adjusted)}
+                        >
+                            <Text style={[styles.toggleText, showAdjusted === option.adjusted && styles.toggleTextActive]}>{option.label}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
             <View style={styles.legendRow}>
                 <View style={styles.legendItem}>
                     <View style={[styles.legendDot, { backgroundColor: colors.principal }]} />
@@ -143,6 +162,31 @@ const styles = StyleSheet.create({
         marginBottom: 15,
         color: theme.colors.textPrimary,
     },
+    toggleRow: {
+        flexDirection: "row",
+        justifyContent: "center",
+        gap: theme.spacing.sm,
+        marginBottom: theme.spacing.md,
+    },
+    toggleButton: {
+        paddingVertical: theme.spacing.xs,
+        paddingHorizontal: theme.spacing.md,
+        borderRadius: theme.borderRadius.md,
+        borderWidth: 1,
+        borderColor: theme.colors.gray300,
+    },
+    toggleButtonActive: {
+        backgroundColor: theme.colors.primary,
+        borderColor: theme.colors.primary,
+    },
+    toggleText: {
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textSecondary,
+    },
+    toggleTextActive: {
+        color: theme.colors.textInverse,
+    },
     legendRow: {
         flexDirection: "row",
         justifyContent: "center",
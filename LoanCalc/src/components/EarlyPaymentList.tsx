@@ -1,9 +1,15 @@
 import { View, Text, StyleSheet, TouchableOpacity, Alert } from "react-native";
-import { useState, forwardRef, useImperativeHandle } from "react";
+import { useState, useEffect, forwardRef, useImperativeHandle } from "react";
 import InputField from "./InputField";
 import DatePicker from "./DatePicker";
 import EditModal from "./EditModal";
 import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import type { PrepaymentYear } from "../utils/loanCalculations";
+
+// Shorten the term and keep the payment, or keep the term and lower the payment (recast)
+export type EarlyPaymentStrategy = "reduceTerm" | "reducePayment";
 
 export type EarlyPayment = {
     id: string;
@@ -13,6 +19,7 @@ export type EarlyPayment = {
     month: string; // Payment month for one-time, starting month for recurring
     date?: string; // Optional: exact date in YYYY-MM-DD format to preserve user's selected day
     frequency?: string; // Only for recurring: every X months (1, 2, 3, etc.)
+    strategy?: EarlyPaymentStrategy; // Defaults to reduceTerm
 };
 
 // Validation helper
@@ -49,6 +56,7 @@ type EarlyPaymentListProps = {
     onModalClose?: () => void;
     loanStartDate: Date;
     loanTermInMonths: number;
+    prepaymentYears?: PrepaymentYear[]; // Early payments of each loan year against the loan's prepayment allowance
 };
 
 export type EarlyPaymentListRef = {
@@ -56,14 +64,27 @@ export type EarlyPaymentListRef = {
 };
 
 const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
-    ({ payments, onPaymentsChange, onModalClose, loanStartDate, loanTermInMonths }, ref) => {
+    ({ payments, onPaymentsChange, onModalClose, loanStartDate, loanTermInMonths, prepaymentYears = [] }, ref) => {
     const [activeMonthPicker, setActiveMonthPicker] = useState<string | null>(null);
     const [editingPayment, setEditingPayment] = useState<string | null>(null);
     const [draftPayment, setDraftPayment] = useState<EarlyPayment | null>(null);
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
     
     useImperativeHandle(ref, () => ({
         collapseAll: () => setEditingPayment(null)
     }));
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    // Loan years whose early payments go past the penalty-free allowance
+    const exceededYears = prepaymentYears.filter(year => year.excess > 0 && (year.allowance > 0 || year.penalty > 0));
+    const describeExceededYear = (year: PrepaymentYear) => {
+        const excess = year.allowance > 0 ? `, ${formatCurrency(year.excess, currency)} over the ${formatCurrency(year.allowance, currency)} penalty-free allowance` : '';
+        const penalty = year.penalty > 0 ? ` • Penalty ${formatCurrency(year.penalty, currency)}` : '';
+        return `⚠️ Year ${year.year}: ${formatCurrency(year.prepaid, currency)} prepaid${excess}${penalty}`;
+    };
     
     const addPayment = () => {
         const newPayment: EarlyPayment = {
@@ -250,6 +271,14 @@ const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
                 </TouchableOpacity>
             </View>
 
+            {exceededYears.length > 0 && (
+                <View style={styles.allowanceWarning}>
+                    {exceededYears.map(year => (
+                        <Text key={year.year} style={styles.allowanceWarningText}>{describeExceededYear(year)}</Text>
+                    ))}
+                </View>
+            )}
+
             {/* Payment cards - click to open modal */}
             {payments.map((payment, index) => {
                 const isComplete = payment.name && payment.amount && payment.month;
@@ -271,7 +300,7 @@ const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
                         </Text>
                         {isComplete && (
                             <Text style={styles.paymentSummary}>
-                                ${payment.amount} • {payment.type === "one-time" ? getMonthDisplay(payment.month) : `Every ${payment.frequency} month(s) from ${getMonthDisplay(payment.month)}`}
+                                ${payment.amount} • {payment.type === "one-time" ? getMonthDisplay(payment.month) : `Every ${payment.frequency} month(s) from ${getMonthDisplay(payment.month)}`}{payment.strategy === "reducePayment" && " • Lowers payment"}
                             </Text>
                         )}
                     </View>
@@ -367,6 +396,26 @@ const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
                                         formatNumber={true}
                                     />
 
+                                    <Text style={styles.inputLabel}>After This Payment</Text>
+                                    <View style={styles.typeToggle}>
+                                        <TouchableOpacity
+                                            style={[styles.toggleButton, payment.strategy !== "reducePayment" && styles.toggleButtonActive]}
+                                            onPress={() => updatePayment(payment.id, "strategy", "reduceTerm")}
+                                        >
+                                            <Text style={[styles.toggleText, payment.strategy !== "reducePayment" && styles.toggleTextActive]}>
+                                                Shorten Term
+                                            </Text>
+                                        </TouchableOpacity>
+                                        <TouchableOpacity
+                                            style={[styles.toggleButton, payment.strategy === "reducePayment" && styles.toggleButtonActive]}
+                                            onPress={() => updatePayment(payment.id, "strategy", "reducePayment")}
+                                        >
+                                            <Text style={[styles.toggleText, payment.strategy === "reducePayment" && styles.toggleTextActive]}>
+                                                Lower Payment
+                                            </Text>
+                                        </TouchableOpacity>
+                                    </View>
+
                                     {payment.type === "one-time" && (
                                         <View>
                                             <Text style={styles.inputLabel}>Payment Month</Text>
@@ -480,6 +529,20 @@ const styles = StyleSheet.create({
         fontSize: theme.fontSize.xs,
         fontWeight: theme.fontWeight.medium,
     },
+    allowanceWarning: {
+        backgroundColor: '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.warning,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+        gap: theme.spacing.xs,
+    },
+    allowanceWarningText: {
+        color: '#856404',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+    },
     cardHeaderLeft: {
         flex: 1,
     },
@@ -4,6 +4,12 @@ import { useState, forwardRef, useImperativeHandle, useEffect } from "react";
 import { createPortal } from "react-dom";
 import { theme } from "../constants/theme";
 import { useTheme } from "../contexts/ThemeContext.web";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import type { PrepaymentYear } from "../utils/loanCalculations";
+
+// Shorten the term and keep the payment, or keep the term and lower the payment (recast)
+export type EarlyPaymentStrategy = "reduceTerm" | "reducePayment";
 
 export type EarlyPayment = {
     id: string;
@@ -13,6 +19,7 @@ export type EarlyPayment = {
     month: string;
     date?: string;
     frequency?: string;
+    strategy?: EarlyPaymentStrategy;
 };
 
 export const isValidEarlyPayment = (payment: EarlyPayment): boolean => {
@@ -45,6 +52,7 @@ type EarlyPaymentListProps = {
     onModalClose?: () => void;
     loanStartDate: Date;
     loanTermInMonths: number;
+    prepaymentYears?: PrepaymentYear[]; // Early payments of each loan year against the loan's prepayment allowance
 };
 
 export type EarlyPaymentListRef = {
@@ -52,15 +60,28 @@ export type EarlyPaymentListRef = {
 };
 
 const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
-    ({ payments, onPaymentsChange, onModalClose, loanStartDate, loanTermInMonths }, ref) => {
+    ({ payments, onPaymentsChange, onModalClose, loanStartDate, loanTermInMonths, prepaymentYears = [] }, ref) => {
     const [editingPayment, setEditingPayment] = useState<string | null>(null);
     const [draftPayment, setDraftPayment] = useState<EarlyPayment | null>(null);
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
     const { colors, mode } = useTheme();
     const styles = createStyles(colors, mode);
     
     useImperativeHandle(ref, () => ({
         collapseAll: () => setEditingPayment(null)
     }));
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    // Loan years whose early payments go past the penalty-free allowance
+    const exceededYears = prepaymentYears.filter(year => year.excess > 0 && (year.allowance > 0 || year.penalty > 0));
+    const describeExceededYear = (year: PrepaymentYear) => {
+        const excess = year.allowance > 0 ? `, ${formatCurrency(year.excess, currency)} over the ${formatCurrency(year.allowance, currency)} penalty-free allowance` : '';
+        const penalty = year.penalty > 0 ? ` • Penalty ${formatCurrency(year.penalty, currency)}` : '';
+        return `⚠️ Year ${year.year}: ${formatCurrency(year.prepaid, currency)} prepaid${excess}${penalty}`;
+    };
     
     // Prevent body scroll when modal is open
     useEffect(() => {
@@ -241,6 +262,14 @@ const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
 
     return (
         <View style={styles.container}>
+            {exceededYears.length > 0 && (
+                <View style={styles.allowanceWarning}>
+                    {exceededYears.map(year => (
+                        <Text key={year.year} style={styles.allowanceWarningText}>{describeExceededYear(year)}</Text>
+                    ))}
+                </View>
+            )}
+
             <View style={styles.list}>
                 {payments.length === 0 ? (
                     <View style={styles.emptyState}>
@@ -257,6 +286,7 @@ const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
                                     <Text style={styles.paymentDetails}>
                                         ${parseFloat(payment.amount || '0').toFixed(2)} • {getMonthDisplay(payment.month)}
                                         {payment.type === 'recurring' && payment.frequency && ` • Every ${payment.frequency} month${parseInt(payment.frequency) > 1 ? 's' : ''}`}
+                                        {payment.strategy === 'reducePayment' && ' • Lowers payment'}
                                     </Text>
                                 </View>
                                 <View style={styles.paymentActions}>
@@ -405,6 +435,41 @@ const EarlyPaymentList = forwardRef<EarlyPaymentListRef, EarlyPaymentListProps>(
                                 />
                             </View>
 
+                            <View style={styles.modalField}>
+                                <Text style={styles.modalLabel}>After This Payment</Text>
+                                <View style={styles.segmentControl}>
+                                    <TouchableOpacity
+                                        style={[
+                                            styles.segmentButton,
+                                            draftPayment.strategy !== 'reducePayment' && styles.segmentButtonActive
+                                        ]}
+                                        onPress={() => updatePayment(draftPayment.id, 'strategy', 'reduceTerm')}
+                                    >
+                                        <Text style={[
+                                            styles.segmentButtonText,
+                                            draftPayment.strategy !== 'reducePayment' && styles.segmentButtonTextActive
+                                        ]}>Shorten Term</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        style={[
+                                            styles.segmentButton,
+                                            draftPayment.strategy === 'reducePayment' && styles.segmentButtonActive
+                                        ]}
+                                        onPress={() => updatePayment(draftPayment.id, 'strategy', 'reducePayment')}
+                                    >
+                                        <Text style={[
+                                            styles.segmentButtonText,
+                                            draftPayment.strategy === 'reducePayment' && styles.segmentButtonTextActive
+                                        ]}>Lower Payment</Text>
+                                    </TouchableOpacity>
+                                </View>
+                                <Text style={styles.modalHint}>
+                                    {draftPayment.strategy === 'reducePayment'
+                                        ? 'Keeps the payoff date and recalculates a lower payment'
+                                        : 'Keeps the payment and pays the loan off sooner'}
+                                </Text>
+                            </View>
+
                             {draftPayment.type === 'one-time' && (
                                 <View style={styles.modalField}>
                                     <Text style={styles.modalLabel}>Payment Date</Text>
@@ -541,6 +606,20 @@ const createStyles = (colors: any, mode: string) => StyleSheet.create({
     list: {
         gap: 12,
     },
+    allowanceWarning: {
+        backgroundColor: mode === 'dark' ? 'rgba(245, 158, 11, 0.1)' : '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: '#f59e0b',
+        borderRadius: 6,
+        padding: 12,
+        marginBottom: 12,
+        gap: 4,
+    },
+    allowanceWarningText: {
+        fontSize: 13,
+        fontWeight: '500',
+        color: mode === 'dark' ? '#fbbf24' : '#856404',
+    },
     emptyState: {
         padding: 32,
         alignItems: 'center',
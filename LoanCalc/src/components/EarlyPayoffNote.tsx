@@ -0,0 +1,77 @@
+import { useState, useEffect, useMemo } from "react";
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../utils/currencyUtils";
+import { calculateEarlyPayoff, getInterestMethodLabel, PaymentScheduleParams } from "../utils/loanCalculations";
+
+type EarlyPayoffNoteProps = {
+    scheduleParams: PaymentScheduleParams; // Current loan, including its early payments
+};
+
+export default function EarlyPayoffNote({ scheduleParams }: EarlyPayoffNoteProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const interestMethod = scheduleParams.interestMethod || 'simple';
+    const isPrecomputed = interestMethod !== 'simple';
+    const payoff = useMemo(() => (isPrecomputed || scheduleParams.prepaymentPolicy) && scheduleParams.principal > 0
+        ? calculateEarlyPayoff(scheduleParams)
+        : null,
+        [scheduleParams, isPrecomputed]
+    );
+
+    // Only precomputed interest has a rebate to explain, and only a penalty changes a simple-interest payoff
+    if (!payoff || (!isPrecomputed && payoff.prepaymentPenalty <= 0)) return null;
+
+    const minorUnits = getCurrencyMinorUnits(currency);
+    const payments = `${payoff.paymentsMade} payment${payoff.paymentsMade !== 1 ? 's' : ''}`;
+    const penalty = payoff.prepaymentPenalty > 0 ? `, including a ${formatCurrency(payoff.prepaymentPenalty, currency, minorUnits)} prepayment penalty` : '';
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.title}>{isPrecomputed ? `${getInterestMethodLabel(interestMethod)} Payoff` : 'Early Payoff'}</Text>
+            <Text style={styles.text}>
+                {isPrecomputed
+                    ? `Paying off today costs ${formatCurrency(payoff.payoffAmount, currency, minorUnits)} after ${payments}${penalty}, with a ${formatCurrency(payoff.rebate, currency, minorUnits)} rebate of unearned interest.`
+                    : `Paying off today costs ${formatCurrency(payoff.payoffAmount, currency, minorUnits)} after ${payments}${penalty}.`}
+            </Text>
+            {isPrecomputed && (
+                <Text style={styles.hint}>
+                    {interestMethod === 'rule-of-78'
+                        ? 'Rule of 78 earns most of the interest early in the term, so early payments save less than on an amortizing loan.'
+                        : 'Add-on interest is earned evenly over the term, whatever the balance.'}
+                </Text>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    title: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.xs,
+    },
+    text: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.xs,
+    },
+    hint: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+    },
+});
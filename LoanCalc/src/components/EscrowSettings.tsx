@@ -0,0 +1,292 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useState } from "react";
+import InputField from "./InputField";
+import { theme } from "../constants/theme";
+import { getPeriodicEscrow, EscrowConfig } from "../utils/loanCalculations";
+
+// Form state for the escrow settings (strings for form input)
+type EscrowDraft = {
+    annualPropertyTax: string;
+    annualInsurance: string;
+    monthlyHoa: string;
+    propertyValue: string;
+    pmiRate: string;
+    pmiCancelLtv: string;
+};
+
+const EMPTY_DRAFT: EscrowDraft = {
+    annualPropertyTax: "",
+    annualInsurance: "",
+    monthlyHoa: "",
+    propertyValue: "",
+    pmiRate: "",
+    pmiCancelLtv: "78",
+};
+
+const toDraft = (escrow: EscrowConfig): EscrowDraft => ({
+    annualPropertyTax: escrow.annualPropertyTax ? escrow.annualPropertyTax.toString() : "",
+    annualInsurance: escrow.annualInsurance ? escrow.annualInsurance.toString() : "",
+    monthlyHoa: escrow.monthlyHoa ? escrow.monthlyHoa.toString() : "",
+    propertyValue: escrow.propertyValue ? escrow.propertyValue.toString() : "",
+    pmiRate: escrow.pmiRate ? escrow.pmiRate.toString() : "",
+    pmiCancelLtv: (escrow.pmiCancelLtv ?? 78).toString(),
+});
+
+// Convert the form to escrow settings, or undefined if any field is invalid or nothing is entered
+const toEscrowConfig = (draft: EscrowDraft): EscrowConfig | undefined => {
+    const [annualPropertyTax, annualInsurance, monthlyHoa, propertyValue, pmiRate] = [
+        draft.annualPropertyTax, draft.annualInsurance, draft.monthlyHoa, draft.propertyValue, draft.pmiRate,
+    ].map(value => value ? parseFloat(value) : 0);
+    const pmiCancelLtv = parseFloat(draft.pmiCancelLtv);
+
+    if ([annualPropertyTax, annualInsurance, monthlyHoa, propertyValue].some(value => isNaN(value) || value < 0)) return undefined;
+    if (isNaN(pmiRate) || pmiRate < 0 || pmiRate > 5) return undefined;
+    if (isNaN(pmiCancelLtv) || pmiCancelLtv <= 0 || pmiCancelLtv > 100) return undefined;
+    // PMI cancellation is measured against the property value
+    if (pmiRate > 0 && propertyValue <= 0) return undefined;
+    if (annualPropertyTax + annualInsurance + monthlyHoa + pmiRate === 0) return undefined;
+
+    return { annualPropertyTax, annualInsurance, monthlyHoa, propertyValue, pmiRate, pmiCancelLtv };
+};
+
+type EscrowSettingsProps = {
+    escrow?: EscrowConfig;
+    onEscrowChange: (escrow: EscrowConfig | undefined) => void;
+};
+
+export default function EscrowSettings({ escrow, onEscrowChange }: EscrowSettingsProps) {
+    const [draft, setDraft] = useState<EscrowDraft | null>(null);
+
+    const updateDraft = (field: keyof EscrowDraft, value: string) => {
+        if (draft) {
+            setDraft({ ...draft, [field]: value });
+        }
+    };
+
+    const saveDraft = () => {
+        const config = draft && toEscrowConfig(draft);
+        if (config) {
+            onEscrowChange(config);
+            setDraft(null);
+        }
+    };
+
+    const removeEscrow = () => {
+        onEscrowChange(undefined);
+        setDraft(null);
+    };
+
+    if (draft) {
+        const isValid = toEscrowConfig(draft) !== undefined;
+
+        return (
+            <View style={styles.container}>
+                {!isValid && (
+                    <View style={styles.validationWarning}>
+                        <Text style={styles.validationWarningText}>⚠️ Enter at least one cost. PMI needs the property value (PMI rate: 0-5%, loan-to-value: 1-100%)</Text>
+                    </View>
+                )}
+
+                <View style={styles.row}>
+                    <View style={styles.rowItem}>
+                        <InputField label="Property Tax (per year)" value={draft.annualPropertyTax} onChangeText={(value) => updateDraft("annualPropertyTax", value)} placeholder="e.g., 4800" keyboardType="decimal-pad" />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <InputField label="Insurance (per year)" value={draft.annualInsurance} onChangeText={(value) => updateDraft("annualInsurance", value)} placeholder="e.g., 1500" keyboardType="decimal-pad" />
+                    </View>
+                </View>
+                <InputField label="HOA Dues (per month)" value={draft.monthlyHoa} onChangeText={(value) => updateDraft("monthlyHoa", value)} placeholder="Optional" keyboardType="decimal-pad" />
+
+                <InputField label="Property Value" value={draft.propertyValue} onChangeText={(value) => updateDraft("propertyValue", value)} placeholder="Needed for PMI" keyboardType="decimal-pad" />
+                <View style={styles.row}>
+                    <View style={styles.rowItem}>
+                        <InputField label="PMI Rate (% per year)" value={draft.pmiRate} onChangeText={(value) => updateDraft("pmiRate", value)} placeholder="e.g., 0.5" keyboardType="decimal-pad" />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <InputField label="PMI Ends at LTV (%)" value={draft.pmiCancelLtv} onChangeText={(value) => updateDraft("pmiCancelLtv", value)} placeholder="e.g., 78" keyboardType="decimal-pad" />
+                    </View>
+                </View>
+                <Text style={styles.helperText}>
+                    PMI is a percentage of the original loan amount and stops once the balance falls to the loan-to-value ratio of the property value.
+                </Text>
+
+                <View style={styles.footer}>
+                    <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+                        <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.doneButton, !isValid && styles.doneButtonDisabled]} onPress={saveDraft} disabled={!isValid}>
+                        <Text style={styles.doneButtonText}>Done</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        );
+    }
+
+    if (!escrow) {
+        return (
+            <TouchableOpacity style={styles.emptyCard} onPress={() => setDraft(EMPTY_DRAFT)} activeOpacity={0.7}>
+                <Text style={styles.emptyText}>+ Add Escrow (Taxes, Insurance, PMI)</Text>
+            </TouchableOpacity>
+        );
+    }
+
+    return (
+        <View style={styles.summaryCard}>
+            <View style={styles.summaryText}>
+                <Text style={styles.summaryTitle}>Escrow {getPeriodicEscrow(escrow).toFixed(2)} per month</Text>
+                <Text style={styles.summaryDetail}>
+                    Tax {(escrow.annualPropertyTax || 0).toFixed(0)}/yr • Insurance {(escrow.annualInsurance || 0).toFixed(0)}/yr • HOA {(escrow.monthlyHoa || 0).toFixed(0)}/mo
+                </Text>
+                {escrow.pmiRate ? (
+                    <Text style={styles.summaryDetail}>
+                        PMI {escrow.pmiRate}% until {escrow.pmiCancelLtv ?? 78}% loan-to-value
+                    </Text>
+                ) : null}
+            </View>
+            <View style={styles.summaryActions}>
+                <TouchableOpacity style={styles.smallButton} onPress={() => setDraft(toDraft(escrow))}>
+                    <Text style={styles.smallButtonText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.removeButton} onPress={removeEscrow}>
+                    <Text style={styles.removeButtonText}>✕</Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    validationWarning: {
+        backgroundColor: '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.warning,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+    },
+    validationWarningText: {
+        color: '#856404',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+    rowItem: {
+        flex: 1,
+    },
+    helperText: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.md,
+    },
+    smallButton: {
+        backgroundColor: theme.colors.primary,
+        paddingHorizontal: theme.spacing.md,
+        paddingVertical: theme.spacing.xs,
+        borderRadius: theme.borderRadius.sm,
+    },
+    smallButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    removeButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: '#ffebee',
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    removeButtonText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: theme.spacing.md,
+        marginTop: theme.spacing.md,
+    },
+    cancelButton: {
+        flex: 1,
+        backgroundColor: theme.colors.gray200,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        color: theme.colors.textPrimary,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    doneButton: {
+        flex: 1,
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    doneButtonDisabled: {
+        opacity: 0.5,
+    },
+    doneButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    emptyCard: {
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        alignItems: 'center',
+        marginBottom: theme.spacing.lg,
+    },
+    emptyText: {
+        color: theme.colors.primaryDark,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    summaryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: theme.colors.primaryGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.glassBorderPurple,
+    },
+    summaryText: {
+        flex: 1,
+    },
+    summaryTitle: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: 4,
+    },
+    summaryDetail: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: 2,
+    },
+    summaryActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+});
@@ -0,0 +1,184 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useState, useMemo } from "react";
+import InputField from "./InputField";
+import OptionSelector from "./OptionSelector";
+import { theme } from "../constants/theme";
+import { Currency } from "../utils/storage";
+import { formatCurrency, getCurrencyMinorUnits } from "../utils/currencyUtils";
+import { solveExtraPayment, getLoanStatus, ExtraPaymentSolution, PaymentScheduleParams } from "../utils/loanCalculations";
+import type { EarlyPayment } from "./EarlyPaymentList";
+
+type TargetType = 'payoffDate' | 'interestBudget';
+
+const TARGET_TYPES: { value: TargetType; label: string }[] = [
+    { value: 'payoffDate', label: 'Payoff Date' },
+    { value: 'interestBudget', label: 'Interest Budget' },
+];
+
+type ExtraPaymentSolverProps = {
+    scheduleParams: PaymentScheduleParams; // Current loan, including its early payments and rate changes
+    currency: Currency; // Currency the result is shown in
+    onAddPayment: (payment: EarlyPayment) => void;
+};
+
+export default function ExtraPaymentSolver({ scheduleParams, currency, onAddPayment }: ExtraPaymentSolverProps) {
+    const [targetType, setTargetType] = useState<TargetType>('payoffDate');
+    const [targetValue, setTargetValue] = useState("");
+    const [solution, setSolution] = useState<ExtraPaymentSolution | null>(null);
+    const [error, setError] = useState("");
+
+    // Extra payments start with the loan month of the next payment, from the schedule
+    const startMonth = useMemo(() => Math.max(1, getLoanStatus(scheduleParams).loanMonth), [scheduleParams]);
+    const minorUnits = getCurrencyMinorUnits(currency);
+
+    const changeTargetType = (value: TargetType) => {
+        setTargetType(value);
+        setTargetValue("");
+        setSolution(null);
+        setError("");
+    };
+
+    const solve = () => {
+        setSolution(null);
+        setError("");
+
+        let result: ExtraPaymentSolution | null;
+        if (targetType === 'payoffDate') {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(targetValue)) {
+                setError("Enter the target payoff date as YYYY-MM-DD");
+                return;
+            }
+            const [year, month, day] = targetValue.split('-').map(Number);
+            result = solveExtraPayment(scheduleParams, { type: 'payoffDate', payoffDate: new Date(year, month - 1, day) }, startMonth);
+        } else {
+            const maxInterest = parseFloat(targetValue);
+            if (isNaN(maxInterest) || maxInterest < 0) {
+                setError("Enter the most interest you want to pay");
+                return;
+            }
+            result = solveExtraPayment(scheduleParams, { type: 'interestBudget', maxInterest }, startMonth);
+        }
+
+        if (!result) {
+            setError("This target can't be reached with a monthly extra payment");
+            return;
+        }
+        setSolution(result);
+    };
+
+    const addPayment = () => {
+        if (!solution || solution.amount <= 0) return;
+
+        onAddPayment({
+            id: Date.now().toString(),
+            name: targetType === 'payoffDate' ? `Pay off by ${targetValue}` : 'Interest budget',
+            type: 'recurring',
+            amount: solution.amount.toString(),
+            month: startMonth.toString(),
+            frequency: '1',
+        });
+        setSolution(null);
+        setTargetValue("");
+    };
+
+    return (
+        <View style={styles.container}>
+            <OptionSelector
+                label="Solve For Extra Payment"
+                options={TARGET_TYPES}
+                value={targetType}
+                onChange={changeTargetType}
+                helperText="Finds the monthly extra payment needed, on top of your existing early payments and rate changes"
+            />
+            <InputField
+                label={targetType === 'payoffDate' ? "Target Payoff Date" : "Maximum Total Interest"}
+                value={targetValue}
+                onChangeText={setTargetValue}
+                placeholder={targetType === 'payoffDate' ? "YYYY-MM-DD" : "e.g., 50000"}
+                keyboardType={targetType === 'payoffDate' ? "default" : "decimal-pad"}
+            />
+            <TouchableOpacity style={styles.solveButton} onPress={solve}>
+                <Text style={styles.solveButtonText}>Calculate</Text>
+            </TouchableOpacity>
+
+            {error !== "" && (
+                <Text style={styles.errorText}>{error}</Text>
+            )}
+
+            {solution && (
+                <View style={styles.resultBox}>
+                    {solution.amount > 0 ? (
+                        <>
+                            <Text style={styles.resultAmount}>{formatCurrency(solution.amount, currency, minorUnits)} extra per month</Text>
+                            <Text style={styles.resultDetail}>
+                                Paid off {solution.payoffDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })} • Total interest {formatCurrency(solution.totalInterest, currency, minorUnits)}
+                                {solution.prepaymentPenalties > 0 ? ` • Prepayment penalties ${formatCurrency(solution.prepaymentPenalties, currency, minorUnits)}` : ''}
+                            </Text>
+                            <TouchableOpacity style={styles.addButton} onPress={addPayment}>
+                                <Text style={styles.addButtonText}>+ Add as Recurring Payment</Text>
+                            </TouchableOpacity>
+                        </>
+                    ) : (
+                        <Text style={styles.resultDetail}>You already meet this target with your current payments.</Text>
+                    )}
+                </View>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    solveButton: {
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    solveButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    errorText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.xs,
+        marginTop: theme.spacing.sm,
+        fontWeight: theme.fontWeight.medium,
+    },
+    resultBox: {
+        backgroundColor: theme.colors.successGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.md,
+        marginTop: theme.spacing.md,
+    },
+    resultAmount: {
+        fontSize: theme.fontSize.lg,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.successDark,
+        marginBottom: 4,
+    },
+    resultDetail: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    addButton: {
+        marginTop: theme.spacing.md,
+        backgroundColor: theme.colors.success,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+        alignItems: 'center',
+    },
+    addButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+});
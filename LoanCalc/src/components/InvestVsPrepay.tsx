@@ -0,0 +1,140 @@
+import { View, Text, StyleSheet } from "react-native";
+import { useState, useEffect, useMemo } from "react";
+import InputField from "./InputField";
+import DualLineChart from "./DualLineChart";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import { compareInvestVsPrepay, PaymentScheduleParams } from "../utils/loanCalculations";
+
+type InvestVsPrepayProps = {
+    scheduleParams: PaymentScheduleParams; // Current loan, including the early payments to compare
+};
+
+export default function InvestVsPrepay({ scheduleParams }: InvestVsPrepayProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+    const [annualReturn, setAnnualReturn] = useState("");
+    const [taxDeductionRate, setTaxDeductionRate] = useState("");
+    const [horizonYears, setHorizonYears] = useState("");
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const returnRate = parseFloat(annualReturn);
+    const hasEarlyPayments = (scheduleParams.earlyPayments || []).length > 0;
+    const isValidInput = !isNaN(returnRate) && returnRate > -100 && scheduleParams.principal > 0 && scheduleParams.termInMonths > 0;
+
+    const comparison = useMemo(() => isValidInput && hasEarlyPayments
+        ? compareInvestVsPrepay(scheduleParams, {
+            annualReturn: returnRate,
+            taxDeductionRate: parseFloat(taxDeductionRate) || 0,
+            horizonMonths: (parseFloat(horizonYears) || 0) * 12 || undefined,
+        })
+        : null,
+        [scheduleParams, isValidInput, hasEarlyPayments, returnRate, taxDeductionRate, horizonYears]
+    );
+
+    const years = comparison ? Math.round(comparison.wealth.length / 12 * 10) / 10 : 0;
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.title}>Invest or Prepay?</Text>
+            <Text style={styles.hint}>Compares your early payments with investing the same money instead</Text>
+            <InputField
+                label="Expected Return After Tax (%)"
+                value={annualReturn}
+                onChangeText={setAnnualReturn}
+                placeholder="e.g., 7"
+                keyboardType="decimal-pad"
+            />
+            <InputField
+                label="Interest Tax Deduction Rate (%)"
+                value={taxDeductionRate}
+                onChangeText={setTaxDeductionRate}
+                placeholder="Optional, e.g., 24"
+                keyboardType="decimal-pad"
+            />
+            <InputField
+                label="Horizon (Years)"
+                value={horizonYears}
+                onChangeText={setHorizonYears}
+                placeholder="Defaults to the loan term"
+                keyboardType="decimal-pad"
+            />
+
+            {isValidInput && !hasEarlyPayments && (
+                <Text style={styles.hint}>Add an early payment above to compare it with investing.</Text>
+            )}
+
+            {comparison && (
+                <View style={[styles.resultBox, comparison.advantage < 0 && styles.resultBoxInvest]}>
+                    <Text style={[styles.resultAmount, comparison.advantage < 0 && styles.resultAmountInvest]}>
+                        {comparison.advantage >= 0 ? 'Prepaying' : 'Investing'} comes out {formatCurrency(Math.abs(comparison.advantage), currency, 0)} ahead
+                    </Text>
+                    <Text style={styles.resultDetail}>
+                        After {years} year{years !== 1 ? 's' : ''} • Interest saved by prepaying {formatCurrency(comparison.interestSaved, currency, 0)}
+                    </Text>
+                    <Text style={styles.resultDetail}>
+                        {comparison.crossoverReturn !== null
+                            ? `Investing wins above a ${comparison.crossoverReturn.toFixed(2)}% return`
+                            : 'No return up to 100% changes the answer'}
+                    </Text>
+                </View>
+            )}
+
+            {comparison && comparison.wealth.length > 1 && (
+                <DualLineChart
+                    title="📊 Investments + Loan Paid Down"
+                    data={comparison.wealth.map(point => ({ principal: point.prepay, interest: point.invest }))}
+                    legendLabels={{ principal: "Prepay", interest: "Invest" }}
+                    colors={{ principal: theme.colors.success, interest: theme.colors.primary }}
+                    yAxisFormatter={(value: number) => formatCurrency(value / 1000, currency, 0) + 'k'}
+                />
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    title: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.xs,
+    },
+    hint: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.md,
+    },
+    resultBox: {
+        backgroundColor: theme.colors.successGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.md,
+    },
+    resultBoxInvest: {
+        backgroundColor: theme.colors.gray100,
+    },
+    resultAmount: {
+        fontSize: theme.fontSize.lg,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.successDark,
+        marginBottom: 4,
+    },
+    resultAmountInvest: {
+        color: theme.colors.primary,
+    },
+    resultDetail: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+});
@@ -11,6 +11,8 @@ type LineChartProps = {
     yAxisFormatter?: (value: number) => string; // Function to format Y-axis labels
     showLegend?: boolean; // Whether to show the legend
     legendItems?: Array<{ color: string; label: string }>; // Legend items to display
+    markers?: number[]; // Indexes of data points to mark with a vertical line (e.g., payment steps)
+    markerColor?: string; // Color of the marker lines (defaults to theme warning)
 };
 
 export default function LineChart({ 
@@ -19,10 +21,13 @@ export default function LineChart({
     color = theme.colors.primary, // Default to theme primary color
     yAxisFormatter = (v) => formatCurrency(v, { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' }, 0), // Default: format as dollar amount
     showLegend = false,
-    legendItems = []
+    legendItems = [],
+    markers = [],
+    markerColor = theme.colors.warning
 }: LineChartProps) {
     // Find the highest value in the data to scale the chart
     const maxValue = Math.max(...data.map(d => d.value));
+    const markerIndexes = new Set(markers);
     
     return (
         <View style={styles.container}>
@@ -63,6 +68,10 @@ export default function LineChart({
                         
                         return (
                             <View key={index} style={styles.chartPointContainer}>
+                                {/* Vertical line marking this point */}
+                                {markerIndexes.has(index) && (
+                                    <View style={[styles.marker, { backgroundColor: markerColor }]} />
+                                )}
                                 {/* Dot representing the data point */}
                                 <View 
                                     style={[
@@ -172,6 +181,15 @@ const styles = StyleSheet.create({
         marginLeft: -1.5,
         opacity: 0.8,
     },
+    // Vertical line marking a data point
+    marker: {
+        position: "absolute",
+        top: 0,
+        bottom: 0,
+        width: 1,
+        left: "50%",
+        opacity: 0.6,
+    },
     // Line connecting two data points
     chartLine: {
         position: "absolute",
@@ -0,0 +1,77 @@
+import { Text, View, StyleSheet, TouchableOpacity } from "react-native";
+import { theme } from "../constants/theme";
+
+type OptionSelectorProps<T extends string> = {
+    label: string;
+    options: { value: T; label: string }[];
+    value: T;
+    onChange: (value: T) => void;
+    helperText?: string; // Optional explanation shown under the options
+};
+
+export default function OptionSelector<T extends string>({ label, options, value, onChange, helperText }: OptionSelectorProps<T>) {
+    return (
+        <View style={styles.container}>
+            <Text style={styles.label}>{label}</Text>
+            <View style={styles.toggle}>
+                {options.map(option => (
+                    <TouchableOpacity
+                        key={option.value}
+                        style={[styles.button, value === option.value && styles.buttonActive]}
+                        onPress={() => onChange(option.value)}
+                        activeOpacity={0.7}
+                    >
+                        <Text style={[styles.text, value === option.value && styles.textActive]}>
+                            {option.label}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+            {helperText && (
+                <Text style={styles.helperText}>{helperText}</Text>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        marginBottom: theme.spacing.lg,
+    },
+    label: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        marginBottom: theme.spacing.sm,
+        color: theme.colors.textPrimary,
+    },
+    toggle: {
+        flexDirection: "row",
+        borderRadius: theme.borderRadius.md,
+        overflow: "hidden",
+        backgroundColor: theme.colors.gray100,
+    },
+    button: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: theme.spacing.md,
+        paddingHorizontal: theme.spacing.xs,
+        backgroundColor: 'transparent',
+    },
+    buttonActive: {
+        backgroundColor: theme.colors.primary,
+    },
+    text: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.medium,
+        color: theme.colors.textSecondary,
+    },
+    textActive: {
+        color: theme.colors.textInverse,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    helperText: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: theme.spacing.xs,
+    },
+});
@@ -14,6 +14,15 @@ type PaymentDetailCardProps = {
     interestRate?: number;
     rateChanged?: boolean;
     isCurrentPayment?: boolean;
+    isInterestOnly?: boolean;
+    isBalloon?: boolean;
+    escrow?: number; // Taxes, insurance and HOA collected with the payment
+    pmi?: number;    // Mortgage insurance collected with the payment
+    isDeferred?: boolean;      // Payment paused by a deferral
+    deferredInterest?: number; // Interest accrued while paused
+    isPaymentStep?: boolean;   // Graduated payment steps to a new amount
+    draw?: number;             // Drawn on a credit line this period
+    isCharge?: boolean;        // The draw is a credit card charge
 };
 
 export default function PaymentDetailCard({ 
@@ -25,7 +34,16 @@ export default function PaymentDetailCard({
     balance,
     interestRate,
     rateChanged,
-    isCurrentPayment
+    isCurrentPayment,
+    isInterestOnly,
+    isBalloon,
+    escrow = 0,
+    pmi = 0,
+    isDeferred,
+    deferredInterest = 0,
+    isPaymentStep,
+    draw = 0,
+    isCharge
 }: PaymentDetailCardProps) {
     const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
 
@@ -38,13 +56,48 @@ export default function PaymentDetailCard({
         setCurrency(curr);
     };
     return (
-        <View style={[styles.card, isCurrentPayment && styles.currentCard]}>
+        <View style={[styles.card, (isInterestOnly || isDeferred) && styles.interestOnlyCard, isBalloon && styles.balloonCard, isCurrentPayment && styles.currentCard]}>
             <View style={styles.header}>
                 <Text style={styles.paymentNumber}>
                     {isCurrentPayment && '▶️ '}Payment #{paymentNumber}{isCurrentPayment && ' (Current)'}
                 </Text>
                 <Text style={styles.date}>{date}</Text>
             </View>
+            {isInterestOnly && (
+                <View style={styles.interestOnlyBadge}>
+                    <Text style={styles.interestOnlyText}>
+                        Interest-only payment
+                    </Text>
+                </View>
+            )}
+            {draw > 0 && (
+                <View style={styles.interestOnlyBadge}>
+                    <Text style={styles.interestOnlyText}>
+                        {isCharge ? `🛒 Charged ${formatCurrency(draw, currency)} to the card` : `💳 Drew ${formatCurrency(draw, currency)} from the credit line`}
+                    </Text>
+                </View>
+            )}
+            {isDeferred && (
+                <View style={styles.deferredBadge}>
+                    <Text style={styles.deferredText}>
+                        ⏸️ Payment paused - {formatCurrency(deferredInterest, currency)} interest accrued
+                    </Text>
+                </View>
+            )}
+            {isBalloon && (
+                <View style={styles.balloonBadge}>
+                    <Text style={styles.balloonText}>
+                        🎈 Balloon payment - remaining balance due
+                    </Text>
+                </View>
+            )}
+            {isPaymentStep && (
+                <View style={styles.balloonBadge}>
+                    <Text style={styles.balloonText}>
+                        📈 Graduated payment step - new regular payment
+                    </Text>
+                </View>
+            )}
             {rateChanged && interestRate !== undefined && (
                 <View style={styles.rateChangeBadge}>
                     <Text style={styles.rateChangeText}>
@@ -65,6 +118,24 @@ export default function PaymentDetailCard({
                     <Text style={styles.label}>Interest</Text>
                     <Text style={styles.value}>{formatCurrency(interest, currency)}</Text>
                 </View>
+                {escrow > 0 && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>Escrow</Text>
+                        <Text style={styles.value}>{formatCurrency(escrow, currency)}</Text>
+                    </View>
+                )}
+                {pmi > 0 && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>PMI</Text>
+                        <Text style={styles.value}>{formatCurrency(pmi, currency)}</Text>
+                    </View>
+                )}
+                {(escrow > 0 || pmi > 0) && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>Total With Escrow</Text>
+                        <Text style={styles.value}>{formatCurrency(payment + escrow + pmi, currency)}</Text>
+                    </View>
+                )}
                 {interestRate !== undefined && (
                     <View style={styles.row}>
                         <Text style={styles.label}>Current Rate</Text>
@@ -96,6 +167,50 @@ const styles = StyleSheet.create({
         backgroundColor: theme.colors.surfaceGlass,
         ...theme.shadows.md,
     },
+    interestOnlyCard: {
+        borderStyle: 'dashed',
+        borderColor: theme.colors.gray400,
+    },
+    interestOnlyBadge: {
+        backgroundColor: theme.colors.gray100,
+        borderRadius: theme.borderRadius.sm,
+        padding: 10,
+        marginBottom: theme.spacing.md,
+    },
+    interestOnlyText: {
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textSecondary,
+        textAlign: "center",
+    },
+    deferredBadge: {
+        backgroundColor: '#fff3cd',
+        borderRadius: theme.borderRadius.sm,
+        padding: 10,
+        marginBottom: theme.spacing.md,
+    },
+    deferredText: {
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: '#856404',
+        textAlign: "center",
+    },
+    balloonCard: {
+        borderWidth: 2,
+        borderColor: theme.colors.primaryDark,
+    },
+    balloonBadge: {
+        backgroundColor: theme.colors.primaryGlass,
+        borderRadius: theme.borderRadius.sm,
+        padding: 10,
+        marginBottom: theme.spacing.md,
+    },
+    balloonText: {
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.primaryDark,
+        textAlign: "center",
+    },
     header: {
         flexDirection: "row",
         justifyContent: "space-between",
@@ -0,0 +1,70 @@
+import { useState, useEffect } from "react";
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import type { PaymentStep } from "../utils/loanCalculations";
+
+type PaymentStepsSummaryProps = {
+    steps: PaymentStep[];
+    firstPayment: number; // Regular payment before the first step
+};
+
+export default function PaymentStepsSummary({ steps, firstPayment }: PaymentStepsSummaryProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    if (steps.length === 0) return null;
+
+    return (
+        <View style={styles.card}>
+            <Text style={styles.title}>📈 Payment Steps</Text>
+            <View style={styles.row}>
+                <Text style={styles.label}>Starting payment</Text>
+                <Text style={styles.value}>{formatCurrency(firstPayment, currency)}</Text>
+            </View>
+            {steps.map(step => (
+                <View key={step.paymentNumber} style={styles.row}>
+                    <Text style={styles.label}>Payment #{step.paymentNumber} • {step.date}</Text>
+                    <Text style={styles.value}>{formatCurrency(step.payment, currency)}</Text>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    title: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.sm,
+    },
+    row: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: 4,
+    },
+    label: {
+        flex: 1,
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    value: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+});
@@ -4,17 +4,30 @@ import { useFocusEffect } from "expo-router";
 import { theme } from "../constants/theme";
 import { getCurrencyPreference, Currency } from "../utils/storage";
 import { formatCurrency } from "../utils/currencyUtils";
+import { getPaymentFrequencyLabel, PaymentFrequency, AprCalculation, DiscountedTotals, ValueAdjustment, PaymentRange } from "../utils/loanCalculations";
 
 type PaymentSummaryProps = {
     monthlyPayment: number;
     totalPayment: number;
     loanAmount: string;
     remainingBalance?: number;
+    paymentFrequency?: PaymentFrequency;
+    interestOnlyPayment?: number; // Payment during the interest-only period, if any
+    balloonPayment?: number; // Final balloon payment, if any
+    paymentRange?: PaymentRange | null; // First and last payment, shown when payments fall over the loan
+    apr?: AprCalculation | null; // APR and fees, shown when the loan has fees
+    escrowPayment?: number; // Taxes, insurance and HOA collected with the current payment
+    pmiPayment?: number; // Mortgage insurance collected with the current payment
+    discountedTotals?: DiscountedTotals | null; // Real and present-value totals, shown when their rate is set
+    valueAdjustment?: ValueAdjustment; // Rates behind discountedTotals, for the labels
 };
 
-export default function PaymentSummary({ monthlyPayment, totalPayment, loanAmount, remainingBalance }: PaymentSummaryProps) {
+export default function PaymentSummary({ monthlyPayment, totalPayment, loanAmount, remainingBalance, paymentFrequency = 'monthly', interestOnlyPayment, balloonPayment, paymentRange, apr, escrowPayment = 0, pmiPayment = 0, discountedTotals, valueAdjustment }: PaymentSummaryProps) {
     const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
-    const totalInterest = totalPayment - parseFloat(loanAmount || "0");
+    // Financed fees are repaid as principal, so they are not interest
+    const totalInterest = totalPayment - parseFloat(loanAmount || "0") - (apr?.financedFees ?? 0);
+    const hasFees = !!apr && apr.totalFees > 0;
+    const hasEscrow = escrowPayment > 0 || pmiPayment > 0;
     
     useFocusEffect(
         useCallback(() => {
@@ -31,16 +44,58 @@ export default function PaymentSummary({ monthlyPayment, totalPayment, loanAmoun
         <View style={styles.container}>
             <Text style={styles.title}>💼 Payment Summary</Text>
             
-            {/* Monthly Payment - Primary highlight */}
+            {/* Periodic Payment - Primary highlight */}
             <View style={styles.primaryRow}>
                 <View>
-                    <Text style={styles.primaryLabel}>📆 Monthly Payment</Text>
+                    <Text style={styles.primaryLabel}>📆 {getPaymentFrequencyLabel(paymentFrequency)} Payment</Text>
                     <Text style={styles.primaryValue}>{formatCurrency(monthlyPayment, currency)}</Text>
                 </View>
             </View>
             
             {/* Secondary details */}
             <View style={styles.detailsContainer}>
+                {escrowPayment > 0 && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>🏠 Escrow (tax, insurance, HOA)</Text>
+                        <Text style={styles.value}>{formatCurrency(escrowPayment, currency)}</Text>
+                    </View>
+                )}
+                {pmiPayment > 0 && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>🛡️ PMI</Text>
+                        <Text style={styles.value}>{formatCurrency(pmiPayment, currency)}</Text>
+                    </View>
+                )}
+                {hasEscrow && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>💵 Total With Escrow</Text>
+                        <Text style={[styles.value, { color: theme.colors.primary }]}>{formatCurrency(monthlyPayment + escrowPayment + pmiPayment, currency)}</Text>
+                    </View>
+                )}
+                {interestOnlyPayment !== undefined && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>⏳ Interest-Only Payment</Text>
+                        <Text style={styles.value}>{formatCurrency(interestOnlyPayment, currency)}</Text>
+                    </View>
+                )}
+                {paymentRange && (
+                    <>
+                        <View style={styles.row}>
+                            <Text style={styles.label}>⬆️ First Payment</Text>
+                            <Text style={styles.value}>{formatCurrency(paymentRange.firstPayment, currency)}</Text>
+                        </View>
+                        <View style={styles.row}>
+                            <Text style={styles.label}>⬇️ Last Payment</Text>
+                            <Text style={styles.value}>{formatCurrency(paymentRange.lastPayment, currency)}</Text>
+                        </View>
+                    </>
+                )}
+                {balloonPayment !== undefined && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>🎈 Balloon Payment</Text>
+                        <Text style={[styles.value, styles.interestValue]}>{formatCurrency(balloonPayment, currency)}</Text>
+                    </View>
+                )}
                 <View style={styles.row}>
                     <Text style={styles.label}>💰 Total Amount</Text>
                     <Text style={styles.value}>{formatCurrency(totalPayment, currency)}</Text>
@@ -55,6 +110,42 @@ export default function PaymentSummary({ monthlyPayment, totalPayment, loanAmoun
                     <Text style={styles.label}>📈 Total Interest</Text>
                     <Text style={[styles.value, styles.interestValue]}>{formatCurrency(totalInterest, currency)}</Text>
                 </View>
+                {discountedTotals?.real && (
+                    <>
+                        <View style={styles.row}>
+                            <Text style={styles.label}>🛒 Total in Today's Money ({valueAdjustment?.inflationRate}% inflation)</Text>
+                            <Text style={styles.value}>{formatCurrency(discountedTotals.real.totalPayment, currency)}</Text>
+                        </View>
+                        <View style={styles.row}>
+                            <Text style={styles.label}>🛒 Interest in Today's Money</Text>
+                            <Text style={[styles.value, styles.interestValue]}>{formatCurrency(discountedTotals.real.totalInterest, currency)}</Text>
+                        </View>
+                    </>
+                )}
+                {discountedTotals?.presentValue && (
+                    <>
+                        <View style={styles.row}>
+                            <Text style={styles.label}>🏦 Present Value ({valueAdjustment?.discountRate}% discount)</Text>
+                            <Text style={styles.value}>{formatCurrency(discountedTotals.presentValue.totalPayment, currency)}</Text>
+                        </View>
+                        <View style={styles.row}>
+                            <Text style={styles.label}>🏦 Interest Present Value</Text>
+                            <Text style={[styles.value, styles.interestValue]}>{formatCurrency(discountedTotals.presentValue.totalInterest, currency)}</Text>
+                        </View>
+                    </>
+                )}
+                {hasFees && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>🧾 Total Fees{apr!.financedFees > 0 ? ' (financed)' : ''}</Text>
+                        <Text style={[styles.value, styles.interestValue]}>{formatCurrency(apr!.totalFees, currency)}</Text>
+                    </View>
+                )}
+                {hasFees && (
+                    <View style={styles.row}>
+                        <Text style={styles.label}>🏷️ APR (incl. fees)</Text>
+                        <Text style={styles.value}>{apr!.apr.toFixed(3)}%</Text>
+                    </View>
+                )}
             </View>
         </View>
     );
@@ -100,6 +191,8 @@ const styles = StyleSheet.create({
         alignItems: 'center',
     },
     label: {
+        flexShrink: 1,
+        marginRight: theme.spacing.md,
         fontSize: theme.fontSize.base,
         color: theme.colors.textSecondary,
     },
@@ -0,0 +1,92 @@
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import type { PayoffDebt, PayoffPlan } from "../utils/loanCalculations";
+
+type PayoffTimelineProps = {
+    title: string;
+    plan: PayoffPlan;
+    debts: PayoffDebt[];
+    startDate: Date; // First month of the plan
+};
+
+const BAR_COLORS = ['#4A90E2', '#7ED321', '#F5A623', '#BD10E0', '#4ECDC4', '#FF8B94'];
+
+export default function PayoffTimeline({ title, plan, debts, startDate }: PayoffTimelineProps) {
+    // Month a plan month ends in, for the payoff date labels
+    const getMonthDate = (month: number) => new Date(startDate.getFullYear(), startDate.getMonth() + month - 1, 1);
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.title}>{title}</Text>
+            {plan.debts.map((result, index) => {
+                const debt = debts.find(d => d.id === result.id);
+                const share = plan.months > 0 ? result.payoffMonth / plan.months : 0;
+                return (
+                    <View key={result.id} style={styles.row}>
+                        <View style={styles.labelRow}>
+                            <Text style={styles.name} numberOfLines={1}>{debt?.name || `Loan ${index + 1}`}</Text>
+                            <Text style={styles.date}>
+                                {result.payoffMonth > 0
+                                    ? getMonthDate(result.payoffMonth).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+                                    : 'Paid off'}
+                            </Text>
+                        </View>
+                        <View style={styles.track}>
+                            <View style={[styles.bar, { width: `${Math.max(2, share * 100)}%`, backgroundColor: BAR_COLORS[index % BAR_COLORS.length] }]} />
+                        </View>
+                    </View>
+                );
+            })}
+            <Text style={styles.footnote}>{plan.months} month{plan.months !== 1 ? 's' : ''} until debt-free</Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.background,
+        borderRadius: theme.borderRadius.lg,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    title: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.bold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.md,
+    },
+    row: {
+        marginBottom: theme.spacing.md,
+    },
+    labelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginBottom: 4,
+    },
+    name: {
+        flex: 1,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+    },
+    date: {
+        fontSize: theme.fontSize.sm,
+        color: theme.colors.textSecondary,
+    },
+    track: {
+        height: 10,
+        borderRadius: 5,
+        backgroundColor: theme.colors.gray100,
+        overflow: 'hidden',
+    },
+    bar: {
+        height: 10,
+        borderRadius: 5,
+    },
+    footnote: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+    },
+});
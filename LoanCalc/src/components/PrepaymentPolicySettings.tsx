@@ -0,0 +1,326 @@
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useState, useEffect } from "react";
+import InputField from "./InputField";
+import OptionSelector from "./OptionSelector";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import { getPrepaymentPolicyLabel, PrepaymentAllowanceType, PrepaymentPolicy } from "../utils/loanCalculations";
+
+// Form state for the prepayment policy (strings for form input)
+type PenaltyDraft = {
+    untilYear: string;
+    percent: string;
+};
+
+type PolicyDraft = {
+    allowanceType: PrepaymentAllowanceType;
+    allowance: string;
+    penalties: PenaltyDraft[];
+};
+
+const EMPTY_DRAFT: PolicyDraft = {
+    allowanceType: "percent",
+    allowance: "",
+    penalties: [],
+};
+
+const ALLOWANCE_OPTIONS: { value: PrepaymentAllowanceType; label: string }[] = [
+    { value: "percent", label: "% of Loan" },
+    { value: "amount", label: "Amount" },
+    { value: "none", label: "None" },
+];
+
+const toDraft = (policy: PrepaymentPolicy): PolicyDraft => ({
+    allowanceType: policy.allowanceType,
+    allowance: policy.allowanceType !== "none" ? policy.allowance.toString() : "",
+    penalties: policy.penalties.map(tier => ({ untilYear: tier.untilYear.toString(), percent: tier.percent.toString() })),
+});
+
+// Convert the form to a prepayment policy, or undefined if any field is invalid or nothing is entered
+const toPrepaymentPolicy = (draft: PolicyDraft): PrepaymentPolicy | undefined => {
+    const allowance = draft.allowanceType !== "none" ? parseFloat(draft.allowance) : 0;
+    if (isNaN(allowance) || allowance < 0) return undefined;
+    if (draft.allowanceType === "percent" && allowance > 100) return undefined;
+
+    const penalties = draft.penalties.map(tier => ({ untilYear: parseInt(tier.untilYear), percent: parseFloat(tier.percent) }));
+    if (penalties.some(tier => isNaN(tier.untilYear) || tier.untilYear < 1 || isNaN(tier.percent) || tier.percent < 0 || tier.percent > 100)) return undefined;
+    // Each penalty period ends in a different loan year
+    if (new Set(penalties.map(tier => tier.untilYear)).size !== penalties.length) return undefined;
+    // Without an allowance, there has to be a penalty to apply
+    if (draft.allowanceType === "none" && penalties.length === 0) return undefined;
+
+    return { allowanceType: draft.allowanceType, allowance, penalties: penalties.sort((a, b) => a.untilYear - b.untilYear) };
+};
+
+type PrepaymentPolicySettingsProps = {
+    policy?: PrepaymentPolicy;
+    onPolicyChange: (policy: PrepaymentPolicy | undefined) => void;
+};
+
+export default function PrepaymentPolicySettings({ policy, onPolicyChange }: PrepaymentPolicySettingsProps) {
+    const [draft, setDraft] = useState<PolicyDraft | null>(null);
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    const updatePenalty = (index: number, field: keyof PenaltyDraft, value: string) => {
+        if (draft) {
+            setDraft({ ...draft, penalties: draft.penalties.map((tier, i) => i === index ? { ...tier, [field]: value } : tier) });
+        }
+    };
+
+    const saveDraft = () => {
+        const config = draft && toPrepaymentPolicy(draft);
+        if (config) {
+            onPolicyChange(config);
+            setDraft(null);
+        }
+    };
+
+    const removePolicy = () => {
+        onPolicyChange(undefined);
+        setDraft(null);
+    };
+
+    if (draft) {
+        const isValid = toPrepaymentPolicy(draft) !== undefined;
+
+        return (
+            <View style={styles.container}>
+                {!isValid && (
+                    <View style={styles.validationWarning}>
+                        <Text style={styles.validationWarningText}>⚠️ Enter the yearly allowance or at least one penalty (percentages: 0-100%, one penalty per year)</Text>
+                    </View>
+                )}
+
+                <OptionSelector
+                    label="Penalty-Free Each Year"
+                    options={ALLOWANCE_OPTIONS}
+                    value={draft.allowanceType}
+                    onChange={(allowanceType) => setDraft({ ...draft, allowanceType })}
+                    helperText="A percentage of the original loan amount (e.g. 5% Sondertilgung) or a fixed amount can be prepaid each loan year without a penalty"
+                />
+                {draft.allowanceType !== "none" && (
+                    <InputField
+                        label={draft.allowanceType === "percent" ? "Allowance (% per year)" : "Allowance (per year)"}
+                        value={draft.allowance}
+                        onChangeText={(value) => setDraft({ ...draft, allowance: value })}
+                        placeholder={draft.allowanceType === "percent" ? "e.g., 5" : "e.g., 10000"}
+                        keyboardType="decimal-pad"
+                    />
+                )}
+
+                <Text style={styles.inputLabel}>Penalties</Text>
+                {draft.penalties.map((tier, index) => (
+                    <View key={index} style={styles.row}>
+                        <View style={styles.rowItem}>
+                            <InputField label="Penalty (%)" value={tier.percent} onChangeText={(value) => updatePenalty(index, "percent", value)} placeholder="e.g., 2" keyboardType="decimal-pad" />
+                        </View>
+                        <View style={styles.rowItem}>
+                            <InputField label="Until Year" value={tier.untilYear} onChangeText={(value) => updatePenalty(index, "untilYear", value)} placeholder="e.g., 3" keyboardType="numeric" />
+                        </View>
+                        <TouchableOpacity style={styles.removeButton} onPress={() => setDraft({ ...draft, penalties: draft.penalties.filter((_, i) => i !== index) })}>
+                            <Text style={styles.removeButtonText}>✕</Text>
+                        </TouchableOpacity>
+                    </View>
+                ))}
+                <TouchableOpacity style={styles.addTierButton} onPress={() => setDraft({ ...draft, penalties: [...draft.penalties, { untilYear: "", percent: "" }] })}>
+                    <Text style={styles.addTierText}>+ Add Penalty Period</Text>
+                </TouchableOpacity>
+                <Text style={styles.helperText}>
+                    Early payments above the allowance are charged the penalty of their loan year. Nothing is charged after the last penalty period.
+                </Text>
+
+                <View style={styles.footer}>
+                    <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+                        <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.doneButton, !isValid && styles.doneButtonDisabled]} onPress={saveDraft} disabled={!isValid}>
+                        <Text style={styles.doneButtonText}>Done</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        );
+    }
+
+    if (!policy) {
+        return (
+            <TouchableOpacity style={styles.emptyCard} onPress={() => setDraft(EMPTY_DRAFT)} activeOpacity={0.7}>
+                <Text style={styles.emptyText}>+ Add Prepayment Allowance or Penalty</Text>
+            </TouchableOpacity>
+        );
+    }
+
+    return (
+        <View style={styles.summaryCard}>
+            <View style={styles.summaryText}>
+                <Text style={styles.summaryTitle}>Prepayment Terms</Text>
+                <Text style={styles.summaryDetail}>
+                    {getPrepaymentPolicyLabel(policy, amount => formatCurrency(amount, currency, 0))}
+                </Text>
+            </View>
+            <View style={styles.summaryActions}>
+                <TouchableOpacity style={styles.smallButton} onPress={() => setDraft(toDraft(policy))}>
+                    <Text style={styles.smallButtonText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.removeButton} onPress={removePolicy}>
+                    <Text style={styles.removeButtonText}>✕</Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: theme.colors.gray50,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.gray200,
+    },
+    validationWarning: {
+        backgroundColor: '#fff3cd',
+        borderLeftWidth: 4,
+        borderLeftColor: theme.colors.warning,
+        padding: theme.spacing.md,
+        marginBottom: theme.spacing.md,
+        borderRadius: theme.borderRadius.sm,
+    },
+    validationWarningText: {
+        color: '#856404',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+    },
+    inputLabel: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: theme.spacing.sm,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+    rowItem: {
+        flex: 1,
+    },
+    addTierButton: {
+        paddingVertical: theme.spacing.sm,
+        marginBottom: theme.spacing.sm,
+    },
+    addTierText: {
+        color: theme.colors.primaryDark,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    helperText: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginBottom: theme.spacing.md,
+    },
+    smallButton: {
+        backgroundColor: theme.colors.primary,
+        paddingHorizontal: theme.spacing.md,
+        paddingVertical: theme.spacing.xs,
+        borderRadius: theme.borderRadius.sm,
+    },
+    smallButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    removeButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: '#ffebee',
+        alignItems: "center",
+        justifyContent: "center",
+    },
+    removeButtonText: {
+        color: theme.colors.error,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: theme.spacing.md,
+        marginTop: theme.spacing.md,
+    },
+    cancelButton: {
+        flex: 1,
+        backgroundColor: theme.colors.gray200,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        color: theme.colors.textPrimary,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    doneButton: {
+        flex: 1,
+        backgroundColor: theme.colors.primary,
+        padding: theme.spacing.md,
+        borderRadius: theme.borderRadius.lg,
+        alignItems: 'center',
+    },
+    doneButtonDisabled: {
+        opacity: 0.5,
+    },
+    doneButtonText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    emptyCard: {
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        alignItems: 'center',
+        marginBottom: theme.spacing.lg,
+    },
+    emptyText: {
+        color: theme.colors.primaryDark,
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.semibold,
+    },
+    summaryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: theme.colors.primaryGlass,
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.lg,
+        marginBottom: theme.spacing.lg,
+        borderWidth: 1,
+        borderColor: theme.colors.glassBorderPurple,
+    },
+    summaryText: {
+        flex: 1,
+    },
+    summaryTitle: {
+        fontSize: theme.fontSize.base,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.colors.textPrimary,
+        marginBottom: 4,
+    },
+    summaryDetail: {
+        fontSize: theme.fontSize.xs,
+        color: theme.colors.textSecondary,
+        marginTop: 2,
+    },
+    summaryActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: theme.spacing.sm,
+    },
+});
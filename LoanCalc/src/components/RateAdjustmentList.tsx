@@ -4,6 +4,7 @@ import InputField from "./InputField";
 import DatePicker from "./DatePicker";
 import EditModal from "./EditModal";
 import { theme } from "../constants/theme";
+import type { RateAdjustment as GeneratedRateAdjustment } from "../utils/loanCalculations";
 
 export type RateAdjustment = {
     id: string;
@@ -14,10 +15,10 @@ export type RateAdjustment = {
 };
 
 // Validation helper
-export const isValidRateAdjustment = (adjustment: RateAdjustment, loanTermInMonths: number): boolean => {
-    // Rate must be a valid number between 0-30
+export const isValidRateAdjustment = (adjustment: RateAdjustment, loanTermInMonths: number, maxRate: number = 30): boolean => {
+    // Rate must be a valid number between 0 and maxRate
     const rateNum = parseFloat(adjustment.newRate);
-    if (!adjustment.newRate || isNaN(rateNum) || rateNum < 0 || rateNum > 30) {
+    if (!adjustment.newRate || isNaN(rateNum) || rateNum < 0 || rateNum > maxRate) {
         return false;
     }
     
@@ -36,6 +37,8 @@ type RateAdjustmentListProps = {
     onModalClose?: () => void;
     loanStartDate: Date;
     loanTermInMonths: number;
+    generatedAdjustments?: GeneratedRateAdjustment[]; // Read-only rate changes derived from ARM terms
+    maxRate?: number; // Highest rate accepted, in percent (credit cards allow more than 30%)
 };
 
 export type RateAdjustmentListRef = {
@@ -43,7 +46,7 @@ export type RateAdjustmentListRef = {
 };
 
 const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListProps>(
-    ({ adjustments, onAdjustmentsChange, onModalClose, loanStartDate, loanTermInMonths }, ref) => {
+    ({ adjustments, onAdjustmentsChange, onModalClose, loanStartDate, loanTermInMonths, generatedAdjustments = [], maxRate = 30 }, ref) => {
     const [activeMonthPicker, setActiveMonthPicker] = useState<string | null>(null);
     const [editingAdjustment, setEditingAdjustment] = useState<string | null>(null);
     const [draftAdjustment, setDraftAdjustment] = useState<RateAdjustment | null>(null);
@@ -103,7 +106,7 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
     const closeModal = () => {
         const adjustment = getCurrentAdjustment();
         const isDraft = draftAdjustment && editingAdjustment === draftAdjustment.id;
-        const isValid = adjustment && isValidRateAdjustment(adjustment, loanTermInMonths);
+        const isValid = adjustment && isValidRateAdjustment(adjustment, loanTermInMonths, maxRate);
         
         // If invalid/incomplete, warn user
         if (!isValid && (isDraft || adjustment)) {
@@ -285,7 +288,7 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
             {/* Adjustment cards - click to open modal */}
             {adjustments.map((adjustment, index) => {
                 const isComplete = adjustment.month && adjustment.newRate;
-                const isValid = isValidRateAdjustment(adjustment, loanTermInMonths);
+                const isValid = isValidRateAdjustment(adjustment, loanTermInMonths, maxRate);
                 
                 return (
                 <TouchableOpacity
@@ -311,11 +314,26 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
                 );
             })}
 
+            {/* Generated ARM resets - read-only, edited through the ARM terms */}
+            {generatedAdjustments.map(adjustment => (
+                <View key={`arm-${adjustment.month}`} style={[styles.adjustmentCard, styles.generatedCard]}>
+                    <View style={styles.cardHeaderLeft}>
+                        <Text style={styles.adjustmentNumber}>ARM Reset</Text>
+                        <Text style={styles.adjustmentSummary}>
+                            {adjustment.newRate}% • {getMonthDisplay(adjustment.month.toString(), { id: '', month: adjustment.month.toString(), newRate: adjustment.newRate.toString(), date: adjustment.date })}
+                        </Text>
+                    </View>
+                    <View style={styles.generatedBadge}>
+                        <Text style={styles.generatedBadgeText}>Index + margin</Text>
+                    </View>
+                </View>
+            ))}
+
             {/* Edit Adjustment Modal */}
             {editingAdjustment && (() => {
                 const adjustment = getCurrentAdjustment();
                 if (!adjustment) return null;
-                const isValid = isValidRateAdjustment(adjustment, loanTermInMonths);
+                const isValid = isValidRateAdjustment(adjustment, loanTermInMonths, maxRate);
                 
                 return (
                     <EditModal
@@ -360,7 +378,7 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
                         <>
                                     {!isValid && (
                                         <View style={styles.validationWarning}>
-                                            <Text style={styles.validationWarningText}>⚠️ Please complete all required fields with valid values (Rate: 0-30%, Month: 2+)</Text>
+                                            <Text style={styles.validationWarningText}>⚠️ Please complete all required fields with valid values (Rate: 0-{maxRate}%, Month: 2+)</Text>
                                         </View>
                                     )}
                                     
@@ -445,6 +463,22 @@ const styles = StyleSheet.create({
         justifyContent: 'space-between',
         alignItems: 'center',
     },
+    generatedCard: {
+        borderStyle: 'dashed',
+        borderColor: theme.colors.primaryLight,
+        backgroundColor: theme.colors.primaryGlass,
+    },
+    generatedBadge: {
+        backgroundColor: theme.colors.primary,
+        paddingHorizontal: theme.spacing.sm,
+        paddingVertical: 2,
+        borderRadius: theme.borderRadius.sm,
+    },
+    generatedBadgeText: {
+        color: theme.colors.textInverse,
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+    },
     adjustmentCardInvalid: {
         borderWidth: 2,
         borderColor: theme.colors.error,
@@ -4,6 +4,7 @@ import { useState, forwardRef, useImperativeHandle, useEffect } from "react";
 import { createPortal } from "react-dom";
 import { theme } from "../constants/theme";
 import { useTheme } from "../contexts/ThemeContext.web";
+import type { RateAdjustment as GeneratedRateAdjustment } from "../utils/loanCalculations";
 
 export type RateAdjustment = {
     id: string;
@@ -13,9 +14,9 @@ export type RateAdjustment = {
     newRate: string;
 };
 
-export const isValidRateAdjustment = (adjustment: RateAdjustment, loanTermInMonths: number): boolean => {
+export const isValidRateAdjustment = (adjustment: RateAdjustment, loanTermInMonths: number, maxRate: number = 30): boolean => {
     const rateNum = parseFloat(adjustment.newRate);
-    if (!adjustment.newRate || isNaN(rateNum) || rateNum < 0 || rateNum > 30) {
+    if (!adjustment.newRate || isNaN(rateNum) || rateNum < 0 || rateNum > maxRate) {
         return false;
     }
     
@@ -33,6 +34,8 @@ type RateAdjustmentListProps = {
     onModalClose?: () => void;
     loanStartDate: Date;
     loanTermInMonths: number;
+    generatedAdjustments?: GeneratedRateAdjustment[]; // Read-only rate changes derived from ARM terms
+    maxRate?: number; // Highest rate accepted, in percent (credit cards allow more than 30%)
 };
 
 export type RateAdjustmentListRef = {
@@ -40,7 +43,7 @@ export type RateAdjustmentListRef = {
 };
 
 const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListProps>(
-    ({ adjustments, onAdjustmentsChange, onModalClose, loanStartDate, loanTermInMonths }, ref) => {
+    ({ adjustments, onAdjustmentsChange, onModalClose, loanStartDate, loanTermInMonths, generatedAdjustments = [], maxRate = 30 }, ref) => {
     const [editingAdjustment, setEditingAdjustment] = useState<string | null>(null);
     const [draftAdjustment, setDraftAdjustment] = useState<RateAdjustment | null>(null);
     const { colors, mode } = useTheme();
@@ -108,7 +111,7 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
     const closeModal = () => {
         const adjustment = getCurrentAdjustment();
         const isDraft = draftAdjustment && editingAdjustment === draftAdjustment.id;
-        const isValid = adjustment && isValidRateAdjustment(adjustment, loanTermInMonths);
+        const isValid = adjustment && isValidRateAdjustment(adjustment, loanTermInMonths, maxRate);
         
         if (!isValid && (isDraft || adjustment)) {
             if (typeof window !== 'undefined' && !window.confirm('This rate adjustment is incomplete or invalid and will not be saved. Close anyway?')) {
@@ -261,7 +264,7 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
     return (
         <View style={styles.container}>
             <View style={styles.list}>
-                {adjustments.length === 0 ? (
+                {adjustments.length === 0 && generatedAdjustments.length === 0 ? (
                     <View style={styles.emptyState}>
                         <Text style={styles.emptyStateText}>No rate adjustments added yet</Text>
                     </View>
@@ -289,6 +292,23 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
                         </View>
                     ))
                 )}
+
+                {/* Generated ARM resets - read-only, edited through the ARM terms */}
+                {generatedAdjustments.map(adjustment => (
+                    <View key={`arm-${adjustment.month}`} style={[styles.adjustmentCard, styles.generatedCard]}>
+                        <View style={styles.adjustmentHeader}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.adjustmentName}>ARM Reset</Text>
+                                <Text style={styles.adjustmentDetails}>
+                                    {adjustment.newRate.toFixed(2)}% APR • {getMonthDisplay(adjustment.month.toString())}
+                                </Text>
+                            </View>
+                            <View style={styles.generatedBadge}>
+                                <Text style={styles.generatedBadgeText}>Index + margin</Text>
+                            </View>
+                        </View>
+                    </View>
+                ))}
             </View>
 
             <TouchableOpacity style={styles.addButton} onPress={addAdjustment}>
@@ -455,18 +475,18 @@ const RateAdjustmentList = forwardRef<RateAdjustmentListRef, RateAdjustmentListP
                             </button>
                             <button
                                 onClick={closeModal}
-                                disabled={!isValidRateAdjustment(draftAdjustment, loanTermInMonths)}
+                                disabled={!isValidRateAdjustment(draftAdjustment, loanTermInMonths, maxRate)}
                                 style={{
                                     padding: '10px 20px',
                                     borderRadius: 8,
                                     border: 'none',
-                                    backgroundColor: isValidRateAdjustment(draftAdjustment, loanTermInMonths) ? colors.primary : colors.border,
+                                    backgroundColor: isValidRateAdjustment(draftAdjustment, loanTermInMonths, maxRate) ? colors.primary : colors.border,
                                     color: 'white',
-                                    cursor: isValidRateAdjustment(draftAdjustment, loanTermInMonths) ? 'pointer' : 'not-allowed',
+                                    cursor: isValidRateAdjustment(draftAdjustment, loanTermInMonths, maxRate) ? 'pointer' : 'not-allowed',
                                     fontSize: 14,
                                     fontWeight: '600',
                                     fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
-                                    opacity: isValidRateAdjustment(draftAdjustment, loanTermInMonths) ? 1 : 0.5,
+                                    opacity: isValidRateAdjustment(draftAdjustment, loanTermInMonths, maxRate) ? 1 : 0.5,
                                 }}
                             >
                                 Save
@@ -508,6 +528,22 @@ const createStyles = (colors: any, mode: string) => StyleSheet.create({
         borderColor: colors.border,
         marginBottom: 8,
     },
+    generatedCard: {
+        borderStyle: 'dashed',
+        borderColor: colors.primary,
+        backgroundColor: mode === 'dark' ? 'rgba(139, 123, 196, 0.1)' : 'rgba(139, 123, 196, 0.08)',
+    },
+    generatedBadge: {
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        borderRadius: 6,
+        backgroundColor: colors.primary,
+    },
+    generatedBadgeText: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#FFFFFF',
+    },
     adjustmentHeader: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -0,0 +1,58 @@
+import { useState, useEffect } from "react";
+import { Text, View, StyleSheet } from "react-native";
+import { theme } from "../constants/theme";
+import { getCurrencyPreference, Currency } from "../utils/storage";
+import { formatCurrency } from "../utils/currencyUtils";
+import { describeScheduleDiagnostic, ScheduleDiagnostic } from "../utils/loanCalculations";
+
+type ScheduleWarningsProps = {
+    diagnostics: ScheduleDiagnostic[];
+};
+
+export default function ScheduleWarnings({ diagnostics }: ScheduleWarningsProps) {
+    const [currency, setCurrency] = useState<Currency>({ code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' });
+
+    useEffect(() => {
+        getCurrencyPreference().then(setCurrency);
+    }, []);
+
+    if (diagnostics.length === 0) return null;
+
+    return (
+        <View style={styles.container}>
+            {diagnostics.map(diagnostic => (
+                <View key={diagnostic.type} style={[styles.warning, diagnostic.severity === 'error' && styles.error]}>
+                    <Text style={[styles.text, diagnostic.severity === 'error' && styles.errorText]}>
+                        ⚠️ {describeScheduleDiagnostic(diagnostic, amount => formatCurrency(amount, currency))}
+                    </Text>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        marginBottom: theme.spacing.lg,
+        gap: theme.spacing.sm,
+    },
+    warning: {
+        backgroundColor: '#fff3cd',
+        borderRadius: theme.borderRadius.md,
+        padding: theme.spacing.md,
+        borderWidth: 1,
+        borderColor: theme.colors.warning,
+    },
+    error: {
+        backgroundColor: '#fdecea',
+        borderColor: theme.colors.error,
+    },
+    text: {
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.medium,
+        color: '#856404',
+    },
+    errorText: {
+        color: theme.colors.error,
+    },
+});
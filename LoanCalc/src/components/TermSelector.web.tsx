@@ -1,17 +1,20 @@
 import { Text, View, TextInput, StyleSheet, TouchableOpacity } from "react-native";
 import { useState, useEffect } from "react";
 import { theme } from "../constants/theme";
+import { PAYMENT_FREQUENCIES, PaymentFrequency } from "../utils/loanCalculations";
 
 type TermSelectorProps = {
     term: string;
     termUnit: "months" | "years";
     onTermChange: (text: string) => void;
     onTermUnitChange: (unit: "months" | "years") => void;
+    paymentFrequency?: PaymentFrequency;
+    onPaymentFrequencyChange?: (frequency: PaymentFrequency) => void;
     error?: boolean;
     errorMessage?: string;
 };
 
-export default function TermSelector({ term, termUnit, onTermChange, onTermUnitChange, error = false, errorMessage }: TermSelectorProps) {
+export default function TermSelector({ term, termUnit, onTermChange, onTermUnitChange, paymentFrequency, onPaymentFrequencyChange, error = false, errorMessage }: TermSelectorProps) {
     const [isFocused, setIsFocused] = useState(false);
     
     // Always use column layout on web to prevent overflow
@@ -61,6 +64,25 @@ export default function TermSelector({ term, termUnit, onTermChange, onTermUnitC
             {error && errorMessage && (
                 <Text style={styles.errorText}>{errorMessage}</Text>
             )}
+            {paymentFrequency && onPaymentFrequencyChange && (
+                <>
+                    <Text style={[styles.label, styles.frequencyLabel]}>🔁 Payment Frequency</Text>
+                    <View style={styles.frequencyToggle}>
+                        {PAYMENT_FREQUENCIES.map(({ value, label }) => (
+                            <TouchableOpacity
+                                key={value}
+                                style={[styles.frequencyButton, paymentFrequency === value && styles.toggleButtonActive]}
+                                onPress={() => onPaymentFrequencyChange(value)}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.toggleText, paymentFrequency === value && styles.toggleTextActive]}>
+                                    {label}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </>
+            )}
         </View>
     );
 }
@@ -131,6 +153,22 @@ const styles = StyleSheet.create({
         color: theme.colors.textInverse,
         fontWeight: theme.fontWeight.semibold,
     },
+    frequencyLabel: {
+        marginTop: theme.spacing.md,
+    },
+    frequencyToggle: {
+        flexDirection: "row",
+        borderRadius: theme.borderRadius.md,
+        overflow: "hidden",
+        backgroundColor: theme.colors.gray100,
+    },
+    frequencyButton: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: theme.spacing.md,
+        paddingHorizontal: theme.spacing.xs,
+        backgroundColor: 'transparent',
+    },
     inputError: {
         borderColor: theme.colors.error,
         borderWidth: 2,
@@ -1,6 +1,39 @@
 import { 
     calculatePayment, 
     generatePaymentSchedule, 
+    calculateSavings,
+    getMonthForPayment,
+    getYearFraction,
+    getScheduleTotals,
+    roundToMinorUnit,
+    generateArmRateAdjustments,
+    solveExtraPayment,
+    calculateMaxPrincipal,
+    calculateApr,
+    calculateIrr,
+    getPeriodicEscrow,
+    calculateDeferralCost,
+    generatePaymentScheduleWithDiagnostics,
+    calculateRefinance,
+    simulateDebtPayoff,
+    getPayoffPlanEarlyPayments,
+    compareInvestVsPrepay,
+    calculateNpv,
+    getDiscountedTotals,
+    getLoanStatus,
+    getLoanScheduleParams,
+    getPeriodicRate,
+    getPaymentRange,
+    getUnearnedInterest,
+    calculateEarlyPayoff,
+    getPaymentSteps,
+    getGraduatedPaymentLabel,
+    getCreditLineStatus,
+    compareCreditCardPayoff,
+    getPrepaymentAllowanceUsage,
+    getPrepaymentPolicyLabel,
+    getRefinancedScheduleOptions,
+    ArmConfig,
     RateAdjustment 
 } from '../loanCalculations';
 
@@ -252,4 +285,1358 @@ describe('Loan Calculations', () => {
             });
         });
     });
+
+    describe('Payment Frequency', () => {
+        test('250k loan at 8% for 15 years paid bi-weekly = $1,101.65/payment', () => {
+            const result = calculatePayment({
+                principal: 250000,
+                annualRate: 8,
+                termInMonths: 180,
+                paymentFrequency: 'biweekly'
+            });
+            
+            expect(result.monthlyPayment).toBeCloseTo(1101.65, 2);
+            expect(result.totalPayment).toBeCloseTo(result.monthlyPayment * 390, 2);
+        });
+
+        test('Monthly frequency matches the default calculation', () => {
+            const defaultResult = calculatePayment({ principal: 250000, annualRate: 8, termInMonths: 180 });
+            const monthlyResult = calculatePayment({ principal: 250000, annualRate: 8, termInMonths: 180, paymentFrequency: 'monthly' });
+            
+            expect(monthlyResult.monthlyPayment).toBeCloseTo(defaultResult.monthlyPayment, 10);
+        });
+
+        test('Weekly schedule has 52 payments per year and pays off the loan', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 250000,
+                annualRate: 8,
+                termInMonths: 180,
+                startDate: new Date(2024, 0, 1),
+                paymentFrequency: 'weekly'
+            });
+            
+            expect(schedule.length).toBe(780);
+            expect(schedule[0].payment).toBeCloseTo(550.61, 2);
+            expect(schedule[schedule.length - 1].balance).toBeCloseTo(0, 2);
+        });
+
+        test('Bi-weekly payments are 14 days apart', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1),
+                paymentFrequency: 'biweekly'
+            });
+            
+            expect(schedule[0].date).toBe('Jan 1, 2024');
+            expect(schedule[1].date).toBe('Jan 15, 2024');
+            expect(schedule[2].date).toBe('Jan 29, 2024');
+        });
+
+        test('Semi-monthly payments fall twice a month', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1),
+                paymentFrequency: 'semi-monthly'
+            });
+            
+            expect(schedule.length).toBe(120);
+            expect(schedule[0].date).toBe('Jan 1, 2024');
+            expect(schedule[1].date).toBe('Jan 16, 2024');
+            expect(schedule[2].date).toBe('Feb 1, 2024');
+        });
+
+        test('Month-based early payment applies once, on the first payment of its month', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1),
+                paymentFrequency: 'weekly',
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '5000', month: '2' }]
+            });
+            
+            const paymentsWithExtra = schedule.filter(p => p.payment > schedule[0].payment + 1);
+            expect(paymentsWithExtra.length).toBe(1);
+            expect(getMonthForPayment(paymentsWithExtra[0].paymentNumber, 'weekly')).toBe(2);
+            expect(getMonthForPayment(paymentsWithExtra[0].paymentNumber - 1, 'weekly')).toBe(1);
+        });
+
+        test('Time saved is reported in months for non-monthly loans', () => {
+            const savings = calculateSavings({
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1),
+                paymentFrequency: 'biweekly',
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '20000', month: '1' }]
+            });
+            
+            expect(savings.interestSaved).toBeGreaterThan(0);
+            // Paying 20% of the principal up front should save roughly a year on a 5-year loan
+            expect(savings.periodDecrease).toBeGreaterThanOrEqual(9);
+            expect(savings.periodDecrease).toBeLessThanOrEqual(15);
+        });
+    });
+
+    describe('Interest-Only Period', () => {
+        test('Interest-only payments cover interest only and leave the balance untouched', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 360,
+                startDate: new Date(2024, 0, 1),
+                interestOnlyMonths: 60
+            });
+            
+            expect(schedule.length).toBe(360);
+            for (let i = 0; i < 60; i++) {
+                expect(schedule[i].isInterestOnly).toBe(true);
+                expect(schedule[i].principal).toBe(0);
+                expect(schedule[i].payment).toBeCloseTo(1000, 2);
+                expect(schedule[i].balance).toBeCloseTo(200000, 2);
+            }
+            expect(schedule[60].isInterestOnly).toBe(false);
+            expect(schedule[schedule.length - 1].balance).toBeCloseTo(0, 2);
+        });
+
+        test('Amortizing payment is spread over the remaining term', () => {
+            const result = calculatePayment({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 360,
+                interestOnlyMonths: 60
+            });
+            const amortizing = calculatePayment({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 300
+            });
+            const schedule = generatePaymentSchedule({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 360,
+                startDate: new Date(2024, 0, 1),
+                interestOnlyMonths: 60
+            });
+            
+            expect(result.monthlyPayment).toBeCloseTo(amortizing.monthlyPayment, 2);
+            expect(result.totalPayment).toBeCloseTo(amortizing.totalPayment + 60000, 0);
+            expect(schedule[60].payment).toBeCloseTo(amortizing.monthlyPayment, 2);
+        });
+
+        test('Savings report the interest paid during the interest-only phase', () => {
+            const savings = calculateSavings({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 360,
+                startDate: new Date(2024, 0, 1),
+                interestOnlyMonths: 12,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '10000', month: '24' }]
+            });
+            
+            expect(savings.interestOnlyInterest).toBeCloseTo(12000, 0);
+            expect(savings.interestSaved).toBeGreaterThan(0);
+        });
+
+        test('Interest-only period is clamped to leave at least one amortizing payment', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 10000,
+                annualRate: 6,
+                termInMonths: 12,
+                startDate: new Date(2024, 0, 1),
+                interestOnlyMonths: 24
+            });
+            
+            expect(schedule.length).toBe(12);
+            expect(schedule.filter(p => p.isInterestOnly).length).toBe(11);
+            expect(schedule[11].balance).toBeCloseTo(0, 2);
+        });
+    });
+
+    describe('Balloon Payments', () => {
+        test('Payment follows the amortization period and the last payment carries the balance', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 84,
+                startDate: new Date(2024, 0, 1),
+                amortizationMonths: 360
+            });
+            const thirtyYear = calculatePayment({ principal: 200000, annualRate: 6, termInMonths: 360 });
+            
+            expect(schedule.length).toBe(84);
+            expect(schedule[0].payment).toBeCloseTo(thirtyYear.monthlyPayment, 2);
+            expect(schedule.filter(p => p.isBalloon).length).toBe(1);
+            
+            const balloon = schedule[83];
+            expect(balloon.isBalloon).toBe(true);
+            expect(balloon.balance).toBe(0);
+            expect(balloon.principal).toBeCloseTo(schedule[82].balance, 2);
+            expect(balloon.payment).toBeCloseTo(balloon.principal + balloon.interest, 2);
+        });
+
+        test('calculatePayment reports the balloon and includes it in the total', () => {
+            const result = calculatePayment({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 84,
+                amortizationMonths: 360
+            });
+            const schedule = generatePaymentSchedule({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 84,
+                startDate: new Date(2024, 0, 1),
+                amortizationMonths: 360
+            });
+            const scheduleTotal = schedule.reduce((sum, p) => sum + p.payment, 0);
+            
+            // The schedule works in whole cents, so allow for rounding over 84 payments
+            expect(result.balloonPayment).toBeCloseTo(schedule[83].payment, 0);
+            expect(result.totalPayment).toBeCloseTo(scheduleTotal, 0);
+        });
+
+        test('Amortization period no longer than the term has no balloon', () => {
+            const result = calculatePayment({
+                principal: 100000,
+                annualRate: 5,
+                termInMonths: 120,
+                amortizationMonths: 120
+            });
+            const schedule = generatePaymentSchedule({
+                principal: 100000,
+                annualRate: 5,
+                termInMonths: 120,
+                startDate: new Date(2024, 0, 1),
+                amortizationMonths: 60
+            });
+            
+            expect(result.balloonPayment).toBe(0);
+            expect(schedule.length).toBe(120);
+            expect(schedule.some(p => p.isBalloon)).toBe(false);
+        });
+
+        test('Early payments shrink the balloon', () => {
+            const savings = calculateSavings({
+                principal: 200000,
+                annualRate: 6,
+                termInMonths: 84,
+                startDate: new Date(2024, 0, 1),
+                amortizationMonths: 360,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '20000', month: '12' }]
+            });
+            
+            expect(savings.interestSaved).toBeGreaterThan(0);
+            expect(savings.balloonPayment).toBeGreaterThan(0);
+            expect(savings.balloonReduction).toBeGreaterThan(20000);
+        });
+    });
+
+    describe('Day-Count Conventions', () => {
+        test('Year fractions follow each convention', () => {
+            const jan1 = new Date(2024, 0, 1);
+            const feb1 = new Date(2024, 1, 1);
+            
+            expect(getYearFraction(jan1, feb1, 'actual/365')).toBeCloseTo(31 / 365, 10);
+            expect(getYearFraction(jan1, feb1, 'actual/360')).toBeCloseTo(31 / 360, 10);
+            expect(getYearFraction(jan1, feb1, '30/360')).toBeCloseTo(30 / 360, 10);
+            expect(getYearFraction(new Date(2024, 0, 31), new Date(2024, 2, 31), '30/360')).toBeCloseTo(60 / 360, 10);
+        });
+
+        test('Actual/365 accrues interest over the days since the previous payment', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1),
+                dayCountConvention: 'actual/365'
+            });
+            
+            // Dec 1 -> Jan 1 is 31 days, Jan 1 -> Feb 1 is 31 days, Feb 1 -> Mar 1 is 29 days (leap year)
+            expect(schedule[0].interest).toBeCloseTo(100000 * 0.06 * 31 / 365, 2);
+            expect(schedule[2].interest).toBeCloseTo(schedule[1].balance * 0.06 * 29 / 365, 2);
+        });
+
+        test('Day-count schedules still pay off the loan on the final payment', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1),
+                dayCountConvention: 'actual/360'
+            });
+            const totalPrincipal = schedule.reduce((sum, p) => sum + p.principal, 0);
+            
+            expect(schedule.length).toBe(60);
+            expect(schedule[59].balance).toBe(0);
+            expect(totalPrincipal).toBeCloseTo(100000, 2);
+        });
+
+        test('30/360 matches the standard monthly calculation', () => {
+            const params = {
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1)
+            };
+            const standard = generatePaymentSchedule(params);
+            const thirty360 = generatePaymentSchedule({ ...params, dayCountConvention: '30/360' });
+            
+            expect(thirty360.length).toBe(standard.length);
+            expect(thirty360[10].interest).toBeCloseTo(standard[10].interest, 2);
+        });
+
+        test('Dated early payments reduce interest from their date', () => {
+            const params = {
+                principal: 100000,
+                annualRate: 6,
+                termInMonths: 60,
+                startDate: new Date(2024, 0, 1),
+                dayCountConvention: 'actual/365' as const
+            };
+            const noExtra = generatePaymentSchedule(params);
+            const midMonth = generatePaymentSchedule({
+                ...params,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '10000', month: '3', date: '2024-03-16' }]
+            });
+            
+            // Payment #4 (Apr 1) accrues from Mar 1; the extra payment only counts from Mar 16
+            const expected = (noExtra[2].balance - 10000) * 0.06 * 31 / 365 + 10000 * 0.06 * 15 / 365;
+            expect(midMonth[2].interest).toBeCloseTo(noExtra[2].interest, 2);
+            expect(midMonth[3].interest).toBeCloseTo(expected, 2);
+            expect(midMonth[3].payment).toBeCloseTo(noExtra[3].payment + 10000, 2);
+        });
+    });
+
+    describe('Minor Unit Rounding', () => {
+        test('Rounding modes', () => {
+            expect(roundToMinorUnit(1.005)).toBe(1.01);
+            expect(roundToMinorUnit(2.345, 2, 'half-even')).toBe(2.34);
+            expect(roundToMinorUnit(2.355, 2, 'half-even')).toBe(2.36);
+            expect(roundToMinorUnit(2.349, 2, 'down')).toBe(2.34);
+            expect(roundToMinorUnit(2.341, 2, 'up')).toBe(2.35);
+            expect(roundToMinorUnit(-2.345)).toBe(-2.35);
+            expect(roundToMinorUnit(1234.5, 0)).toBe(1235);
+        });
+
+        test('Every amount is in whole cents and principal adds up to the loan amount', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 123456.78,
+                annualRate: 7.25,
+                termInMonths: 180,
+                startDate: new Date(2024, 0, 1),
+                earlyPayments: [{ id: '1', type: 'recurring', amount: '333.33', month: '3', frequency: '2' }],
+                rateAdjustments: [{ month: 40, newRate: 5.125 }]
+            });
+            const totals = getScheduleTotals(schedule);
+            const isWholeCents = (amount: number) => Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6;
+            
+            schedule.forEach(payment => {
+                expect(isWholeCents(payment.payment)).toBe(true);
+                expect(isWholeCents(payment.principal)).toBe(true);
+                expect(isWholeCents(payment.interest)).toBe(true);
+                expect(payment.payment).toBeCloseTo(payment.principal + payment.interest, 10);
+            });
+            expect(totals.totalPrincipal).toBe(123456.78);
+            expect(totals.totalPayment).toBe(roundToMinorUnit(totals.totalPrincipal + totals.totalInterest));
+            expect(schedule[schedule.length - 1].balance).toBe(0);
+        });
+
+        test('Final payment absorbs the rounding difference', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 10000,
+                annualRate: 5,
+                termInMonths: 36,
+                startDate: new Date(2024, 0, 1),
+                roundingMode: 'down'
+            });
+            const regular = schedule[0].payment;
+            const last = schedule[schedule.length - 1];
+            
+            expect(schedule.length).toBe(36);
+            expect(last.payment).not.toBe(regular);
+            expect(Math.abs(last.payment - regular)).toBeLessThan(1);
+            expect(getScheduleTotals(schedule).totalPrincipal).toBe(10000);
+        });
+
+        test('Currencies without minor units round to whole amounts', () => {
+            const schedule = generatePaymentSchedule({
+                principal: 3000000,
+                annualRate: 1.5,
+                termInMonths: 120,
+                startDate: new Date(2024, 0, 1),
+                minorUnits: 0
+            });
+            
+            schedule.forEach(payment => {
+                expect(Number.isInteger(payment.payment)).toBe(true);
+                expect(Number.isInteger(payment.interest)).toBe(true);
+            });
+            expect(getScheduleTotals(schedule, 0).totalPrincipal).toBe(3000000);
+        });
+    });
+
+    describe('Early Payment Strategy', () => {
+        const baseParams = {
+            principal: 200000,
+            annualRate: 6,
+            termInMonths: 360,
+            startDate: new Date(2024, 0, 1)
+        };
+
+        test('Reduce-term payments keep the payment and shorten the loan', () => {
+            const schedule = generatePaymentSchedule({
+                ...baseParams,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '20000', month: '12', strategy: 'reduceTerm' }]
+            });
+            const savings = calculateSavings({
+                ...baseParams,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '20000', month: '12', strategy: 'reduceTerm' }]
+            });
+            
+            expect(schedule.length).toBeLessThan(360);
+            expect(schedule[20].payment).toBe(schedule[0].payment);
+            expect(savings.periodDecrease).toBeGreaterThan(0);
+            expect(savings.paymentReduction).toBe(0);
+        });
+
+        test('Reduce-payment payments keep the term and lower the payment', () => {
+            const earlyPayments = [{ id: '1', type: 'one-time' as const, amount: '20000', month: '12', strategy: 'reducePayment' as const }];
+            const schedule = generatePaymentSchedule({ ...baseParams, earlyPayments });
+            const savings = calculateSavings({ ...baseParams, earlyPayments });
+            
+            // Balance after the early payment spread over the 349 remaining payments
+            const balanceBefore = schedule[10].balance;
+            const expectedPayment = roundToMinorUnit(calculatePayment({
+                principal: balanceBefore - 20000,
+                annualRate: 6,
+                termInMonths: 349
+            }).monthlyPayment);
+            
+            expect(schedule.length).toBe(360);
+            expect(schedule[11].earlyPayment).toBe(20000);
+            expect(schedule[12].payment).toBe(expectedPayment);
+            expect(savings.periodDecrease).toBe(0);
+            expect(savings.paymentReduction).toBeCloseTo(schedule[0].payment - expectedPayment, 2);
+            expect(savings.interestSaved).toBeGreaterThan(0);
+        });
+
+        test('Shortening the term saves more interest than recasting', () => {
+            const reduceTerm = calculateSavings({
+                ...baseParams,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '20000', month: '12' }]
+            });
+            const reducePayment = calculateSavings({
+                ...baseParams,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '20000', month: '12', strategy: 'reducePayment' }]
+            });
+            
+            expect(reduceTerm.interestSaved).toBeGreaterThan(reducePayment.interestSaved);
+        });
+    });
+
+    describe('Adjustable-Rate Mortgages', () => {
+        const startDate = new Date(2024, 0, 1);
+        const fiveOneArm: ArmConfig = {
+            initialFixedMonths: 60,
+            adjustmentIntervalMonths: 12,
+            margin: 2.75,
+            initialCap: 2,
+            periodicCap: 2,
+            lifetimeCap: 5,
+            indexRates: [{ date: '2024-01-01', rate: 6 }]
+        };
+
+        test('First reset is limited by the initial cap, later resets by the periodic cap', () => {
+            const adjustments = generateArmRateAdjustments(fiveOneArm, 6, 360, startDate);
+            
+            expect(adjustments).toEqual([
+                { month: 61, newRate: 8, date: '2029-01-01', isGenerated: true },
+                { month: 73, newRate: 8.75, date: '2030-01-01', isGenerated: true }
+            ]);
+        });
+
+        test('Rate stays within the lifetime cap and floor', () => {
+            const rising = generateArmRateAdjustments({ ...fiveOneArm, indexRates: [{ date: '2024-01-01', rate: 10 }] }, 6, 360, startDate);
+            const falling = generateArmRateAdjustments({ ...fiveOneArm, indexRates: [{ date: '2024-01-01', rate: 0 }] }, 6, 360, startDate);
+            
+            expect(rising.map(adj => adj.newRate)).toEqual([8, 10, 11]);
+            expect(falling.map(adj => adj.newRate)).toEqual([4, 2.75]);
+        });
+
+        test('Each reset uses the latest index rate on or before the reset date', () => {
+            const adjustments = generateArmRateAdjustments({
+                ...fiveOneArm,
+                indexRates: [{ date: '2030-06-01', rate: 3 }, { date: '2024-01-01', rate: 5 }]
+            }, 6, 360, startDate);
+            
+            expect(adjustments.map(adj => [adj.month, adj.newRate])).toEqual([[61, 7.75], [85, 5.75]]);
+        });
+
+        test('Schedule applies generated resets, with manual changes taking precedence', () => {
+            const baseParams = { principal: 300000, annualRate: 6, termInMonths: 360, startDate };
+            const schedule = generatePaymentSchedule({ ...baseParams, arm: fiveOneArm });
+            const withManual = generatePaymentSchedule({
+                ...baseParams,
+                arm: fiveOneArm,
+                rateAdjustments: [{ month: 61, newRate: 7 }]
+            });
+            
+            expect(schedule[60].payment).toBeGreaterThan(schedule[59].payment);
+            expect(schedule[60].interest).toBeCloseTo(schedule[59].balance * 0.08 / 12, 2);
+            expect(withManual[60].interest).toBeCloseTo(withManual[59].balance * 0.07 / 12, 2);
+            expect(withManual[72].interest).toBeCloseTo(withManual[71].balance * 0.0875 / 12, 2);
+        });
+    });
+
+    describe('Extra Payment Solver', () => {
+        const startDate = new Date(2024, 0, 1);
+        const baseParams = {
+            principal: 200000,
+            annualRate: 6,
+            termInMonths: 360,
+            startDate,
+            rateAdjustments: [{ month: 61, newRate: 7 }]
+        };
+        const withExtra = (amount: number) => generatePaymentSchedule({
+            ...baseParams,
+            earlyPayments: [{ id: '1', type: 'recurring', amount: amount.toString(), month: '1', frequency: '1' }]
+        });
+
+        test('Finds the smallest extra payment that meets a payoff date', () => {
+            const solution = solveExtraPayment(baseParams, { type: 'payoffDate', payoffDate: new Date(2043, 11, 1) });
+            
+            expect(solution).not.toBeNull();
+            expect(solution!.amount).toBeGreaterThan(0);
+            expect(solution!.payoffDate.getTime()).toBeLessThanOrEqual(new Date(2043, 11, 1).getTime());
+            expect(withExtra(solution!.amount).length).toBeLessThanOrEqual(240);
+            expect(withExtra(solution!.amount - 0.01).length).toBeGreaterThan(240);
+        });
+
+        test('Finds the smallest extra payment that keeps interest within a budget', () => {
+            const solution = solveExtraPayment(baseParams, { type: 'interestBudget', maxInterest: 150000 });
+            
+            expect(solution).not.toBeNull();
+            expect(solution!.totalInterest).toBeLessThanOrEqual(150000);
+            expect(getScheduleTotals(withExtra(solution!.amount - 0.01)).totalInterest).toBeGreaterThan(150000);
+        });
+
+        test('Returns zero when already met and null when unreachable', () => {
+            const alreadyMet = solveExtraPayment(baseParams, { type: 'payoffDate', payoffDate: new Date(2060, 0, 1) });
+            const unreachable = solveExtraPayment(baseParams, { type: 'payoffDate', payoffDate: new Date(2023, 0, 1) });
+            
+            expect(alreadyMet?.amount).toBe(0);
+            expect(unreachable).toBeNull();
+        });
+    });
+
+    describe('Affordability', () => {
+        test('Maximum principal is the inverse of the payment calculation', () => {
+            const result = calculateMaxPrincipal({ monthlyBudget: 1798.65, annualRate: 6, termInMonths: 360, downPayment: 60000 });
+            
+            expect(result.maxPrincipal).toBeCloseTo(300000, 0);
+            expect(result.maxPrice).toBeCloseTo(360000, 0);
+            expect(result.limitedBy).toBe('budget');
+            expect(calculatePayment({ principal: result.maxPrincipal, annualRate: 6, termInMonths: 360 }).monthlyPayment).toBeLessThanOrEqual(1798.65);
+        });
+
+        test('Debt-to-income limit caps the payment', () => {
+            const result = calculateMaxPrincipal({
+                monthlyBudget: 3000,
+                annualRate: 0,
+                termInMonths: 120,
+                monthlyIncome: 6000,
+                otherMonthlyDebts: 500,
+                maxDebtToIncome: 36
+            });
+            
+            expect(result.limitedBy).toBe('debtToIncome');
+            expect(result.monthlyPayment).toBeCloseTo(1660, 2);
+            expect(result.maxPrincipal).toBeCloseTo(199200, 2);
+            expect(result.debtToIncome).toBeCloseTo(36, 5);
+        });
+
+        test('Follows the compounding frequency and rounds to the currency', () => {
+            const semiAnnual = calculateMaxPrincipal({ monthlyBudget: 1798.65, annualRate: 6, termInMonths: 360, compoundingFrequency: 'semi-annual' });
+            const yen = calculateMaxPrincipal({ monthlyBudget: 150000, annualRate: 2, termInMonths: 420, minorUnits: 0 });
+            
+            // Semi-annual compounding charges less interest per month, so the same payment carries more
+            expect(semiAnnual.maxPrincipal).toBeGreaterThan(calculateMaxPrincipal({ monthlyBudget: 1798.65, annualRate: 6, termInMonths: 360 }).maxPrincipal);
+            expect(calculatePayment({ principal: semiAnnual.maxPrincipal, annualRate: 6, termInMonths: 360, compoundingFrequency: 'semi-annual' }).monthlyPayment).toBeCloseTo(1798.65, 2);
+            expect(Number.isInteger(yen.maxPrincipal)).toBe(true);
+            expect(Number.isInteger(yen.payment)).toBe(true);
+        });
+    });
+
+    describe('Fees and APR', () => {
+        const baseParams = { principal: 200000, annualRate: 6, termInMonths: 360, startDate: new Date(2024, 0, 1) };
+
+        test('APR equals the interest rate without fees', () => {
+            const result = calculateApr(baseParams);
+            
+            expect(result!.apr).toBeCloseTo(6, 4);
+            expect(result!.effectiveRate).toBeCloseTo((Math.pow(1.005, 12) - 1) * 100, 4);
+            expect(result!.totalFees).toBe(0);
+        });
+
+        test('Fees paid in cash raise the APR above the interest rate', () => {
+            const result = calculateApr({ ...baseParams, fees: { upfrontFees: 2000, discountPoints: 1 } });
+            const payment = calculatePayment(baseParams).monthlyPayment;
+            const monthlyApr = result!.apr / 1200;
+            const presentValue = payment * (1 - Math.pow(1 + monthlyApr, -360)) / monthlyApr;
+            
+            expect(result!.upfrontFees).toBe(4000);
+            expect(result!.financedFees).toBe(0);
+            expect(result!.apr).toBeGreaterThan(6.15);
+            expect(presentValue).toBeCloseTo(196000, 0);
+        });
+
+        test('Financed fees are added to the balance', () => {
+            const fees = { upfrontFees: 4000, financed: true, monthlyFee: 10 };
+            const schedule = generatePaymentSchedule({ ...baseParams, fees });
+            const result = calculateApr({ ...baseParams, fees });
+            
+            expect(schedule[0].balance + schedule[0].principal).toBe(204000);
+            expect(calculatePayment({ ...baseParams, fees }).monthlyPayment).toBeCloseTo(calculatePayment({ ...baseParams, principal: 204000 }).monthlyPayment, 6);
+            expect(getScheduleTotals(schedule).totalPrincipal).toBeCloseTo(204000, 2);
+            expect(result!.financedFees).toBe(4000);
+            expect(result!.totalFees).toBeCloseTo(4000 + 10 * 360, 2);
+        });
+
+        test('IRR has no solution when cash flows never change sign', () => {
+            expect(calculateIrr([100, 50, 50])).toBeNull();
+            expect(calculateIrr([-100, 110])).toBeCloseTo(0.1, 8);
+        });
+    });
+
+    describe('Escrow and PMI', () => {
+        const baseParams = { principal: 180000, annualRate: 6, termInMonths: 360, startDate: new Date(2024, 0, 1) };
+
+        test('Escrow is collected with every payment without touching the balance', () => {
+            const escrow = { annualPropertyTax: 3600, annualInsurance: 1200, monthlyHoa: 50 };
+            const schedule = generatePaymentSchedule({ ...baseParams, escrow });
+            const withoutEscrow = generatePaymentSchedule(baseParams);
+            
+            expect(getPeriodicEscrow(escrow)).toBe(450);
+            expect(getPeriodicEscrow(escrow, 'biweekly')).toBeCloseTo(5400 / 26, 2);
+            expect(schedule.every(payment => payment.escrow === 450 && payment.pmi === 0)).toBe(true);
+            expect(schedule.map(payment => payment.balance)).toEqual(withoutEscrow.map(payment => payment.balance));
+            expect(getScheduleTotals(schedule).totalEscrow).toBeCloseTo(450 * 360, 2);
+        });
+
+        test('PMI stops once the balance reaches the cancellation loan-to-value', () => {
+            // 90% loan-to-value; PMI stops at 78% of 200k = 156k
+            const escrow = { propertyValue: 200000, pmiRate: 0.5 };
+            const schedule = generatePaymentSchedule({ ...baseParams, escrow });
+            const lastPmiIndex = schedule.map(payment => payment.pmi > 0).lastIndexOf(true);
+            const openingBalance = (index: number) => index === 0 ? 180000 : schedule[index - 1].balance;
+            
+            expect(schedule[0].pmi).toBe(75);
+            expect(openingBalance(lastPmiIndex)).toBeGreaterThan(156000);
+            expect(openingBalance(lastPmiIndex + 1)).toBeLessThanOrEqual(156000);
+            expect(schedule.slice(lastPmiIndex + 1).every(payment => payment.pmi === 0)).toBe(true);
+        });
+
+        test('Early payments cancel PMI sooner', () => {
+            const escrow = { propertyValue: 200000, pmiRate: 0.5, pmiCancelLtv: 80 };
+            const totalPmi = getScheduleTotals(generatePaymentSchedule({ ...baseParams, escrow })).totalPmi;
+            const totalPmiWithExtra = getScheduleTotals(generatePaymentSchedule({
+                ...baseParams,
+                escrow,
+                earlyPayments: [{ id: '1', type: 'one-time', amount: '20000', month: '1' }]
+            })).totalPmi;
+            
+            expect(totalPmiWithExtra).toBeLessThan(totalPmi);
+            expect(totalPmiWithExtra).toBe(75);
+        });
+    });
+
+    describe('Deferrals', () => {
+        const baseParams = { principal: 100000, annualRate: 6, termInMonths: 120, startDate: new Date(2024, 0, 1) };
+
+        test('Capitalized interest grows the balance and the term is extended', () => {
+            const deferrals = [{ startMonth: 13, months: 3, interest: 'capitalize' as const, adjustment: 'extendTerm' as const }];
+            const schedule = generatePaymentSchedule({ ...baseParams, deferrals });
+            const paused = schedule.filter(payment => payment.isDeferred);
+            const cost = calculateDeferralCost({ ...baseParams, deferrals });
+            
+            expect(schedule).toHaveLength(123);
+            expect(paused.map(payment => payment.paymentNumber)).toEqual([13, 14, 15]);
+            expect(paused.every(payment => payment.payment === 0)).toBe(true);
+            expect(paused[0].balance).toBeCloseTo(schedule[11].balance + paused[0].deferredInterest, 2);
+            expect(cost.deferredPayments).toBe(3);
+            expect(cost.periodIncrease).toBe(3);
+            expect(cost.capitalizedInterest).toBeGreaterThan(0);
+            expect(cost.extraCost).toBeGreaterThan(0);
+            expect(cost.paymentIncrease).toBeGreaterThan(0);
+        });
+
+        test('Accrued interest is paid with the final payment', () => {
+            const deferrals = [{ startMonth: 13, months: 3, interest: 'accrue' as const, adjustment: 'extendTerm' as const }];
+            const schedule = generatePaymentSchedule({ ...baseParams, deferrals });
+            const baseline = generatePaymentSchedule(baseParams);
+            const cost = calculateDeferralCost({ ...baseParams, deferrals });
+            
+            // The balance stays put, so the payment is unchanged after the pause
+            expect(schedule[15].payment).toBe(baseline[12].payment);
+            expect(cost.paymentIncrease).toBe(0);
+            expect(cost.accruedInterest).toBeCloseTo(schedule[12].deferredInterest * 3, 2);
+            expect(getScheduleTotals(schedule).totalInterest).toBeCloseTo(getScheduleTotals(baseline).totalInterest + cost.accruedInterest, 2);
+            expect(schedule[schedule.length - 1].balance).toBe(0);
+        });
+
+        test('Waived interest with a higher payment keeps the payoff date', () => {
+            const deferrals = [{ startMonth: 13, months: 3, interest: 'waive' as const, adjustment: 'increasePayment' as const }];
+            const schedule = generatePaymentSchedule({ ...baseParams, deferrals });
+            const cost = calculateDeferralCost({ ...baseParams, deferrals });
+            
+            expect(schedule).toHaveLength(120);
+            expect(cost.periodIncrease).toBe(0);
+            expect(cost.paymentIncrease).toBeGreaterThan(0);
+            expect(cost.waivedInterest).toBeGreaterThan(0);
+            expect(cost.extraCost).toBeLessThan(0);
+        });
+    });
+
+    describe('Schedule diagnostics', () => {
+        const baseParams = { principal: 100000, annualRate: 6, termInMonths: 120, startDate: new Date(2024, 0, 1) };
+
+        test('A healthy loan has no diagnostics', () => {
+            const { schedule, diagnostics } = generatePaymentScheduleWithDiagnostics(baseParams);
+            
+            expect(schedule).toEqual(generatePaymentSchedule(baseParams));
+            expect(diagnostics).toEqual([]);
+        });
+
+        test('Capitalized deferral interest is reported as negative amortization', () => {
+            const deferrals = [{ startMonth: 13, months: 3, interest: 'capitalize' as const, adjustment: 'extendTerm' as const }];
+            const { schedule, diagnostics } = generatePaymentScheduleWithDiagnostics({ ...baseParams, deferrals });
+            const negativeAmortization = diagnostics.find(diagnostic => diagnostic.type === 'negativeAmortization');
+            
+            expect(negativeAmortization?.paymentNumbers).toEqual([13, 14, 15]);
+            expect(negativeAmortization?.amount).toBeCloseTo(schedule[14].balance - schedule[11].balance, 2);
+            expect(diagnostics.some(diagnostic => diagnostic.type === 'notPaidOff')).toBe(false);
+        });
+
+        test('Actual/360 interest above the payment leaves the loan unpaid at the end of the term', () => {
+            const { diagnostics } = generatePaymentScheduleWithDiagnostics({ ...baseParams, annualRate: 20, termInMonths: 360, dayCountConvention: 'actual/360' });
+            const types = diagnostics.map(diagnostic => diagnostic.type);
+            
+            expect(types).toEqual(['negativeAmortization', 'paymentBelowInterest', 'notPaidOff']);
+            expect(diagnostics[1].paymentNumbers[0]).toBe(1); // January has 31 days
+            expect(diagnostics[2].severity).toBe('error');
+        });
+    });
+
+    describe('Refinance', () => {
+        const currentLoan = { principal: 200000, annualRate: 7, termInMonths: 360, startDate: new Date(2020, 0, 1) };
+        const refinanceDate = new Date(2025, 0, 15);
+
+        test('Takes the balance from the schedule and breaks even on closing costs', () => {
+            const analysis = calculateRefinance(currentLoan, { newRate: 5, newTermInMonths: 300, closingCosts: 4000, refinanceDate });
+            const schedule = generatePaymentSchedule(currentLoan);
+            
+            // Payments from Jan 2020 through Jan 2025 are made before refinancing
+            expect(analysis?.paymentsMade).toBe(61);
+            expect(analysis?.currentBalance).toBe(schedule[60].balance);
+            expect(analysis?.newStartDate).toEqual(new Date(2025, 1, 1));
+            expect(analysis?.newPayment).toBeLessThan(analysis!.currentPayment);
+            expect(analysis?.interestDifference).toBeLessThan(0);
+            expect(analysis?.lifetimeCostDifference).toBeCloseTo(analysis!.interestDifference + 4000, 2);
+            
+            // Break-even is the first month the refinanced cost is no higher than keeping the loan
+            const breakEven = analysis!.breakEvenMonth!;
+            expect(breakEven).toBeGreaterThan(1);
+            expect(analysis!.cumulativeCost[breakEven - 1].refinanced).toBeLessThanOrEqual(analysis!.cumulativeCost[breakEven - 1].current);
+            expect(analysis!.cumulativeCost[breakEven - 2].refinanced).toBeGreaterThan(analysis!.cumulativeCost[breakEven - 2].current);
+        });
+
+        test('Rolled-in closing costs are added to the new balance', () => {
+            const analysis = calculateRefinance(currentLoan, { newRate: 5, newTermInMonths: 300, closingCosts: 4000, rollInClosingCosts: true, refinanceDate });
+            
+            expect(analysis?.newPrincipal).toBeCloseTo(analysis!.currentBalance + 4000, 2);
+        });
+
+        test('The refinanced loan keeps the repayment terms of the analysis', () => {
+            const linearLoan = { ...currentLoan, amortizationType: 'linear' as const, fees: { discountPoints: 1 } };
+            const analysis = calculateRefinance(linearLoan, { newRate: 5, newTermInMonths: 300, closingCosts: 4000, refinanceDate })!;
+            const options = getRefinancedScheduleOptions(linearLoan);
+            const saved = generatePaymentSchedule({ principal: analysis.newPrincipal, annualRate: 5, termInMonths: 300, startDate: analysis.newStartDate, ...options });
+            const annuity = generatePaymentSchedule({ principal: analysis.newPrincipal, annualRate: 5, termInMonths: 300, startDate: analysis.newStartDate });
+
+            expect(options.amortizationType).toBe('linear');
+            expect(options.fees).toBeUndefined();
+            expect(saved[0].payment).toBe(analysis.newPayment);
+            expect(annuity[0].payment).not.toBe(analysis.newPayment);
+        });
+
+        test('A higher rate never breaks even', () => {
+            const analysis = calculateRefinance(currentLoan, { newRate: 8, newTermInMonths: 300, closingCosts: 0, refinanceDate });
+            
+            expect(analysis?.breakEvenMonth).toBeNull();
+        });
+
+        test('Returns null once the loan is paid off', () => {
+            expect(calculateRefinance(currentLoan, { newRate: 5, newTermInMonths: 300, closingCosts: 0, refinanceDate: new Date(2051, 0, 1) })).toBeNull();
+        });
+    });
+
+    describe('Debt payoff planner', () => {
+        const debts = [
+            { id: 'car', name: 'Car', balance: 8000, annualRate: 6, minimumPayment: 250 },
+            { id: 'card', name: 'Card', balance: 3000, annualRate: 22, minimumPayment: 90 },
+            { id: 'student', name: 'Student', balance: 1500, annualRate: 4, minimumPayment: 60 },
+        ];
+
+        test('Avalanche pays less interest, snowball clears the smallest balance first', () => {
+            const avalanche = simulateDebtPayoff(debts, 800, 'avalanche')!;
+            const snowball = simulateDebtPayoff(debts, 800, 'snowball')!;
+            const payoffMonth = (plan: typeof avalanche, id: string) => plan.debts.find(debt => debt.id === id)!.payoffMonth;
+            
+            expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+            expect(payoffMonth(avalanche, 'card')).toBeLessThan(payoffMonth(avalanche, 'student'));
+            expect(payoffMonth(snowball, 'student')).toBeLessThan(payoffMonth(snowball, 'card'));
+            expect(avalanche.months).toBe(Math.max(...avalanche.debts.map(debt => debt.payoffMonth)));
+            expect(avalanche.totalPaid).toBeCloseTo(12500 + avalanche.totalInterest, 2);
+        });
+
+        test('Custom order is followed and freed-up payments roll forward', () => {
+            const plan = simulateDebtPayoff(debts, 800, 'custom', ['car', 'student', 'card'])!;
+            const car = plan.debts[0];
+            const student = plan.debts[2];
+            
+            expect(car.payoffMonth).toBeLessThan(student.payoffMonth);
+            // Once the car is paid off its payment goes to the next loan
+            expect(student.extraPayments[car.payoffMonth]).toBeGreaterThan(800 - 250 - 90 - 60);
+        });
+
+        test('A budget below the minimum payments has no plan', () => {
+            expect(simulateDebtPayoff(debts, 300, 'avalanche')).toBeNull();
+        });
+
+        test('Extra payments become recurring early payments that step up', () => {
+            const plan = simulateDebtPayoff(debts, 800, 'avalanche')!;
+            const car = plan.debts[0];
+            const earlyPayments = getPayoffPlanEarlyPayments(car, 25, 'avalanche');
+            const total = earlyPayments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+            
+            expect(earlyPayments.every(payment => payment.type === 'recurring' && payment.frequency === '1')).toBe(true);
+            expect(parseInt(earlyPayments[0].month)).toBe(25 + car.extraPayments.findIndex(extra => extra > 0));
+            expect(total).toBeCloseTo(Math.max(...car.extraPayments), 2);
+        });
+    });
+
+    describe('Invest vs prepay', () => {
+        const params = {
+            principal: 200000,
+            annualRate: 6,
+            termInMonths: 360,
+            startDate: new Date(2024, 0, 1),
+            earlyPayments: [{ id: '1', type: 'recurring' as const, amount: '300', month: '1', frequency: '1' }],
+        };
+
+        test('Crossover return sits near the loan rate', () => {
+            const comparison = compareInvestVsPrepay(params, { annualReturn: 4 });
+            
+            expect(comparison.crossoverReturn).toBeGreaterThan(5.5);
+            expect(comparison.crossoverReturn).toBeLessThan(6.5);
+            expect(comparison.advantage).toBeGreaterThan(0);
+            expect(comparison.interestSaved).toBeCloseTo(calculateSavings(params).interestSaved, 2);
+            expect(comparison.wealth).toHaveLength(360);
+        });
+
+        test('Returns above the crossover favor investing, tax deductions lower the crossover', () => {
+            const comparison = compareInvestVsPrepay(params, { annualReturn: 9 });
+            const deductible = compareInvestVsPrepay(params, { annualReturn: 9, taxDeductionRate: 24 });
+            
+            expect(comparison.advantage).toBeLessThan(0);
+            expect(comparison.investWealth).toBeGreaterThan(comparison.prepayWealth);
+            expect(deductible.crossoverReturn!).toBeLessThan(comparison.crossoverReturn!);
+        });
+
+        test('Without early payments both sides end up even', () => {
+            const comparison = compareInvestVsPrepay({ ...params, earlyPayments: [] }, { annualReturn: 7, horizonMonths: 120 });
+            
+            expect(comparison.advantage).toBe(0);
+            expect(comparison.crossoverReturn).toBeNull();
+            expect(comparison.wealth).toHaveLength(120);
+        });
+    });
+
+    describe('Inflation and present value', () => {
+        const params = {
+            principal: 200000,
+            annualRate: 6,
+            termInMonths: 360,
+            startDate: new Date(2024, 0, 1),
+        };
+
+        test('Payments discounted at the loan rate are worth the amount borrowed', () => {
+            const schedule = generatePaymentSchedule(params);
+            const effectiveRate = (Math.pow(1 + 0.06 / 12, 12) - 1) * 100;
+            
+            expect(calculateNpv(schedule.map(payment => payment.payment), effectiveRate)).toBeCloseTo(200000, -1);
+            expect(calculateNpv([1000, 1000], 0)).toBe(2000);
+        });
+
+        test('Real and present values are lower than nominal and only shown when their rate is set', () => {
+            const schedule = generatePaymentSchedule(params);
+            const nominalOnly = getDiscountedTotals(schedule, {});
+            const totals = getDiscountedTotals(schedule, { inflationRate: 3, discountRate: 5 });
+            
+            expect(nominalOnly.real).toBeNull();
+            expect(nominalOnly.presentValue).toBeNull();
+            expect(totals.nominal.totalPayment).toBeCloseTo(getScheduleTotals(schedule).totalPayment, 2);
+            expect(totals.real!.totalPayment).toBeLessThan(totals.nominal.totalPayment);
+            expect(totals.presentValue!.totalPayment).toBeLessThan(totals.real!.totalPayment);
+            expect(totals.real!.totalInterest).toBeLessThan(totals.nominal.totalInterest);
+        });
+    });
+
+    describe('Loan status', () => {
+        const params = { principal: 200000, annualRate: 6, termInMonths: 360, startDate: new Date(2024, 0, 31) };
+
+        test('Nothing is paid before the first due date', () => {
+            const status = getLoanStatus(params, new Date(2024, 0, 30));
+            
+            expect(status.paymentsMade).toBe(0);
+            expect(status.balance).toBe(200000);
+            expect(status.nextDueDate).toEqual(new Date(2024, 0, 31));
+            expect(status.isPaidOff).toBe(false);
+        });
+
+        test('Counts payments by calendar month, including short months', () => {
+            const schedule = generatePaymentSchedule(params);
+            // Jan 31, Feb 29, Mar 31 and Apr 30 are due by Apr 30
+            const status = getLoanStatus(params, new Date(2024, 3, 30), schedule);
+            
+            expect(status.paymentsMade).toBe(4);
+            expect(status.balance).toBe(schedule[3].balance);
+            expect(status.currentPayment).toBe(schedule[4].payment);
+            expect(status.nextDueDate).toEqual(new Date(2024, 4, 31));
+            expect(status.loanMonth).toBe(5);
+        });
+
+        test('Reports the rate in effect and a paid-off loan', () => {
+            const adjusted = { ...params, rateAdjustments: [{ month: 13, newRate: 7 }] };
+            
+            expect(getLoanStatus(adjusted, new Date(2024, 11, 31)).currentRate).toBe(7);
+            expect(getLoanStatus(adjusted, new Date(2024, 10, 30)).currentRate).toBe(6);
+            
+            const paidOff = getLoanStatus(params, new Date(2060, 0, 1));
+            expect(paidOff.isPaidOff).toBe(true);
+            expect(paidOff.balance).toBe(0);
+            expect(paidOff.currentPayment).toBe(0);
+        });
+
+        test('Builds schedule parameters from a stored loan', () => {
+            const stored = getLoanScheduleParams({ amount: 200000, interestRate: 6, term: 30, termUnit: 'years', startDate: '2024-01-31', rateAdjustments: [{ month: '13', newRate: '7' }] });
+            
+            expect(stored.termInMonths).toBe(360);
+            expect(stored.startDate).toEqual(new Date(2024, 0, 31));
+            expect(stored.rateAdjustments).toEqual([{ month: 13, newRate: 7 }]);
+        });
+
+        test('Leaves early payments out of the current payment', () => {
+            const withExtra = { ...params, earlyPayments: [{ id: '1', type: 'recurring' as const, amount: '500', month: '1', frequency: '1' }] };
+            const status = getLoanStatus(withExtra, new Date(2024, 3, 30));
+
+            expect(status.nextPayment?.earlyPayment).toBe(500);
+            expect(status.currentPayment).toBe(1199.1);
+        });
+
+        test('Skips paused payments to the next payment due', () => {
+            const paused = { ...params, deferrals: [{ startMonth: 5, months: 3, interest: 'capitalize' as const, adjustment: 'extendTerm' as const }] };
+            const schedule = generatePaymentSchedule(paused);
+            const status = getLoanStatus(paused, new Date(2024, 3, 30), schedule);
+
+            expect(status.nextPayment?.isDeferred).toBe(true);
+            expect(status.currentPayment).toBe(schedule[7].payment);
+            expect(status.currentPayment).toBeGreaterThan(0);
+        });
+
+        test('Shows the regular installment before a balloon payment', () => {
+            const balloon = { ...params, termInMonths: 60, amortizationMonths: 360 };
+            const schedule = generatePaymentSchedule(balloon);
+            const status = getLoanStatus(balloon, new Date(2028, 11, 30), schedule);
+
+            expect(status.nextPayment?.isBalloon).toBe(true);
+            expect(status.currentPayment).toBe(schedule[58].payment);
+            expect(status.currentPayment).toBe(1199.1);
+        });
+    });
+
+    describe('Compounding frequency', () => {
+        test('Converts the nominal rate to the rate per payment period', () => {
+            expect(getPeriodicRate(6, 'monthly')).toBeCloseTo(0.005, 10);
+            expect(getPeriodicRate(6, 'monthly', 'monthly')).toBeCloseTo(0.005, 10);
+            expect(getPeriodicRate(5, 'monthly', 'semi-annual')).toBeCloseTo(Math.pow(1.025, 1 / 6) - 1, 12);
+            expect(getPeriodicRate(5, 'monthly', 'continuous')).toBeCloseTo(Math.exp(0.05 / 12) - 1, 12);
+            expect(getPeriodicRate(5, 'biweekly', 'daily')).toBeCloseTo(Math.pow(1 + 0.05 / 365, 365 / 26) - 1, 12);
+        });
+
+        test('Canadian mortgage: 500k at 5% compounded semi-annually over 25 years', () => {
+            const params = { principal: 500000, annualRate: 5, termInMonths: 300, compoundingFrequency: 'semi-annual' as const };
+            const result = calculatePayment(params);
+            const schedule = generatePaymentSchedule({ ...params, startDate: new Date(2024, 0, 1) });
+            
+            expect(result.monthlyPayment).toBeCloseTo(2908.02, 2);
+            expect(result.monthlyPayment).toBeLessThan(calculatePayment({ ...params, compoundingFrequency: 'payment' }).monthlyPayment);
+            expect(schedule[0].interest).toBe(2061.96);
+            expect(schedule).toHaveLength(300);
+            expect(schedule[schedule.length - 1].balance).toBe(0);
+        });
+    });
+
+    describe('Linear amortization', () => {
+        const params = { principal: 120000, annualRate: 6, termInMonths: 120, amortizationType: 'linear' as const };
+
+        test('Repays equal principal with falling payments', () => {
+            const schedule = generatePaymentSchedule({ ...params, startDate: new Date(2024, 0, 1) });
+            const result = calculatePayment(params);
+            
+            expect(schedule).toHaveLength(120);
+            expect(schedule[0].principal).toBe(1000);
+            expect(schedule[0].interest).toBe(600);
+            expect(schedule[119].principal).toBe(1000);
+            expect(schedule[119].interest).toBe(5);
+            expect(getPaymentRange(schedule)).toEqual({ firstPayment: 1600, lastPayment: 1005 });
+            expect(result.monthlyPayment).toBeCloseTo(1600, 2);
+            // Interest on a straight-line balance: 120000 * 0.5% * 121 / 2
+            expect(getScheduleTotals(schedule).totalInterest).toBe(36300);
+            expect(result.totalPayment).toBeCloseTo(156300, 2);
+        });
+
+        test('Costs less interest than level payments', () => {
+            const linear = generatePaymentSchedule({ ...params, startDate: new Date(2024, 0, 1) });
+            const annuity = generatePaymentSchedule({ ...params, amortizationType: 'annuity', startDate: new Date(2024, 0, 1) });
+            
+            expect(getScheduleTotals(linear).totalInterest).toBeLessThan(getScheduleTotals(annuity).totalInterest);
+            // Level payments differ only by the rounding the final payment absorbs
+            const annuityRange = getPaymentRange(annuity)!;
+            expect(Math.abs(annuityRange.firstPayment - annuityRange.lastPayment)).toBeLessThan(1);
+        });
+
+        test('Early payments shorten the term or lower the principal repaid each period', () => {
+            const startDate = new Date(2024, 0, 1);
+            const reduceTerm = generatePaymentSchedule({ ...params, startDate, earlyPayments: [{ id: '1', type: 'one-time', amount: '12000', month: '12' }] });
+            const reducePayment = generatePaymentSchedule({ ...params, startDate, earlyPayments: [{ id: '1', type: 'one-time', amount: '12000', month: '12', strategy: 'reducePayment' }] });
+            
+            // 12 payments of principal sooner, the same 1000 a month
+            expect(reduceTerm).toHaveLength(108);
+            expect(reduceTerm[12].principal).toBe(1000);
+            // The remaining 97000 spread over the 109 payments left
+            expect(reducePayment).toHaveLength(120);
+            expect(reducePayment[12].principal).toBeCloseTo(97000 / 109, 2);
+        });
+
+        test('A rate change only changes the interest', () => {
+            const schedule = generatePaymentSchedule({ ...params, startDate: new Date(2024, 0, 1), rateAdjustments: [{ month: 61, newRate: 9 }] });
+            
+            expect(schedule[60].principal).toBe(1000);
+            expect(schedule[60].interest).toBe(450);
+        });
+    });
+
+    describe('Precomputed interest', () => {
+        const params = { principal: 20000, annualRate: 6, termInMonths: 60, startDate: new Date(2024, 0, 15) };
+
+        test('Rebates unearned interest by the Rule of 78', () => {
+            // 11 of 12 payments left: 66 of the 78 digits are unearned
+            expect(getUnearnedInterest(78, 12, 11, 'rule-of-78')).toBe(66);
+            expect(getUnearnedInterest(78, 12, 11, 'add-on')).toBe(71.5);
+            expect(getUnearnedInterest(78, 12, 11, 'simple')).toBe(0);
+        });
+
+        test('Add-on interest is charged on the full amount and earned evenly', () => {
+            const schedule = generatePaymentSchedule({ ...params, interestMethod: 'add-on' });
+            const result = calculatePayment({ ...params, interestMethod: 'add-on' });
+
+            // 20000 * 6% * 5 years = 6000 on top of the loan
+            expect(result.totalPayment).toBe(26000);
+            expect(result.monthlyPayment).toBeCloseTo(433.33, 2);
+            expect(schedule).toHaveLength(60);
+            expect(schedule[0].interest).toBe(100);
+            expect(schedule[59].interest).toBe(100);
+            expect(schedule[59].balance).toBe(0);
+            expect(getScheduleTotals(schedule).totalInterest).toBe(6000);
+        });
+
+        test('Rule of 78 front-loads interest, so a payoff owes most of the principal', () => {
+            const rule78 = { ...params, interestMethod: 'rule-of-78' as const };
+            const schedule = generatePaymentSchedule(rule78);
+            const payoff = calculateEarlyPayoff(rule78, new Date(2025, 0, 20));
+
+            expect(schedule[0].interest).toBeGreaterThan(schedule[59].interest);
+            expect(getScheduleTotals(schedule).totalInterest).toBe(6000);
+            expect(payoff.paymentsMade).toBe(13);
+            expect(payoff.payoffAmount).toBe(schedule[12].balance);
+            expect(payoff.rebate).toBe(3698.36);
+        });
+
+        test('Warns when prepaying a Rule of 78 loan saves far less than amortizing', () => {
+            const earlyPayments = [{ id: '1', type: 'one-time' as const, month: '6', amount: '2000' }];
+            const rule78 = generatePaymentScheduleWithDiagnostics({ ...params, interestMethod: 'rule-of-78', earlyPayments });
+            const simple = generatePaymentScheduleWithDiagnostics({ ...params, earlyPayments });
+
+            const warning = rule78.diagnostics.find(d => d.type === 'precomputedPrepayment');
+            expect(warning?.paymentNumbers).toEqual([6]);
+            expect(warning?.amount).toBeGreaterThan(1000);
+            expect(simple.diagnostics.some(d => d.type === 'precomputedPrepayment')).toBe(false);
+        });
+    });
+
+    describe('Graduated payments', () => {
+        const params = { principal: 30000, annualRate: 6, termInMonths: 120, startDate: new Date(2024, 0, 1) };
+        const stepped = { stepMonths: 24, stepPercent: 10 };
+
+        test('Steps the payment up and still pays off within the term', () => {
+            const schedule = generatePaymentSchedule({ ...params, graduated: stepped });
+            const steps = getPaymentSteps(schedule);
+
+            expect(schedule).toHaveLength(120);
+            expect(schedule[119].balance).toBe(0);
+            expect(steps.map(step => step.paymentNumber)).toEqual([25, 49, 73, 97]);
+            expect(schedule[0].payment).toBeCloseTo(calculatePayment({ ...params, graduated: stepped }).monthlyPayment, 2);
+            expect(steps[0].payment / schedule[23].payment).toBeCloseTo(1.1, 3);
+            expect(schedule[119].payment).toBeCloseTo(steps[3].payment, 0);
+            expect(getGraduatedPaymentLabel(stepped)).toBe('+10% every 2 years');
+        });
+
+        test('Raises the last row of a payment table to amortize the loan', () => {
+            const graduated = { paymentTable: [{ month: 1, payment: 200 }, { month: 37, payment: 300 }] };
+            const schedule = generatePaymentSchedule({ ...params, graduated });
+
+            expect(schedule).toHaveLength(120);
+            expect(schedule[35].payment).toBe(200);
+            expect(schedule[36].isPaymentStep).toBe(true);
+            expect(schedule[36].payment).toBeGreaterThan(300);
+            expect(schedule[119].balance).toBe(0);
+        });
+
+        test('Uses table payments as given when they pay off early', () => {
+            const graduated = { paymentTable: [{ month: 1, payment: 200 }, { month: 37, payment: 500 }] };
+            const schedule = generatePaymentSchedule({ ...params, graduated });
+
+            expect(schedule[36].payment).toBe(500);
+            expect(schedule.length).toBeLessThan(120);
+            expect(schedule[schedule.length - 1].balance).toBe(0);
+        });
+    });
+
+    describe('Credit lines', () => {
+        // 7.3% accrues 0.02% a day under Actual/365; the line opens on Jan 1, a month before the first payment
+        const params = { principal: 50000, annualRate: 7.3, termInMonths: 60, startDate: new Date(2024, 1, 1) };
+        const ledger = [
+            { id: '1', type: 'draw' as const, date: '2024-01-01', amount: 10000 },
+            { id: '2', type: 'draw' as const, date: '2024-02-16', amount: 5000 },
+        ];
+
+        test('Charges interest only on the drawn balance during the draw period', () => {
+            const schedule = generatePaymentSchedule({ ...params, creditLine: { drawMonths: 24, transactions: ledger } });
+
+            expect(schedule[0]).toMatchObject({ interest: 62, payment: 62, principal: 0, draw: 10000, balance: 10000, isInterestOnly: true });
+            // 29 days on 10,000 plus 14 days on the second draw
+            expect(schedule[1]).toMatchObject({ interest: 72, payment: 72, draw: 5000, balance: 15000 });
+            expect(schedule[23].isInterestOnly).toBe(true);
+            expect(schedule[23].balance).toBe(15000);
+        });
+
+        test('Amortizes the balance over the repayment period', () => {
+            const schedule = generatePaymentSchedule({ ...params, creditLine: { drawMonths: 24, transactions: ledger } });
+            const { diagnostics } = generatePaymentScheduleWithDiagnostics({ ...params, creditLine: { drawMonths: 24, transactions: ledger } });
+
+            expect(schedule).toHaveLength(60);
+            expect(schedule[24].isInterestOnly).toBe(false);
+            expect(schedule[24].principal).toBeGreaterThan(0);
+            expect(schedule[30].payment).toBe(schedule[40].payment);
+            expect(schedule[59].balance).toBe(0);
+            expect(diagnostics).toEqual([]);
+        });
+
+        test('Caps draws at the credit limit and ignores draws after the draw period', () => {
+            const transactions = [
+                ...ledger,
+                { id: '3', type: 'draw' as const, date: '2024-03-10', amount: 40000 },
+                { id: '4', type: 'repayment' as const, date: '2024-05-10', amount: 20000 },
+                { id: '5', type: 'draw' as const, date: '2026-03-10', amount: 1000 },
+            ];
+            const schedule = generatePaymentSchedule({ ...params, creditLine: { drawMonths: 24, transactions } });
+
+            expect(schedule[2]).toMatchObject({ draw: 35000, balance: 50000 });
+            expect(schedule[4]).toMatchObject({ earlyPayment: 20000, balance: 30000 });
+            expect(schedule[25].draw).toBe(0);
+            expect(schedule[59].balance).toBe(0);
+        });
+
+        test('Reports utilization and available credit, counting entries since the last payment', () => {
+            const creditLine = { drawMonths: 24, transactions: [...ledger, { id: '3', type: 'draw' as const, date: '2024-03-05', amount: 20000 }] };
+
+            const status = getCreditLineStatus({ ...params, creditLine }, new Date(2024, 2, 10));
+            expect(status).toMatchObject({ creditLimit: 50000, balance: 35000, availableCredit: 15000, utilization: 70, isDrawPeriod: true });
+            expect(status?.drawPeriodEnd).toEqual(new Date(2026, 0, 1));
+
+            const repaying = getCreditLineStatus({ ...params, creditLine }, new Date(2026, 5, 15));
+            expect(repaying?.isDrawPeriod).toBe(false);
+            expect(repaying?.availableCredit).toBe(0);
+            expect(repaying?.balance).toBeLessThan(35000);
+            expect(getCreditLineStatus(params)).toBeNull();
+        });
+    });
+
+    describe('Credit cards', () => {
+        // 24% APR charges 2% a month; the term is ignored
+        const params = { principal: 5000, annualRate: 24, termInMonths: 0, startDate: new Date(2024, 1, 1) };
+        const creditCard = { minimumPercent: 1, minimumIncludesInterest: true, minimumFloor: 25, charges: [] };
+
+        test('Pays the minimum: a percentage of the balance plus interest, with a floor', () => {
+            const schedule = generatePaymentSchedule({ ...params, creditCard });
+
+            expect(schedule[0]).toMatchObject({ interest: 100, payment: 150, principal: 50, balance: 4950 });
+            expect(schedule[schedule.length - 1].balance).toBe(0);
+            expect(schedule[schedule.length - 2].payment).toBe(25);
+
+            // 2% of the statement balance falls below the floor
+            const small = generatePaymentSchedule({ ...params, principal: 1000, creditCard: { ...creditCard, minimumPercent: 2, minimumIncludesInterest: false } });
+            expect(small[0]).toMatchObject({ interest: 20, payment: 25, balance: 995 });
+        });
+
+        test('Compares minimum payments only with a fixed payment at an APR above 30%', () => {
+            const comparison = compareCreditCardPayoff({ ...params, annualRate: 35.99, creditCard: { ...creditCard, fixedPayment: 300 } });
+
+            expect(comparison?.minimumOnly.isPaidOff).toBe(true);
+            expect(comparison?.minimumOnly.firstPayment).toBe(199.96);
+            expect(comparison?.fixedPayment?.firstPayment).toBe(300);
+            expect(comparison?.fixedPayment?.months).toBeLessThan(comparison!.minimumOnly.months);
+            expect(comparison?.interestSaved).toBeGreaterThan(0);
+            expect(comparison?.monthsSaved).toBe(comparison!.minimumOnly.months - comparison!.fixedPayment!.months);
+            expect(compareCreditCardPayoff(params)).toBeNull();
+        });
+
+        test('Adds new charges to the statement they post to', () => {
+            const charges = [{ id: '1', date: '2024-03-10', amount: 1000 }];
+            const schedule = generatePaymentSchedule({ ...params, creditCard: { ...creditCard, fixedPayment: 300, charges } });
+
+            expect(schedule[2].draw).toBe(1000);
+            expect(schedule[2].interest).toBe(roundToMinorUnit(schedule[1].balance * 0.02));
+            expect(schedule[2].balance).toBe(roundToMinorUnit(schedule[1].balance + 1000 + schedule[2].interest - 300));
+            expect(schedule[schedule.length - 1].balance).toBe(0);
+        });
+
+        test('Flags a minimum payment that never pays the card off', () => {
+            const neverPaid = { ...creditCard, minimumIncludesInterest: false, minimumFloor: 0 };
+            const { schedule, diagnostics } = generatePaymentScheduleWithDiagnostics({ ...params, creditCard: neverPaid });
+
+            expect(schedule).toHaveLength(1200);
+            expect(diagnostics.map(diagnostic => diagnostic.type)).toEqual(['negativeAmortization', 'paymentBelowInterest', 'neverPaidOff']);
+            expect(compareCreditCardPayoff({ ...params, creditCard: neverPaid })?.minimumOnly.isPaidOff).toBe(false);
+        });
+    });
+
+    describe('Prepayment policies', () => {
+        const params = { principal: 200000, annualRate: 4, termInMonths: 360, startDate: new Date(2024, 0, 1) };
+        // 5% of the loan (10,000) can be prepaid each loan year; more costs 3% until year 5
+        const sondertilgung = { allowanceType: 'percent' as const, allowance: 5, penalties: [{ untilYear: 5, percent: 3 }] };
+        const earlyPayments = [
+            { id: '1', type: 'one-time' as const, amount: '8000', month: '3' },
+            { id: '2', type: 'one-time' as const, amount: '6000', month: '9' },
+            { id: '3', type: 'one-time' as const, amount: '10000', month: '15' },
+        ];
+
+        test('Charges the penalty only on early payments above the yearly allowance', () => {
+            const schedule = generatePaymentSchedule({ ...params, earlyPayments, prepaymentPolicy: sondertilgung });
+
+            expect(schedule[2].prepaymentPenalty).toBe(0);
+            // 4,000 of the 6,000 goes past the allowance
+            expect(schedule[8].prepaymentPenalty).toBe(120);
+            // The allowance starts over in the second loan year
+            expect(schedule[14].prepaymentPenalty).toBe(0);
+            // Penalties never change the balance
+            expect(schedule.map(payment => payment.balance)).toEqual(generatePaymentSchedule({ ...params, earlyPayments }).map(payment => payment.balance));
+        });
+
+        test('Steps down the penalty by loan year without an allowance', () => {
+            const policy = { allowanceType: 'none' as const, allowance: 0, penalties: [{ untilYear: 3, percent: 1 }, { untilYear: 1, percent: 3 }] };
+            const payments = ['6', '30', '40'].map(month => ({ id: month, type: 'one-time' as const, amount: '10000', month }));
+            const schedule = generatePaymentSchedule({ ...params, earlyPayments: payments, prepaymentPolicy: policy });
+
+            expect([schedule[5], schedule[29], schedule[39]].map(payment => payment.prepaymentPenalty)).toEqual([300, 100, 0]);
+            expect(getPrepaymentPolicyLabel(policy, amount => `$${amount}`)).toBe('No penalty-free allowance, 3% penalty until year 1, 1% penalty until year 3');
+        });
+
+        test('Deducts penalties from the interest saved', () => {
+            const withoutPolicy = calculateSavings({ ...params, earlyPayments });
+            const withPolicy = calculateSavings({ ...params, earlyPayments, prepaymentPolicy: sondertilgung });
+
+            expect(withoutPolicy.prepaymentPenalties).toBe(0);
+            expect(withPolicy.prepaymentPenalties).toBe(120);
+            expect(withPolicy.interestSaved).toBe(roundToMinorUnit(withoutPolicy.interestSaved - 120));
+            expect(withPolicy.totalInterest).toBe(withoutPolicy.totalInterest);
+        });
+
+        test('Measures each loan year against the allowance', () => {
+            const years = getPrepaymentAllowanceUsage({ ...params, earlyPayments, prepaymentPolicy: { ...sondertilgung, allowanceType: 'amount', allowance: 12000 } });
+
+            expect(years).toEqual([
+                { year: 1, prepaid: 14000, allowance: 12000, excess: 2000, penalty: 60 },
+                { year: 2, prepaid: 10000, allowance: 12000, excess: 0, penalty: 0 },
+            ]);
+            expect(getPrepaymentAllowanceUsage({ ...params, earlyPayments })).toEqual([]);
+        });
+
+        test('Charges the penalty on the balance paid off by refinancing', () => {
+            const refinance = { newRate: 3, newTermInMonths: 300, closingCosts: 0, refinanceDate: new Date(2024, 5, 15) };
+            const withPolicy = calculateRefinance({ ...params, earlyPayments, prepaymentPolicy: sondertilgung }, refinance)!;
+            const withoutPolicy = calculateRefinance({ ...params, earlyPayments }, refinance)!;
+
+            // The 8,000 prepaid in month 3 leaves 2,000 of the first year's allowance
+            expect(withPolicy.prepaymentPenalty).toBe(roundToMinorUnit((withPolicy.currentBalance - 2000) * 0.03));
+            expect(withPolicy.newPrincipal).toBe(roundToMinorUnit(withPolicy.currentBalance + withPolicy.prepaymentPenalty));
+            expect(withPolicy.lifetimeCostDifference).toBeCloseTo(withPolicy.interestDifference + withPolicy.prepaymentPenalty, 2);
+            expect(withPolicy.cumulativeCost[0].refinanced).toBeGreaterThan(withPolicy.prepaymentPenalty);
+            expect(withoutPolicy.prepaymentPenalty).toBe(0);
+            // No penalty is left after year 5
+            expect(calculateRefinance({ ...params, prepaymentPolicy: sondertilgung }, { ...refinance, refinanceDate: new Date(2029, 5, 15) })!.prepaymentPenalty).toBe(0);
+        });
+
+        test('Adds the penalty to the early payoff amount', () => {
+            const asOf = new Date(2024, 5, 15);
+            const withPolicy = calculateEarlyPayoff({ ...params, earlyPayments, prepaymentPolicy: sondertilgung }, asOf);
+            const withoutPolicy = calculateEarlyPayoff({ ...params, earlyPayments }, asOf);
+
+            // The 8,000 prepaid in month 3 leaves 2,000 of the first year's allowance
+            expect(withoutPolicy.prepaymentPenalty).toBe(0);
+            expect(withPolicy.prepaymentPenalty).toBe(roundToMinorUnit((withoutPolicy.payoffAmount - 2000) * 0.03));
+            expect(withPolicy.payoffAmount).toBe(roundToMinorUnit(withoutPolicy.payoffAmount + withPolicy.prepaymentPenalty));
+        });
+
+        test('Counts penalties towards the extra payment interest budget', () => {
+            const policy = { allowanceType: 'none' as const, allowance: 0, penalties: [{ untilYear: 30, percent: 2 }] };
+            const tenYearLoan = { ...params, termInMonths: 120 };
+            const target = { type: 'interestBudget' as const, maxInterest: 30000 };
+            const withPolicy = solveExtraPayment({ ...tenYearLoan, prepaymentPolicy: policy }, target)!;
+            const withoutPolicy = solveExtraPayment(tenYearLoan, target)!;
+
+            expect(withoutPolicy.prepaymentPenalties).toBe(0);
+            expect(withPolicy.prepaymentPenalties).toBeGreaterThan(0);
+            expect(withPolicy.totalInterest + withPolicy.prepaymentPenalties).toBeLessThanOrEqual(30000);
+            expect(withPolicy.amount).toBeGreaterThan(withoutPolicy.amount);
+        });
+
+        test('Pays penalties on top of early payments when comparing with investing', () => {
+            const policy = { allowanceType: 'none' as const, allowance: 0, penalties: [{ untilYear: 30, percent: 1 }] };
+            const recurring = [{ id: '1', type: 'recurring' as const, amount: '300', month: '1', frequency: '1' }];
+            const withPolicy = compareInvestVsPrepay({ ...params, earlyPayments: recurring, prepaymentPolicy: policy }, { annualReturn: 4, horizonMonths: 120 });
+            const withoutPolicy = compareInvestVsPrepay({ ...params, earlyPayments: recurring }, { annualReturn: 4, horizonMonths: 120 });
+
+            // The investing side invests what the prepaying side pays in penalties
+            expect(withPolicy.investWealth).toBeGreaterThan(withoutPolicy.investWealth);
+            expect(withPolicy.advantage).toBeLessThan(withoutPolicy.advantage);
+            expect(withPolicy.interestSaved).toBe(calculateSavings({ ...params, earlyPayments: recurring, prepaymentPolicy: policy }).interestSaved);
+        });
+    });
 });
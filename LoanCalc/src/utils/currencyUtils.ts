@@ -20,3 +20,10 @@ export function formatCurrency(amount: number, currency: Currency, decimals: num
         return `${formattedAmount} ${currency.symbol}`;
     }
 }
+
+/**
+ * Get the number of decimal places a currency uses for amounts
+ */
+export function getCurrencyMinorUnits(currency: Currency): number {
+    return currency.minorUnits ?? 2;
+}
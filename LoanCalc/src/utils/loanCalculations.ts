@@ -1,363 +1,3299 @@
-import { EarlyPayment } from '../components/EarlyPaymentList';
+import { EarlyPayment, EarlyPaymentStrategy } from '../components/EarlyPaymentList';
+import { parseDateFromStorage } from './dateUtils';
 
 export type RateAdjustment = {
     month: number;       // Month when rate changes (1-indexed)
     newRate: number;     // New annual interest rate (as percentage, e.g., 5 for 5%)
     date?: string;       // Optional: exact date (YYYY-MM-DD) - if provided, month is calculated from this
+    isGenerated?: boolean; // Derived from the loan's adjustable-rate terms rather than entered by hand
+};
+
+/**
+ * Index rate published on a given date (e.g. SOFR or a prime rate)
+ */
+export type IndexRate = {
+    date: string; // Effective date (YYYY-MM-DD)
+    rate: number; // Index rate as a percentage
+};
+
+/**
+ * Adjustable-rate terms: after the initial fixed period the rate resets to index + margin,
+ * limited by the caps. Caps bound the change in both directions; the floor bounds the rate itself.
+ */
+export type ArmConfig = {
+    initialFixedMonths: number;       // Months at the starting rate before the first adjustment
+    adjustmentIntervalMonths: number; // Months between adjustments after the first one
+    margin: number;                   // Percentage points added to the index
+    initialCap: number;               // Largest change at the first adjustment
+    periodicCap: number;              // Largest change at each later adjustment
+    lifetimeCap: number;              // Largest increase over the starting rate
+    floor?: number;                   // Lowest rate allowed (defaults to the margin)
+    indexRates: IndexRate[];          // User-maintained index rate table
+};
+
+/**
+ * Graduated (stepped) payments: the payment rises by a percentage every few months, or follows an
+ * explicit table. Stepped payments are solved so the loan still amortizes over the term; with a
+ * table, the payment from the last row on is raised if needed to pay off the balance in time.
+ * Applies to level-payment (annuity) loans with simple interest.
+ */
+export type GraduatedPaymentConfig = {
+    stepMonths?: number;                  // Months between payment increases
+    stepPercent?: number;                 // Increase at each step (as percentage)
+    maxSteps?: number;                    // Increases before the payment levels off (defaults to every step in the term)
+    paymentTable?: GraduatedPaymentRow[]; // Explicit payments, used instead of the steps
+};
+
+export type GraduatedPaymentRow = {
+    month: number;   // Loan month the payment starts (1-indexed)
+    payment: number; // Regular payment per period from that month on
+};
+
+/**
+ * Revolving credit line (such as a HELOC): the loan amount is the credit limit and the balance moves
+ * with dated draws and repayments. Payments are interest-only during the draw period; afterwards the
+ * balance amortizes over the rest of the term and no more draws are allowed.
+ * Interest accrues daily on the balance (Actual/365 unless another day count is set).
+ */
+export type CreditLineConfig = {
+    drawMonths: number;                    // Draw period at the start of the term
+    transactions: CreditLineTransaction[]; // Draw ledger
+};
+
+export type CreditLineTransaction = {
+    id: string;
+    type: 'draw' | 'repayment';
+    date: string;   // YYYY-MM-DD
+    amount: number;
+};
+
+/**
+ * Revolving credit card: the loan amount is the balance on the start date and there is no fixed
+ * term; payments continue until the balance is paid off. The minimum payment is a percentage of the
+ * balance (plus the month's interest when set), never less than the floor. A fixed payment plan pays
+ * a set amount each month instead, or the minimum when that is higher.
+ */
+export type CreditCardConfig = {
+    minimumPercent: number;           // Share of the balance due each month (as percentage)
+    minimumIncludesInterest: boolean; // The minimum is the percentage plus the month's interest
+    minimumFloor: number;             // Smallest minimum payment
+    fixedPayment?: number;            // Monthly payment of a payoff plan; only the minimum is paid without one
+    charges: CreditCardCharge[];      // New purchases added to the balance
+};
+
+export type CreditCardCharge = {
+    id: string;
+    date: string;   // YYYY-MM-DD
+    amount: number;
+};
+
+export type LoanKind = 'term' | 'creditLine' | 'creditCard';
+
+export type PaymentFrequency = 'monthly' | 'semi-monthly' | 'biweekly' | 'weekly';
+
+/**
+ * Costs of a loan beyond its interest
+ * Upfront fees and points are either paid in cash at closing or financed (added to the balance)
+ */
+export type LoanFees = {
+    upfrontFees?: number;    // Origination fee and closing costs
+    discountPoints?: number; // Points as a percentage of the loan amount (1 point = 1%)
+    financed?: boolean;      // Upfront fees and points are added to the loan instead of paid in cash
+    monthlyFee?: number;     // Recurring service or account fee per month
+};
+
+/**
+ * Limits on paying a loan down early, such as a yearly Sondertilgung allowance or a prepayment penalty
+ * Early payments above the allowance in a loan year are charged the penalty for that year
+ */
+export type PrepaymentPolicy = {
+    allowanceType: PrepaymentAllowanceType;
+    allowance: number;                  // Percentage of the original loan amount, or amount, per loan year
+    penalties: PrepaymentPenaltyTier[]; // Nothing is charged after the last tier
+};
+
+/**
+ * How the penalty-free allowance is set
+ * 'none' charges the penalty on every early payment, 'percent' allows a percentage of the original
+ * loan amount each loan year, 'amount' a fixed amount each loan year
+ */
+export type PrepaymentAllowanceType = 'none' | 'percent' | 'amount';
+
+export type PrepaymentPenaltyTier = {
+    untilYear: number; // Last loan year the penalty applies to
+    percent: number;   // Penalty as a percentage of the early payments above the allowance
+};
+
+/**
+ * Costs collected with a mortgage payment on top of principal and interest
+ * PMI is charged until the balance falls to the cancellation loan-to-value ratio of the property value
+ */
+export type EscrowConfig = {
+    annualPropertyTax?: number;
+    annualInsurance?: number; // Homeowners insurance premium per year
+    monthlyHoa?: number;      // Homeowners association dues per month
+    propertyValue?: number;   // Appraised value the loan-to-value ratio is measured against
+    pmiRate?: number;         // Annual PMI premium as a percentage of the original loan amount
+    pmiCancelLtv?: number;    // Loan-to-value ratio (%) at which PMI stops (defaults to 78)
+};
+
+/**
+ * What happens to the interest that accrues while payments are paused
+ * 'capitalize' adds it to the balance, 'accrue' sets it aside to be paid with the final payment,
+ * 'waive' forgives it
+ */
+export type DeferralInterest = 'capitalize' | 'accrue' | 'waive';
+
+/**
+ * How the loan catches up after a deferral
+ * 'extendTerm' adds the skipped payments to the end of the loan, 'increasePayment' keeps the
+ * payoff date and spreads the balance over the remaining payments
+ */
+export type DeferralAdjustment = 'extendTerm' | 'increasePayment';
+
+/**
+ * Payment holiday, deferral or forbearance: no payments are due for a run of months
+ */
+export type PaymentDeferral = {
+    startMonth: number; // First loan month without payments (1-indexed)
+    months: number;     // Number of months without payments
+    interest: DeferralInterest;
+    adjustment: DeferralAdjustment;
+};
+
+/**
+ * How interest accrues between payments
+ * 'periodic' charges annualRate / payments per year every period; the others accrue
+ * over the actual days between payment dates
+ */
+export type DayCountConvention = 'periodic' | 'actual/365' | 'actual/360' | '30/360';
+
+/**
+ * How often the nominal annual rate compounds
+ * 'payment' compounds once per payment period; the others are converted to the
+ * equivalent rate per payment period (e.g. Canadian fixed mortgages compound semi-annually)
+ */
+export type CompoundingFrequency = 'payment' | 'monthly' | 'semi-annual' | 'annual' | 'daily' | 'continuous';
+
+/**
+ * How the balance is repaid
+ * 'annuity' keeps the payment level; 'linear' repays the same principal every period,
+ * so payments start higher and fall with the interest
+ */
+export type AmortizationType = 'annuity' | 'linear';
+
+/**
+ * How interest is charged
+ * 'simple' accrues interest on the balance as it falls; 'add-on' and 'rule-of-78' precompute the
+ * interest on the full amount for the whole term and add it to the loan. Add-on interest is earned
+ * evenly over the payments, Rule of 78 interest by the sum of the digits (front-loaded), and an early
+ * payoff is only rebated the interest not yet earned. Interest-only periods, balloons, day counts,
+ * compounding, rate changes and deferrals apply to simple interest only.
+ */
+export type InterestMethod = 'simple' | 'add-on' | 'rule-of-78';
+
+/**
+ * Number of payments per year for each supported payment frequency
+ */
+export const PAYMENTS_PER_YEAR: Record<PaymentFrequency, number> = {
+    'monthly': 12,
+    'semi-monthly': 24,
+    'biweekly': 26,
+    'weekly': 52,
+};
+
+export const PAYMENT_FREQUENCIES: { value: PaymentFrequency; label: string }[] = [
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'semi-monthly', label: 'Semi-Monthly' },
+    { value: 'biweekly', label: 'Bi-Weekly' },
+    { value: 'weekly', label: 'Weekly' },
+];
+
+/**
+ * How amounts are rounded to the currency's minor unit
+ * 'down' and 'up' round toward and away from zero
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'down' | 'up';
+
+export const DAY_COUNT_CONVENTIONS: { value: DayCountConvention; label: string }[] = [
+    { value: 'periodic', label: 'Standard' },
+    { value: 'actual/365', label: 'Actual/365' },
+    { value: 'actual/360', label: 'Actual/360' },
+    { value: '30/360', label: '30/360' },
+];
+
+export const COMPOUNDING_FREQUENCIES: { value: CompoundingFrequency; label: string }[] = [
+    { value: 'payment', label: 'Each Payment' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'semi-annual', label: 'Semi-Annual' },
+    { value: 'annual', label: 'Annual' },
+    { value: 'daily', label: 'Daily' },
+    { value: 'continuous', label: 'Continuous' },
+];
+
+export const INTEREST_METHODS: { value: InterestMethod; label: string }[] = [
+    { value: 'simple', label: 'Simple Interest' },
+    { value: 'add-on', label: 'Add-On' },
+    { value: 'rule-of-78', label: 'Rule of 78' },
+];
+
+export const LOAN_KINDS: { value: LoanKind; label: string }[] = [
+    { value: 'term', label: 'Term Loan' },
+    { value: 'creditLine', label: 'Credit Line' },
+    { value: 'creditCard', label: 'Credit Card' },
+];
+
+// Highest APR accepted for a credit card (term loans are capped at 30%)
+export const MAX_CREDIT_CARD_APR = 100;
+
+// A card its payments never pay off is simulated for this many months
+const CREDIT_CARD_MAX_MONTHS = 1200;
+
+// Prepaying a precomputed loan is flagged when it saves less than this share of what it would save on an amortizing loan
+const PRECOMPUTED_SAVINGS_WARNING_RATIO = 0.75;
+
+export const AMORTIZATION_TYPES: { value: AmortizationType; label: string }[] = [
+    { value: 'annuity', label: 'Level Payments' },
+    { value: 'linear', label: 'Equal Principal' },
+];
+
+/**
+ * Number of compounding periods per year (continuous and per-payment compounding are handled separately)
+ */
+const COMPOUNDING_PER_YEAR: Record<Exclude<CompoundingFrequency, 'payment' | 'continuous'>, number> = {
+    'monthly': 12,
+    'semi-annual': 2,
+    'annual': 1,
+    'daily': 365,
 };
 
 export type LoanParams = {
     principal: number;
     annualRate: number;
     termInMonths: number;
+    paymentFrequency?: PaymentFrequency; // Defaults to monthly
+    interestOnlyMonths?: number;         // Months of interest-only payments before amortization starts
+    amortizationMonths?: number;         // Amortization period when longer than the term (balloon loan)
+    compoundingFrequency?: CompoundingFrequency; // Defaults to compounding once per payment
+    amortizationType?: AmortizationType; // Defaults to level (annuity) payments
+    interestMethod?: InterestMethod;     // Defaults to simple interest
+    graduated?: GraduatedPaymentConfig;  // Stepped payments instead of a level payment
+    fees?: LoanFees;                     // Financed fees are added to the amortized balance
+};
+
+/**
+ * Loan structure options stored on a loan that shape its payment schedule
+ */
+export type ScheduleOptions = {
+    paymentFrequency?: PaymentFrequency; // Defaults to monthly
+    interestOnlyMonths?: number;         // Months of interest-only payments before amortization starts
+    amortizationMonths?: number;         // Amortization period when longer than the term (balloon loan)
+    dayCountConvention?: DayCountConvention; // Defaults to periodic interest
+    compoundingFrequency?: CompoundingFrequency; // Defaults to compounding once per payment
+    amortizationType?: AmortizationType; // Defaults to level (annuity) payments
+    interestMethod?: InterestMethod;     // Defaults to simple interest
+    graduated?: GraduatedPaymentConfig;  // Stepped payments instead of a level payment
+    arm?: ArmConfig;                     // Adjustable-rate terms that generate rate changes
+    fees?: LoanFees;                     // Fees and points; financed ones are added to the balance
+    escrow?: EscrowConfig;               // Taxes, insurance, HOA and PMI collected with each payment
+    deferrals?: PaymentDeferral[];       // Months without payments
+    creditLine?: CreditLineConfig;       // Revolving credit line; the principal is the credit limit
+    creditCard?: CreditCardConfig;       // Revolving credit card; the principal is the balance and the term is ignored
+    prepaymentPolicy?: PrepaymentPolicy; // Yearly allowance and penalties on early payments
+};
+
+export type PaymentScheduleParams = ScheduleOptions & {
+    principal: number;
+    annualRate: number;
+    termInMonths: number;
+    startDate: Date;
+    earlyPayments?: EarlyPayment[];
+    rateAdjustments?: RateAdjustment[];
+    minorUnits?: number;        // Decimal places of the currency (defaults to 2)
+    roundingMode?: RoundingMode; // Defaults to half-up
+};
+
+export type PaymentDetail = {
+    paymentNumber: number;
+    date: string;
+    payment: number;   // Always principal + interest
+    principal: number; // Includes any early payment applied this period
+    earlyPayment: number; // Early payment applied this period (already part of principal and payment)
+    interest: number;
+    balance: number;
+    isInterestOnly: boolean; // Payment falls in the interest-only period
+    isBalloon: boolean;      // Final payment carrying the remaining balance of a balloon loan
+    escrow: number; // Taxes, insurance and HOA collected with this payment (not part of payment)
+    pmi: number;    // Mortgage insurance collected with this payment (not part of payment)
+    isDeferred: boolean;     // No payment due: the period falls in a deferral
+    deferredInterest: number; // Interest accrued during a deferred period (capitalized, set aside or waived)
+    isPaymentStep: boolean;   // Regular payment steps to a new amount on a graduated plan
+    draw: number;             // Drawn on a credit line or charged to a card this period (added to the balance)
+    prepaymentPenalty: number; // Penalty charged on this period's early payment (not part of payment)
+};
+
+export type PaymentCalculation = {
+    monthlyPayment: number; // Payment per period (per month unless a payment frequency is given); the first amortizing payment of a linear loan
+    totalPayment: number;
+    balloonPayment: number; // Final payment of a balloon loan (0 when the loan fully amortizes)
+};
+
+export type ScheduleTotals = {
+    totalPayment: number;
+    totalPrincipal: number;
+    totalInterest: number;
+    totalEscrow: number;
+    totalPmi: number;
+};
+
+/**
+ * First and last regular payment of a schedule
+ */
+export type PaymentRange = {
+    firstPayment: number;
+    lastPayment: number;
+};
+
+export type PaymentStep = {
+    paymentNumber: number;
+    date: string;
+    payment: number; // Regular payment from this step on (principal and interest)
+};
+
+export type ValueAdjustment = {
+    inflationRate?: number; // Annual inflation for real (today's money) totals (as percentage), off when 0
+    discountRate?: number;  // Annual discount rate for present values (as percentage), off when 0
+};
+
+export type DiscountedTotals = {
+    nominal: { totalPayment: number; totalInterest: number };
+    real: { totalPayment: number; totalInterest: number } | null;         // null without an inflation rate
+    presentValue: { totalPayment: number; totalInterest: number } | null; // null without a discount rate
+};
+
+export type SavingsCalculation = {
+    interestSaved: number;
+    periodDecrease: number; // Time saved in months, regardless of payment frequency
+    totalInterest: number;
+    actualTotalPayment: number;
+    interestOnlyInterest: number; // Interest paid during the interest-only period
+    balloonPayment: number;       // Final balloon payment after early payments (0 if none)
+    balloonReduction: number;     // How much early payments shrink the balloon payment
+    paymentReduction: number;     // How much recasting early payments lower the regular payment
+    prepaymentPenalties: number;  // Penalties charged on early payments (already deducted from interestSaved)
+};
+
+/**
+ * Early payments in one loan year measured against a prepayment policy
+ */
+export type PrepaymentYear = {
+    year: number;      // Loan year (1 = the first 12 months)
+    prepaid: number;   // Early payments made this loan year
+    allowance: number; // Penalty-free allowance for the year
+    excess: number;    // Early payments above the allowance
+    penalty: number;   // Penalty charged on the excess
+};
+
+export type DeferralCost = {
+    extraCost: number;           // Additional total paid compared with no deferrals (negative when interest is waived)
+    extraInterest: number;       // Additional interest, counting capitalized interest as interest
+    capitalizedInterest: number; // Interest added to the balance
+    accruedInterest: number;     // Interest set aside and paid with the final payment
+    waivedInterest: number;      // Interest forgiven
+    deferredPayments: number;    // Number of payments skipped
+    periodIncrease: number;      // Months added to the payoff, regardless of payment frequency
+    paymentIncrease: number;     // Change in the regular payment after the deferrals
+};
+
+export type ScheduleDiagnosticType = 'negativeAmortization' | 'paymentBelowInterest' | 'notPaidOff' | 'neverPaidOff' | 'precomputedPrepayment';
+
+/**
+ * Problem found in a payment schedule, such as a balance that grows instead of shrinking
+ */
+export type ScheduleDiagnostic = {
+    type: ScheduleDiagnosticType;
+    severity: 'warning' | 'error';
+    paymentNumbers: number[]; // Payments where the problem occurs
+    amount: number;           // Balance growth, interest shortfall, balance left for the final payment or left unpaid, or savings lost to precomputed interest
+};
+
+export type ScheduleWithDiagnostics = {
+    schedule: PaymentDetail[];
+    diagnostics: ScheduleDiagnostic[];
+};
+
+/**
+ * Where a credit line stands on a given date
+ */
+export type CreditLineStatus = {
+    creditLimit: number;
+    balance: number;         // Drawn and not yet repaid, including ledger entries since the last payment
+    availableCredit: number; // Left to draw (0 once the draw period has ended)
+    utilization: number;     // Balance as a percentage of the credit limit
+    isDrawPeriod: boolean;   // The next payment falls in the draw period
+    drawPeriodEnd: Date;     // Due date of the last interest-only payment
+};
+
+/**
+ * Result of paying a credit card by one plan
+ */
+export type CreditCardPayoffPlan = {
+    months: number;         // Months until the balance is paid off (or simulated, if it never is)
+    totalPayment: number;
+    totalInterest: number;
+    firstPayment: number;   // First monthly payment
+    isPaidOff: boolean;     // False when the payments never clear the balance
+};
+
+/**
+ * Minimum payments only compared with the card's fixed payment plan
+ */
+export type CreditCardPayoffComparison = {
+    minimumOnly: CreditCardPayoffPlan;
+    fixedPayment: CreditCardPayoffPlan | null; // Null without a fixed payment
+    interestSaved: number;  // Interest the fixed payment plan saves over minimum payments only
+    monthsSaved: number;
+};
+
+/**
+ * What it takes to pay a loan off on a given date
+ */
+export type EarlyPayoff = {
+    paymentsMade: number;  // Payments due by the payoff date
+    payoffAmount: number;  // Settles the loan after those payments, including any prepayment penalty
+    prepaymentPenalty: number; // Penalty for paying the balance off early (0 without one)
+    rebate: number;        // Scheduled interest no longer owed (the unearned interest of a precomputed loan)
+};
+
+export type RefinanceParams = {
+    newRate: number;              // Annual rate of the new loan (as percentage)
+    newTermInMonths: number;      // Term of the new loan
+    closingCosts: number;         // Fees and costs of refinancing
+    rollInClosingCosts?: boolean; // Add the closing costs to the new loan instead of paying them upfront
+    refinanceDate?: Date;         // Defaults to today
+};
+
+export type RefinanceAnalysis = {
+    paymentsMade: number;         // Payments made on the current loan before refinancing
+    currentBalance: number;       // Balance refinanced, taken from the current schedule
+    prepaymentPenalty: number;    // Penalty for paying the current loan off early (0 without one)
+    newPrincipal: number;         // Current balance and prepayment penalty, plus any rolled-in closing costs
+    newStartDate: Date;           // First payment of the new loan (the next payment of the current loan)
+    currentPayment: number;       // Regular payment on the current loan
+    newPayment: number;           // Regular payment on the new loan
+    remainingInterest: number;    // Interest left to pay on the current loan
+    newInterest: number;          // Interest over the life of the new loan
+    interestDifference: number;   // New interest minus remaining interest (negative when refinancing saves)
+    lifetimeCostDifference: number; // Interest difference plus closing costs and prepayment penalty
+    breakEvenMonth: number | null; // Month the new loan's cumulative cost drops to the current loan's, null if never
+    cumulativeCost: { current: number; refinanced: number }[]; // Cumulative interest (plus closing costs and penalty) by month
+};
+
+// Avalanche pays the highest rate first, snowball the smallest balance first
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+// Early payments written by the payoff planner, replaced when a new plan is applied
+export const PAYOFF_PLAN_ID_PREFIX = 'payoff-plan-';
+
+export const PAYOFF_STRATEGIES: { value: PayoffStrategy; label: string }[] = [
+    { value: 'avalanche', label: 'Avalanche' },
+    { value: 'snowball', label: 'Snowball' },
+    { value: 'custom', label: 'Custom' },
+];
+
+export type PayoffDebt = {
+    id: string;
+    name: string;
+    balance: number;        // Current balance
+    annualRate: number;     // Annual interest rate (as percentage)
+    minimumPayment: number; // Required payment per month
+};
+
+export type PayoffDebtResult = {
+    id: string;
+    payoffMonth: number;     // Month of the plan the debt is paid off (1-indexed)
+    totalInterest: number;
+    extraPayments: number[]; // Paid on top of the minimum payment, by month
+    balances: number[];      // Balance at the end of each month
+};
+
+export type PayoffPlan = {
+    strategy: PayoffStrategy;
+    months: number;            // Months until every debt is paid off
+    totalInterest: number;
+    totalPaid: number;
+    debts: PayoffDebtResult[]; // Same order as the debts given
+};
+
+export type InvestVsPrepayParams = {
+    annualReturn: number;      // Expected after-tax investment return (as percentage)
+    taxDeductionRate?: number; // Tax rate loan interest is deducted at (as percentage), 0 if not deductible
+    horizonMonths?: number;    // Months to compare over (defaults to the loan term)
+};
+
+export type InvestVsPrepayComparison = {
+    interestSaved: number;   // Lifetime interest saved by the early payments
+    prepayWealth: number;    // Investments plus loan paid down at the horizon, when prepaying
+    investWealth: number;    // Investments plus loan paid down at the horizon, when investing instead
+    advantage: number;       // Prepaying minus investing (positive when prepaying comes out ahead)
+    crossoverReturn: number | null; // Return at which both come out even (as percentage), null if none up to 100%
+    wealth: { prepay: number; invest: number }[]; // By month
+};
+
+/**
+ * Loan terms as saved in storage: amounts as numbers, rate changes as entered (strings)
+ */
+export type StoredLoanTerms = ScheduleOptions & {
+    amount: number;
+    interestRate: number;
+    term: number;
+    termUnit: 'months' | 'years';
+    startDate: string; // First payment date (YYYY-MM-DD)
+    earlyPayments?: EarlyPayment[];
+    rateAdjustments?: { month: string; newRate: string }[];
+};
+
+/**
+ * Where a loan stands on a given date, from its payment schedule
+ */
+export type LoanStatus = {
+    paymentsMade: number;      // Payments due on or before the date
+    paymentsRemaining: number;
+    balance: number;           // Balance after the payments made
+    currentRate: number;       // Annual rate charged on the next payment (as percentage)
+    currentPayment: number;    // Next regular payment due, principal and interest without early payments (0 once paid off)
+    nextPayment: PaymentDetail | null; // Next scheduled payment, null once paid off
+    nextDueDate: Date | null;  // Due date of the next payment, null once paid off
+    loanMonth: number;         // Loan month of the next payment (of the last payment once paid off)
+    isPaidOff: boolean;
+};
+
+/**
+ * Goal for the extra payment solver: pay off by a date, or keep total interest within a budget
+ */
+export type ExtraPaymentTarget =
+    | { type: 'payoffDate'; payoffDate: Date }
+    | { type: 'interestBudget'; maxInterest: number };
+
+export type ExtraPaymentSolution = {
+    amount: number;        // Recurring monthly extra payment needed (0 when the target is already met)
+    payoffDate: Date;      // Date of the last payment with the extra payment
+    totalInterest: number; // Total interest with the extra payment
+    prepaymentPenalties: number; // Penalties charged on early payments (counted in an interest budget)
+};
+
+export type AprCalculation = {
+    apr: number;           // Annual percentage rate including fees (as percentage)
+    effectiveRate: number; // Effective annual rate with compounding (as percentage)
+    upfrontFees: number;   // Upfront fees and points
+    financedFees: number;  // Part of the upfront fees added to the balance
+    totalFees: number;     // Upfront fees plus all recurring fees over the loan
+};
+
+export type AffordabilityParams = {
+    monthlyBudget: number;        // Most the borrower wants to pay per month
+    annualRate: number;
+    termInMonths: number;
+    paymentFrequency?: PaymentFrequency; // Defaults to monthly
+    compoundingFrequency?: CompoundingFrequency; // Defaults to compounding once per payment
+    downPayment?: number;         // Cash put toward the purchase price
+    monthlyIncome?: number;       // Gross monthly income, needed for a debt-to-income limit
+    otherMonthlyDebts?: number;   // Existing monthly debt payments
+    maxDebtToIncome?: number;     // Largest debt-to-income ratio allowed (as percentage, e.g., 36 for 36%)
+    minorUnits?: number;          // Decimal places of the currency (defaults to 2)
+};
+
+export type AffordabilityResult = {
+    maxPrincipal: number;    // Largest loan the payment supports
+    maxPrice: number;        // Largest purchase price (loan plus down payment)
+    payment: number;         // Payment per period on the largest loan
+    monthlyPayment: number;  // Same payment as an average monthly amount
+    limitedBy: 'budget' | 'debtToIncome';
+    debtToIncome: number | null; // Resulting debt-to-income ratio (as percentage), if income is known
 };
 
-export type PaymentScheduleParams = {
-    principal: number;
-    annualRate: number;
-    termInMonths: number;
-    startDate: Date;
-    earlyPayments?: EarlyPayment[];
-    rateAdjustments?: RateAdjustment[];
-};
+/**
+ * Pick the schedule options out of a stored loan, filling in defaults for older loans
+ * 
+ * @param loan - Loan (or any object) carrying schedule options
+ * @returns Schedule options to spread into schedule calculations
+ */
+export function getScheduleOptions(loan: ScheduleOptions): ScheduleOptions {
+    return {
+        paymentFrequency: loan.paymentFrequency || 'monthly',
+        interestOnlyMonths: loan.interestOnlyMonths || 0,
+        amortizationMonths: loan.amortizationMonths || 0,
+        dayCountConvention: loan.dayCountConvention || 'periodic',
+        compoundingFrequency: loan.compoundingFrequency || 'payment',
+        amortizationType: loan.amortizationType || 'annuity',
+        interestMethod: loan.interestMethod || 'simple',
+        graduated: loan.graduated,
+        arm: loan.arm,
+        fees: loan.fees,
+        escrow: loan.escrow,
+        deferrals: loan.deferrals,
+        creditLine: loan.creditLine,
+        creditCard: loan.creditCard,
+        prepaymentPolicy: loan.prepaymentPolicy,
+    };
+}
+
+/**
+ * Build schedule parameters from a stored loan
+ * 
+ * @param loan - Loan as saved in storage
+ * @param minorUnits - Decimal places of the currency
+ * @returns Parameters for the schedule calculations
+ */
+export function getLoanScheduleParams(loan: StoredLoanTerms, minorUnits: number = 2): PaymentScheduleParams {
+    return {
+        principal: loan.amount,
+        annualRate: loan.interestRate,
+        termInMonths: convertTermToMonths(loan.term, loan.termUnit),
+        startDate: parseDateFromStorage(loan.startDate),
+        ...getScheduleOptions(loan),
+        earlyPayments: loan.earlyPayments || [],
+        rateAdjustments: (loan.rateAdjustments || []).map(adjustment => ({
+            month: parseInt(adjustment.month),
+            newRate: parseFloat(adjustment.newRate)
+        })),
+        minorUnits,
+    };
+}
+
+/**
+ * Calculate the upfront fees of a loan: origination and closing costs plus discount points
+ * 
+ * @param principal - Loan amount
+ * @param fees - Loan fees
+ * @returns Upfront fees (0 without fees)
+ */
+export function getUpfrontFees(principal: number, fees?: LoanFees): number {
+    if (!fees) return 0;
+    return roundToMinorUnit(Math.max(0, fees.upfrontFees || 0) + principal * Math.max(0, fees.discountPoints || 0) / 100);
+}
+
+/**
+ * Get the balance a loan starts amortizing from, including any financed fees
+ * 
+ * @param principal - Loan amount
+ * @param fees - Loan fees
+ * @returns Loan amount plus financed upfront fees
+ */
+export function getFinancedPrincipal(principal: number, fees?: LoanFees): number {
+    return fees?.financed ? principal + getUpfrontFees(principal, fees) : principal;
+}
+
+/**
+ * Calculate the escrow collected with each payment: property tax, insurance and HOA dues
+ * 
+ * @param escrow - Escrow settings
+ * @param paymentFrequency - Payment frequency
+ * @returns Escrow per payment (0 without escrow)
+ */
+export function getPeriodicEscrow(escrow?: EscrowConfig, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    if (!escrow) return 0;
+    const annualEscrow = Math.max(0, escrow.annualPropertyTax || 0)
+        + Math.max(0, escrow.annualInsurance || 0)
+        + Math.max(0, escrow.monthlyHoa || 0) * 12;
+    return roundToMinorUnit(annualEscrow / PAYMENTS_PER_YEAR[paymentFrequency]);
+}
+
+/**
+ * Calculate the PMI collected with a payment, which stops once the balance reaches
+ * the cancellation loan-to-value ratio
+ * 
+ * @param escrow - Escrow settings with the property value and PMI rate
+ * @param loanAmount - Original loan amount the premium is based on
+ * @param balance - Balance before the payment
+ * @param paymentFrequency - Payment frequency
+ * @returns PMI for the payment (0 once cancelled or without PMI)
+ */
+export function getPeriodicPmi(escrow: EscrowConfig | undefined, loanAmount: number, balance: number, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    if (!escrow?.pmiRate || !escrow.propertyValue || escrow.pmiRate <= 0 || escrow.propertyValue <= 0) return 0;
+    const cancelBalance = escrow.propertyValue * (escrow.pmiCancelLtv ?? 78) / 100;
+    if (balance <= cancelBalance) return 0;
+    return roundToMinorUnit(loanAmount * escrow.pmiRate / 100 / PAYMENTS_PER_YEAR[paymentFrequency]);
+}
+
+/**
+ * Get the average monthly escrow and PMI of a loan at its current balance
+ * 
+ * @param escrow - Escrow settings
+ * @param loanAmount - Original loan amount the PMI premium is based on
+ * @param balance - Current balance
+ * @param paymentFrequency - Payment frequency
+ * @returns Escrow plus PMI per month
+ */
+export function getMonthlyEscrowPayment(escrow: EscrowConfig | undefined, loanAmount: number, balance: number, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    const periodicAmount = getPeriodicEscrow(escrow, paymentFrequency) + getPeriodicPmi(escrow, loanAmount, balance, paymentFrequency);
+    return convertPaymentToMonthly(periodicAmount, paymentFrequency);
+}
+
+/**
+ * Round an amount to the currency's minor unit
+ * 
+ * @param amount - Amount to round
+ * @param minorUnits - Decimal places of the currency (e.g. 2 for cents)
+ * @param roundingMode - Rounding mode
+ * @returns Rounded amount
+ */
+export function roundToMinorUnit(amount: number, minorUnits: number = 2, roundingMode: RoundingMode = 'half-up'): number {
+    const factor = Math.pow(10, minorUnits);
+    // Strip floating-point noise first so 1.005 is treated as 100.5 cents, not 100.4999...
+    const scaled = parseFloat((Math.abs(amount) * factor).toPrecision(12));
+
+    let rounded: number;
+    switch (roundingMode) {
+        case 'down':
+            rounded = Math.floor(scaled);
+            break;
+        case 'up':
+            rounded = Math.ceil(scaled);
+            break;
+        case 'half-even': {
+            const floor = Math.floor(scaled);
+            const remainder = scaled - floor;
+            rounded = remainder > 0.5 || (remainder === 0.5 && floor % 2 === 1) ? floor + 1 : floor;
+            break;
+        }
+        default:
+            rounded = Math.round(scaled);
+    }
+
+    return amount < 0 ? -rounded / factor : rounded / factor;
+}
+
+/**
+ * Add up amounts in whole minor units so totals don't drift by fractions of a cent
+ * 
+ * @param amounts - Amounts to add
+ * @param minorUnits - Decimal places of the currency
+ * @returns Exact total
+ */
+export function sumMinorUnits(amounts: number[], minorUnits: number = 2): number {
+    const factor = Math.pow(10, minorUnits);
+    return amounts.reduce((sum, amount) => sum + Math.round(amount * factor), 0) / factor;
+}
+
+/**
+ * Total up a payment schedule
+ * Principal always adds up to the amount borrowed, so totals reconcile with the loan amount
+ * 
+ * @param schedule - Payment schedule
+ * @param minorUnits - Decimal places of the currency
+ * @returns Total paid, principal and interest
+ */
+export function getScheduleTotals(schedule: PaymentDetail[], minorUnits: number = 2): ScheduleTotals {
+    return {
+        totalPayment: sumMinorUnits(schedule.map(payment => payment.payment), minorUnits),
+        totalPrincipal: sumMinorUnits(schedule.map(payment => payment.principal), minorUnits),
+        totalInterest: sumMinorUnits(schedule.map(payment => payment.interest), minorUnits),
+        totalEscrow: sumMinorUnits(schedule.map(payment => payment.escrow), minorUnits),
+        totalPmi: sumMinorUnits(schedule.map(payment => payment.pmi), minorUnits),
+    };
+}
+
+/**
+ * Find the first and last regular payment, which differ on a linear loan
+ * Interest-only, deferred and balloon payments and any early payments are left out
+ * 
+ * @param schedule - Payment schedule
+ * @param minorUnits - Decimal places of the currency
+ * @returns First and last regular payment, or null if the schedule has none
+ */
+export function getPaymentRange(schedule: PaymentDetail[], minorUnits: number = 2): PaymentRange | null {
+    const regularPayments = schedule.filter(payment => !payment.isInterestOnly && !payment.isDeferred && !payment.isBalloon);
+    if (regularPayments.length === 0) {
+        return null;
+    }
+
+    const first = regularPayments[0];
+    const last = regularPayments[regularPayments.length - 1];
+    return {
+        firstPayment: roundToMinorUnit(first.payment - first.earlyPayment, minorUnits),
+        lastPayment: roundToMinorUnit(last.payment - last.earlyPayment, minorUnits),
+    };
+}
+
+/**
+ * List the points where a graduated plan steps the payment to a new amount
+ * 
+ * @param schedule - Payment schedule
+ * @param minorUnits - Decimal places of the currency
+ * @returns Each step with the regular payment from then on
+ */
+export function getPaymentSteps(schedule: PaymentDetail[], minorUnits: number = 2): PaymentStep[] {
+    return schedule
+        .filter(payment => payment.isPaymentStep)
+        .map(payment => ({
+            paymentNumber: payment.paymentNumber,
+            date: payment.date,
+            payment: roundToMinorUnit(payment.payment - payment.earlyPayment, minorUnits),
+        }));
+}
+
+/**
+ * Get the factor that brings an amount paid in the future back to today's value
+ * 
+ * @param annualRate - Annual inflation or discount rate (as percentage)
+ * @param years - Years from loan start until the amount is paid
+ * @returns Discount factor (1 when the rate is 0)
+ */
+export function getDiscountFactor(annualRate: number, years: number): number {
+    return 1 / Math.pow(1 + annualRate / 100, years);
+}
+
+/**
+ * Discount per-period cash flows back to loan start
+ * The first amount is paid one period after the loan starts
+ * 
+ * @param amounts - Amount paid each period
+ * @param annualRate - Annual inflation or discount rate (as percentage)
+ * @param paymentFrequency - Payment frequency
+ * @returns Each amount in today's value
+ */
+export function discountCashFlows(amounts: number[], annualRate: number, paymentFrequency: PaymentFrequency = 'monthly'): number[] {
+    const periodsPerYear = PAYMENTS_PER_YEAR[paymentFrequency];
+    return amounts.map((amount, index) => amount * getDiscountFactor(annualRate, (index + 1) / periodsPerYear));
+}
+
+/**
+ * Calculate the net present value of per-period cash flows
+ * 
+ * @param amounts - Amount paid each period
+ * @param annualRate - Annual discount rate (as percentage)
+ * @param paymentFrequency - Payment frequency
+ * @param minorUnits - Decimal places of the currency
+ * @returns Present value of all amounts
+ */
+export function calculateNpv(amounts: number[], annualRate: number, paymentFrequency: PaymentFrequency = 'monthly', minorUnits: number = 2): number {
+    const total = discountCashFlows(amounts, annualRate, paymentFrequency).reduce((sum, amount) => sum + amount, 0);
+    return roundToMinorUnit(total, minorUnits);
+}
+
+/**
+ * Total up a payment schedule in nominal, real (inflation-adjusted) and present-value terms
+ * 
+ * @param schedule - Payment schedule
+ * @param adjustment - Inflation and discount rates
+ * @param paymentFrequency - Payment frequency of the schedule
+ * @param minorUnits - Decimal places of the currency
+ * @returns Total paid and interest, with real and present values when their rate is set
+ */
+export function getDiscountedTotals(schedule: PaymentDetail[], adjustment: ValueAdjustment, paymentFrequency: PaymentFrequency = 'monthly', minorUnits: number = 2): DiscountedTotals {
+    const { inflationRate = 0, discountRate = 0 } = adjustment;
+    const payments = schedule.map(payment => payment.payment);
+    const interest = schedule.map(payment => payment.interest);
+    const totalsAt = (annualRate: number) => ({
+        totalPayment: calculateNpv(payments, annualRate, paymentFrequency, minorUnits),
+        totalInterest: calculateNpv(interest, annualRate, paymentFrequency, minorUnits),
+    });
+    const totals = getScheduleTotals(schedule, minorUnits);
+
+    return {
+        nominal: { totalPayment: totals.totalPayment, totalInterest: totals.totalInterest },
+        real: inflationRate !== 0 ? totalsAt(inflationRate) : null,
+        presentValue: discountRate !== 0 ? totalsAt(discountRate) : null,
+    };
+}
+
+/**
+ * Get a display label for a payment frequency
+ * 
+ * @param paymentFrequency - Payment frequency
+ * @returns Label such as "Monthly" or "Bi-Weekly"
+ */
+export function getPaymentFrequencyLabel(paymentFrequency: PaymentFrequency = 'monthly'): string {
+    return PAYMENT_FREQUENCIES.find(f => f.value === paymentFrequency)?.label ?? 'Monthly';
+}
+
+/**
+ * Get a display label for a day-count convention
+ * 
+ * @param dayCountConvention - Day-count convention
+ * @returns Label such as "Standard" or "Actual/365"
+ */
+export function getDayCountConventionLabel(dayCountConvention: DayCountConvention = 'periodic'): string {
+    return DAY_COUNT_CONVENTIONS.find(c => c.value === dayCountConvention)?.label ?? 'Standard';
+}
+
+/**
+ * Get display label for a compounding frequency
+ * 
+ * @param compoundingFrequency - Compounding frequency
+ * @returns Human-readable label
+ */
+export function getCompoundingFrequencyLabel(compoundingFrequency: CompoundingFrequency = 'payment'): string {
+    return COMPOUNDING_FREQUENCIES.find(c => c.value === compoundingFrequency)?.label ?? 'Each Payment';
+}
+
+/**
+ * Get display label for an amortization type
+ * 
+ * @param amortizationType - Amortization type
+ * @returns Human-readable label
+ */
+export function getAmortizationTypeLabel(amortizationType: AmortizationType = 'annuity'): string {
+    return AMORTIZATION_TYPES.find(t => t.value === amortizationType)?.label ?? 'Level Payments';
+}
+
+/**
+ * Get display label for an interest method
+ * 
+ * @param interestMethod - Interest method
+ * @returns Human-readable label
+ */
+export function getInterestMethodLabel(interestMethod: InterestMethod = 'simple'): string {
+    return INTEREST_METHODS.find(m => m.value === interestMethod)?.label ?? 'Simple Interest';
+}
+
+/**
+ * Describe a credit line's two phases for display
+ * 
+ * @param creditLine - Credit line terms
+ * @param termInMonths - Whole term, draw and repayment periods together
+ * @returns Label such as "10y draw, then 20y repayment"
+ */
+export function getCreditLinePhasesLabel(creditLine: CreditLineConfig, termInMonths: number): string {
+    const formatMonths = (months: number) => months % 12 === 0 ? `${months / 12}y` : `${months}m`;
+    const repaymentMonths = Math.max(0, termInMonths - creditLine.drawMonths);
+    return `${formatMonths(creditLine.drawMonths)} draw, then ${formatMonths(repaymentMonths)} repayment`;
+}
+
+/**
+ * Describe a credit card's minimum payment formula for display
+ * 
+ * @param creditCard - Credit card terms
+ * @param formatAmount - Formats an amount in the card's currency
+ * @returns Label such as "1% of balance + interest, at least $25"
+ */
+export function getCreditCardMinimumLabel(creditCard: CreditCardConfig, formatAmount: (amount: number) => string): string {
+    const formula = `${creditCard.minimumPercent}% of balance${creditCard.minimumIncludesInterest ? ' + interest' : ''}`;
+    return creditCard.minimumFloor > 0 ? `${formula}, at least ${formatAmount(creditCard.minimumFloor)}` : formula;
+}
+
+/**
+ * Describe a prepayment policy for display
+ * 
+ * @param policy - Prepayment policy
+ * @param formatAmount - Formats an amount in the loan's currency
+ * @returns Label such as "5% a year penalty-free, 2% penalty until year 3"
+ */
+export function getPrepaymentPolicyLabel(policy: PrepaymentPolicy, formatAmount: (amount: number) => string): string {
+    const allowance = policy.allowanceType === 'percent'
+        ? `${policy.allowance}% a year penalty-free`
+        : policy.allowanceType === 'amount'
+            ? `${formatAmount(policy.allowance)} a year penalty-free`
+            : 'No penalty-free allowance';
+    const penalties = [...policy.penalties]
+        .sort((a, b) => a.untilYear - b.untilYear)
+        .map(tier => `${tier.percent}% penalty until year ${tier.untilYear}`);
+    return [allowance, ...penalties].join(', ');
+}
+
+/**
+ * Describe a graduated payment plan for display
+ * 
+ * @param graduated - Graduated payment plan
+ * @returns Human-readable summary, e.g. "+7% every 2 years"
+ */
+export function getGraduatedPaymentLabel(graduated: GraduatedPaymentConfig): string {
+    const rows = graduated.paymentTable?.length ?? 0;
+    if (rows > 0) {
+        return `Payment table (${rows} step${rows !== 1 ? 's' : ''})`;
+    }
+    const { stepMonths = 0, stepPercent = 0, maxSteps } = graduated;
+    const interval = stepMonths % 12 === 0
+        ? `${stepMonths / 12} year${stepMonths !== 12 ? 's' : ''}`
+        : `${stepMonths} months`;
+    return `+${stepPercent}% every ${interval}${maxSteps !== undefined ? `, ${maxSteps} times` : ''}`;
+}
+
+/**
+ * Calculate the precomputed interest of an add-on or Rule of 78 loan
+ * Formula: I = P * r * t, on the full amount for the whole term
+ * 
+ * @param principal - Loan amount
+ * @param annualRate - Annual add-on rate (as percentage)
+ * @param termInMonths - Loan term in months
+ * @returns Finance charge added to the loan
+ */
+export function calculateAddOnInterest(principal: number, annualRate: number, termInMonths: number): number {
+    return principal * annualRate / 100 * termInMonths / 12;
+}
+
+/**
+ * Interest of a precomputed loan not yet earned with some payments still to go, which is rebated on an early payoff
+ * Rule of 78: I * k(k+1) / n(n+1); add-on: I * k / n (earned evenly)
+ * 
+ * @param financeCharge - Precomputed interest of the loan
+ * @param totalPayments - Payments over the term (n)
+ * @param paymentsRemaining - Payments not yet due (k)
+ * @param interestMethod - Interest method (simple interest has nothing precomputed to rebate)
+ * @returns Unearned interest
+ */
+export function getUnearnedInterest(financeCharge: number, totalPayments: number, paymentsRemaining: number, interestMethod: InterestMethod): number {
+    const remaining = Math.min(Math.max(0, paymentsRemaining), totalPayments);
+    switch (interestMethod) {
+        case 'rule-of-78':
+            return financeCharge * remaining * (remaining + 1) / (totalPayments * (totalPayments + 1));
+        case 'add-on':
+            return financeCharge * remaining / totalPayments;
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Convert a nominal annual rate to the effective interest rate per payment period
+ * Formula: r = (1 + i/m)^(m/p) - 1 for m compounding periods and p payments a year,
+ * or r = e^(i/p) - 1 with continuous compounding
+ * 
+ * @param annualRate - Nominal annual interest rate (as percentage, e.g., 5 for 5%)
+ * @param paymentFrequency - Payment frequency
+ * @param compoundingFrequency - How often the rate compounds (defaults to once per payment)
+ * @returns Interest rate per payment period (as decimal)
+ */
+export function getPeriodicRate(annualRate: number, paymentFrequency: PaymentFrequency = 'monthly', compoundingFrequency: CompoundingFrequency = 'payment'): number {
+    const paymentsPerYear = PAYMENTS_PER_YEAR[paymentFrequency];
+    const rate = annualRate / 100;
+
+    if (compoundingFrequency === 'payment') {
+        return rate / paymentsPerYear;
+    }
+    if (compoundingFrequency === 'continuous') {
+        return Math.exp(rate / paymentsPerYear) - 1;
+    }
+    const periodsPerYear = COMPOUNDING_PER_YEAR[compoundingFrequency];
+    return Math.pow(1 + rate / periodsPerYear, periodsPerYear / paymentsPerYear) - 1;
+}
+
+/**
+ * Calculate the fraction of a year between two dates under a day-count convention
+ * 
+ * @param startDate - Start of the accrual period
+ * @param endDate - End of the accrual period
+ * @param dayCountConvention - Day-count convention
+ * @returns Year fraction to multiply the annual rate by
+ */
+export function getYearFraction(startDate: Date, endDate: Date, dayCountConvention: DayCountConvention): number {
+    if (dayCountConvention === '30/360') {
+        // US 30/360: the 31st counts as the 30th
+        const startDay = Math.min(startDate.getDate(), 30);
+        const endDay = endDate.getDate() === 31 && startDay === 30 ? 30 : endDate.getDate();
+        const days = (endDate.getFullYear() - startDate.getFullYear()) * 360
+            + (endDate.getMonth() - startDate.getMonth()) * 30
+            + (endDay - startDay);
+        return days / 360;
+    }
+
+    // Round to whole days so daylight saving shifts don't leak into the count
+    const days = Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    return days / (dayCountConvention === 'actual/360' ? 360 : 365);
+}
+
+/**
+ * Convert a term in months to the number of payments at the given frequency
+ * 
+ * @param termInMonths - Loan term in months
+ * @param paymentFrequency - Payment frequency
+ * @returns Number of payments over the term
+ */
+export function convertTermToPayments(termInMonths: number, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    return Math.round(termInMonths * PAYMENTS_PER_YEAR[paymentFrequency] / 12);
+}
+
+/**
+ * Convert a number of payments at the given frequency to months
+ * 
+ * @param numberOfPayments - Number of payments
+ * @param paymentFrequency - Payment frequency
+ * @returns Equivalent number of months (rounded)
+ */
+export function convertPaymentsToMonths(numberOfPayments: number, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    return Math.round(numberOfPayments * 12 / PAYMENTS_PER_YEAR[paymentFrequency]);
+}
+
+/**
+ * Convert a per-period payment to its average monthly amount
+ * 
+ * @param payment - Payment per period
+ * @param paymentFrequency - Payment frequency
+ * @returns Average amount paid per month
+ */
+export function convertPaymentToMonthly(payment: number, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    return payment * PAYMENTS_PER_YEAR[paymentFrequency] / 12;
+}
+
+/**
+ * Get the loan month (1-indexed) a payment falls in
+ * Early payments and rate adjustments are stored by month, so they apply
+ * on the first payment of their month
+ * 
+ * @param paymentNumber - Payment number (1-indexed)
+ * @param paymentFrequency - Payment frequency
+ * @returns Loan month containing this payment
+ */
+export function getMonthForPayment(paymentNumber: number, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    return Math.floor((paymentNumber - 1) * 12 / PAYMENTS_PER_YEAR[paymentFrequency]) + 1;
+}
+
+/**
+ * Calculate the due date of a payment
+ * 
+ * @param startDate - Date of the first payment
+ * @param paymentIndex - Payment index (0-indexed)
+ * @param paymentFrequency - Payment frequency
+ * @returns Payment due date
+ */
+export function getPaymentDate(startDate: Date, paymentIndex: number, paymentFrequency: PaymentFrequency = 'monthly'): Date {
+    const paymentDate = new Date(startDate);
+
+    switch (paymentFrequency) {
+        case 'weekly':
+            paymentDate.setDate(startDate.getDate() + paymentIndex * 7);
+            break;
+        case 'biweekly':
+            paymentDate.setDate(startDate.getDate() + paymentIndex * 14);
+            break;
+        case 'semi-monthly':
+            // Two payments a month, the second one 15 days after the first
+            setCalendarMonth(paymentDate, startDate, Math.floor(paymentIndex / 2));
+            if (Math.abs(paymentIndex % 2) === 1) {
+                paymentDate.setDate(paymentDate.getDate() + 15);
+            }
+            break;
+        default:
+            setCalendarMonth(paymentDate, startDate, paymentIndex);
+    }
+
+    return paymentDate;
+}
+
+/**
+ * Move a date a number of calendar months from a start date, keeping the day of the month
+ * where it exists and using the last day of shorter months (Jan 31 -> Feb 28/29)
+ */
+function setCalendarMonth(date: Date, startDate: Date, months: number): void {
+    date.setDate(1);
+    date.setMonth(startDate.getMonth() + months);
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    date.setDate(Math.min(startDate.getDate(), daysInMonth));
+}
+
+/**
+ * Calculate the level payment that amortizes a balance over a number of periods
+ * 
+ * @param principal - Balance to amortize
+ * @param periodRate - Interest rate per period (decimal)
+ * @param numberOfPayments - Number of payments
+ * @returns Payment per period
+ */
+function calculatePeriodicPayment(principal: number, periodRate: number, numberOfPayments: number): number {
+    // Handle 0% interest rate (simple division)
+    if (periodRate === 0) {
+        return principal / numberOfPayments;
+    }
+
+    return principal * (periodRate * Math.pow(1 + periodRate, numberOfPayments)) / (Math.pow(1 + periodRate, numberOfPayments) - 1);
+}
+
+/**
+ * Get the number of interest-only payments, always leaving at least one amortizing payment
+ * 
+ * @param interestOnlyMonths - Interest-only period in months
+ * @param totalPayments - Total number of payments over the term
+ * @param paymentFrequency - Payment frequency
+ * @returns Number of interest-only payments
+ */
+function getInterestOnlyPayments(interestOnlyMonths: number, totalPayments: number, paymentFrequency: PaymentFrequency): number {
+    if (!interestOnlyMonths || interestOnlyMonths <= 0) {
+        return 0;
+    }
+    return Math.min(convertTermToPayments(interestOnlyMonths, paymentFrequency), totalPayments - 1);
+}
+
+/**
+ * Get the number of payments the loan amortizes over, never fewer than the payments in the term
+ * 
+ * @param amortizationMonths - Amortization period in months (0 when it matches the term)
+ * @param totalPayments - Total number of payments over the term
+ * @param paymentFrequency - Payment frequency
+ * @returns Number of payments in the amortization period
+ */
+function getAmortizationPayments(amortizationMonths: number, totalPayments: number, paymentFrequency: PaymentFrequency): number {
+    if (!amortizationMonths || amortizationMonths <= 0) {
+        return totalPayments;
+    }
+    return Math.max(totalPayments, convertTermToPayments(amortizationMonths, paymentFrequency));
+}
+
+/**
+ * Calculate the balance left after a number of level payments
+ * 
+ * @param principal - Starting balance
+ * @param periodRate - Interest rate per period (decimal)
+ * @param payment - Payment per period
+ * @param paymentsMade - Number of payments made
+ * @returns Remaining balance
+ */
+function calculateBalanceAfterPayments(principal: number, periodRate: number, payment: number, paymentsMade: number): number {
+    if (periodRate === 0) {
+        return Math.max(0, principal - payment * paymentsMade);
+    }
+
+    const growth = Math.pow(1 + periodRate, paymentsMade);
+    return Math.max(0, principal * growth - payment * (growth - 1) / periodRate);
+}
+
+/**
+ * Check whether a graduated plan changes the payment in a loan month
+ * 
+ * @param graduated - Graduated payment plan
+ * @param month - Loan month (1-indexed)
+ * @returns True if the payment steps that month
+ */
+function isGraduatedStepMonth(graduated: GraduatedPaymentConfig, month: number): boolean {
+    if (month <= 1) return false;
+    if (graduated.paymentTable && graduated.paymentTable.length > 0) {
+        return graduated.paymentTable.some(row => row.month === month);
+    }
+    const { stepMonths = 0, maxSteps } = graduated;
+    return stepMonths > 0 && (month - 1) % stepMonths === 0 && (maxSteps === undefined || (month - 1) / stepMonths <= maxSteps);
+}
+
+/**
+ * Get the graduated payments that pay off a balance, starting from a given payment
+ * Stepped payments grow by the step percentage and are scaled to amortize the balance exactly;
+ * table payments are used as given, except that the last row is raised to pay off what is left
+ * 
+ * @param balance - Balance to pay off
+ * @param periodRate - Interest rate per period (decimal)
+ * @param numberOfPayments - Payments left to pay it off
+ * @param paymentFrequency - Payment frequency
+ * @param graduated - Graduated payment plan
+ * @param fromPayment - Payment number of the first payment (1-indexed)
+ * @returns Payment for each remaining period
+ */
+function getGraduatedPayments(balance: number, periodRate: number, numberOfPayments: number, paymentFrequency: PaymentFrequency, graduated: GraduatedPaymentConfig, fromPayment: number = 1): number[] {
+    const months = Array.from({ length: Math.max(1, numberOfPayments) }, (_, index) => getMonthForPayment(fromPayment + index, paymentFrequency));
+
+    const table = [...(graduated.paymentTable || [])].sort((a, b) => a.month - b.month);
+    if (table.length > 0) {
+        const lastRow = table[table.length - 1];
+        let remaining = balance;
+        return months.map((month, index) => {
+            const row = [...table].reverse().find(r => r.month <= month) ?? table[0];
+            const payment = row === lastRow
+                ? Math.max(row.payment, calculatePeriodicPayment(remaining, periodRate, months.length - index))
+                : row.payment;
+            remaining = remaining * (1 + periodRate) - payment;
+            return payment;
+        });
+    }
+
+    // Each step multiplies the payment; scale the first payment so the steps pay off the balance
+    const { stepMonths = 0, stepPercent = 0, maxSteps = Infinity } = graduated;
+    const factors = months.map(month => stepMonths > 0
+        ? Math.pow(1 + stepPercent / 100, Math.min(maxSteps, Math.floor((month - 1) / stepMonths)))
+        : 1);
+    const presentValue = factors.reduce((sum, factor, index) => sum + factor / Math.pow(1 + periodRate, index + 1), 0);
+    return factors.map(factor => balance * factor / presentValue);
+}
+
+/**
+ * Calculate periodic payment using standard amortization formula
+ * Formula: M = P * [r(1+r)^n] / [(1+r)^n - 1]
+ * With an interest-only period, the payment amortizes the loan over the remaining payments
+ * With a longer amortization period, whatever is still owed at the end of the term is due as a balloon payment
+ * 
+ * @param principal - Loan amount
+ * @param annualRate - Annual interest rate (as percentage, e.g., 5 for 5%)
+ * @param termInMonths - Loan term in months
+ * @param paymentFrequency - Payment frequency (defaults to monthly)
+ * @param interestOnlyMonths - Interest-only months at the start of the loan
+ * @param amortizationMonths - Amortization period in months, if longer than the term
+ * @param compoundingFrequency - How often the rate compounds (defaults to once per payment)
+ * @param amortizationType - Level payments (default) or equal principal, which returns the first payment
+ * @param interestMethod - Simple interest (default), or add-on / Rule of 78 precomputed interest
+ * @param graduated - Graduated payment plan, which returns the first amortizing payment
+ * @param fees - Loan fees; financed upfront fees are added to the principal
+ * @returns Amortizing payment per period, total payment and balloon payment
+ */
+export function calculatePayment({ principal: loanAmount, annualRate, termInMonths, paymentFrequency = 'monthly', interestOnlyMonths = 0, amortizationMonths = 0, compoundingFrequency = 'payment', amortizationType = 'annuity', interestMethod = 'simple', graduated, fees }: LoanParams): PaymentCalculation {
+    const principal = getFinancedPrincipal(loanAmount, fees);
+
+    // Validate inputs - allow 0% interest rate
+    if (principal == null || annualRate == null || termInMonths == null || 
+        isNaN(principal) || isNaN(annualRate) || isNaN(termInMonths) ||
+        principal <= 0 || annualRate < 0 || termInMonths <= 0) {
+        return { monthlyPayment: 0, totalPayment: 0, balloonPayment: 0 };
+    }
+
+    const periodRate = getPeriodicRate(annualRate, paymentFrequency, compoundingFrequency); // Convert annual percentage to periodic decimal
+    const numberOfPayments = Math.max(1, convertTermToPayments(termInMonths, paymentFrequency));
+
+    // Precomputed interest is added to the loan and repaid in equal payments
+    if (interestMethod !== 'simple') {
+        const totalPayment = principal + calculateAddOnInterest(principal, annualRate, termInMonths);
+        return { monthlyPayment: totalPayment / numberOfPayments, totalPayment, balloonPayment: 0 };
+    }
+    const interestOnlyPayments = getInterestOnlyPayments(interestOnlyMonths, numberOfPayments, paymentFrequency);
+    const amortizingPayments = getAmortizationPayments(amortizationMonths, numberOfPayments, paymentFrequency) - interestOnlyPayments;
+    const paymentsInTerm = numberOfPayments - interestOnlyPayments;
+    const interestOnlyTotal = principal * periodRate * interestOnlyPayments;
+
+    if (amortizationType === 'linear') {
+        // Equal principal each period; interest is charged on a balance falling in a straight line
+        const principalPayment = principal / amortizingPayments;
+        const paymentsMade = Math.min(amortizingPayments, paymentsInTerm);
+        const interestTotal = principal * periodRate * (paymentsMade - paymentsMade * (paymentsMade - 1) / (2 * amortizingPayments));
+        const balloonPayment = amortizingPayments > paymentsInTerm
+            ? (principal - principalPayment * (paymentsInTerm - 1)) * (1 + periodRate)
+            : 0;
+        return {
+            monthlyPayment: principalPayment + principal * periodRate,
+            totalPayment: principal + interestTotal + interestOnlyTotal,
+            balloonPayment,
+        };
+    }
+
+    if (graduated) {
+        // Regular payments step up; a balloon settles whatever they leave at the end of the term
+        const payments = getGraduatedPayments(principal, periodRate, amortizingPayments, paymentFrequency, graduated, interestOnlyPayments + 1).slice(0, paymentsInTerm);
+        const balanceBeforeLast = payments.slice(0, -1).reduce((balance, payment) => balance * (1 + periodRate) - payment, principal);
+        const balloonPayment = amortizingPayments > paymentsInTerm ? balanceBeforeLast * (1 + periodRate) : 0;
+        const regularTotal = payments.reduce((sum, payment) => sum + payment, 0);
+        return {
+            monthlyPayment: payments[0],
+            totalPayment: (balloonPayment > 0 ? regularTotal - payments[payments.length - 1] + balloonPayment : regularTotal) + interestOnlyTotal,
+            balloonPayment,
+        };
+    }
+
+    const monthlyPayment = calculatePeriodicPayment(principal, periodRate, amortizingPayments);
+
+    if (amortizingPayments <= paymentsInTerm) {
+        return { monthlyPayment, totalPayment: monthlyPayment * amortizingPayments + interestOnlyTotal, balloonPayment: 0 };
+    }
+
+    // The final payment clears the balance left after the regular payments
+    const balanceBeforeBalloon = calculateBalanceAfterPayments(principal, periodRate, monthlyPayment, paymentsInTerm - 1);
+    const balloonPayment = balanceBeforeBalloon * (1 + periodRate);
+    const totalPayment = monthlyPayment * (paymentsInTerm - 1) + balloonPayment + interestOnlyTotal;
+
+    return { monthlyPayment, totalPayment, balloonPayment };
+}
+
+/**
+ * Calculate the largest loan a payment budget supports (the inverse of calculatePayment)
+ * Formula: P = M * [1 - (1+r)^-n] / r
+ * With a debt-to-income limit, the budget is capped at what the income allows after other debts
+ * 
+ * @param params - Payment budget, rate, term and optional down payment and debt-to-income limit
+ * @returns Largest loan and purchase price, and which limit applied
+ */
+export function calculateMaxPrincipal({ monthlyBudget, annualRate, termInMonths, paymentFrequency = 'monthly', compoundingFrequency = 'payment', downPayment = 0, monthlyIncome = 0, otherMonthlyDebts = 0, maxDebtToIncome, minorUnits = 2 }: AffordabilityParams): AffordabilityResult {
+    // Payment left for this loan under the debt-to-income limit
+    const debtToIncomeLimit = monthlyIncome > 0 && maxDebtToIncome != null && maxDebtToIncome > 0 ? maxDebtToIncome : null;
+    const debtToIncomeBudget = debtToIncomeLimit !== null ? monthlyIncome * debtToIncomeLimit / 100 - otherMonthlyDebts : Infinity;
+    const limitedBy = debtToIncomeBudget < monthlyBudget ? 'debtToIncome' : 'budget';
+    const monthlyPayment = Math.max(0, Math.min(monthlyBudget, debtToIncomeBudget));
+
+    // Validate inputs - allow 0% interest rate
+    if (isNaN(monthlyPayment) || isNaN(annualRate) || isNaN(termInMonths) ||
+        monthlyPayment <= 0 || annualRate < 0 || termInMonths <= 0) {
+        return { maxPrincipal: 0, maxPrice: Math.max(0, downPayment || 0), payment: 0, monthlyPayment: 0, limitedBy, debtToIncome: null };
+    }
+
+    const paymentsPerYear = PAYMENTS_PER_YEAR[paymentFrequency];
+    const periodRate = getPeriodicRate(annualRate, paymentFrequency, compoundingFrequency);
+    const numberOfPayments = Math.max(1, convertTermToPayments(termInMonths, paymentFrequency));
+    const payment = roundToMinorUnit(monthlyPayment * 12 / paymentsPerYear, minorUnits, 'down');
+
+    const principal = periodRate === 0
+        ? payment * numberOfPayments
+        : payment * (1 - Math.pow(1 + periodRate, -numberOfPayments)) / periodRate;
+    // Round down so the payment on the suggested loan never exceeds the budget
+    const maxPrincipal = roundToMinorUnit(principal, minorUnits, 'down');
+    const averageMonthlyPayment = convertPaymentToMonthly(payment, paymentFrequency);
+
+    return {
+        maxPrincipal,
+        maxPrice: maxPrincipal + Math.max(0, downPayment || 0),
+        payment,
+        monthlyPayment: averageMonthlyPayment,
+        limitedBy,
+        debtToIncome: monthlyIncome > 0 ? (averageMonthlyPayment + otherMonthlyDebts) / monthlyIncome * 100 : null,
+    };
+}
+
+/**
+ * Find the deferral covering a loan month
+ * 
+ * @param month - Loan month (1-indexed)
+ * @param deferrals - Deferral periods
+ * @returns Deferral covering the month, if any
+ */
+export function getDeferralForMonth(month: number, deferrals: PaymentDeferral[]): PaymentDeferral | undefined {
+    return deferrals.find(deferral => month >= deferral.startMonth && month < deferral.startMonth + deferral.months);
+}
+
+/**
+ * Calculate total early payments applicable for a specific month
+ * 
+ * @param month - Current month (1-indexed)
+ * @param earlyPayments - Array of early payment configurations
+ * @returns Total early payment amount for this month
+ */
+export function getEarlyPaymentsForMonth(month: number, earlyPayments: EarlyPayment[]): number {
+    let totalEarlyPayment = 0;
+
+    earlyPayments.forEach(payment => {
+        const amount = parseFloat(payment.amount) || 0;
+
+        if (payment.type === "recurring") {
+            const startMonth = parseInt(payment.month) || 1;
+            const frequency = parseInt(payment.frequency || "1");
+
+            // Check if this month qualifies for recurring payment
+            if (month >= startMonth && (month - startMonth) % frequency === 0) {
+                totalEarlyPayment += amount;
+            }
+        } else if (payment.type === "one-time" && parseInt(payment.month) === month) {
+            // One-time payments apply to specific month
+            totalEarlyPayment += amount;
+        }
+    });
+
+    return totalEarlyPayment;
+}
+
+/**
+ * Expand early payments that carry an exact date into dated occurrences
+ * Recurring payments repeat on the same day of the month every `frequency` months
+ * 
+ * @param earlyPayments - Array of early payment configurations
+ * @param termInMonths - Loan term in months
+ * @returns Date, amount and strategy of each dated early payment
+ */
+function getDatedEarlyPayments(earlyPayments: EarlyPayment[], termInMonths: number): { date: Date; amount: number; strategy: EarlyPaymentStrategy }[] {
+    const occurrences: { date: Date; amount: number; strategy: EarlyPaymentStrategy }[] = [];
+
+    earlyPayments.forEach(payment => {
+        if (!payment.date) return;
+
+        const amount = parseFloat(payment.amount) || 0;
+        const strategy = payment.strategy ?? 'reduceTerm';
+        const [year, month, day] = payment.date.split('-').map(Number);
+
+        if (payment.type === "recurring") {
+            const startMonth = parseInt(payment.month) || 1;
+            const frequency = parseInt(payment.frequency || "1") || 1;
+            for (let loanMonth = startMonth; loanMonth <= termInMonths; loanMonth += frequency) {
+                occurrences.push({ date: new Date(year, month - 1 + loanMonth - startMonth, day), amount, strategy });
+            }
+        } else {
+            occurrences.push({ date: new Date(year, month - 1, day), amount, strategy });
+        }
+    });
+
+    return occurrences;
+}
+
+/**
+ * Derive the rate changes of an adjustable-rate loan from its index rate table
+ * Each reset uses the latest index rate on or before the reset date; resets that
+ * leave the rate unchanged are skipped
+ * 
+ * @param arm - Adjustable-rate terms and index rate table
+ * @param startRate - Starting annual interest rate (percentage)
+ * @param termInMonths - Loan term in months
+ * @param startDate - Date of the first payment
+ * @returns Generated rate adjustments, sorted by month
+ */
+export function generateArmRateAdjustments(arm: ArmConfig, startRate: number, termInMonths: number, startDate: Date): RateAdjustment[] {
+    const adjustments: RateAdjustment[] = [];
+    const interval = Math.max(1, Math.round(arm.adjustmentIntervalMonths));
+    if (!startDate || isNaN(startDate.getTime())) {
+        return adjustments;
+    }
+
+    const indexRates = [...arm.indexRates]
+        .filter(indexRate => /^\d{4}-\d{2}-\d{2}$/.test(indexRate.date) && !isNaN(indexRate.rate))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const ceiling = startRate + arm.lifetimeCap;
+    const floor = arm.floor ?? arm.margin;
+
+    let currentRate = startRate;
+    let isFirstAdjustment = true;
+    for (let month = Math.max(1, Math.round(arm.initialFixedMonths)) + 1; month <= termInMonths; month += interval) {
+        const resetDate = new Date(startDate.getFullYear(), startDate.getMonth() + month - 1, startDate.getDate());
+        const resetDateStr = `${resetDate.getFullYear()}-${String(resetDate.getMonth() + 1).padStart(2, '0')}-${String(resetDate.getDate()).padStart(2, '0')}`;
+
+        // Latest index rate published on or before the reset date
+        const indexRate = indexRates.filter(indexRate => indexRate.date <= resetDateStr).pop();
+        if (!indexRate) continue;
+
+        const cap = isFirstAdjustment ? arm.initialCap : arm.periodicCap;
+        isFirstAdjustment = false;
+
+        let newRate = indexRate.rate + arm.margin;
+        newRate = Math.min(Math.max(newRate, currentRate - cap), currentRate + cap);
+        newRate = Math.min(Math.max(newRate, floor), ceiling);
+        newRate = Math.round(newRate * 1000) / 1000;
+
+        if (newRate !== currentRate) {
+            adjustments.push({ month, newRate, date: resetDateStr, isGenerated: true });
+            currentRate = newRate;
+        }
+    }
+
+    return adjustments;
+}
+
+/**
+ * Project forward to find the actual payoff payment considering current trajectory
+ * This accounts for early payments when calculating remaining term
+ * 
+ * @param currentPayment - Current payment number in schedule (1-indexed)
+ * @param currentBalance - Remaining balance at current payment
+ * @param basePayment - Regular periodic payment (before early payments)
+ * @param periodRate - Current interest rate per period (decimal)
+ * @param getPayment - Regular payment for a later payment number, when it isn't level
+ * @returns Projected payment number when loan will be paid off
+ */
+function calculateProjectedPayoffPayment(
+    currentPayment: number,
+    currentBalance: number,
+    basePayment: number,
+    periodRate: number,
+    getPayment: (paymentNumber: number) => number = () => basePayment
+): number {
+    let balance = currentBalance;
+    let paymentNumber = currentPayment;
+    const maxPayments = 5200; // Safety limit (100 years of weekly payments)
+
+    while (balance > 0 && paymentNumber < maxPayments) {
+        // Calculate interest and principal
+        const interest = balance * periodRate;
+        const principal = Math.min(getPayment(paymentNumber) - interest, balance);
+        
+        balance -= principal;
+        paymentNumber++;
+
+        // Stop if paid off
+        if (balance <= 0) break;
+    }
+
+    return paymentNumber - 1; // Return last payment number
+}
+
+/**
+ * Generate the schedule of an add-on or Rule of 78 loan
+ * The precomputed interest is earned by the loan's rule whatever the balance, so early payments go
+ * to principal and only save the interest not yet earned when the loan ends early
+ * 
+ * @param params - Loan parameters with a precomputed interest method
+ * @returns Array of payment details for each payment period
+ */
+function generatePrecomputedSchedule({
+    principal,
+    annualRate,
+    termInMonths,
+    startDate,
+    paymentFrequency = 'monthly',
+    interestMethod = 'add-on',
+    fees,
+    escrow,
+    earlyPayments = [],
+    minorUnits = 2,
+    roundingMode = 'half-up'
+}: PaymentScheduleParams): PaymentDetail[] {
+    const roundMoney = (amount: number) => roundToMinorUnit(amount, minorUnits, roundingMode);
+
+    const loanAmount = roundMoney(getFinancedPrincipal(principal, fees));
+    const totalPayments = Math.max(1, convertTermToPayments(termInMonths, paymentFrequency));
+    const financeCharge = roundMoney(calculateAddOnInterest(loanAmount, annualRate, termInMonths));
+    const regularPayment = roundMoney((loanAmount + financeCharge) / totalPayments);
+    const periodicEscrow = roundMoney(getPeriodicEscrow(escrow, paymentFrequency));
+
+    const schedule: PaymentDetail[] = [];
+    let balance = loanAmount;
+    let interestEarned = 0;
+
+    for (let i = 0; i < totalPayments; i++) {
+        if (balance <= 0) break;
+
+        const paymentNumber = i + 1;
+        const openingBalance = balance;
+        const currentMonth = getMonthForPayment(paymentNumber, paymentFrequency);
+        const isFirstPaymentOfMonth = paymentNumber === 1 || getMonthForPayment(paymentNumber - 1, paymentFrequency) !== currentMonth;
+        const paymentDate = getPaymentDate(startDate, i, paymentFrequency);
+
+        // Early payments go straight to principal, before the regular payment
+        const earlyPaymentPrincipal = isFirstPaymentOfMonth
+            ? Math.min(roundMoney(getEarlyPaymentsForMonth(currentMonth, earlyPayments)), balance)
+            : 0;
+        balance = roundMoney(balance - earlyPaymentPrincipal);
+
+        // Interest earned this period by the loan's rule; none once an early payment has settled the loan
+        const earnedByNow = roundMoney(financeCharge - getUnearnedInterest(financeCharge, totalPayments, totalPayments - paymentNumber, interestMethod));
+        const interestPayment = balance > 0 ? roundMoney(earnedByNow - interestEarned) : 0;
+        let principalPayment = Math.min(roundMoney(regularPayment - interestPayment), balance);
+        balance = roundMoney(balance - principalPayment);
+
+        // The final payment settles the rounding difference
+        if (paymentNumber === totalPayments && balance > 0) {
+            principalPayment = roundMoney(principalPayment + balance);
+            balance = 0;
+        }
+        interestEarned = roundMoney(interestEarned + interestPayment);
+        const totalPrincipal = roundMoney(principalPayment + earlyPaymentPrincipal);
+
+        schedule.push({
+            paymentNumber,
+            date: paymentDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+            payment: roundMoney(totalPrincipal + interestPayment),
+            principal: totalPrincipal,
+            earlyPayment: earlyPaymentPrincipal,
+            interest: interestPayment,
+            balance: Math.max(0, balance),
+            isInterestOnly: false,
+            isBalloon: false,
+            escrow: periodicEscrow,
+            pmi: roundMoney(getPeriodicPmi(escrow, loanAmount, openingBalance, paymentFrequency)),
+            isDeferred: false,
+            deferredInterest: 0,
+            isPaymentStep: false,
+            draw: 0,
+            prepaymentPenalty: 0,
+        });
+    }
+
+    return schedule;
+}
+
+/**
+ * Ledger entries of a credit line with a valid date and amount, in date order
+ */
+function getCreditLineTransactions(creditLine: CreditLineConfig): { date: Date; type: 'draw' | 'repayment'; amount: number }[] {
+    return (creditLine.transactions || [])
+        .map(transaction => ({ date: parseDateFromStorage(transaction.date), type: transaction.type, amount: transaction.amount }))
+        .filter(transaction => !isNaN(transaction.date.getTime()) && transaction.amount > 0)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Generate the payment schedule of a revolving credit line (HELOC)
+ * Monthly payments: interest-only on the drawn balance during the draw period, then a level payment
+ * that repays the balance by the end of the term (recast when the rate changes or a repayment is made).
+ * Draws beyond the credit limit or after the draw period are not applied. The line opens one month
+ * before the first payment date; earlier ledger entries count from that day.
+ * 
+ * @param params - Loan parameters with credit line terms; the principal is the credit limit
+ * @returns Array of payment details for each payment period
+ */
+function generateCreditLineSchedule({
+    principal: creditLimit,
+    annualRate,
+    termInMonths,
+    startDate,
+    dayCountConvention = 'periodic',
+    creditLine,
+    arm,
+    rateAdjustments = [],
+    minorUnits = 2,
+    roundingMode = 'half-up'
+}: PaymentScheduleParams & { creditLine: CreditLineConfig }): PaymentDetail[] {
+    const roundMoney = (amount: number) => roundToMinorUnit(amount, minorUnits, roundingMode);
+
+    const totalPayments = Math.max(1, Math.round(termInMonths));
+    const drawPayments = Math.min(Math.max(0, Math.round(creditLine.drawMonths)), totalPayments);
+    const accrualConvention: DayCountConvention = dayCountConvention === 'periodic' ? 'actual/365' : dayCountConvention;
+    const transactions = getCreditLineTransactions(creditLine);
+
+    // Manual rate changes win over generated ones in the same month
+    const armRateAdjustments = arm ? generateArmRateAdjustments(arm, annualRate, termInMonths, startDate) : [];
+    const sortedRateAdjustments = [...rateAdjustments, ...armRateAdjustments]
+        .filter(adjustment => !isNaN(adjustment.month) && !isNaN(adjustment.newRate))
+        .sort((a, b) => a.month - b.month);
+
+    const schedule: PaymentDetail[] = [];
+    let balance = 0;
+    let currentRate = annualRate;
+    let regularPayment = 0;
+    let needsRecast = true;
+    let periodStart = getPaymentDate(startDate, -1);
+    let nextTransaction = 0;
+
+    for (let i = 0; i < totalPayments; i++) {
+        const paymentNumber = i + 1;
+        const isDrawPeriod = paymentNumber <= drawPayments;
+        // Nothing left to repay and nothing more can be drawn
+        if (!isDrawPeriod && balance <= 0) break;
+
+        const paymentDate = getPaymentDate(startDate, i);
+        const monthAdjustment = sortedRateAdjustments.find(adjustment => adjustment.month === paymentNumber);
+        if (monthAdjustment && monthAdjustment.newRate !== currentRate) {
+            currentRate = monthAdjustment.newRate;
+            needsRecast = true;
+        }
+
+        // Interest accrues on the balance between ledger entries
+        let accruedInterest = 0;
+        let accrualStart = periodStart;
+        let drawn = 0;
+        let repaid = 0;
+        while (nextTransaction < transactions.length && transactions[nextTransaction].date <= paymentDate) {
+            const transaction = transactions[nextTransaction++];
+            const transactionDate = transaction.date > accrualStart ? transaction.date : accrualStart;
+            accruedInterest += balance * getYearFraction(accrualStart, transactionDate, accrualConvention) * currentRate / 100;
+            accrualStart = transactionDate;
+
+            if (transaction.type === 'draw') {
+                const amount = isDrawPeriod ? roundMoney(Math.min(transaction.amount, creditLimit - balance)) : 0;
+                balance = roundMoney(balance + amount);
+                drawn = roundMoney(drawn + amount);
+            } else {
+                const amount = roundMoney(Math.min(transaction.amount, balance));
+                balance = roundMoney(balance - amount);
+                repaid = roundMoney(repaid + amount);
+                needsRecast = true;
+            }
+        }
+        accruedInterest += balance * getYearFraction(accrualStart, paymentDate, accrualConvention) * currentRate / 100;
+        const interestPayment = roundMoney(accruedInterest);
+
+        // The repayment period amortizes whatever is drawn when it starts
+        let principalPayment = 0;
+        if (!isDrawPeriod) {
+            if (needsRecast || paymentNumber === drawPayments + 1) {
+                regularPayment = roundMoney(calculatePeriodicPayment(balance, getPeriodicRate(currentRate), totalPayments - i));
+                needsRecast = false;
+            }
+            principalPayment = Math.max(0, Math.min(roundMoney(regularPayment - interestPayment), balance));
+        }
+
+        // The final payment settles the balance, as a balloon if the term ends in the draw period
+        const isFinalPayment = paymentNumber === totalPayments;
+        if (isFinalPayment) {
+            principalPayment = balance;
+        }
+        balance = roundMoney(balance - principalPayment);
+        const totalPrincipal = roundMoney(principalPayment + repaid);
+
+        schedule.push({
+            paymentNumber,
+            date: paymentDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+            payment: roundMoney(totalPrincipal + interestPayment),
+            principal: totalPrincipal,
+            earlyPayment: repaid,
+            interest: interestPayment,
+            balance: Math.max(0, balance),
+            isInterestOnly: isDrawPeriod && !isFinalPayment,
+            isBalloon: isDrawPeriod && isFinalPayment && principalPayment > 0,
+            escrow: 0,
+            pmi: 0,
+            isDeferred: false,
+            deferredInterest: 0,
+            isPaymentStep: false,
+            draw: drawn,
+            prepaymentPenalty: 0,
+        });
+        periodStart = paymentDate;
+    }
+
+    return schedule;
+}
+
+/**
+ * Credit card charges with a valid date and amount, in date order
+ */
+function getCreditCardCharges(creditCard: CreditCardConfig): { date: Date; amount: number }[] {
+    return (creditCard.charges || [])
+        .map(charge => ({ date: parseDateFromStorage(charge.date), amount: charge.amount }))
+        .filter(charge => !isNaN(charge.date.getTime()) && charge.amount > 0)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Minimum payment due on a credit card statement
+ * 
+ * @param creditCard - Credit card terms
+ * @param balance - Balance on the statement, before the month's interest
+ * @param interest - Interest charged on the statement
+ * @returns Minimum payment, never more than the statement balance
+ */
+function getCreditCardMinimumPayment(creditCard: CreditCardConfig, balance: number, interest: number): number {
+    const percentOf = creditCard.minimumIncludesInterest ? balance : balance + interest;
+    const formula = percentOf * Math.max(0, creditCard.minimumPercent) / 100 + (creditCard.minimumIncludesInterest ? interest : 0);
+    return Math.min(balance + interest, Math.max(Math.max(0, creditCard.minimumFloor || 0), formula));
+}
+
+/**
+ * Generate the payment schedule of a credit card, which runs until the balance is paid off
+ * Interest is charged monthly on the balance carried into the month; charges post to that month's
+ * statement and accrue interest from the next one. Each payment is the minimum, or the fixed
+ * payment when it is higher; early payments are paid on top.
+ * 
+ * @param params - Loan parameters with credit card terms; the principal is the balance on the start date
+ * @returns Array of payment details for each month until payoff (at most CREDIT_CARD_MAX_MONTHS)
+ */
+function generateCreditCardSchedule({
+    principal,
+    annualRate,
+    startDate,
+    creditCard,
+    earlyPayments = [],
+    rateAdjustments = [],
+    minorUnits = 2,
+    roundingMode = 'half-up'
+}: PaymentScheduleParams & { creditCard: CreditCardConfig }): PaymentDetail[] {
+    const roundMoney = (amount: number) => roundToMinorUnit(amount, minorUnits, roundingMode);
+
+    const charges = getCreditCardCharges(creditCard);
+    const sortedRateAdjustments = rateAdjustments
+        .filter(adjustment => !isNaN(adjustment.month) && !isNaN(adjustment.newRate))
+        .sort((a, b) => a.month - b.month);
+
+    const schedule: PaymentDetail[] = [];
+    let balance = roundMoney(principal);
+    let currentRate = annualRate;
+    let nextCharge = 0;
+
+    for (let i = 0; i < CREDIT_CARD_MAX_MONTHS; i++) {
+        // Paid off, with no charges still to come
+        if (balance <= 0 && nextCharge >= charges.length) break;
+
+        const paymentNumber = i + 1;
+        const paymentDate = getPaymentDate(startDate, i);
+        const monthAdjustment = sortedRateAdjustments.find(adjustment => adjustment.month === paymentNumber);
+        if (monthAdjustment) {
+            currentRate = monthAdjustment.newRate;
+        }
+
+        const interestPayment = roundMoney(balance * getPeriodicRate(currentRate));
+        let charged = 0;
+        while (nextCharge < charges.length && charges[nextCharge].date <= paymentDate) {
+            charged = roundMoney(charged + charges[nextCharge++].amount);
+        }
+        balance = roundMoney(balance + charged);
+
+        // A payment below the interest lets the balance grow
+        const minimumPayment = roundMoney(getCreditCardMinimumPayment(creditCard, balance, interestPayment));
+        const regularPayment = Math.min(Math.max(minimumPayment, creditCard.fixedPayment || 0), roundMoney(balance + interestPayment));
+        const principalPayment = roundMoney(regularPayment - interestPayment);
+        balance = roundMoney(balance - principalPayment);
+
+        const earlyPaymentPrincipal = Math.min(roundMoney(getEarlyPaymentsForMonth(paymentNumber, earlyPayments)), Math.max(0, balance));
+        balance = roundMoney(balance - earlyPaymentPrincipal);
+        const totalPrincipal = roundMoney(principalPayment + earlyPaymentPrincipal);
+
+        schedule.push({
+            paymentNumber,
+            date: paymentDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+            payment: roundMoney(totalPrincipal + interestPayment),
+            principal: totalPrincipal,
+            earlyPayment: earlyPaymentPrincipal,
+            interest: interestPayment,
+            balance: Math.max(0, balance),
+            isInterestOnly: false,
+            isBalloon: false,
+            escrow: 0,
+            pmi: 0,
+            isDeferred: false,
+            deferredInterest: 0,
+            isPaymentStep: false,
+            draw: charged,
+            prepaymentPenalty: 0,
+        });
+    }
+
+    return schedule;
+}
+
+/**
+ * Get the loan year a payment falls in
+ * 
+ * @param paymentNumber - Payment number (1-indexed)
+ * @param paymentFrequency - Payment frequency
+ * @returns Loan year (1 = the first 12 months)
+ */
+function getLoanYearForPayment(paymentNumber: number, paymentFrequency: PaymentFrequency): number {
+    return Math.ceil(getMonthForPayment(paymentNumber, paymentFrequency) / 12);
+}
+
+/**
+ * Get the penalty-free early payments allowed each loan year
+ * 
+ * @param policy - Prepayment policy
+ * @param principal - Original loan amount
+ * @returns Yearly allowance (0 without one)
+ */
+function getPrepaymentAllowance(policy: PrepaymentPolicy, principal: number): number {
+    if (policy.allowanceType === 'percent') return Math.max(0, principal * policy.allowance / 100);
+    if (policy.allowanceType === 'amount') return Math.max(0, policy.allowance);
+    return 0;
+}
+
+/**
+ * Get the penalty charged in a loan year: the first tier that still applies
+ * 
+ * @param policy - Prepayment policy
+ * @param year - Loan year
+ * @returns Penalty as a percentage (0 after the last tier)
+ */
+function getPrepaymentPenaltyPercent(policy: PrepaymentPolicy, year: number): number {
+    const tier = [...policy.penalties]
+        .sort((a, b) => a.untilYear - b.untilYear)
+        .find(tier => year <= tier.untilYear);
+    return tier ? Math.max(0, tier.percent) : 0;
+}
+
+/**
+ * Charge prepayment penalties on the early payments of a schedule
+ * Early payments use up the yearly allowance in order; the rest is charged that year's penalty
+ * 
+ * @param schedule - Payment schedule
+ * @param policy - Prepayment policy (the schedule is returned as is without one)
+ * @param principal - Original loan amount
+ * @param paymentFrequency - Payment frequency
+ * @param roundMoney - Rounds an amount to the currency's minor unit
+ * @returns Schedule with the penalty of each period
+ */
+function applyPrepaymentPolicy(
+    schedule: PaymentDetail[],
+    policy: PrepaymentPolicy | undefined,
+    principal: number,
+    paymentFrequency: PaymentFrequency,
+    roundMoney: (amount: number) => number
+): PaymentDetail[] {
+    if (!policy) return schedule;
+
+    const allowance = getPrepaymentAllowance(policy, principal);
+    let currentYear = 0;
+    let prepaid = 0;
+
+    return schedule.map(payment => {
+        if (payment.earlyPayment <= 0) return payment;
+
+        const year = getLoanYearForPayment(payment.paymentNumber, paymentFrequency);
+        if (year !== currentYear) {
+            currentYear = year;
+            prepaid = 0;
+        }
+        const penaltyFree = Math.max(0, Math.min(payment.earlyPayment, allowance - prepaid));
+        prepaid += payment.earlyPayment;
+
+        const prepaymentPenalty = roundMoney((payment.earlyPayment - penaltyFree) * getPrepaymentPenaltyPercent(policy, year) / 100);
+        return prepaymentPenalty > 0 ? { ...payment, prepaymentPenalty } : payment;
+    });
+}
+
+/**
+ * Get the prepayment penalty for paying off a loan's balance after some of its payments
+ * Early payments already made in that loan year use up the allowance first
+ * 
+ * @param params - Loan parameters with the prepayment policy
+ * @param schedule - Payment schedule for the parameters
+ * @param paymentsMade - Payments made before the payoff
+ * @param balance - Balance paid off
+ * @returns Penalty on the payoff (0 without a policy)
+ */
+function getPayoffPenalty(params: PaymentScheduleParams, schedule: PaymentDetail[], paymentsMade: number, balance: number): number {
+    const { prepaymentPolicy, principal, paymentFrequency = 'monthly', minorUnits = 2 } = params;
+    if (!prepaymentPolicy || balance <= 0) return 0;
+
+    const year = getLoanYearForPayment(paymentsMade + 1, paymentFrequency);
+    const prepaid = schedule.slice(0, paymentsMade)
+        .filter(payment => getLoanYearForPayment(payment.paymentNumber, paymentFrequency) === year)
+        .reduce((sum, payment) => sum + payment.earlyPayment, 0);
+    const penaltyFree = Math.max(0, getPrepaymentAllowance(prepaymentPolicy, principal) - prepaid);
+    return roundToMinorUnit(Math.max(0, balance - penaltyFree) * getPrepaymentPenaltyPercent(prepaymentPolicy, year) / 100, minorUnits);
+}
+
+/**
+ * Generate detailed payment schedule showing how each payment is split between principal and interest
+ * 
+ * @param params - Loan parameters and optional early payments
+ * @returns Array of payment details for each payment period
+ */
+export function generatePaymentSchedule({ 
+    principal, 
+    annualRate, 
+    termInMonths, 
+    startDate, 
+    paymentFrequency = 'monthly',
+    interestOnlyMonths = 0,
+    amortizationMonths = 0,
+    dayCountConvention = 'periodic',
+    compoundingFrequency = 'payment',
+    amortizationType = 'annuity',
+    interestMethod = 'simple',
+    graduated,
+    arm,
+    fees,
+    escrow,
+    deferrals = [],
+    creditLine,
+    creditCard,
+    prepaymentPolicy,
+    earlyPayments = [],
+    rateAdjustments = [],
+    minorUnits = 2,
+    roundingMode = 'half-up'
+}: PaymentScheduleParams): PaymentDetail[] {
+    // A credit card has no term and may start from a zero balance or rate
+    if (creditCard) {
+        if (isNaN(principal) || principal < 0 || isNaN(annualRate) || annualRate < 0 || !startDate || isNaN(startDate.getTime())) {
+            return [];
+        }
+        return generateCreditCardSchedule({ principal, annualRate, termInMonths, startDate, creditCard, earlyPayments, rateAdjustments, minorUnits, roundingMode });
+    }
+
+    // Validate inputs
+    if (!principal || !annualRate || !termInMonths || principal <= 0 || annualRate < 0 || termInMonths <= 0) {
+        return [];
+    }
+
+    // Validate startDate
+    if (!startDate || isNaN(startDate.getTime())) {
+        return [];
+    }
+
+    if (creditLine) {
+        return generateCreditLineSchedule({ principal, annualRate, termInMonths, startDate, dayCountConvention, creditLine, arm, rateAdjustments, minorUnits, roundingMode });
+    }
+
+    if (interestMethod !== 'simple') {
+        const precomputedSchedule = generatePrecomputedSchedule({ principal, annualRate, termInMonths, startDate, paymentFrequency, interestMethod, fees, escrow, earlyPayments, minorUnits, roundingMode });
+        return applyPrepaymentPolicy(precomputedSchedule, prepaymentPolicy, principal, paymentFrequency, amount => roundToMinorUnit(amount, minorUnits, roundingMode));
+    }
+
+    // Sort rate adjustments by month; manual adjustments win over generated ones in the same month
+    const armRateAdjustments = arm ? generateArmRateAdjustments(arm, annualRate, termInMonths, startDate) : [];
+    const sortedRateAdjustments = [...rateAdjustments, ...armRateAdjustments].sort((a, b) => a.month - b.month);
+
+    const totalPayments = Math.max(1, convertTermToPayments(termInMonths, paymentFrequency));
+
+    // Interest-only payments come first, the remaining payments amortize the balance
+    const interestOnlyPayments = getInterestOnlyPayments(interestOnlyMonths, totalPayments, paymentFrequency);
+    const amortizationPayments = getAmortizationPayments(amortizationMonths, totalPayments, paymentFrequency);
+    const amortizingPayments = amortizationPayments - interestOnlyPayments;
+
+    // Balloon loans amortize past the end of the term; the last payment settles the rest
+    const hasBalloon = amortizationPayments > totalPayments;
+
+    // Deferrals that extend the term add the skipped payments to the end of the loan
+    const extensionPayments = deferrals
+        .filter(deferral => deferral.adjustment === 'extendTerm')
+        .reduce((sum, deferral) => sum + convertTermToPayments(deferral.months, paymentFrequency), 0);
+    const scheduledPayments = totalPayments + extensionPayments;
+
+    // With a day-count convention, interest accrues between payment dates and
+    // early payments with an exact date stop accruing interest from that day
+    const usesDayCount = dayCountConvention !== 'periodic';
+    const datedEarlyPayments = usesDayCount ? getDatedEarlyPayments(earlyPayments, termInMonths) : [];
+    const monthlyEarlyPayments = usesDayCount ? earlyPayments.filter(payment => !payment.date) : earlyPayments;
+
+    // Early payments either shorten the term (default) or recast the payment over the remaining term
+    const reduceTermEarlyPayments = monthlyEarlyPayments.filter(payment => payment.strategy !== 'reducePayment');
+    const reducePaymentEarlyPayments = monthlyEarlyPayments.filter(payment => payment.strategy === 'reducePayment');
+
+    // Every amount is kept in whole minor units; the final payment absorbs the rounding difference
+    const roundMoney = (amount: number) => roundToMinorUnit(amount, minorUnits, roundingMode);
+
+    // Level payment of an annuity loan, the current step of a graduated one, or the fixed principal
+    // repaid each period of a linear loan
+    const isLinear = amortizationType === 'linear';
+    const graduatedPlan = isLinear ? undefined : graduated;
+    const calculateInstallment = (amount: number, rate: number, payments: number, fromPayment: number = interestOnlyPayments + 1) => {
+        if (isLinear) return roundMoney(amount / Math.max(1, payments));
+        if (graduatedPlan) return roundMoney(getGraduatedPayments(amount, rate, payments, paymentFrequency, graduatedPlan, fromPayment)[0]);
+        return roundMoney(calculatePeriodicPayment(amount, rate, payments));
+    };
+
+    // Initialize with starting rate
+    let currentRate = annualRate;
+    let periodRate = getPeriodicRate(currentRate, paymentFrequency, compoundingFrequency);
+
+    const schedule: PaymentDetail[] = [];
+    // Financed fees and points are borrowed along with the loan amount
+    let balance = roundMoney(getFinancedPrincipal(principal, fees));
+
+    // Escrow and PMI are collected with each payment but never reduce the balance
+    const loanAmount = balance;
+    const periodicEscrow = roundMoney(getPeriodicEscrow(escrow, paymentFrequency));
+
+    // Calculate INITIAL amortizing payment using original principal and term
+    let monthlyPayment = calculateInstallment(balance, periodRate, amortizingPayments);
+
+    // Track remaining amortizing payments throughout the loop
+    let remainingPayments = amortizingPayments;
+
+    // Interest set aside during deferrals, due with the final payment
+    let accruedInterest = 0;
+    let recastAfterDeferral = false; // Capitalized interest or fewer remaining payments change the payment
+
+    // Generate payment details for each payment period
+    for (let i = 0; i < scheduledPayments; i++) {
+        // Stop if loan is paid off early
+        if (balance <= 0) break;
+
+        const paymentNumber = i + 1; // 1-indexed payment number
+        const openingBalance = balance; // PMI is cancelled based on the balance going into the payment
+        const currentMonth = getMonthForPayment(paymentNumber, paymentFrequency);
+
+        // Month-based events apply on the first payment of their month
+        const isFirstPaymentOfMonth = paymentNumber === 1 || getMonthForPayment(paymentNumber - 1, paymentFrequency) !== currentMonth;
+        const isInterestOnly = paymentNumber <= interestOnlyPayments;
+
+        // Interest for this payment accrues from the previous payment date
+        const paymentDate = getPaymentDate(startDate, i, paymentFrequency);
+        const accrualStartDate = getPaymentDate(startDate, i - 1, paymentFrequency);
+
+        // STEP 0: Amortization starts after the interest-only period, based on the balance at that point
+        if (interestOnlyPayments > 0 && paymentNumber === interestOnlyPayments + 1) {
+            monthlyPayment = calculateInstallment(balance, periodRate, amortizingPayments);
+            remainingPayments = amortizingPayments;
+        }
+
+        // STEP 0b: Payments resume after a deferral, spread over the payments that are left
+        const deferral = paymentNumber < scheduledPayments ? getDeferralForMonth(currentMonth, deferrals) : undefined;
+        if (recastAfterDeferral && !deferral) {
+            if (!isInterestOnly) {
+                monthlyPayment = calculateInstallment(balance, periodRate, remainingPayments, paymentNumber);
+            }
+            recastAfterDeferral = false;
+        }
+
+        // STEP 0c: A graduated payment steps to its next amount
+        const isPaymentStep = !!graduatedPlan && !isInterestOnly && !deferral && isFirstPaymentOfMonth && isGraduatedStepMonth(graduatedPlan, currentMonth);
+        if (isPaymentStep) {
+            monthlyPayment = calculateInstallment(balance, periodRate, remainingPayments, paymentNumber);
+        }
+
+        // STEP 1: Check for early payment BEFORE processing regular payment
+        let reduceTermAmount = isFirstPaymentOfMonth ? roundMoney(getEarlyPaymentsForMonth(currentMonth, reduceTermEarlyPayments)) : 0;
+        let reducePaymentAmount = isFirstPaymentOfMonth ? roundMoney(getEarlyPaymentsForMonth(currentMonth, reducePaymentEarlyPayments)) : 0;
+
+        // Dated early payments apply in the period they fall in; track the interest they accrue until paid
+        let earlyPaymentAccrual = 0;
+        datedEarlyPayments.forEach(earlyPayment => {
+            if (earlyPayment.date > accrualStartDate && earlyPayment.date <= paymentDate) {
+                if (earlyPayment.strategy === 'reducePayment') {
+                    reducePaymentAmount += roundMoney(earlyPayment.amount);
+                } else {
+                    reduceTermAmount += roundMoney(earlyPayment.amount);
+                }
+                earlyPaymentAccrual += earlyPayment.amount * getYearFraction(accrualStartDate, earlyPayment.date, dayCountConvention);
+            }
+        });
+        const earlyPaymentAmount = reduceTermAmount + reducePaymentAmount;
+        let earlyPaymentPrincipal = 0;
+        if (earlyPaymentAmount > 0) {
+            // Apply reduce-term payments first so a recast in the same period uses the shortened term
+            const reduceTermPrincipal = Math.min(reduceTermAmount, balance);
+            balance = roundMoney(balance - reduceTermPrincipal);
+
+            // During the interest-only period the lower balance only lowers the interest due
+            if (!isInterestOnly && reduceTermAmount > 0) {
+                // Recalculate remaining payments by projecting payoff with current payment
+                // Graduated payments keep stepping by the same ratios as the scheduled payments
+                const graduatedPayments = graduatedPlan
+                    ? getGraduatedPayments(balance, periodRate, scheduledPayments - paymentNumber + 1, paymentFrequency, graduatedPlan, paymentNumber)
+                    : [];
+                const projectedPayoffPayment = isLinear
+                    ? paymentNumber + Math.ceil(balance / monthlyPayment) - 1
+                    : calculateProjectedPayoffPayment(
+                        paymentNumber,
+                        balance,
+                        monthlyPayment,
+                        periodRate,
+                        graduatedPayments.length > 0
+                            ? (number => monthlyPayment * (graduatedPayments[number - paymentNumber] ?? graduatedPayments[graduatedPayments.length - 1]) / graduatedPayments[0])
+                            : undefined
+                    );
+                
+                remainingPayments = Math.max(1, projectedPayoffPayment - paymentNumber + 1);
+            }
+
+            const reducePaymentPrincipal = Math.min(reducePaymentAmount, balance);
+            balance = roundMoney(balance - reducePaymentPrincipal);
+            earlyPaymentPrincipal = roundMoney(reduceTermPrincipal + reducePaymentPrincipal);
+
+            // Recast: keep the remaining payments and spread the lower balance over them
+            if (!isInterestOnly && reducePaymentAmount > 0) {
+                monthlyPayment = calculateInstallment(balance, periodRate, remainingPayments, paymentNumber);
+            }
+        }
+
+        // STEP 2: Check if rate adjusts this month
+        const rateChange = isFirstPaymentOfMonth ? sortedRateAdjustments.find(adj => adj.month === currentMonth) : undefined;
+        if (rateChange) {
+            // Update to new rate
+            currentRate = rateChange.newRate;
+            periodRate = getPeriodicRate(currentRate, paymentFrequency, compoundingFrequency);
+            
+            // STEP 3: Recalculate payment when rate changes
+            // If there was an early payment, remainingPayments was modified by projection
+            // For rate changes, we should use the early-payment-adjusted remainingPayments if it exists,
+            // otherwise use the actual remaining payments
+            // This handles both scenarios: rate change alone, or rate change + early payment
+            // Interest-only payments follow the new rate directly; amortization is set up in STEP 0
+            if (!isInterestOnly) {
+                monthlyPayment = calculateInstallment(balance, periodRate, remainingPayments, paymentNumber);
+            }
+        }
+
+        // STEP 3b: A deferred period only accrues interest; extending the term keeps the remaining payments
+        if (deferral) {
+            const deferredInterest = roundMoney(usesDayCount
+                ? (balance * getYearFraction(accrualStartDate, paymentDate, dayCountConvention) + earlyPaymentAccrual) * currentRate / 100
+                : balance * periodRate);
+            if (deferral.interest === 'capitalize') {
+                balance = roundMoney(balance + deferredInterest);
+                recastAfterDeferral = true;
+            } else if (deferral.interest === 'accrue') {
+                accruedInterest = roundMoney(accruedInterest + deferredInterest);
+            }
+            if (!isInterestOnly && deferral.adjustment === 'increasePayment') {
+                remainingPayments = Math.max(1, remainingPayments - 1);
+                recastAfterDeferral = true;
+            }
+
+            schedule.push({
+                paymentNumber,
+                date: paymentDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+                payment: earlyPaymentPrincipal,
+                principal: earlyPaymentPrincipal,
+                earlyPayment: earlyPaymentPrincipal,
+                interest: 0,
+                balance: Math.max(0, balance),
+                isInterestOnly,
+                isBalloon: false,
+                escrow: periodicEscrow, // Taxes and insurance are still due
+                pmi: roundMoney(getPeriodicPmi(escrow, loanAmount, openingBalance, paymentFrequency)),
+                isDeferred: true,
+                deferredInterest,
+                isPaymentStep: false,
+                draw: 0,
+                prepaymentPenalty: 0,
+            });
+            continue;
+        }
+
+        // STEP 4: Process regular payment (interest only during the interest-only period)
+        let interestPayment = roundMoney(usesDayCount
+            ? (balance * getYearFraction(accrualStartDate, paymentDate, dayCountConvention) + earlyPaymentAccrual) * currentRate / 100
+            : balance * periodRate);
+        let principalPayment = isInterestOnly ? 0 : Math.min(isLinear ? monthlyPayment : roundMoney(monthlyPayment - interestPayment), balance);
+        balance = roundMoney(balance - principalPayment);
+
+        // STEP 4b: The final payment settles what is left - the full balance of a balloon loan,
+        // or the rounding and day-count difference on a fully amortizing loan
+        const isFinalPayment = paymentNumber === scheduledPayments && balance > 0;
+        const isBalloon = hasBalloon && isFinalPayment;
+        if (isFinalPayment) {
+            principalPayment = roundMoney(principalPayment + balance);
+            balance = 0;
+        }
+        const totalPrincipal = roundMoney(principalPayment + earlyPaymentPrincipal);
+
+        // Interest set aside during deferrals is paid off with the loan
+        if (balance <= 0 && accruedInterest > 0) {
+            interestPayment = roundMoney(interestPayment + accruedInterest);
+            accruedInterest = 0;
+        }
+
+        // Decrement remaining amortizing payments for next iteration
+        if (!isInterestOnly) {
+            remainingPayments = Math.max(1, remainingPayments - 1);
+        }
+
+        // STEP 5: Record this payment in the schedule (early payment is included in principal and payment)
+        schedule.push({
+            paymentNumber,
+            date: paymentDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+            payment: roundMoney(totalPrincipal + interestPayment), // Include early payment in total
+            principal: totalPrincipal,
+            earlyPayment: earlyPaymentPrincipal,
+            interest: interestPayment,
+            balance: Math.max(0, balance),
+            isInterestOnly,
+            isBalloon,
+            escrow: periodicEscrow,
+            pmi: roundMoney(getPeriodicPmi(escrow, loanAmount, openingBalance, paymentFrequency)),
+            isDeferred: false,
+            deferredInterest: 0,
+            isPaymentStep,
+            draw: 0,
+            prepaymentPenalty: 0,
+        });
+    }
+
+    // Penalties depend on the early payments of the whole loan year
+    return applyPrepaymentPolicy(schedule, prepaymentPolicy, principal, paymentFrequency, roundMoney);
+}
+
+/**
+ * Calculate savings from early payments by comparing with original schedule
+ * 
+ * @param params - Loan parameters with early payments
+ * @returns Interest saved, time saved, payment reduction, total interest, actual total payment, and balloon figures
+ */
+export function calculateSavings({ 
+    principal, 
+    annualRate, 
+    termInMonths, 
+    startDate, 
+    paymentFrequency = 'monthly',
+    interestOnlyMonths = 0,
+    amortizationMonths = 0,
+    dayCountConvention = 'periodic',
+    compoundingFrequency = 'payment',
+    amortizationType = 'annuity',
+    interestMethod = 'simple',
+    graduated,
+    arm,
+    fees,
+    deferrals = [],
+    creditLine,
+    creditCard,
+    prepaymentPolicy,
+    earlyPayments = [],
+    rateAdjustments = [],
+    minorUnits = 2,
+    roundingMode = 'half-up'
+}: PaymentScheduleParams): SavingsCalculation {
+    // Generate schedule with early payments and rate adjustments
+    const scheduleWithEarlyPayments = generatePaymentSchedule({ 
+        principal, 
+        annualRate, 
+        termInMonths, 
+        startDate, 
+        paymentFrequency,
+        interestOnlyMonths,
+        amortizationMonths,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        arm,
+        fees,
+        deferrals,
+        creditLine,
+        creditCard,
+        prepaymentPolicy,
+        earlyPayments,
+        rateAdjustments,
+        minorUnits,
+        roundingMode
+    });
+
+    // Generate original schedule without early payments but with rate adjustments
+    const originalSchedule = generatePaymentSchedule({ 
+        principal, 
+        annualRate, 
+        termInMonths, 
+        startDate, 
+        paymentFrequency,
+        interestOnlyMonths,
+        amortizationMonths,
+        dayCountConvention,
+        compoundingFrequency,
+        amortizationType,
+        interestMethod,
+        graduated,
+        arm,
+        fees,
+        deferrals,
+        creditLine,
+        creditCard,
+        earlyPayments: [],
+        rateAdjustments,
+        minorUnits,
+        roundingMode
+    });
+
+    // Calculate totals with and without early payments
+    const { totalInterest, totalPayment: actualTotalPayment } = getScheduleTotals(scheduleWithEarlyPayments, minorUnits);
+    const { totalInterest: originalTotalInterest } = getScheduleTotals(originalSchedule, minorUnits);
+    
+    // Calculate interest saved, net of any penalties on the early payments
+    const prepaymentPenalties = sumMinorUnits(scheduleWithEarlyPayments.map(payment => payment.prepaymentPenalty), minorUnits);
+    const interestSaved = roundToMinorUnit(originalTotalInterest - totalInterest - prepaymentPenalties, minorUnits);
+    
+    // Calculate time saved (months)
+    const periodDecrease = convertPaymentsToMonths(originalSchedule.length - scheduleWithEarlyPayments.length, paymentFrequency);
+    
+    // Calculate interest paid during the interest-only period
+    const interestOnlyInterest = sumMinorUnits(
+        scheduleWithEarlyPayments.filter(payment => payment.isInterestOnly).map(payment => payment.interest),
+        minorUnits
+    );
+
+    // Calculate the balloon payment (principal and interest, excluding any early payment that period)
+    const getBalloonPayment = (schedule: PaymentDetail[]) => {
+        const balloonRow = schedule.find(payment => payment.isBalloon);
+        return balloonRow ? balloonRow.payment : 0;
+    };
+    const balloonPayment = getBalloonPayment(scheduleWithEarlyPayments);
+    const balloonReduction = Math.max(0, roundToMinorUnit(getBalloonPayment(originalSchedule) - balloonPayment, minorUnits));
+
+    // Compare the last regular payment before payoff (excluding early payments) with the original schedule
+    let lastRegularIndex = scheduleWithEarlyPayments.length - 2;
+    while (lastRegularIndex >= 0 && scheduleWithEarlyPayments[lastRegularIndex].isInterestOnly) {
+        lastRegularIndex--;
+    }
+    const getRegularPayment = (payment?: PaymentDetail) => payment ? payment.payment - payment.earlyPayment : 0;
+    const paymentReduction = lastRegularIndex >= 0
+        ? Math.max(0, roundToMinorUnit(
+            getRegularPayment(originalSchedule[lastRegularIndex]) - getRegularPayment(scheduleWithEarlyPayments[lastRegularIndex]),
+            minorUnits
+        ))
+        : 0;
+
+    return {
+        interestSaved,
+        periodDecrease,
+        totalInterest,
+        actualTotalPayment,
+        interestOnlyInterest,
+        balloonPayment,
+        balloonReduction,
+        paymentReduction,
+        prepaymentPenalties,
+    };
+}
+
+/**
+ * Measure the early payments of each loan year against the loan's prepayment policy
+ * 
+ * @param params - Loan parameters with early payments and a prepayment policy
+ * @returns Early payments, allowance and penalty of each loan year with early payments (empty without a policy)
+ */
+export function getPrepaymentAllowanceUsage(params: PaymentScheduleParams): PrepaymentYear[] {
+    const { prepaymentPolicy, principal, paymentFrequency = 'monthly', minorUnits = 2 } = params;
+    if (!prepaymentPolicy) return [];
+
+    const allowance = roundToMinorUnit(getPrepaymentAllowance(prepaymentPolicy, principal), minorUnits);
+    const years: PrepaymentYear[] = [];
+    for (const payment of generatePaymentSchedule(params)) {
+        if (payment.earlyPayment <= 0) continue;
+
+        const year = getLoanYearForPayment(payment.paymentNumber, paymentFrequency);
+        let entry = years.find(entry => entry.year === year);
+        if (!entry) {
+            entry = { year, prepaid: 0, allowance, excess: 0, penalty: 0 };
+            years.push(entry);
+        }
+        entry.prepaid = roundToMinorUnit(entry.prepaid + payment.earlyPayment, minorUnits);
+        entry.excess = roundToMinorUnit(Math.max(0, entry.prepaid - allowance), minorUnits);
+        entry.penalty = roundToMinorUnit(entry.penalty + payment.prepaymentPenalty, minorUnits);
+    }
+
+    return years;
+}
+
+/**
+ * Calculate the cost of deferrals by comparing with the schedule without them
+ * 
+ * @param params - Loan parameters with deferrals
+ * @returns Extra cost and interest, deferred interest by treatment, added months and payment change
+ */
+export function calculateDeferralCost(params: PaymentScheduleParams): DeferralCost {
+    const { paymentFrequency = 'monthly', minorUnits = 2 } = params;
+    const schedule = generatePaymentSchedule(params);
+    const baseline = generatePaymentSchedule({ ...params, deferrals: [] });
+
+    const deferredRows = schedule.filter(payment => payment.isDeferred);
+    const sumDeferredInterest = (interest: DeferralInterest) => sumMinorUnits(
+        deferredRows
+            .filter(payment => getDeferralForMonth(getMonthForPayment(payment.paymentNumber, paymentFrequency), params.deferrals || [])?.interest === interest)
+            .map(payment => payment.deferredInterest),
+        minorUnits
+    );
+    const capitalizedInterest = sumDeferredInterest('capitalize');
+
+    const totals = getScheduleTotals(schedule, minorUnits);
+    const baselineTotals = getScheduleTotals(baseline, minorUnits);
+
+    // Compare the first regular payment after the last deferral with the same payment without deferrals
+    const lastDeferredIndex = schedule.map(payment => payment.isDeferred).lastIndexOf(true);
+    const resumedPayment = lastDeferredIndex >= 0 ? schedule[lastDeferredIndex + 1] : undefined;
+    const baselinePayment = resumedPayment ? baseline[lastDeferredIndex + 1] : undefined;
+    const paymentIncrease = resumedPayment && baselinePayment && !resumedPayment.isBalloon && !baselinePayment.isBalloon
+        ? roundToMinorUnit((resumedPayment.payment - resumedPayment.earlyPayment) - (baselinePayment.payment - baselinePayment.earlyPayment), minorUnits)
+        : 0;
+
+    return {
+        extraCost: roundToMinorUnit(totals.totalPayment - baselineTotals.totalPayment, minorUnits),
+        extraInterest: roundToMinorUnit(totals.totalInterest + capitalizedInterest - baselineTotals.totalInterest, minorUnits),
+        capitalizedInterest,
+        accruedInterest: sumDeferredInterest('accrue'),
+        waivedInterest: sumDeferredInterest('waive'),
+        deferredPayments: deferredRows.length,
+        periodIncrease: convertPaymentsToMonths(schedule.length - baseline.length, paymentFrequency),
+        paymentIncrease,
+    };
+}
+
+/**
+ * Check a payment schedule for negative amortization, payments that don't cover the interest,
+ * and a loan that isn't paid off by its regular payments
+ * 
+ * @param schedule - Payment schedule to check
+ * @param params - Loan parameters the schedule was generated from
+ * @returns Diagnostics found, empty when the schedule is healthy
+ */
+export function getScheduleDiagnostics(schedule: PaymentDetail[], params: PaymentScheduleParams): ScheduleDiagnostic[] {
+    const { principal, fees, minorUnits = 2 } = params;
+    const diagnostics: ScheduleDiagnostic[] = [];
+    if (schedule.length === 0) return diagnostics;
+
+    // Balance growth, from negative principal or capitalized deferral interest
+    const growthPayments: number[] = [];
+    const growth: number[] = [];
+    // Regular payments smaller than the interest due
+    const shortPayments: number[] = [];
+    const shortfall: number[] = [];
+
+    // A credit line starts undrawn and its draws are borrowing, not balance growth
+    let openingBalance = params.creditLine ? 0 : roundToMinorUnit(getFinancedPrincipal(principal, fees), minorUnits);
+    schedule.forEach(payment => {
+        if (payment.balance - payment.draw > openingBalance) {
+            growthPayments.push(payment.paymentNumber);
+            growth.push(payment.balance - payment.draw - openingBalance);
+        }
+        const regularPayment = payment.payment - payment.earlyPayment;
+        if (!payment.isDeferred && !payment.isInterestOnly && !payment.isBalloon && regularPayment < payment.interest) {
+            shortPayments.push(payment.paymentNumber);
+            shortfall.push(payment.interest - regularPayment);
+        }
+        openingBalance = payment.balance;
+    });
+
+    if (growthPayments.length > 0) {
+        diagnostics.push({ type: 'negativeAmortization', severity: 'warning', paymentNumbers: growthPayments, amount: sumMinorUnits(growth, minorUnits) });
+    }
+    if (shortPayments.length > 0) {
+        diagnostics.push({ type: 'paymentBelowInterest', severity: 'warning', paymentNumbers: shortPayments, amount: sumMinorUnits(shortfall, minorUnits) });
+    }
+
+    // The final payment of a fully amortizing loan only settles rounding; flag it when it has to
+    // carry more than another regular payment's worth of balance
+    const finalPayment = schedule[schedule.length - 1];
+    const previousPayment = schedule.slice(0, -1).reverse().find(payment => !payment.isDeferred);
+    if (params.creditCard) {
+        // A card runs until it is paid off, so a balance left at the end is never paid
+        if (finalPayment.balance > 0) {
+            diagnostics.push({ type: 'neverPaidOff', severity: 'error', paymentNumbers: [finalPayment.paymentNumber], amount: finalPayment.balance });
+        }
+    } else if (!finalPayment.isBalloon && previousPayment) {
+        const previousRegularPayment = previousPayment.payment - previousPayment.earlyPayment;
+        const finalRegularPayment = finalPayment.payment - finalPayment.earlyPayment;
+        const leftOver = roundToMinorUnit(finalRegularPayment - previousRegularPayment, minorUnits);
+        if (previousRegularPayment > 0 && leftOver > previousRegularPayment) {
+            diagnostics.push({ type: 'notPaidOff', severity: 'error', paymentNumbers: [finalPayment.paymentNumber], amount: leftOver });
+        }
+    }
+
+    // Early payments on a precomputed loan only save the interest rebated at payoff; compare with
+    // a simple-interest loan at the same APR, which would have the same regular payments
+    const earlyPaymentNumbers = schedule.filter(payment => payment.earlyPayment > 0).map(payment => payment.paymentNumber);
+    if ((params.interestMethod || 'simple') !== 'simple' && earlyPaymentNumbers.length > 0) {
+        const apr = calculateApr({ ...params, fees: undefined })?.apr;
+        if (apr !== undefined) {
+            const { interestSaved } = calculateSavings(params);
+            const { interestSaved: amortizingInterestSaved } = calculateSavings({ ...params, interestMethod: 'simple', annualRate: apr });
+            if (interestSaved < amortizingInterestSaved * PRECOMPUTED_SAVINGS_WARNING_RATIO) {
+                diagnostics.push({
+                    type: 'precomputedPrepayment',
+                    severity: 'warning',
+                    paymentNumbers: earlyPaymentNumbers,
+                    amount: roundToMinorUnit(amortizingInterestSaved - interestSaved, minorUnits),
+                });
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Generate the payment schedule together with its diagnostics
+ * 
+ * @param params - Loan parameters
+ * @returns Payment schedule and any problems found in it
+ */
+export function generatePaymentScheduleWithDiagnostics(params: PaymentScheduleParams): ScheduleWithDiagnostics {
+    const schedule = generatePaymentSchedule(params);
+    return { schedule, diagnostics: getScheduleDiagnostics(schedule, params) };
+}
+
+/**
+ * Describe a schedule diagnostic for display
+ * 
+ * @param diagnostic - Diagnostic to describe
+ * @param formatAmount - Formats an amount in the loan's currency
+ * @returns Warning message
+ */
+export function describeScheduleDiagnostic(diagnostic: ScheduleDiagnostic, formatAmount: (amount: number) => string): string {
+    const count = diagnostic.paymentNumbers.length;
+    const payments = count === 1 ? `payment ${diagnostic.paymentNumbers[0]}` : `${count} payments, starting with payment ${diagnostic.paymentNumbers[0]}`;
+    switch (diagnostic.type) {
+        case 'negativeAmortization':
+            return `Negative amortization: the balance grows by ${formatAmount(diagnostic.amount)} over ${payments}`;
+        case 'paymentBelowInterest':
+            return `The regular payment doesn't cover the interest due in ${payments} (short by ${formatAmount(diagnostic.amount)})`;
+        case 'notPaidOff':
+            return `Not paid off by the end of the term: ${formatAmount(diagnostic.amount)} is left for the final payment`;
+        case 'neverPaidOff':
+            return `These payments never pay the card off: ${formatAmount(diagnostic.amount)} is still owed after ${diagnostic.paymentNumbers[0]} payments`;
+        case 'precomputedPrepayment':
+            return `Prepaying saves ${formatAmount(diagnostic.amount)} less interest than on an amortizing loan with the same payments: precomputed interest is only partly rebated`;
+    }
+}
 
-export type PaymentDetail = {
-    paymentNumber: number;
-    date: string;
-    payment: number;
-    principal: number;
-    interest: number;
-    balance: number;
-};
+/**
+ * Find the smallest recurring monthly extra payment that meets a payoff date or interest budget
+ * Existing early payments and rate adjustments stay in place; the extra payment is added on top.
+ * Prepayment penalties count towards an interest budget.
+ * 
+ * @param params - Loan parameters with existing early payments and rate adjustments
+ * @param target - Payoff date or total interest budget to meet
+ * @param startMonth - Month the extra payment starts (1-indexed)
+ * @returns The extra payment and its result, or null if the target can't be met
+ */
+export function solveExtraPayment(params: PaymentScheduleParams, target: ExtraPaymentTarget, startMonth: number = 1): ExtraPaymentSolution | null {
+    const { principal, startDate, paymentFrequency = 'monthly', earlyPayments = [], minorUnits = 2 } = params;
+    const minorUnit = Math.pow(10, -minorUnits);
 
-export type PaymentCalculation = {
-    monthlyPayment: number;
-    totalPayment: number;
-};
+    // Run the schedule with a given extra payment and check it against the target
+    const evaluate = (amount: number) => {
+        const extraPayments: EarlyPayment[] = amount > 0
+            ? [{ id: 'solver', type: 'recurring', amount: amount.toString(), month: startMonth.toString(), frequency: '1' }]
+            : [];
+        const schedule = generatePaymentSchedule({ ...params, earlyPayments: [...earlyPayments, ...extraPayments] });
+        const payoffDate = getPaymentDate(startDate, schedule.length - 1, paymentFrequency);
+        const { totalInterest } = getScheduleTotals(schedule, minorUnits);
+        const prepaymentPenalties = sumMinorUnits(schedule.map(payment => payment.prepaymentPenalty), minorUnits);
+        const meetsTarget = target.type === 'payoffDate'
+            ? payoffDate.getTime() <= target.payoffDate.getTime()
+            : totalInterest + prepaymentPenalties <= target.maxInterest;
+        return { amount, payoffDate, totalInterest, prepaymentPenalties, meetsTarget, isValid: schedule.length > 0 };
+    };
 
-export type SavingsCalculation = {
-    interestSaved: number;
-    periodDecrease: number;
-    totalInterest: number;
-    actualTotalPayment: number;
-};
+    const withoutExtra = evaluate(0);
+    if (!withoutExtra.isValid) {
+        return null;
+    }
+
+    // Paying the whole principal at the start month is the most an extra payment can do
+    let best = withoutExtra.meetsTarget ? withoutExtra : evaluate(roundToMinorUnit(getFinancedPrincipal(principal, params.fees), minorUnits, 'up'));
+    if (!best.meetsTarget) {
+        return null;
+    }
+
+    // Binary search between an amount that misses the target and one that meets it
+    let missAmount = 0;
+    while (best.amount - missAmount > minorUnit) {
+        const midAmount = roundToMinorUnit((missAmount + best.amount) / 2, minorUnits, 'up');
+        if (midAmount >= best.amount) break;
+
+        const candidate = evaluate(midAmount);
+        if (candidate.meetsTarget) {
+            best = candidate;
+        } else {
+            missAmount = midAmount;
+        }
+    }
+
+    return { amount: best.amount, payoffDate: best.payoffDate, totalInterest: best.totalInterest, prepaymentPenalties: best.prepaymentPenalties };
+}
 
 /**
- * Calculate monthly payment using standard amortization formula
- * Formula: M = P * [r(1+r)^n] / [(1+r)^n - 1]
+ * Calculate the internal rate of return per period of a series of cash flows
+ * Uses bisection, which is reliable for loan cash flows (one sign change)
  * 
- * @param principal - Loan amount
- * @param annualRate - Annual interest rate (as percentage, e.g., 5 for 5%)
- * @param termInMonths - Loan term in months
- * @returns Monthly payment and total payment
+ * @param cashFlows - Cash flows per period, starting at period 0
+ * @returns Rate per period (decimal), or null if the cash flows have no solution
  */
-export function calculatePayment({ principal, annualRate, termInMonths }: LoanParams): PaymentCalculation {
-    // Validate inputs - allow 0% interest rate
-    if (principal == null || annualRate == null || termInMonths == null || 
-        isNaN(principal) || isNaN(annualRate) || isNaN(termInMonths) ||
-        principal <= 0 || annualRate < 0 || termInMonths <= 0) {
-        return { monthlyPayment: 0, totalPayment: 0 };
+export function calculateIrr(cashFlows: number[]): number | null {
+    const netPresentValue = (rate: number) =>
+        cashFlows.reduce((sum, cashFlow, period) => sum + cashFlow / Math.pow(1 + rate, period), 0);
+
+    let low = -0.99;
+    let high = 1;
+    let npvLow = netPresentValue(low);
+    if (cashFlows.length < 2 || Math.sign(npvLow) === Math.sign(netPresentValue(high))) {
+        return null;
     }
 
-    const monthlyRate = annualRate / 100 / 12; // Convert annual percentage to monthly decimal
+    for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+        const mid = (low + high) / 2;
+        const npvMid = netPresentValue(mid);
+        if (Math.sign(npvMid) === Math.sign(npvLow)) {
+            low = mid;
+            npvLow = npvMid;
+        } else {
+            high = mid;
+        }
+    }
 
-    // Handle 0% interest rate (simple division)
-    if (monthlyRate === 0) {
-        const monthlyPayment = principal / termInMonths;
-        return {
-            monthlyPayment,
-            totalPayment: monthlyPayment * termInMonths,
-        };
+    return (low + high) / 2;
+}
+
+/**
+ * Calculate the APR of a loan from its contractual cash flows
+ * The borrower receives the loan amount less any fees paid in cash, then pays each
+ * scheduled payment plus recurring fees. Early payments are left out, as for a disclosed APR.
+ * 
+ * @param params - Loan parameters including fees
+ * @returns APR, effective annual rate and fee totals, or null if the schedule is empty
+ */
+export function calculateApr(params: PaymentScheduleParams): AprCalculation | null {
+    const { principal, paymentFrequency = 'monthly', fees, minorUnits = 2 } = params;
+    const schedule = generatePaymentSchedule({ ...params, earlyPayments: [] });
+    if (schedule.length === 0) {
+        return null;
+    }
+
+    const paymentsPerYear = PAYMENTS_PER_YEAR[paymentFrequency];
+    const upfrontFees = getUpfrontFees(principal, fees);
+    const financedFees = fees?.financed ? upfrontFees : 0;
+    const periodicFee = Math.max(0, fees?.monthlyFee || 0) * 12 / paymentsPerYear;
+
+    // Fees paid in cash reduce what the borrower actually receives
+    const amountReceived = principal - (upfrontFees - financedFees);
+    const cashFlows = [amountReceived, ...schedule.map(payment => -(payment.payment + periodicFee))];
+    const periodRate = calculateIrr(cashFlows);
+    if (periodRate === null) {
+        return null;
     }
 
-    // Standard amortization formula
-    const monthlyPayment = principal * (monthlyRate * Math.pow(1 + monthlyRate, termInMonths)) / (Math.pow(1 + monthlyRate, termInMonths) - 1);
-    const totalPayment = monthlyPayment * termInMonths;
+    return {
+        apr: periodRate * paymentsPerYear * 100,
+        effectiveRate: (Math.pow(1 + periodRate, paymentsPerYear) - 1) * 100,
+        upfrontFees,
+        financedFees,
+        totalFees: roundToMinorUnit(upfrontFees + periodicFee * schedule.length, minorUnits),
+    };
+}
 
-    return { monthlyPayment, totalPayment };
+/**
+ * Pick the schedule options a refinanced loan keeps from the loan it replaces
+ * Interest and repayment terms and the property's escrow carry over; rate changes, fees and
+ * the other terms of the old loan don't
+ * 
+ * @param currentLoan - Loan being refinanced
+ * @returns Schedule options of the new loan
+ */
+export function getRefinancedScheduleOptions(currentLoan: ScheduleOptions): ScheduleOptions {
+    const { paymentFrequency, compoundingFrequency, amortizationType, interestMethod, escrow } = getScheduleOptions(currentLoan);
+    return { paymentFrequency, compoundingFrequency, amortizationType, interestMethod, escrow };
 }
 
 /**
- * Calculate total early payments applicable for a specific month
+ * Compare keeping the current loan with refinancing its balance into a new loan
+ * The new loan takes over from the next payment due, at the same payment frequency.
+ * Cost is counted as interest plus closing costs, so the break-even month is when
+ * interest saved has paid back the cost of refinancing. Paying off the current loan is a
+ * prepayment of its balance, so any prepayment penalty is added to the payoff and the cost.
  * 
- * @param month - Current month (1-indexed)
- * @param earlyPayments - Array of early payment configurations
- * @returns Total early payment amount for this month
+ * @param currentLoan - Current loan with its early payments and rate changes
+ * @param refinance - Rate, term and closing costs of the new loan
+ * @returns Payments, interest and break-even month, or null if nothing is left to refinance
  */
-export function getEarlyPaymentsForMonth(month: number, earlyPayments: EarlyPayment[]): number {
-    let totalEarlyPayment = 0;
+export function calculateRefinance(currentLoan: PaymentScheduleParams, refinance: RefinanceParams): RefinanceAnalysis | null {
+    const { startDate, paymentFrequency = 'monthly', minorUnits = 2 } = currentLoan;
+    const { newRate, newTermInMonths, closingCosts, rollInClosingCosts = false, refinanceDate = new Date() } = refinance;
 
-    earlyPayments.forEach(payment => {
-        const amount = parseFloat(payment.amount) || 0;
+    // Balance after the payments due by the refinance date
+    const schedule = generatePaymentSchedule(currentLoan);
+    const { paymentsMade, balance: currentBalance } = getLoanStatus(currentLoan, refinanceDate, schedule);
+    const remaining = schedule.slice(paymentsMade);
+    if (remaining.length === 0 || currentBalance <= 0) {
+        return null;
+    }
 
-        if (payment.type === "recurring") {
-            const startMonth = parseInt(payment.month) || 1;
-            const frequency = parseInt(payment.frequency || "1");
+    const prepaymentPenalty = getPayoffPenalty(currentLoan, schedule, paymentsMade, currentBalance);
+    const newPrincipal = roundToMinorUnit(currentBalance + prepaymentPenalty + (rollInClosingCosts ? closingCosts : 0), minorUnits);
+    const newStartDate = getPaymentDate(startDate, paymentsMade, paymentFrequency);
+    const newSchedule = generatePaymentSchedule({
+        principal: newPrincipal,
+        annualRate: newRate,
+        termInMonths: newTermInMonths,
+        startDate: newStartDate,
+        ...getRefinancedScheduleOptions(currentLoan),
+        minorUnits,
+    });
 
-            // Check if this month qualifies for recurring payment
-            if (month >= startMonth && (month - startMonth) % frequency === 0) {
-                totalEarlyPayment += amount;
-            }
-        } else if (payment.type === "one-time" && parseInt(payment.month) === month) {
-            // One-time payments apply to specific month
-            totalEarlyPayment += amount;
-        }
+    // Cumulative cost by month, counting payments from the refinance onwards
+    const months = Math.max(
+        getMonthForPayment(remaining.length, paymentFrequency),
+        getMonthForPayment(newSchedule.length, paymentFrequency)
+    );
+    const currentByMonth = new Array(months).fill(0);
+    const refinancedByMonth = new Array(months).fill(0);
+    remaining.forEach((payment, index) => {
+        currentByMonth[getMonthForPayment(index + 1, paymentFrequency) - 1] += payment.interest;
+    });
+    newSchedule.forEach((payment, index) => {
+        refinancedByMonth[getMonthForPayment(index + 1, paymentFrequency) - 1] += payment.interest;
     });
 
-    return totalEarlyPayment;
+    const cumulativeCost: { current: number; refinanced: number }[] = [];
+    let current = 0;
+    let refinanced = closingCosts + prepaymentPenalty;
+    let breakEvenMonth: number | null = null;
+    for (let month = 0; month < months; month++) {
+        current += currentByMonth[month];
+        refinanced += refinancedByMonth[month];
+        cumulativeCost.push({ current: roundToMinorUnit(current, minorUnits), refinanced: roundToMinorUnit(refinanced, minorUnits) });
+        if (breakEvenMonth === null && refinanced <= current) {
+            breakEvenMonth = month + 1;
+        }
+    }
+
+    const remainingInterest = sumMinorUnits(remaining.map(payment => payment.interest), minorUnits);
+    const newInterest = getScheduleTotals(newSchedule, minorUnits).totalInterest;
+    const interestDifference = roundToMinorUnit(newInterest - remainingInterest, minorUnits);
+
+    return {
+        paymentsMade,
+        currentBalance,
+        prepaymentPenalty,
+        newPrincipal,
+        newStartDate,
+        currentPayment: remaining[0].payment - remaining[0].earlyPayment,
+        newPayment: newSchedule.length > 0 ? newSchedule[0].payment : 0,
+        remainingInterest,
+        newInterest,
+        interestDifference,
+        lifetimeCostDifference: roundToMinorUnit(interestDifference + closingCosts + prepaymentPenalty, minorUnits),
+        breakEvenMonth,
+        cumulativeCost,
+    };
 }
 
 /**
- * Project forward to find the actual payoff month considering current trajectory
- * This accounts for early payments when calculating remaining term
+ * Order debts for a payoff strategy
  * 
- * @param currentMonth - Current month in schedule (1-indexed)
- * @param currentBalance - Remaining balance at current month
- * @param baseMonthlyPayment - Regular monthly payment (before early payments)
- * @param currentRate - Current interest rate (as percentage)
- * @param earlyPayments - Array of early payment configurations
- * @returns Projected month when loan will be paid off
+ * @param debts - Debts to order
+ * @param strategy - Payoff strategy
+ * @param customOrder - Debt IDs in payoff order, for the custom strategy
+ * @returns Debts in the order extra payments go to them
  */
-function calculateProjectedPayoffMonth(
-    currentMonth: number,
-    currentBalance: number,
-    baseMonthlyPayment: number,
-    currentRate: number,
-    earlyPayments: EarlyPayment[]
-): number {
-    let balance = currentBalance;
-    let month = currentMonth;
-    const monthlyRate = currentRate / 100 / 12;
-    const maxMonths = 1200; // Safety limit (100 years)
+function getPayoffOrder(debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: string[]): PayoffDebt[] {
+    switch (strategy) {
+        case 'avalanche':
+            return [...debts].sort((a, b) => b.annualRate - a.annualRate || a.balance - b.balance);
+        case 'snowball':
+            return [...debts].sort((a, b) => a.balance - b.balance || b.annualRate - a.annualRate);
+        case 'custom': {
+            // Debts missing from the custom order go last, in the order given
+            const position = (debt: PayoffDebt) => {
+                const index = customOrder.indexOf(debt.id);
+                return index === -1 ? customOrder.length + debts.indexOf(debt) : index;
+            };
+            return [...debts].sort((a, b) => position(a) - position(b));
+        }
+    }
+}
+
+/**
+ * Simulate paying down several debts with one monthly budget
+ * Every debt gets its minimum payment; the rest of the budget goes to the first
+ * unpaid debt in strategy order, so payments freed up by a paid-off debt roll forward.
+ * 
+ * @param debts - Debts with their current balances, rates and minimum payments
+ * @param monthlyBudget - Total paid towards all debts each month
+ * @param strategy - Which debt gets the extra payments first
+ * @param customOrder - Debt IDs in payoff order, for the custom strategy
+ * @param minorUnits - Decimal places of the currency (defaults to 2)
+ * @returns Payoff month and interest per debt and in total, or null if the budget can't pay off the debts
+ */
+export function simulateDebtPayoff(debts: PayoffDebt[], monthlyBudget: number, strategy: PayoffStrategy, customOrder: string[] = [], minorUnits: number = 2): PayoffPlan | null {
+    const roundMoney = (amount: number) => roundToMinorUnit(amount, minorUnits);
+    const MAX_MONTHS = 1200;
 
-    while (balance > 0 && month < maxMonths) {
-        // Calculate total payment for this month
-        let totalPayment = baseMonthlyPayment + getEarlyPaymentsForMonth(month, earlyPayments);
+    const minimums = sumMinorUnits(debts.filter(debt => debt.balance > 0).map(debt => debt.minimumPayment), minorUnits);
+    if (debts.length === 0 || monthlyBudget < minimums) {
+        return null;
+    }
 
-        // Calculate interest and principal
-        const interest = balance * monthlyRate;
-        const principal = Math.min(totalPayment - interest, balance);
-        
-        balance -= principal;
+    const order = getPayoffOrder(debts, strategy, customOrder);
+    const balances = new Map(debts.map(debt => [debt.id, Math.max(0, debt.balance)]));
+    const results = new Map<string, PayoffDebtResult>(debts.map(debt => [debt.id, {
+        id: debt.id,
+        payoffMonth: 0,
+        totalInterest: 0,
+        extraPayments: [],
+        balances: [],
+    }]));
+
+    let month = 0;
+    let totalPaid = 0;
+    while (order.some(debt => balances.get(debt.id)! > 0)) {
+        if (month >= MAX_MONTHS) {
+            return null; // Interest outgrows the budget
+        }
         month++;
 
-        // Stop if paid off
-        if (balance <= 0) break;
+        // Interest accrues, then each debt gets its minimum payment
+        let available = monthlyBudget;
+        order.forEach(debt => {
+            const result = results.get(debt.id)!;
+            let balance = balances.get(debt.id)!;
+            if (balance > 0) {
+                const interest = roundMoney(balance * debt.annualRate / 1200);
+                result.totalInterest = roundMoney(result.totalInterest + interest);
+                balance = roundMoney(balance + interest);
+                const payment = Math.min(debt.minimumPayment, balance);
+                balance = roundMoney(balance - payment);
+                available = roundMoney(available - payment);
+                totalPaid = roundMoney(totalPaid + payment);
+            }
+            balances.set(debt.id, balance);
+        });
+
+        // The rest of the budget goes to debts in strategy order
+        order.forEach(debt => {
+            const result = results.get(debt.id)!;
+            const balance = balances.get(debt.id)!;
+            const extra = Math.max(0, Math.min(available, balance));
+            balances.set(debt.id, roundMoney(balance - extra));
+            available = roundMoney(available - extra);
+            totalPaid = roundMoney(totalPaid + extra);
+            result.extraPayments.push(extra);
+            result.balances.push(balances.get(debt.id)!);
+            if (result.payoffMonth === 0 && balances.get(debt.id)! <= 0 && debt.balance > 0) {
+                result.payoffMonth = month;
+            }
+        });
     }
 
-    return month - 1; // Return last payment month
+    const debtResults = debts.map(debt => results.get(debt.id)!);
+    return {
+        strategy,
+        months: month,
+        totalInterest: sumMinorUnits(debtResults.map(result => result.totalInterest), minorUnits),
+        totalPaid,
+        debts: debtResults,
+    };
 }
 
 /**
- * Generate detailed payment schedule showing how each payment is split between principal and interest
+ * Turn a debt's planned extra payments into recurring early payments
+ * Extra payments only grow as other debts are paid off, so each increase becomes
+ * another recurring payment starting that month. A smaller final payment is left
+ * out: the loan is paid off that month either way.
  * 
- * @param params - Loan parameters and optional early payments
- * @returns Array of payment details for each month
+ * @param result - Payoff plan result for the debt
+ * @param startMonth - Loan month of the first month of the plan (1-indexed)
+ * @param strategy - Strategy of the plan, used to name the payments
+ * @param minorUnits - Decimal places of the currency (defaults to 2)
+ * @returns Recurring early payments that follow the plan
  */
-export function generatePaymentSchedule({ 
-    principal, 
-    annualRate, 
-    termInMonths, 
-    startDate, 
-    earlyPayments = [],
-    rateAdjustments = []
-}: PaymentScheduleParams): PaymentDetail[] {
-    // Validate inputs
-    if (!principal || !annualRate || !termInMonths || principal <= 0 || annualRate < 0 || termInMonths <= 0) {
-        return [];
-    }
+export function getPayoffPlanEarlyPayments(result: PayoffDebtResult, startMonth: number, strategy: PayoffStrategy, minorUnits: number = 2): EarlyPayment[] {
+    const label = PAYOFF_STRATEGIES.find(option => option.value === strategy)?.label || strategy;
+    const lastMonth = result.payoffMonth || result.extraPayments.length;
+    const earlyPayments: EarlyPayment[] = [];
 
-    // Validate startDate
-    if (!startDate || isNaN(startDate.getTime())) {
-        return [];
-    }
+    let current = 0;
+    result.extraPayments.slice(0, lastMonth).forEach((extra, index) => {
+        if (extra > current) {
+            earlyPayments.push({
+                id: `${PAYOFF_PLAN_ID_PREFIX}${startMonth + index}`,
+                name: `Payoff plan (${label})`,
+                type: 'recurring',
+                amount: roundToMinorUnit(extra - current, minorUnits).toString(),
+                month: (startMonth + index).toString(),
+                frequency: '1',
+            });
+            current = extra;
+        }
+    });
 
-    // Sort rate adjustments by month
-    const sortedRateAdjustments = [...rateAdjustments].sort((a, b) => a.month - b.month);
+    return earlyPayments;
+}
 
-    // Initialize with starting rate
-    let currentRate = annualRate;
-    let monthlyRate = currentRate / 100 / 12;
+/**
+ * Group a schedule by loan month: amount paid (with any prepayment penalty), interest paid and balance at the end of each month
+ * 
+ * @param schedule - Payment schedule
+ * @param openingBalance - Balance before the first payment
+ * @param months - Number of months to cover
+ * @param paymentFrequency - Payment frequency of the schedule
+ * @returns Paid, interest and closing balance per month (index 0 is month 1)
+ */
+function getMonthlyCashFlows(schedule: PaymentDetail[], openingBalance: number, months: number, paymentFrequency: PaymentFrequency): { paid: number[]; interest: number[]; balance: number[] } {
+    const paid = new Array(months).fill(0);
+    const interest = new Array(months).fill(0);
+    const balance = new Array(months).fill(-1);
 
-    const schedule: PaymentDetail[] = [];
-    let balance = principal;
+    schedule.forEach(payment => {
+        const month = getMonthForPayment(payment.paymentNumber, paymentFrequency);
+        if (month > months) return;
+        paid[month - 1] += payment.payment + payment.prepaymentPenalty;
+        interest[month - 1] += payment.interest;
+        balance[month - 1] = payment.balance;
+    });
 
-    // Calculate INITIAL monthly payment (month 1) using original principal and term
-    let monthlyPayment = calculatePayment({
-        principal: principal,
-        annualRate: currentRate,
-        termInMonths: termInMonths
-    }).monthlyPayment;
+    // Months without a payment keep the balance from before (or 0 once paid off)
+    let lastBalance = openingBalance;
+    for (let month = 0; month < months; month++) {
+        if (balance[month] === -1) {
+            balance[month] = lastBalance;
+        }
+        lastBalance = balance[month];
+    }
 
-    // Track remaining months throughout the loop
-    let remainingMonths = termInMonths;
+    return { paid, interest, balance };
+}
 
-    // Generate payment details for each month
-    for (let i = 0; i < termInMonths; i++) {
-        // Stop if loan is paid off early
-        if (balance <= 0) break;
+/**
+ * Compare prepaying a loan with investing the same money
+ * Both sides pay the same amount each month: what one side pays on the loan and the other
+ * doesn't is invested, including the regular payments freed up once prepaying pays the loan off.
+ * Prepayment penalties are paid on top of the early payments they are charged on.
+ * Interest tax deductions are invested as they come in. Wealth is investments plus loan paid down.
+ * 
+ * @param params - Loan parameters with the early payments to compare
+ * @param options - Investment return, interest tax deduction and horizon
+ * @returns Wealth on each side, the difference at the horizon and the crossover return
+ */
+export function compareInvestVsPrepay(params: PaymentScheduleParams, options: InvestVsPrepayParams): InvestVsPrepayComparison {
+    const { principal, fees, paymentFrequency = 'monthly', minorUnits = 2 } = params;
+    const { annualReturn, taxDeductionRate = 0 } = options;
 
-        const currentMonth = i + 1; // 1-indexed month number
+    const financedPrincipal = roundToMinorUnit(getFinancedPrincipal(principal, fees), minorUnits);
+    const prepaySchedule = generatePaymentSchedule(params);
+    const investSchedule = generatePaymentSchedule({ ...params, earlyPayments: [] });
+    const months = Math.max(1, Math.round(options.horizonMonths || getMonthForPayment(investSchedule.length, paymentFrequency)));
+    const prepay = getMonthlyCashFlows(prepaySchedule, financedPrincipal, months, paymentFrequency);
+    const invest = getMonthlyCashFlows(investSchedule, financedPrincipal, months, paymentFrequency);
 
-        // STEP 1: Check for early payment BEFORE processing regular payment
-        const earlyPaymentAmount = getEarlyPaymentsForMonth(currentMonth, earlyPayments);
-        if (earlyPaymentAmount > 0) {
-            console.log(`Month ${currentMonth}: Processing early payment of ${earlyPaymentAmount} BEFORE regular payment`);
-            console.log(`  Balance BEFORE early payment: ${balance.toFixed(2)}`);
-                        
-            // Apply early payment principal (early payment - interest on that early payment's portion)
-            const earlyPaymentPrincipal = Math.min(earlyPaymentAmount, balance);
-            balance -= earlyPaymentPrincipal;
-            
-            console.log(`  Balance AFTER early payment: ${balance.toFixed(2)}`);
-            
-            // Recalculate remaining months by projecting payoff with current monthly payment
-            const projectedPayoffMonth = calculateProjectedPayoffMonth(
-                currentMonth,
-                balance,
-                monthlyPayment,
-                currentRate,
-                [] // No future early payments in projection - we already applied this one
-            );
-            
-            remainingMonths = Math.max(1, projectedPayoffMonth - currentMonth + 1);
-            console.log(`  Projected payoff month: ${projectedPayoffMonth}, remaining months: ${remainingMonths}`);
+    // Wealth on both sides by month for an annual return
+    const simulate = (returnRate: number) => {
+        const monthlyReturn = Math.pow(1 + returnRate / 100, 1 / 12) - 1;
+        const wealth: { prepay: number; invest: number }[] = [];
+        let prepayInvestments = 0;
+        let investInvestments = 0;
+        for (let month = 0; month < months; month++) {
+            const gap = invest.paid[month] - prepay.paid[month];
+            prepayInvestments = prepayInvestments * (1 + monthlyReturn) + Math.max(0, gap) + prepay.interest[month] * taxDeductionRate / 100;
+            investInvestments = investInvestments * (1 + monthlyReturn) + Math.max(0, -gap) + invest.interest[month] * taxDeductionRate / 100;
+            wealth.push({
+                prepay: prepayInvestments + financedPrincipal - prepay.balance[month],
+                invest: investInvestments + financedPrincipal - invest.balance[month],
+            });
         }
+        return wealth;
+    };
+    const advantageAt = (returnRate: number) => {
+        const final = simulate(returnRate)[months - 1];
+        return final.prepay - final.invest;
+    };
 
-        // STEP 2: Check if rate adjusts this month
-        const rateChange = sortedRateAdjustments.find(adj => adj.month === currentMonth);
-        if (rateChange) {
-            // Calculate payment date for this month
-            const paymentDate = new Date(startDate);
-            paymentDate.setMonth(startDate.getMonth() + i);
-            const paymentDateStr = paymentDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
-            
-            console.log(`\n📊 RATE CHANGE DETECTED:`);
-            console.log(`  Payment #${currentMonth} - ${paymentDateStr}`);
-            if (rateChange.date) {
-                console.log(`  Rate change date (stored): ${rateChange.date}`);
-            }
-            console.log(`  Rate: ${currentRate}% → ${rateChange.newRate}%`);
-            console.log(`  Balance when rate changes: ${balance.toFixed(2)}`);
-            
-            // Detect if both early payment and rate change happen same month
-            if (earlyPaymentAmount > 0) {
-                console.log(`  ⚠️ SCENARIO: Both early payment ($${earlyPaymentAmount}) AND rate change in same month`);
+    // Higher returns favor investing; find where the advantage changes sign
+    let crossoverReturn: number | null = null;
+    let low = 0;
+    let high = 100;
+    if (advantageAt(low) > 0 && advantageAt(high) < 0) {
+        for (let i = 0; i < 50 && high - low > 1e-6; i++) {
+            const mid = (low + high) / 2;
+            if (advantageAt(mid) > 0) {
+                low = mid;
+            } else {
+                high = mid;
             }
-            
-            // Update to new rate
-            currentRate = rateChange.newRate;
-            monthlyRate = currentRate / 100 / 12;
-            
-            // STEP 3: Recalculate monthly payment when rate changes
-            // If there was an early payment, remainingMonths was modified by projection
-            // For rate changes, we should use the early-payment-adjusted remainingMonths if it exists,
-            // otherwise use the actual remaining months
-            // This handles both scenarios: rate change alone, or rate change + early payment
-            monthlyPayment = calculatePayment({
-                principal: balance,
-                annualRate: currentRate,
-                termInMonths: remainingMonths
-            }).monthlyPayment;
-            
-            console.log(`  New monthly payment: ${monthlyPayment.toFixed(2)}`);
-            console.log(`  Remaining months: ${remainingMonths}\n`);
         }
+        crossoverReturn = (low + high) / 2;
+    }
 
-        // STEP 4: Process regular monthly payment
-        const interestPayment = balance * monthlyRate;
-        const principalPayment = Math.min(monthlyPayment - interestPayment, balance);
-        balance -= principalPayment;
+    const wealth = simulate(annualReturn).map(point => ({
+        prepay: roundToMinorUnit(point.prepay, minorUnits),
+        invest: roundToMinorUnit(point.invest, minorUnits),
+    }));
+    const final = wealth[months - 1];
 
-        // Decrement remaining months for next iteration
-        remainingMonths = Math.max(1, remainingMonths - 1);
+    return {
+        interestSaved: calculateSavings(params).interestSaved,
+        prepayWealth: final.prepay,
+        investWealth: final.invest,
+        advantage: roundToMinorUnit(final.prepay - final.invest, minorUnits),
+        crossoverReturn,
+        wealth,
+    };
+}
 
-        // Calculate payment date (add i months to start date)
-        const paymentDate = new Date(startDate);
-        paymentDate.setMonth(startDate.getMonth() + i);
+/**
+ * Count the payments due on or before a date, by calendar from the first payment date
+ * 
+ * @param startDate - Date of the first payment
+ * @param numberOfPayments - Payments in the schedule
+ * @param asOf - Date to count up to
+ * @param paymentFrequency - Payment frequency
+ * @returns Number of payments made
+ */
+export function getPaymentsMade(startDate: Date, numberOfPayments: number, asOf: Date, paymentFrequency: PaymentFrequency = 'monthly'): number {
+    let paymentsMade = 0;
+    while (paymentsMade < numberOfPayments && getPaymentDate(startDate, paymentsMade, paymentFrequency) <= asOf) {
+        paymentsMade++;
+    }
+    return paymentsMade;
+}
 
-        // STEP 5: Record this month in the schedule (early payment is NOT shown, only regular payment)
-        schedule.push({
-            paymentNumber: i + 1,
-            date: paymentDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
-            payment: monthlyPayment + earlyPaymentAmount, // Include early payment in total
-            principal: principalPayment,
-            interest: interestPayment,
-            balance: Math.max(0, balance),
+/**
+ * Find where a loan stands on a date: balance, payments made, current rate and payment, next due date
+ * A payment counts as made once its due date (by calendar, from the first payment date) is reached
+ * 
+ * @param params - Loan parameters
+ * @param asOf - Date to look at (defaults to today)
+ * @param schedule - Payment schedule for the parameters, if already generated
+ * @returns Loan status on that date
+ */
+export function getLoanStatus(params: PaymentScheduleParams, asOf: Date = new Date(), schedule: PaymentDetail[] = generatePaymentSchedule(params)): LoanStatus {
+    const { principal, annualRate, termInMonths, startDate, paymentFrequency = 'monthly', fees, arm, rateAdjustments = [], minorUnits = 2 } = params;
+
+    const paymentsMade = getPaymentsMade(startDate, schedule.length, asOf, paymentFrequency);
+    const nextPayment = schedule[paymentsMade] ?? null;
+
+    // The regular payment due next: paused payments are skipped, and a final balloon payment
+    // shows the installment before it
+    const dueIndex = schedule.findIndex((payment, index) => index >= paymentsMade && !payment.isDeferred);
+    const duePayment = dueIndex >= 0 ? schedule[dueIndex] : null;
+    const regularPayment = duePayment?.isBalloon
+        ? schedule.slice(0, dueIndex).reverse().find(payment => !payment.isDeferred) ?? duePayment
+        : duePayment;
+    // A credit line owes nothing until its first draw
+    const openingBalance = params.creditLine ? 0 : getFinancedPrincipal(principal, fees);
+    const balance = paymentsMade === 0
+        ? roundToMinorUnit(openingBalance, minorUnits)
+        : Math.max(0, schedule[paymentsMade - 1].balance);
+
+    // Rate in effect for the next payment; a manual change wins over an ARM reset in the same month
+    const loanMonth = getMonthForPayment(Math.min(paymentsMade + 1, Math.max(1, schedule.length)), paymentFrequency);
+    const armRateAdjustments = arm && startDate && !isNaN(startDate.getTime()) ? generateArmRateAdjustments(arm, annualRate, termInMonths, startDate) : [];
+    let currentRate = annualRate;
+    let lastMonth = 0;
+    [...rateAdjustments, ...armRateAdjustments]
+        .filter(adjustment => !isNaN(adjustment.month) && !isNaN(adjustment.newRate) && adjustment.month <= loanMonth)
+        .sort((a, b) => a.month - b.month)
+        .forEach(adjustment => {
+            if (adjustment.month !== lastMonth) {
+                currentRate = adjustment.newRate;
+                lastMonth = adjustment.month;
+            }
         });
-    }
 
-    return schedule;
+    return {
+        paymentsMade,
+        paymentsRemaining: schedule.length - paymentsMade,
+        balance,
+        currentRate,
+        currentPayment: regularPayment ? roundToMinorUnit(regularPayment.payment - regularPayment.earlyPayment, minorUnits) : 0,
+        nextPayment,
+        nextDueDate: nextPayment ? getPaymentDate(startDate, paymentsMade, paymentFrequency) : null,
+        loanMonth,
+        isPaidOff: schedule.length > 0 && !nextPayment,
+    };
 }
 
 /**
- * Calculate savings from early payments by comparing with original schedule
+ * Compare paying a credit card by minimum payments only with its fixed payment plan
+ * The fixed payment plan also includes any early payments
  * 
- * @param params - Loan parameters with early payments
- * @returns Interest saved, time saved, total interest, and actual total payment
+ * @param params - Loan parameters with credit card terms
+ * @returns Both plans and what the fixed payment saves, or null for a loan that isn't a credit card
  */
-export function calculateSavings({ 
-    principal, 
-    annualRate, 
-    termInMonths, 
-    startDate, 
-    earlyPayments = [],
-    rateAdjustments = []
-}: PaymentScheduleParams): SavingsCalculation {
-    // Generate schedule with early payments and rate adjustments
-    const scheduleWithEarlyPayments = generatePaymentSchedule({ 
-        principal, 
-        annualRate, 
-        termInMonths, 
-        startDate, 
-        earlyPayments,
-        rateAdjustments
-    });
+export function compareCreditCardPayoff(params: PaymentScheduleParams): CreditCardPayoffComparison | null {
+    const { creditCard, minorUnits = 2 } = params;
+    if (!creditCard) return null;
 
-    // Generate original schedule without early payments but with rate adjustments
-    const originalSchedule = generatePaymentSchedule({ 
-        principal, 
-        annualRate, 
-        termInMonths, 
-        startDate, 
-        earlyPayments: [],
-        rateAdjustments
-    });
+    const summarize = (schedule: PaymentDetail[]): CreditCardPayoffPlan => {
+        const { totalPayment, totalInterest } = getScheduleTotals(schedule, minorUnits);
+        const finalPayment = schedule[schedule.length - 1];
+        return {
+            months: schedule.length,
+            totalPayment,
+            totalInterest,
+            firstPayment: schedule[0]?.payment ?? 0,
+            isPaidOff: !finalPayment || finalPayment.balance <= 0,
+        };
+    };
 
-    // Calculate total interest with early payments
-    const totalInterest = scheduleWithEarlyPayments.reduce((sum, payment) => sum + payment.interest, 0);
-    
-    // Calculate total interest without early payments
-    const originalTotalInterest = originalSchedule.reduce((sum, payment) => sum + payment.interest, 0);
-    
-    // Calculate interest saved
-    const interestSaved = originalTotalInterest - totalInterest;
-    
-    // Calculate time saved (months)
-    const periodDecrease = originalSchedule.length - scheduleWithEarlyPayments.length;
-    
-    // Calculate actual total payment (principal + interest)
-    const actualTotalPayment = scheduleWithEarlyPayments.reduce((sum, payment) => sum + payment.payment, 0);
+    const minimumOnly = summarize(generatePaymentSchedule({ ...params, creditCard: { ...creditCard, fixedPayment: undefined }, earlyPayments: [] }));
+    const fixedPayment = creditCard.fixedPayment && creditCard.fixedPayment > 0 ? summarize(generatePaymentSchedule(params)) : null;
 
     return {
-        interestSaved,
-        periodDecrease,
-        totalInterest,
-        actualTotalPayment,
+        minimumOnly,
+        fixedPayment,
+        interestSaved: fixedPayment ? roundToMinorUnit(minimumOnly.totalInterest - fixedPayment.totalInterest, minorUnits) : 0,
+        monthsSaved: fixedPayment ? minimumOnly.months - fixedPayment.months : 0,
     };
 }
 
 /**
- * Calculate remaining balance at a specific payment number
+ * Find where a credit line stands on a date: balance, available credit and utilization
+ * Ledger entries since the last payment count right away, so a draw made today shows up today
  * 
- * @param principal - Original loan amount
- * @param monthlyPayment - Monthly payment amount
- * @param paymentsMade - Number of payments made so far
- * @returns Remaining balance
+ * @param params - Loan parameters with credit line terms
+ * @param asOf - Date to look at (defaults to today)
+ * @param schedule - Payment schedule for the parameters, if already generated
+ * @returns Credit line status, or null for a term loan
+ */
+export function getCreditLineStatus(params: PaymentScheduleParams, asOf: Date = new Date(), schedule: PaymentDetail[] = generatePaymentSchedule(params)): CreditLineStatus | null {
+    const { principal: creditLimit, termInMonths, startDate, creditLine, minorUnits = 2 } = params;
+    if (!creditLine) return null;
+
+    const drawPayments = Math.min(Math.max(0, Math.round(creditLine.drawMonths)), Math.max(1, Math.round(termInMonths)));
+    const paymentsMade = getPaymentsMade(startDate, schedule.length, asOf);
+    const isDrawPeriod = paymentsMade < drawPayments;
+    const lastPaymentDate = paymentsMade > 0 ? getPaymentDate(startDate, paymentsMade - 1) : null;
+
+    let balance = paymentsMade > 0 ? Math.max(0, schedule[paymentsMade - 1].balance) : 0;
+    getCreditLineTransactions(creditLine)
+        .filter(transaction => transaction.date <= asOf && (!lastPaymentDate || transaction.date > lastPaymentDate))
+        .forEach(transaction => {
+            balance = transaction.type === 'draw'
+                ? (isDrawPeriod ? Math.min(creditLimit, balance + transaction.amount) : balance)
+                : Math.max(0, balance - transaction.amount);
+        });
+    balance = roundToMinorUnit(balance, minorUnits);
+
+    return {
+        creditLimit,
+        balance,
+        availableCredit: isDrawPeriod ? roundToMinorUnit(Math.max(0, creditLimit - balance), minorUnits) : 0,
+        utilization: creditLimit > 0 ? balance / creditLimit * 100 : 0,
+        isDrawPeriod,
+        drawPeriodEnd: getPaymentDate(startDate, Math.max(0, drawPayments - 1)),
+    };
+}
+
+/**
+ * Calculate what it takes to pay a loan off on a date
+ * Precomputed interest is earned by the loan's rule (Rule of 78 or evenly for add-on), so the
+ * payoff is the principal still owed and the rebate is the interest not yet earned.
+ * Paying the balance off is a prepayment, so any prepayment penalty is added to the payoff.
+ * 
+ * @param params - Loan parameters
+ * @param asOf - Payoff date (defaults to today)
+ * @returns Payments made, payoff amount, prepayment penalty and interest rebate
  */
-export function calculateRemainingBalance(principal: number, monthlyPayment: number, paymentsMade: number): number {
-    // Simple approximation - for more accuracy, should use payment schedule
-    return Math.max(0, principal - (monthlyPayment * paymentsMade));
+export function calculateEarlyPayoff(params: PaymentScheduleParams, asOf: Date = new Date()): EarlyPayoff {
+    const schedule = generatePaymentSchedule(params);
+    const { paymentsMade, balance } = getLoanStatus(params, asOf, schedule);
+    const prepaymentPenalty = getPayoffPenalty(params, schedule, paymentsMade, balance);
+    const rebate = sumMinorUnits(schedule.slice(paymentsMade).map(payment => payment.interest), params.minorUnits);
+    return { paymentsMade, payoffAmount: roundToMinorUnit(balance + prepaymentPenalty, params.minorUnits), prepaymentPenalty, rebate };
 }
 
 /**
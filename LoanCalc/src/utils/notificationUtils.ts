@@ -1,7 +1,8 @@
 import { Platform } from 'react-native';
 import { formatDateForStorage, parseDateFromStorage } from './dateUtils';
 import { getCurrencyPreference } from './storage';
-import { formatCurrency } from './currencyUtils';
+import { formatCurrency, getCurrencyMinorUnits } from './currencyUtils';
+import { getPaymentDate, getPaymentsMade, getLoanScheduleParams, PaymentFrequency } from './loanCalculations';
 
 // Notifications are not supported in Expo Go (SDK 53+)
 // They work in production builds and development builds
@@ -104,7 +105,8 @@ export async function scheduleNextPaymentReminder(
     loanName: string,
     paymentSchedule: Array<{ payment: number; date?: string | Date }>,
     startDate: string,
-    reminderDaysBefore: number
+    reminderDaysBefore: number,
+    paymentFrequency: PaymentFrequency = 'monthly'
 ): Promise<string[]> {
     if (!Notifications) {
         return [];
@@ -117,18 +119,12 @@ export async function scheduleNextPaymentReminder(
     const start = parseDateFromStorage(startDate);
     const now = new Date();
     
-    // Find the next payment that hasn't occurred yet
-    for (let i = 0; i < paymentSchedule.length; i++) {
+    // Start from the next payment that hasn't come due yet
+    for (let i = getPaymentsMade(start, paymentSchedule.length, now, paymentFrequency); i < paymentSchedule.length; i++) {
         const payment = paymentSchedule[i];
         
         // Calculate payment date
-        const paymentDate = new Date(start);
-        paymentDate.setMonth(start.getMonth() + i);
-        
-        // Skip if payment date is in the past
-        if (paymentDate < now) {
-            continue;
-        }
+        const paymentDate = getPaymentDate(start, i, paymentFrequency);
         
         // Calculate reminder date (X days before payment)
         const reminderDate = new Date(paymentDate);
@@ -300,26 +296,11 @@ export async function checkAndScheduleNextPayments(
         return;
     }
     
+    const minorUnits = getCurrencyMinorUnits(await getCurrencyPreference());
     for (const loan of loans) {
         try {
             // Generate the actual payment schedule with adjustments
-            const termInMonths = loan.termUnit === 'years' ? loan.term * 12 : loan.term;
-            const [year, month, day] = loan.startDate.split('-').map(Number);
-            const startDate = new Date(year, month - 1, day);
-            
-            const rateAdjustmentsForCalc = (loan.rateAdjustments || []).map((adj: any) => ({
-                month: parseInt(adj.month),
-                newRate: parseFloat(adj.newRate)
-            }));
-            
-            const schedule = generatePaymentSchedule({
-                principal: loan.amount,
-                annualRate: loan.interestRate,
-                termInMonths,
-                startDate,
-                earlyPayments: loan.earlyPayments || [],
-                rateAdjustments: rateAdjustmentsForCalc
-            });
+            const schedule = generatePaymentSchedule(getLoanScheduleParams(loan, minorUnits));
             
             // Schedule next payment notification
             const notificationIds = await scheduleNextPaymentReminder(
@@ -327,7 +308,8 @@ export async function checkAndScheduleNextPayments(
                 loan.name || 'Loan',
                 schedule,
                 loan.startDate,
-                notificationPrefs.reminderDays
+                notificationPrefs.reminderDays,
+                loan.paymentFrequency || 'monthly'
             );
             
             // Update loan with new notification ID
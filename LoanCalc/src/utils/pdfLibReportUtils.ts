@@ -1,6 +1,7 @@
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
 import { Currency } from './storage';
-import { formatCurrency } from './currencyUtils';
+import { formatCurrency, getCurrencyMinorUnits } from './currencyUtils';
+import { getPaymentFrequencyLabel, getDayCountConventionLabel, getCompoundingFrequencyLabel, getAmortizationTypeLabel, getInterestMethodLabel, getGraduatedPaymentLabel, getCreditLinePhasesLabel, getCreditCardMinimumLabel, getPrepaymentPolicyLabel, roundToMinorUnit, PaymentFrequency, DayCountConvention, CompoundingFrequency, AmortizationType, InterestMethod, GraduatedPaymentConfig, CreditLineConfig, CreditCardConfig, PrepaymentPolicy } from './loanCalculations';
 
 export interface LoanData {
   loanId: string;
@@ -8,7 +9,23 @@ export interface LoanData {
   amount: number;
   interestRate: number;
   termInMonths: number;
-  monthlyPayment: number;
+  paymentFrequency?: PaymentFrequency; // Defaults to monthly
+  interestOnlyMonths?: number; // Length of the interest-only period, if any
+  amortizationMonths?: number; // Amortization period of a balloon loan, if any
+  balloonPayment?: number; // Final balloon payment, if any
+  dayCountConvention?: DayCountConvention; // Defaults to periodic interest
+  compoundingFrequency?: CompoundingFrequency; // Defaults to compounding once per payment
+  amortizationType?: AmortizationType; // Defaults to level payments
+  interestMethod?: InterestMethod; // Defaults to simple interest
+  graduated?: GraduatedPaymentConfig; // Stepped payments, if any
+  creditLine?: CreditLineConfig; // Draw and repayment periods of a credit line, if any
+  creditCard?: CreditCardConfig; // Minimum payment terms of a credit card, if any
+  prepaymentPolicy?: PrepaymentPolicy; // Allowance and penalties on early payments, if any
+  apr?: number; // APR including fees, if the loan has fees
+  upfrontFees?: number; // Upfront fees and points
+  financedFees?: number; // Part of the upfront fees added to the balance
+  totalFees?: number; // Upfront plus recurring fees over the loan
+  monthlyPayment: number; // Payment per period at paymentFrequency
   totalPayment: number;
   payments: {
     number: number;
@@ -16,6 +33,10 @@ export interface LoanData {
     interest: number;
     balance: number;
     date: string;
+    isInterestOnly?: boolean;
+    isBalloon?: boolean;
+    escrow?: number; // Taxes, insurance and HOA collected with the payment
+    pmi?: number; // Mortgage insurance collected with the payment
     // Portfolio-specific fields
     loanName?: string;
     interestRate?: number;
@@ -48,6 +69,7 @@ export interface LoanData {
   rateAdjustments?: {
     month: string;
     newRate: string;
+    isGenerated?: boolean; // ARM reset derived from index + margin
   }[];
   // Additional fields for enhanced individual loan reports
   currentBalance?: number;
@@ -56,6 +78,10 @@ export interface LoanData {
   originalTotalPayment?: number;
   originalTotalInterest?: number;
   currentInterestRate?: number; // Current interest rate (considering rate adjustments)
+  warnings?: string[]; // Schedule problems such as negative amortization
+  realTotals?: { inflationRate: number; totalPayment: number; totalInterest: number }; // Totals in today's money, if an inflation rate is set
+  presentValueTotals?: { discountRate: number; totalPayment: number; totalInterest: number }; // Totals discounted to loan start, if a discount rate is set
+  realInterestSaved?: number; // Interest saved in today's money
 }
 
 export async function generateRobustLoanPDF(loanData: LoanData, currency: Currency, startDate?: Date): Promise<Uint8Array> {
@@ -194,10 +220,75 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
   if (!isPortfolio) {
     currentY -= 20;
     
+    // Format starting date
+    const startDateStr = startDate ? startDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'N/A';
+    
+    const loanDetailLines = [
+      `Loan Name: ${loanData.name}`,
+      `Loan Amount: ${formatCurrency(loanData.amount, currency, 0)}`,
+      `Interest Rate: ${loanData.interestRate}%`,
+      `Loan Term: ${Math.floor(loanData.termInMonths/12)} years ${loanData.termInMonths%12} months` +
+        (loanData.paymentFrequency && loanData.paymentFrequency !== 'monthly'
+          ? ` (${getPaymentFrequencyLabel(loanData.paymentFrequency)} payments)`
+          : ''),
+      `Starting Date: ${startDateStr}`
+    ];
+    
+    if (loanData.interestOnlyMonths && loanData.interestOnlyMonths > 0) {
+      const interestOnlyInterest = loanData.payments
+        .filter(payment => payment.isInterestOnly)
+        .reduce((sum, payment) => sum + payment.interest, 0);
+      loanDetailLines.push(
+        `Interest-Only Period: ${loanData.interestOnlyMonths} months (interest paid: ${formatCurrency(interestOnlyInterest, currency, 0)})`
+      );
+    }
+    
+    if (loanData.balloonPayment && loanData.balloonPayment > 0) {
+      const amortizationYears = (loanData.amortizationMonths || loanData.termInMonths) / 12;
+      loanDetailLines.push(
+        `Balloon Payment: ${formatCurrency(loanData.balloonPayment, currency, 0)} (amortized over ${amortizationYears} years)`
+      );
+    }
+    
+    if (loanData.dayCountConvention && loanData.dayCountConvention !== 'periodic') {
+      loanDetailLines.push(`Interest Calculation: ${getDayCountConventionLabel(loanData.dayCountConvention)} (accrued daily between payments)`);
+    }
+    
+    if (loanData.compoundingFrequency && loanData.compoundingFrequency !== 'payment') {
+      loanDetailLines.push(`Compounding: ${getCompoundingFrequencyLabel(loanData.compoundingFrequency)} (converted to the rate per payment)`);
+    }
+    
+    if (loanData.amortizationType === 'linear') {
+      loanDetailLines.push(`Amortization: ${getAmortizationTypeLabel(loanData.amortizationType)} (same principal each payment)`);
+    }
+    
+    if (loanData.interestMethod && loanData.interestMethod !== 'simple') {
+      loanDetailLines.push(`Interest Method: ${getInterestMethodLabel(loanData.interestMethod)} (precomputed; early payoff rebates unearned interest)`);
+    }
+    
+    if (loanData.graduated) {
+      loanDetailLines.push(`Graduated Payments: ${getGraduatedPaymentLabel(loanData.graduated)}`);
+    }
+    
+    if (loanData.creditLine) {
+      loanDetailLines.push(`Credit Line: ${getCreditLinePhasesLabel(loanData.creditLine, loanData.termInMonths)} (amount is the credit limit)`);
+    }
+    
+    if (loanData.creditCard) {
+      loanDetailLines.push(`Credit Card: minimum ${getCreditCardMinimumLabel(loanData.creditCard, amount => formatCurrency(amount, currency, 0))} (amount is the balance; term runs to payoff)`);
+    }
+    
+    if (loanData.prepaymentPolicy) {
+      loanDetailLines.push(`Prepayment: ${getPrepaymentPolicyLabel(loanData.prepaymentPolicy, amount => formatCurrency(amount, currency, 0))}`);
+    }
+    
+    // Box grows with the number of detail lines
+    const detailsBoxHeight = 23 + loanDetailLines.length * 18;
+    
     // 1. LOAN DETAILS SECTION
     currentPage.drawRectangle({
-      x: margin - 5, y: currentY - 118,
-      width: pageWidth - 2 * margin + 10, height: 113,
+      x: margin - 5, y: currentY - (detailsBoxHeight + 5),
+      width: pageWidth - 2 * margin + 10, height: detailsBoxHeight,
       color: rgb(0.95, 0.97, 0.99),
       borderColor: rgb(0.2, 0.45, 0.75),
       borderWidth: 1
@@ -215,17 +306,6 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
     });
     currentY -= 40;
     
-    // Format starting date
-    const startDateStr = startDate ? startDate.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'N/A';
-    
-    const loanDetailLines = [
-      `Loan Name: ${loanData.name}`,
-      `Loan Amount: ${formatCurrency(loanData.amount, currency, 0)}`,
-      `Interest Rate: ${loanData.interestRate}%`,
-      `Loan Term: ${Math.floor(loanData.termInMonths/12)} years ${loanData.termInMonths%12} months`,
-      `Starting Date: ${startDateStr}`
-    ];
-    
     loanDetailLines.forEach((line, index) => {
       currentPage.drawText(line, {
         x: margin + 15, y: currentY - (index * 18),
@@ -233,12 +313,80 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
       });
     });
     
-    currentY -= 105;
+    currentY -= 15 + loanDetailLines.length * 18;
+    
+    // Totals are shown to the cent so they reconcile with the loan amount and the app
+    const minorUnits = getCurrencyMinorUnits(currency);
+    // Financed fees are repaid as principal, so they are not interest
+    const totalInterest = roundToMinorUnit(loanData.totalPayment - loanData.amount - (loanData.financedFees || 0), minorUnits);
+    const payoffDate = loanData.payments[loanData.payments.length - 1]?.date || 'N/A';
+    
+    // Show only current periodic payment (already reflects rate adjustments)
+    const monthlyPaymentText = `${getPaymentFrequencyLabel(loanData.paymentFrequency)} Payment: ${formatCurrency(loanData.monthlyPayment, currency, 0)}`;
+    
+    const paymentSummaryLines = [
+      monthlyPaymentText,
+      `Total Interest: ${formatCurrency(totalInterest, currency, minorUnits)}`,
+      `Total Cost: ${formatCurrency(loanData.totalPayment, currency, minorUnits)}`,
+      `Payoff Date: ${payoffDate} (${loanData.payments.length} payments)`
+    ];
+    
+    // Payments fall over a linear loan and rise on a graduated one; show where they start and end
+    const regularPayments = loanData.payments.filter(payment => !payment.isInterestOnly && !payment.isBalloon);
+    if ((loanData.amortizationType === 'linear' || loanData.graduated) && regularPayments.length > 0) {
+      const first = regularPayments[0];
+      const last = regularPayments[regularPayments.length - 1];
+      paymentSummaryLines.push(
+        `First Payment: ${formatCurrency(first.principal + first.interest, currency, minorUnits)}, Last Payment: ${formatCurrency(last.principal + last.interest, currency, minorUnits)}`
+      );
+    }
+    
+    if (loanData.apr !== undefined && loanData.totalFees && loanData.totalFees > 0) {
+      paymentSummaryLines.push(
+        `APR (incl. fees): ${loanData.apr.toFixed(3)}%`,
+        `Fees: ${formatCurrency(loanData.totalFees, currency, minorUnits)}` +
+          (loanData.upfrontFees
+            ? ` (${formatCurrency(loanData.upfrontFees, currency, minorUnits)} upfront, ${loanData.financedFees ? 'financed' : 'paid at closing'})`
+            : '')
+      );
+    }
+    
+    if (loanData.realTotals) {
+      paymentSummaryLines.push(
+        `In Today's Money (${loanData.realTotals.inflationRate}% inflation): ${formatCurrency(loanData.realTotals.totalPayment, currency, minorUnits)} total, ${formatCurrency(loanData.realTotals.totalInterest, currency, minorUnits)} interest`
+      );
+    }
+    
+    if (loanData.presentValueTotals) {
+      paymentSummaryLines.push(
+        `Present Value (${loanData.presentValueTotals.discountRate}% discount rate): ${formatCurrency(loanData.presentValueTotals.totalPayment, currency, minorUnits)} total, ${formatCurrency(loanData.presentValueTotals.totalInterest, currency, minorUnits)} interest`
+      );
+    }
+    
+    // Escrow and PMI are collected on top of principal and interest
+    const totalEscrow = loanData.payments.reduce((sum, payment) => sum + (payment.escrow || 0), 0);
+    const totalPmi = loanData.payments.reduce((sum, payment) => sum + (payment.pmi || 0), 0);
+    if (totalEscrow > 0 || totalPmi > 0) {
+      const currentPayment = loanData.payments[Math.min((loanData.currentPaymentNumber || 1), loanData.payments.length) - 1];
+      const currentEscrow = (currentPayment?.escrow || 0) + (currentPayment?.pmi || 0);
+      paymentSummaryLines.push(
+        `Escrow & PMI: ${formatCurrency(currentEscrow, currency, minorUnits)} per payment (${formatCurrency(loanData.monthlyPayment + currentEscrow, currency, minorUnits)} with principal and interest)`
+      );
+      if (totalPmi > 0) {
+        const pmiEnd = loanData.payments.find((payment, index) => index > 0 && !payment.pmi && (loanData.payments[index - 1].pmi || 0) > 0);
+        paymentSummaryLines.push(
+          `PMI: ${formatCurrency(roundToMinorUnit(totalPmi, minorUnits), currency, minorUnits)} in total` + (pmiEnd ? `, cancelled from ${pmiEnd.date}` : '')
+        );
+      }
+    }
+    
+    // Box grows with the number of summary lines
+    const summaryBoxHeight = 23 + paymentSummaryLines.length * 18;
     
     // 2. PAYMENT SUMMARY SECTION
     currentPage.drawRectangle({
-      x: margin - 5, y: currentY - 100,
-      width: pageWidth - 2 * margin + 10, height: 95,
+      x: margin - 5, y: currentY - (summaryBoxHeight + 5),
+      width: pageWidth - 2 * margin + 10, height: summaryBoxHeight,
       color: rgb(0.95, 0.97, 0.99),
       borderColor: rgb(0.2, 0.45, 0.75),
       borderWidth: 1
@@ -256,19 +404,6 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
     });
     currentY -= 40;
     
-    const totalInterest = loanData.totalPayment - loanData.amount;
-    const payoffDate = loanData.payments[loanData.payments.length - 1]?.date || 'N/A';
-    
-    // Show only current monthly payment (already reflects rate adjustments)
-    const monthlyPaymentText = `Monthly Payment: ${formatCurrency(loanData.monthlyPayment, currency, 0)}`;
-    
-    const paymentSummaryLines = [
-      monthlyPaymentText,
-      `Total Interest: ${formatCurrency(totalInterest, currency, 0)}`,
-      `Total Cost: ${formatCurrency(loanData.totalPayment, currency, 0)}`,
-      `Payoff Date: ${payoffDate} (${loanData.payments.length} payments)`
-    ];
-    
     paymentSummaryLines.forEach((line, index) => {
       currentPage.drawText(line, {
         x: margin + 15, y: currentY - (index * 18),
@@ -276,12 +411,46 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
       });
     });
     
-    currentY -= 85;
+    currentY -= 13 + paymentSummaryLines.length * 18;
+    
+    // 2b. SCHEDULE WARNINGS SECTION (if applicable)
+    if (loanData.warnings && loanData.warnings.length > 0) {
+      const warningsHeight = 23 + loanData.warnings.length * 18;
+      
+      currentPage.drawRectangle({
+        x: margin - 5, y: currentY - (warningsHeight + 5),
+        width: pageWidth - 2 * margin + 10, height: warningsHeight,
+        color: rgb(1, 0.97, 0.9),
+        borderColor: rgb(0.85, 0.55, 0.05),
+        borderWidth: 1
+      });
+      
+      currentPage.drawRectangle({
+        x: margin - 5, y: currentY - 22,
+        width: pageWidth - 2 * margin + 10, height: 20,
+        color: rgb(0.85, 0.55, 0.05)
+      });
+      
+      currentPage.drawText('Warnings', {
+        x: margin + 5, y: currentY - 13,
+        size: 12, font: helveticaBold, color: rgb(1, 1, 1)
+      });
+      currentY -= 40;
+      
+      loanData.warnings.forEach((line, index) => {
+        currentPage.drawText(line, {
+          x: margin + 15, y: currentY - (index * 18),
+          size: 9, font: helvetica, color: rgb(0.5, 0.3, 0.02)
+        });
+      });
+      
+      currentY -= 13 + loanData.warnings.length * 18;
+    }
     
     // 3. YOUR SAVINGS SECTION (if applicable)
     if (loanData.interestSaved && loanData.interestSaved > 0) {
       const hasComparison = loanData.originalTotalPayment && loanData.originalTotalInterest;
-      const sectionHeight = hasComparison ? 115 : 75;
+      const sectionHeight = (hasComparison ? 115 : 75) + (loanData.realInterestSaved !== undefined ? 18 : 0);
       
       currentPage.drawRectangle({
         x: margin - 5, y: currentY - sectionHeight,
@@ -313,11 +482,15 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
         `Time Saved: ${timeSavedText}`
       ];
       
+      if (loanData.realInterestSaved !== undefined) {
+        savingsLines.splice(1, 0, `Interest Saved in Today's Money: ${formatCurrency(loanData.realInterestSaved, currency, 0)}`);
+      }
+      
       // Add comparison if available
       if (hasComparison) {
         const originalInterest = loanData.originalTotalInterest!;
         const newTotalPayment = loanData.totalPayment;
-        const newTotalInterest = newTotalPayment - loanData.amount;
+        const newTotalInterest = newTotalPayment - loanData.amount - (loanData.financedFees || 0);
         
         savingsLines.push('---');
         savingsLines.push(`Original Total Interest: ${formatCurrency(originalInterest, currency, 0)}`);
@@ -458,7 +631,7 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
           }
         }
         
-        const displayText = `Effective ${dateText}: New Rate ${ra.newRate}%`;
+        const displayText = `Effective ${dateText}: New Rate ${ra.newRate}%${ra.isGenerated ? ' (ARM reset: index + margin)' : ''}`;
         
         currentPage.drawText(displayText, {
           x: margin + 15, y: currentY - (index * 18),
@@ -495,17 +668,24 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
     currentY -= 35;
   }
   
+  // Loans with escrow get escrow and PMI columns
+  const hasEscrow = !isPortfolio && loanData.payments.some(payment => (payment.escrow || 0) + (payment.pmi || 0) > 0);
+  
   // Table headers - Different for portfolio vs individual loans
   const tableHeaders = isPortfolio 
     ? ['#', 'Loan Name', 'Amount', 'Remaining', 'Monthly', 'Rate', 'Start Date', 'Payoff Date']
-    : ['Payment #', 'Principal', 'Interest', 'Balance', 'Date'];
-  const colWidths = isPortfolio ? [25, 95, 65, 65, 60, 45, 65, 65] : [60, 80, 80, 80, 80];
+    : hasEscrow
+      ? ['Payment #', 'Principal', 'Interest', 'Escrow', 'PMI', 'Balance', 'Date']
+      : ['Payment #', 'Principal', 'Interest', 'Balance', 'Date'];
+  const colWidths = isPortfolio ? [25, 95, 65, 65, 60, 45, 65, 65] : hasEscrow ? [60, 70, 70, 60, 50, 80, 80] : [60, 80, 80, 80, 80];
   const colPositions = isPortfolio 
     ? [margin, margin + 25, margin + 120, margin + 185, margin + 250, margin + 310, margin + 355, margin + 420]
-    : [margin, margin + 60, margin + 140, margin + 220, margin + 300];
+    : hasEscrow
+      ? [margin, margin + 60, margin + 130, margin + 200, margin + 260, margin + 310, margin + 390]
+      : [margin, margin + 60, margin + 140, margin + 220, margin + 300];
   
   // Calculate total table width
-  const tableWidth = isPortfolio ? 485 : 380; // Sum of all column widths
+  const tableWidth = isPortfolio ? 485 : hasEscrow ? 470 : 380; // Sum of all column widths
   
   // Draw table header on first page
   currentY -= 40;
@@ -574,6 +754,10 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
     let rowColor;
     if (isCurrentPayment) {
       rowColor = rgb(0.9, 0.95, 0.9); // Light green for current payment
+    } else if (!isPortfolio && payment.isBalloon) {
+      rowColor = rgb(0.93, 0.91, 0.97); // Light purple for the balloon payment
+    } else if (!isPortfolio && payment.isInterestOnly) {
+      rowColor = rgb(0.99, 0.97, 0.9); // Light yellow for interest-only payments
     } else {
       rowColor = index % 2 === 0 ? rgb(0.97, 0.98, 0.99) : rgb(1, 1, 1);
     }
@@ -596,6 +780,14 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
       `${payment.interestRate}%`, // Rate
       payment.startDate ? (() => { const [y, m, d] = payment.startDate.split('-').map(Number); return new Date(y, m - 1, d).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }); })() : 'N/A', // Start date
       payment.freedomDate ? new Date(payment.freedomDate).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) : 'N/A' // Freedom day
+    ] : hasEscrow ? [
+      (payment.number).toString(),
+      formatCurrency(payment.principal, currency),
+      formatCurrency(payment.interest, currency),
+      formatCurrency(payment.escrow || 0, currency),
+      formatCurrency(payment.pmi || 0, currency),
+      formatCurrency(payment.balance, currency),
+      payment.date
     ] : [
       (payment.number).toString(),
       formatCurrency(payment.principal, currency),
@@ -617,7 +809,12 @@ export async function generateRobustLoanPDF(loanData: LoanData, currency: Curren
       }
       
       const textSize = isPortfolio && (dataIndex === 5 || dataIndex === 6 || dataIndex === 7) ? 7 : 8; // Smaller text for rate/dates
-      const displayData = isCurrentPayment && !isPortfolio && dataIndex === 0 ? `${data} <` : data;
+      let displayData = isCurrentPayment && !isPortfolio && dataIndex === 0 ? `${data} <` : data;
+      if (!isPortfolio && payment.isInterestOnly && dataIndex === 0) {
+        displayData = `${displayData} IO`; // Mark interest-only payments
+      } else if (!isPortfolio && payment.isBalloon && dataIndex === 0) {
+        displayData = `${displayData} B`; // Mark the balloon payment
+      }
       
       currentPage.drawText(displayData, {
         x: colPositions[dataIndex] + 3, y: currentY + 5,
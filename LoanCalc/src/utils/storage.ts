@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AmortizationType, ArmConfig, CompoundingFrequency, CreditCardConfig, CreditLineConfig, DayCountConvention, EscrowConfig, GraduatedPaymentConfig, InterestMethod, LoanFees, PaymentDeferral, PaymentFrequency, PrepaymentPolicy } from './loanCalculations';
 
 export type Loan = {
     id: string;
@@ -7,9 +8,29 @@ export type Loan = {
     interestRate: number;
     term: number;
     termUnit: 'months' | 'years';
+    paymentFrequency?: PaymentFrequency; // Defaults to monthly for loans saved before frequencies existed
+    interestOnlyMonths?: number; // Interest-only months at the start of the loan
+    amortizationMonths?: number; // Amortization period for balloon loans (longer than the term)
+    dayCountConvention?: DayCountConvention; // Defaults to periodic interest for older loans
+    compoundingFrequency?: CompoundingFrequency; // Defaults to compounding once per payment for older loans
+    amortizationType?: AmortizationType; // Defaults to level payments for older loans
+    interestMethod?: InterestMethod; // Defaults to simple interest for older loans
+    graduated?: GraduatedPaymentConfig; // Stepped payments instead of a level payment
+    arm?: ArmConfig; // Adjustable-rate terms that generate rate changes from an index
+    fees?: LoanFees; // Upfront fees, points and recurring fees
+    escrow?: EscrowConfig; // Property tax, insurance, HOA and PMI collected with each payment
+    deferrals?: PaymentDeferral[]; // Payment holidays, deferrals and forbearance
+    creditLine?: CreditLineConfig; // Revolving credit line (HELOC); the amount is the credit limit
+    creditCard?: CreditCardConfig; // Credit card; the amount is the balance on the start date and the term follows the payoff
+    prepaymentPolicy?: PrepaymentPolicy; // Yearly penalty-free allowance and penalties on early payments
+    refinancedInto?: string; // ID of the loan that replaced this one
+    refinancedFrom?: string; // ID of the loan this one refinanced
     startDate: string;
-    monthlyPayment: number;
+    monthlyPayment: number; // Payment per period at the loan's payment frequency
     totalPayment: number;
+    currentMonthlyPayment?: number; // Payment due now, from the schedule
+    remainingBalance?: number; // Balance today, from the schedule
+    freedomDate?: string | null; // Date of the final payment
     createdAt: string;
     earlyPayments?: any[];
     rateAdjustments?: any[];
@@ -159,18 +180,50 @@ export async function saveNotificationPreferences(enabled: boolean, reminderDays
     }
 }
 
+/**
+ * Get inflation and discount rates for real and present-value totals (0 when off)
+ */
+export async function getValueAdjustmentPreferences(): Promise<{ inflationRate: number; discountRate: number }> {
+    try {
+        const inflationRate = parseFloat(await AsyncStorage.getItem('@inflation_rate') || '0');
+        const discountRate = parseFloat(await AsyncStorage.getItem('@discount_rate') || '0');
+        return {
+            inflationRate: isNaN(inflationRate) ? 0 : inflationRate,
+            discountRate: isNaN(discountRate) ? 0 : discountRate
+        };
+    } catch (error) {
+        console.error('Error loading value adjustment preferences:', error);
+        return { inflationRate: 0, discountRate: 0 };
+    }
+}
+
+/**
+ * Save inflation and discount rates
+ */
+export async function saveValueAdjustmentPreferences(inflationRate: number, discountRate: number): Promise<boolean> {
+    try {
+        await AsyncStorage.setItem('@inflation_rate', inflationRate.toString());
+        await AsyncStorage.setItem('@discount_rate', discountRate.toString());
+        return true;
+    } catch (error) {
+        console.error('Error saving value adjustment preferences:', error);
+        return false;
+    }
+}
+
 export type Currency = {
     code: string;
     symbol: string;
     name: string;
     position: 'before' | 'after';
+    minorUnits?: number; // Decimal places used for amounts (defaults to 2)
 };
 
 export const CURRENCIES: Currency[] = [
     { code: 'USD', symbol: '$', name: 'US Dollar', position: 'before' },
     { code: 'EUR', symbol: '€', name: 'Euro', position: 'before' },
     { code: 'GBP', symbol: '£', name: 'British Pound', position: 'before' },
-    { code: 'JPY', symbol: '¥', name: 'Japanese Yen', position: 'before' },
+    { code: 'JPY', symbol: '¥', name: 'Japanese Yen', position: 'before', minorUnits: 0 },
     { code: 'CNY', symbol: '¥', name: 'Chinese Yuan', position: 'before' },
     { code: 'AUD', symbol: 'A$', name: 'Australian Dollar', position: 'before' },
     { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar', position: 'before' },
@@ -180,10 +233,10 @@ export const CURRENCIES: Currency[] = [
     { code: 'ZAR', symbol: 'R', name: 'South African Rand', position: 'before' },
     { code: 'SAR', symbol: '﷼', name: 'Saudi Riyal', position: 'before' },
     { code: 'AED', symbol: 'Dhs', name: 'UAE Dirham', position: 'after' },
-    { code: 'JOD', symbol: 'JD', name: 'Jordanian Dinar', position: 'after' },
+    { code: 'JOD', symbol: 'JD', name: 'Jordanian Dinar', position: 'after', minorUnits: 3 },
     { code: 'EGP', symbol: 'E£', name: 'Egyptian Pound', position: 'before' },
     { code: 'TRY', symbol: '₺', name: 'Turkish Lira', position: 'before' },
-    { code: 'KRW', symbol: '₩', name: 'South Korean Won', position: 'before' },
+    { code: 'KRW', symbol: '₩', name: 'South Korean Won', position: 'before', minorUnits: 0 },
     { code: 'MXN', symbol: 'Mex$', name: 'Mexican Peso', position: 'before' },
     { code: 'RUB', symbol: '₽', name: 'Russian Ruble', position: 'before' },
     { code: 'SEK', symbol: 'kr', name: 'Swedish Krona', position: 'after' },